@@ -117,7 +117,8 @@ describe("BusinessContextHover", () => {
       expect(result).toBeDefined();
       expect(mockMCPClient.getBusinessContext).toHaveBeenCalledWith(
         "/test/file.ts",
-        11
+        11,
+        { signal: {} }
       ); // 1-based line number
     });
 
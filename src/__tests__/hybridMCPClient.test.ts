@@ -0,0 +1,114 @@
+/**
+ * Tests for HybridMCPClient local context
+ */
+
+import axios from "axios";
+import { HybridMCPClient } from "../client/hybridMCPClient";
+import { MCP_PROTOCOL_VERSION } from "../types/extension";
+
+jest.mock("axios");
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("HybridMCPClient", () => {
+  let client: HybridMCPClient;
+  let mockAxiosInstance: jest.Mocked<any>;
+
+  const requirement = {
+    id: "REQ-1",
+    title: "Process card payments",
+    description: "Payments are authorized before capture",
+  };
+  const sprintFile = {
+    sprint: {
+      id: "sprint-7",
+      name: "Sprint 7",
+      startDate: "2026-10-12",
+      endDate: "2026-10-26",
+      teamMembers: ["ana"],
+      currentStories: ["story-2"],
+    },
+    stories: [
+      { id: "story-1", title: "Refunds" },
+      { id: "story-2", title: "Card payments" },
+    ],
+    teamPatterns: [],
+  };
+
+  const toolResult = (value: unknown, isError = false) => ({
+    content: [
+      {
+        type: "text",
+        text: typeof value === "string" ? value : JSON.stringify(value),
+      },
+    ],
+    isError,
+  });
+
+  /**
+   * Answer the handshake and the local tools with the given results
+   */
+  const respondWithTools = (tools: Record<string, any>) => {
+    mockAxiosInstance.post.mockImplementation((_url: string, body: any) => {
+      if (body.method === "initialize") {
+        return Promise.resolve({
+          data: {
+            jsonrpc: "2.0",
+            result: {
+              protocolVersion: MCP_PROTOCOL_VERSION,
+              capabilities: {},
+              serverInfo: { name: "aidm-mcp-server", version: "test" },
+            },
+            id: body.id,
+          },
+          headers: { "mcp-session-id": "session-1" },
+        });
+      }
+      if (body.method === "notifications/initialized") {
+        return Promise.resolve({ data: "" });
+      }
+      return Promise.resolve({
+        data: {
+          jsonrpc: "2.0",
+          result: tools[body.params.name],
+          id: body.id,
+        },
+      });
+    });
+  };
+
+  beforeEach(() => {
+    mockAxiosInstance = { post: jest.fn(), get: jest.fn() };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    client = new HybridMCPClient(3001, 1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("combines the sprint file with the business context", async () => {
+    respondWithTools({
+      get_sprint_context: toolResult(sprintFile),
+      get_business_context: toolResult({ requirements: [requirement] }),
+    });
+
+    const context = await client.getProjectContext("src/pay.ts", 1, 10);
+
+    expect(context.sprintDetails.name).toBe("Sprint 7");
+    expect(context.storyContext.title).toBe("Card payments");
+    expect(context.businessRequirements).toEqual([requirement]);
+  });
+
+  it("keeps the business context without a sprint file", async () => {
+    respondWithTools({
+      get_sprint_context: toolResult("Sprint file not found", true),
+      get_business_context: toolResult({ requirements: [requirement] }),
+    });
+
+    const context = await client.getProjectContext("src/pay.ts", 1, 10);
+
+    expect(context.sprintDetails.id).toBe("fallback-sprint");
+    expect(context.businessRequirements).toEqual([requirement]);
+  });
+});
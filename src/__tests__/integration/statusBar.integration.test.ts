@@ -141,7 +141,7 @@ describe("StatusBarManager Integration", () => {
 
       // Should have created new HTTP client with updated config
       expect(mockAxios.create).toHaveBeenCalledWith({
-        baseURL: "http://localhost:3001/rpc",
+        baseURL: "http://127.0.0.1:3001/rpc",
         timeout: 5000,
         headers: {
           "Content-Type": "application/json",
@@ -4,7 +4,7 @@
 
 import axios from "axios";
 import { MCPClient } from "../client/mcpClient";
-import { ErrorCode } from "../types/extension";
+import { ErrorCode, MCP_PROTOCOL_VERSION } from "../types/extension";
 
 // Mock axios
 jest.mock("axios");
@@ -14,6 +14,35 @@ describe("MCPClient", () => {
   let mcpClient: MCPClient;
   let mockAxiosInstance: jest.Mocked<any>;
 
+  const initializeResponse = {
+    data: {
+      jsonrpc: "2.0",
+      result: {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: { name: "aidm-mcp-server", version: "test" },
+      },
+      id: 1,
+    },
+    headers: { "mcp-session-id": "session-1" },
+  };
+  const sessionConfig = { headers: { "mcp-session-id": "session-1" } };
+
+  /**
+   * Answer the initialize handshake, then reply to everything else with response
+   */
+  const respondAfterHandshake = (response: any) => {
+    mockAxiosInstance.post.mockImplementation((_url: string, body: any) => {
+      if (body.method === "initialize") {
+        return Promise.resolve(initializeResponse);
+      }
+      if (body.method === "notifications/initialized") {
+        return Promise.resolve({ data: "" });
+      }
+      return Promise.resolve(response);
+    });
+  };
+
   beforeEach(() => {
     mockAxiosInstance = {
       post: jest.fn(),
@@ -32,7 +61,7 @@ describe("MCPClient", () => {
   describe("constructor", () => {
     it("should initialize with correct configuration", () => {
       expect(mockedAxios.create).toHaveBeenCalledWith({
-        baseURL: "http://localhost:3000/rpc",
+        baseURL: "http://127.0.0.1:3000/rpc",
         timeout: 5000,
         headers: {
           "Content-Type": "application/json",
@@ -44,7 +73,7 @@ describe("MCPClient", () => {
       new MCPClient();
 
       expect(mockedAxios.create).toHaveBeenCalledWith({
-        baseURL: "http://localhost:3001/rpc", // Changed from 3000 to 3001 since that's the actual default
+        baseURL: "http://127.0.0.1:3001/rpc", // Changed from 3000 to 3001 since that's the actual default
         timeout: 5000,
         headers: {
           "Content-Type": "application/json",
@@ -63,21 +92,25 @@ describe("MCPClient", () => {
         },
       };
 
-      mockAxiosInstance.post.mockResolvedValue(mockResponse);
+      respondAfterHandshake(mockResponse);
 
       const result = await mcpClient.callTool("test_tool", {
         param1: "value1",
       });
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith("", {
-        jsonrpc: "2.0",
-        method: "tools/call",
-        params: {
-          name: "test_tool",
-          arguments: { param1: "value1" },
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        "",
+        {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: {
+            name: "test_tool",
+            arguments: { param1: "value1" },
+          },
+          id: 2,
         },
-        id: 1,
-      });
+        sessionConfig
+      );
 
       expect(result).toEqual({ success: true });
     });
@@ -94,7 +127,7 @@ describe("MCPClient", () => {
         },
       };
 
-      mockAxiosInstance.post.mockResolvedValue(mockResponse);
+      respondAfterHandshake(mockResponse);
 
       await expect(mcpClient.callTool("test_tool", {})).rejects.toThrow(
         "MCP Server Error: Server error (Code: -32000)"
@@ -102,6 +135,47 @@ describe("MCPClient", () => {
     });
   });
 
+  describe("initialize", () => {
+    it("should perform the handshake once before tool calls", async () => {
+      respondAfterHandshake({ data: { jsonrpc: "2.0", result: {}, id: 2 } });
+
+      await mcpClient.callTool("test_tool", {});
+      await mcpClient.callTool("test_tool", {});
+
+      const methods = mockAxiosInstance.post.mock.calls.map(
+        (call: any[]) => call[1].method
+      );
+      expect(methods).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "tools/call",
+        "tools/call",
+      ]);
+      expect(mockAxiosInstance.post.mock.calls[0][1].params).toMatchObject({
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        clientInfo: { name: "aidm-vscode-extension" },
+      });
+      expect(mcpClient.getServerCapabilities()).toEqual({
+        tools: { listChanged: false },
+      });
+    });
+
+    it("should reject servers speaking an unsupported protocol version", async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          jsonrpc: "2.0",
+          result: { protocolVersion: "1999-01-01", capabilities: {} },
+          id: 1,
+        },
+      });
+
+      await expect(mcpClient.callTool("test_tool", {})).rejects.toMatchObject({
+        code: ErrorCode.CONNECTION_FAILED,
+        message: "Unsupported MCP protocol version: 1999-01-01",
+      });
+    });
+  });
+
   describe("getBusinessContext", () => {
     it("should call the correct tool with proper parameters", async () => {
       const mockResponse = {
@@ -112,23 +186,27 @@ describe("MCPClient", () => {
         },
       };
 
-      mockAxiosInstance.post.mockResolvedValue(mockResponse);
+      respondAfterHandshake(mockResponse);
 
       const result = await mcpClient.getBusinessContext("/test/file.ts", 10);
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith("", {
-        jsonrpc: "2.0",
-        method: "tools/call",
-        params: {
-          name: "get_business_context",
-          arguments: {
-            filePath: "/test/file.ts",
-            startLine: 10,
-            endLine: 10,
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        "",
+        {
+          jsonrpc: "2.0",
+          method: "tools/call",
+          params: {
+            name: "get_business_context",
+            arguments: {
+              filePath: "/test/file.ts",
+              startLine: 10,
+              endLine: 10,
+            },
           },
+          id: 2,
         },
-        id: 1,
-      });
+        sessionConfig
+      );
 
       expect(result).toEqual({ context: "test" });
     });
@@ -165,6 +243,91 @@ describe("MCPClient", () => {
     });
   });
 
+  describe("cancellation", () => {
+    /**
+     * Answer the handshake and hold tools/call until its signal aborts
+     */
+    const holdToolCalls = () => {
+      let posted!: () => void;
+      const toolCallPosted = new Promise<void>((resolve) => (posted = resolve));
+      mockAxiosInstance.post.mockImplementation(
+        (_url: string, body: any, config?: any) => {
+          if (body.method === "initialize") {
+            return Promise.resolve(initializeResponse);
+          }
+          if (body.method !== "tools/call") {
+            return Promise.resolve({ data: "" });
+          }
+          posted();
+          return new Promise((_resolve, reject) =>
+            config.signal.addEventListener("abort", () =>
+              reject(new Error("canceled"))
+            )
+          );
+        }
+      );
+      return toolCallPosted;
+    };
+
+    it("should abort the request and notify the server", async () => {
+      const toolCallPosted = holdToolCalls();
+      const controller = new AbortController();
+
+      const call = mcpClient.callTool("slow_tool", {}, {
+        signal: controller.signal,
+      });
+      await toolCallPosted;
+      controller.abort();
+
+      await expect(call).rejects.toMatchObject({
+        code: ErrorCode.CANCELLED,
+        message: "Request cancelled",
+      });
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        "",
+        {
+          jsonrpc: "2.0",
+          method: "notifications/cancelled",
+          params: { requestId: 2, reason: "Cancelled by the client" },
+        },
+        sessionConfig
+      );
+    });
+
+    it("should accept a VS Code cancellation token", async () => {
+      const toolCallPosted = holdToolCalls();
+      let cancel!: () => void;
+      const token = {
+        isCancellationRequested: false,
+        onCancellationRequested: jest.fn((listener: (e: any) => any) => {
+          cancel = () => listener(undefined);
+          return { dispose: jest.fn() };
+        }),
+      };
+
+      const call = mcpClient.callTool("slow_tool", {}, { signal: token });
+      await toolCallPosted;
+      cancel();
+
+      await expect(call).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+    });
+
+    it("should not send a request that is already cancelled", async () => {
+      respondAfterHandshake({ data: { jsonrpc: "2.0", result: {}, id: 2 } });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        mcpClient.callTool("test_tool", {}, { signal: controller.signal })
+      ).rejects.toMatchObject({ code: ErrorCode.CANCELLED });
+      expect(mockAxiosInstance.post).not.toHaveBeenCalledWith(
+        "",
+        expect.objectContaining({ method: "tools/call" }),
+        expect.anything()
+      );
+    });
+  });
+
   describe("error handling", () => {
     it("should handle connection refused errors", async () => {
       const connectionError = new Error("Connection refused") as any;
@@ -209,7 +372,7 @@ describe("MCPClient", () => {
       mcpClient.updateConfig(4000, 10000);
 
       expect(mockedAxios.create).toHaveBeenCalledWith({
-        baseURL: "http://localhost:4000/rpc",
+        baseURL: "http://127.0.0.1:4000/rpc",
         timeout: 10000,
         headers: {
           "Content-Type": "application/json",
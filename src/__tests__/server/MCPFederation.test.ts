@@ -0,0 +1,148 @@
+/**
+ * Unit Tests for MCP federation
+ * Mounts a real upstream SimpleMCPServer behind a gateway server
+ */
+
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+
+describe("MCP federation", () => {
+  let upstream: SimpleMCPServer;
+  let gateway: SimpleMCPServer;
+  let upstreamUrl: string;
+  let requestId = 1;
+
+  const call = (method: string, params?: any) =>
+    gateway.processJSONRPC({
+      jsonrpc: "2.0",
+      method,
+      params,
+      id: requestId++,
+    });
+
+  beforeEach(async () => {
+    upstream = new SimpleMCPServer(0, undefined, undefined, undefined, {
+      authToken: "upstream-secret",
+    });
+    upstream.registerTool(
+      "delivery_patterns",
+      "Team delivery patterns",
+      {
+        type: "object",
+        properties: { team: { type: "string" } },
+        required: ["team"],
+      },
+      (args) => ({ team: args.team, cadence: "weekly" })
+    );
+    upstream.registerTool("stall", "Never answers", { type: "object" }, () =>
+      new Promise(() => undefined)
+    );
+    await upstream.start();
+    upstreamUrl = `http://127.0.0.1:${upstream.getPort()}/rpc`;
+
+    gateway = new SimpleMCPServer(0);
+  });
+
+  afterEach(async () => {
+    await gateway.stop();
+    await upstream.stop();
+  });
+
+  it("lists upstream tools under the upstream's namespace", async () => {
+    gateway.registerTool("local_tool", "Local", { type: "object" }, () => 1);
+    await gateway.mountUpstreams([
+      { name: "remote", url: upstreamUrl, apiKey: "upstream-secret" },
+    ]);
+
+    const response = await call("tools/list");
+    const names = response.result.tools.map((tool: any) => tool.name);
+
+    expect(names).toEqual(
+      expect.arrayContaining([
+        "local_tool",
+        "remote.delivery_patterns",
+        "remote.stall",
+      ])
+    );
+    expect(
+      response.result.tools.find(
+        (tool: any) => tool.name === "remote.delivery_patterns"
+      ).inputSchema.required
+    ).toEqual(["team"]);
+  });
+
+  it("forwards calls and returns the upstream content as is", async () => {
+    await gateway.mountUpstreams([
+      { name: "remote", url: upstreamUrl, apiKey: "upstream-secret" },
+    ]);
+
+    const response = await call("tools/call", {
+      name: "remote.delivery_patterns",
+      arguments: { team: "payments" },
+    });
+
+    expect(response.result.isError).toBeUndefined();
+    expect(JSON.parse(response.result.content[0].text)).toEqual({
+      team: "payments",
+      cadence: "weekly",
+    });
+  });
+
+  it("validates arguments against the upstream schema before forwarding", async () => {
+    await gateway.mountUpstreams([
+      { name: "remote", url: upstreamUrl, apiKey: "upstream-secret" },
+    ]);
+
+    const response = await call("tools/call", {
+      name: "remote.delivery_patterns",
+      arguments: {},
+    });
+
+    expect(response.error?.message).toContain(
+      "Invalid arguments for remote.delivery_patterns"
+    );
+  });
+
+  it("gives up on slow upstreams after their timeout", async () => {
+    await gateway.mountUpstreams([
+      {
+        name: "remote",
+        url: upstreamUrl,
+        apiKey: "upstream-secret",
+        timeout: 200,
+      },
+    ]);
+
+    const response = await call("tools/call", {
+      name: "remote.stall",
+      arguments: {},
+    });
+
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain(
+      "tools/call on remote timed out after 200ms"
+    );
+  });
+
+  it("mounts nothing from upstreams that reject the credentials", async () => {
+    await gateway.mountUpstreams([
+      { name: "remote", url: upstreamUrl, apiKey: "wrong" },
+    ]);
+
+    const response = await call("tools/list");
+    expect(
+      response.result.tools.some((tool: any) => tool.name.startsWith("remote."))
+    ).toBe(false);
+  });
+
+  it("removes upstream tools when the upstreams are replaced", async () => {
+    await gateway.mountUpstreams([
+      { name: "remote", url: upstreamUrl, apiKey: "upstream-secret" },
+    ]);
+    await gateway.mountUpstreams([]);
+
+    const response = await call("tools/list");
+    expect(
+      response.result.tools.some((tool: any) => tool.name.startsWith("remote."))
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,308 @@
+/**
+ * Unit Tests for ProcessManager crash supervision
+ * Replaces the forked server process with a scripted fake to drive crashes,
+ * missed health probes and backoff timing
+ */
+
+import { EventEmitter } from "events";
+import { fork } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ProcessManager, ServerHealth } from "../../server/ProcessManager";
+import { ConnectionStatus } from "../../types/extension";
+
+jest.mock("child_process", () => ({ fork: jest.fn() }));
+
+class FakeServerProcess extends EventEmitter {
+  pid = 4242;
+  connected = true;
+  exitCode: number | null = null;
+  signalCode: string | null = null;
+  answerProbes = true;
+  boundPort?: number; // Simulates a fallback when set
+  sent: any[] = [];
+
+  send = jest.fn((message: any, callback?: (error: Error | null) => void) => {
+    this.sent.push(message);
+    Promise.resolve().then(() => this.respond(message));
+    callback?.(null);
+    return true;
+  });
+
+  kill = jest.fn((signal: string = "SIGTERM") => {
+    this.exit(null, signal);
+    return true;
+  });
+
+  exit(code: number | null, signal: string | null = null): void {
+    if (this.exitCode !== null || this.signalCode !== null) {
+      return;
+    }
+    this.exitCode = code;
+    this.signalCode = signal;
+    this.connected = false;
+    this.emit("exit", code, signal);
+  }
+
+  private respond(message: any): void {
+    switch (message.type) {
+      case "start":
+        this.emit("message", {
+          type: "ready",
+          port: this.boundPort ?? message.config.port,
+        });
+        break;
+      case "probe":
+        if (this.answerProbes) {
+          this.emit("message", {
+            type: "probeResult",
+            id: message.id,
+            stats: { isRunning: true, methods: [] },
+            memoryUsage: { rss: 1 },
+          });
+        }
+        break;
+      case "stop":
+        this.exit(0);
+        break;
+    }
+  }
+}
+
+describe("ProcessManager supervision", () => {
+  let processes: FakeServerProcess[];
+  let manager: ProcessManager;
+  let statuses: Array<{ status: ConnectionStatus; health: ServerHealth }>;
+
+  const latest = () => processes[processes.length - 1];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    processes = [];
+    (fork as jest.Mock).mockImplementation(() => {
+      const child = new FakeServerProcess();
+      processes.push(child);
+      return child;
+    });
+
+    manager = new ProcessManager({
+      port: 3005,
+      retryAttempts: 2,
+      healthCheckInterval: 1000,
+    });
+    statuses = [];
+    manager.onStatusChange((status, health) =>
+      statuses.push({ status, health })
+    );
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it("runs the server in a child process", async () => {
+    await manager.start();
+
+    expect(fork).toHaveBeenCalledWith(
+      expect.stringMatching(/mcp-server-host\.js$/),
+      [],
+      { execArgv: [] }
+    );
+    expect(latest().sent[0]).toEqual(
+      expect.objectContaining({
+        type: "start",
+        config: expect.objectContaining({ port: 3005 }),
+      })
+    );
+    expect(statuses.map((entry) => entry.status)).toEqual([
+      ConnectionStatus.Connecting,
+      ConnectionStatus.Connected,
+    ]);
+    expect(manager.getStats()).toEqual(
+      expect.objectContaining({ isRunning: true, pid: 4242, restartCount: 0 })
+    );
+  });
+
+  it("restarts with exponential backoff and gives up after retryAttempts", async () => {
+    await manager.start();
+
+    latest().exit(1);
+    expect(manager.getHealth()).toEqual(
+      expect.objectContaining({
+        state: "restarting",
+        lastFailure: "MCP server exited with code 1",
+      })
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processes).toHaveLength(2);
+    expect(manager.getHealth()).toEqual(
+      expect.objectContaining({ state: "running", restartCount: 1 })
+    );
+
+    latest().exit(null, "SIGSEGV");
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(processes).toHaveLength(2);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(processes).toHaveLength(3);
+
+    latest().exit(1);
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(processes).toHaveLength(3);
+    expect(manager.getHealth()).toEqual(
+      expect.objectContaining({ state: "failed", restartCount: 2 })
+    );
+    expect(statuses[statuses.length - 1].status).toBe(ConnectionStatus.Error);
+  });
+
+  it("kills and restarts a server that stops answering health probes", async () => {
+    await manager.start();
+    const unresponsive = latest();
+    unresponsive.answerProbes = false;
+
+    // One probe goes out, then stays unanswered for two more intervals
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(unresponsive.kill).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(unresponsive.kill).toHaveBeenCalledWith("SIGKILL");
+    expect(manager.getHealth().lastFailure).toBe(
+      "MCP server stopped answering health probes"
+    );
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(processes).toHaveLength(2);
+    expect(manager.getStatus()).toBe("running");
+  });
+
+  it("does not restart a server that was stopped on purpose", async () => {
+    await manager.start();
+
+    await manager.stop();
+    await jest.advanceTimersByTimeAsync(60000);
+
+    expect(processes).toHaveLength(1);
+    expect(manager.getHealth()).toEqual(
+      expect.objectContaining({ state: "stopped", lastFailure: undefined })
+    );
+  });
+
+  it("publishes the fallback port and a discovery file until stopped", async () => {
+    const workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-pm-"));
+    const discoveryPath = path.join(workspaceRoot, ".aidm", "mcp.json");
+    manager = new ProcessManager({
+      port: 3005,
+      workspaceRoot,
+      security: { authToken: "secret" },
+    });
+    const ports: number[] = [];
+    manager.onPortChange((port) => ports.push(port));
+    (fork as jest.Mock).mockImplementationOnce(() => {
+      const child = new FakeServerProcess();
+      child.boundPort = 41234;
+      processes.push(child);
+      return child;
+    });
+
+    try {
+      await manager.start();
+
+      expect(ports).toEqual([41234]);
+      expect(manager.getActualPort()).toBe(41234);
+      expect(JSON.parse(fs.readFileSync(discoveryPath, "utf8"))).toEqual({
+        url: "http://127.0.0.1:41234/rpc",
+        port: 41234,
+        pid: 4242,
+        token: "secret",
+        startedAt: expect.any(String),
+      });
+
+      await manager.stop();
+      expect(fs.existsSync(discoveryPath)).toBe(false);
+    } finally {
+      fs.rmSync(workspaceRoot, { recursive: true, force: true });
+    }
+  });
+
+  it("restarts on the port clients already use", async () => {
+    (fork as jest.Mock).mockImplementationOnce(() => {
+      const child = new FakeServerProcess();
+      child.boundPort = 41234;
+      processes.push(child);
+      return child;
+    });
+    await manager.start();
+
+    latest().exit(1);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(latest().sent[0].config.port).toBe(41234);
+  });
+
+  it("serves contributed tools from the extension host", async () => {
+    const handler = jest.fn().mockResolvedValue({ ok: true });
+    manager.registerTool("echo", "Echo", { type: "object" }, handler);
+    await manager.start();
+
+    expect(latest().sent).toContainEqual({
+      type: "registerTool",
+      tool: {
+        name: "echo",
+        description: "Echo",
+        inputSchema: { type: "object" },
+      },
+    });
+
+    latest().emit("message", {
+      type: "callTool",
+      callId: 7,
+      name: "echo",
+      args: { text: "hi" },
+    });
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(handler).toHaveBeenCalledWith(
+      { text: "hi" },
+      expect.objectContaining({ signal: expect.any(AbortSignal) })
+    );
+    expect(latest().sent).toContainEqual({
+      type: "toolResult",
+      callId: 7,
+      result: { ok: true },
+    });
+  });
+
+  it("aborts contributed tool calls the server cancelled", async () => {
+    let signal!: AbortSignal;
+    manager.registerTool(
+      "slow",
+      "Slow",
+      { type: "object" },
+      (_args, context) => {
+        signal = context.signal;
+        context.reportProgress(1, 2, "Halfway");
+        return new Promise(() => undefined);
+      }
+    );
+    await manager.start();
+
+    latest().emit("message", {
+      type: "callTool",
+      callId: 9,
+      name: "slow",
+      args: {},
+    });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(latest().sent).toContainEqual({
+      type: "toolProgress",
+      callId: 9,
+      progress: 1,
+      total: 2,
+      message: "Halfway",
+    });
+
+    latest().emit("message", { type: "cancelTool", callId: 9 });
+    expect(signal.aborted).toBe(true);
+  });
+});
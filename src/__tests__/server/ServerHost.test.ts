@@ -0,0 +1,64 @@
+/**
+ * Unit Tests for ServerHost
+ * Drives the child-process side of ProcessManager directly, without IPC
+ */
+
+import * as net from "net";
+import { ServerHost, ServerHostEvent } from "../../server/ServerHost";
+
+describe("ServerHost", () => {
+  let events: ServerHostEvent[];
+  let host: ServerHost;
+  let blocker: net.Server;
+  let takenPort: number;
+
+  beforeEach(async () => {
+    events = [];
+    host = new ServerHost((event) => events.push(event));
+
+    blocker = net.createServer();
+    await new Promise<void>((resolve) =>
+      blocker.listen(0, "127.0.0.1", resolve)
+    );
+    takenPort = (blocker.address() as net.AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await host.handleMessage({ type: "stop" });
+    await new Promise((resolve) => blocker.close(resolve));
+  });
+
+  it("falls back to a free port when the configured one is taken", async () => {
+    await host.handleMessage({
+      type: "start",
+      config: { port: takenPort, options: {} },
+    });
+
+    const ready = events.find((event) => event.type === "ready") as any;
+    expect(ready).toEqual({ type: "ready", port: expect.any(Number) });
+    expect(ready.port).not.toBe(takenPort);
+
+    const response = await fetch(`http://127.0.0.1:${ready.port}/rpc`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 1 }),
+    });
+    expect((await response.json()).result).toBe("pong");
+  });
+
+  it("answers health probes with server stats", async () => {
+    await host.handleMessage({
+      type: "start",
+      config: { port: 0, options: {} },
+    });
+    await host.handleMessage({ type: "probe", id: 3 });
+
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "probeResult",
+        id: 3,
+        stats: expect.objectContaining({ isRunning: true }),
+      })
+    );
+  });
+});
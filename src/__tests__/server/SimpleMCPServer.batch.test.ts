@@ -0,0 +1,100 @@
+/**
+ * Unit Tests for SimpleMCPServer JSON-RPC batch handling
+ * Covers mixed batches, notification-only batches and the HTTP transport
+ */
+
+import { AddressInfo } from "net";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { JSONRPCErrorCode } from "../../types/extension";
+
+describe("SimpleMCPServer batches", () => {
+  let server: SimpleMCPServer;
+
+  beforeEach(() => {
+    server = new SimpleMCPServer(0);
+  });
+
+  it("answers each request in a batch and skips notifications", async () => {
+    const responses = await server.handleMessage([
+      { jsonrpc: "2.0", method: "ping", id: 1 },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", method: "unknown/method", id: 2 },
+      { jsonrpc: "2.0", method: "tools/list", id: 3 },
+    ]);
+
+    expect(Array.isArray(responses)).toBe(true);
+    const byId = Object.fromEntries(
+      (responses as any[]).map((response) => [response.id, response])
+    );
+    expect(Object.keys(byId)).toEqual(["1", "2", "3"]);
+    expect(byId[1].result).toBe("pong");
+    expect(byId[2].error.code).toBe(JSONRPCErrorCode.METHOD_NOT_FOUND);
+    expect(byId[3].result.tools).toEqual([]);
+  });
+
+  it("returns nothing for a batch of notifications", async () => {
+    const responses = await server.handleMessage([
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", method: "ping" },
+    ]);
+
+    expect(responses).toBeNull();
+  });
+
+  it("rejects an empty batch and invalid entries", async () => {
+    const empty = await server.handleMessage([]);
+    expect(empty).toEqual(
+      expect.objectContaining({
+        id: null,
+        error: expect.objectContaining({
+          code: JSONRPCErrorCode.INVALID_REQUEST,
+        }),
+      })
+    );
+
+    const invalid = (await server.handleMessage([1, { foo: "bar" }])) as any[];
+    expect(invalid).toHaveLength(2);
+    invalid.forEach((response) =>
+      expect(response.error.code).toBe(JSONRPCErrorCode.INVALID_REQUEST)
+    );
+  });
+
+  describe("over HTTP", () => {
+    let endpoint: string;
+
+    const post = (body: any) =>
+      fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(async () => {
+      await server.start();
+      const address = (server as any).server.address() as AddressInfo;
+      endpoint = `http://127.0.0.1:${address.port}/jsonrpc`;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("returns an array of responses", async () => {
+      const response = await post([
+        { jsonrpc: "2.0", method: "ping", id: "a" },
+        { jsonrpc: "2.0", method: "ping", id: "b" },
+      ]);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.map((entry: any) => entry.id).sort()).toEqual(["a", "b"]);
+    });
+
+    it("answers notification-only batches with 202", async () => {
+      const response = await post([{ jsonrpc: "2.0", method: "ping" }]);
+
+      expect(response.status).toBe(202);
+      expect(await response.text()).toBe("");
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Unit Tests for request cancellation and progress notifications
+ * Covers notifications/cancelled, aborted tool handlers and tasks/refresh progress
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MCPSession, SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { ToolCallContext } from "../../server/ToolRegistry";
+import { JSONTaskParser } from "../../services/JSONTaskParser";
+import { MCP_PROTOCOL_VERSION } from "../../types/extension";
+
+describe("SimpleMCPServer cancellation and progress", () => {
+  let tempDir: string;
+  let server: SimpleMCPServer;
+  let session: MCPSession;
+
+  /**
+   * Register a tool that runs until its signal aborts
+   */
+  const registerSlowTool = () => {
+    const contexts: ToolCallContext[] = [];
+    server.registerTool(
+      "slow",
+      "Never finishes",
+      { type: "object" },
+      (_args, context) => {
+        contexts.push(context);
+        return new Promise((_resolve, reject) =>
+          context.signal.addEventListener("abort", () =>
+            reject(new Error("aborted"))
+          )
+        );
+      }
+    );
+    return contexts;
+  };
+
+  const callSlowTool = (id: number | string, signal?: AbortSignal) =>
+    server.handleMessage(
+      {
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name: "slow", arguments: {} },
+        id,
+      },
+      session,
+      signal
+    );
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-cancel-"));
+    const tasksFilePath = path.join(tempDir, "tasks.json");
+    fs.writeFileSync(
+      tasksFilePath,
+      JSON.stringify({
+        master: {
+          tasks: [
+            { id: "1", title: "Set up project", status: "completed" },
+            { id: "2", title: "Build parser", status: "pending" },
+          ],
+        },
+      })
+    );
+
+    server = new SimpleMCPServer(
+      0,
+      undefined,
+      new JSONTaskParser(),
+      tasksFilePath
+    );
+    session = server.createSession();
+    session.send = jest.fn();
+    await server.processJSONRPC(
+      {
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: {
+          protocolVersion: MCP_PROTOCOL_VERSION,
+          capabilities: {},
+          clientInfo: { name: "test-client", version: "1.0.0" },
+        },
+        id: 0,
+      },
+      session
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("aborts the handler on notifications/cancelled and sends no response", async () => {
+    const contexts = registerSlowTool();
+    const pending = callSlowTool(7);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(contexts).toHaveLength(1);
+
+    const ack = await server.handleMessage(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 7, reason: "User moved on" },
+      },
+      session
+    );
+
+    expect(ack).toBeNull();
+    expect(contexts[0].signal.aborted).toBe(true);
+    expect(await pending).toBeNull();
+    expect(server.getServerStats().activeRequests).toBe(0);
+  });
+
+  it("only cancels requests of the same session", async () => {
+    const contexts = registerSlowTool();
+    const pending = callSlowTool(7);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const other = server.createSession();
+    await server.handleMessage(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 7 },
+      },
+      other
+    );
+    expect(contexts[0].signal.aborted).toBe(false);
+
+    await server.handleMessage(
+      {
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: 7 },
+      },
+      session
+    );
+    expect(await pending).toBeNull();
+  });
+
+  it("aborts the handler when the transport's caller goes away", async () => {
+    const contexts = registerSlowTool();
+    const disconnected = new AbortController();
+    const pending = callSlowTool("hover-1", disconnected.signal);
+    await new Promise((resolve) => setImmediate(resolve));
+
+    disconnected.abort();
+
+    expect(await pending).toBeNull();
+    expect(contexts[0].signal.aborted).toBe(true);
+  });
+
+  it("emits progress for tasks/refresh when the caller sends a progress token", async () => {
+    const response = await server.processJSONRPC(
+      {
+        jsonrpc: "2.0",
+        method: "tasks/refresh",
+        params: { _meta: { progressToken: "refresh-1" } },
+        id: 8,
+      },
+      session
+    );
+
+    expect(response.result.count).toBe(2);
+    expect(session.send).toHaveBeenCalledTimes(2);
+    expect(session.send).toHaveBeenNthCalledWith(1, {
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: {
+        progressToken: "refresh-1",
+        progress: 0,
+        total: 1,
+        message: "Reading tasks file",
+      },
+    });
+    expect(session.send).toHaveBeenNthCalledWith(2, {
+      jsonrpc: "2.0",
+      method: "notifications/progress",
+      params: {
+        progressToken: "refresh-1",
+        progress: 1,
+        total: 1,
+        message: "Loaded 2 tasks",
+      },
+    });
+  });
+
+  it("sends no progress without a progress token", async () => {
+    await server.processJSONRPC(
+      { jsonrpc: "2.0", method: "tasks/refresh", id: 9 },
+      session
+    );
+
+    expect(session.send).not.toHaveBeenCalled();
+  });
+});
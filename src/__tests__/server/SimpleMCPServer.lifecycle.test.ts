@@ -0,0 +1,160 @@
+/**
+ * Unit Tests for the SimpleMCPServer initialize lifecycle
+ * Covers version negotiation, per-session state and HTTP session headers
+ */
+
+import { AddressInfo } from "net";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import {
+  JSONRPCErrorCode,
+  MCP_PROTOCOL_VERSION,
+} from "../../types/extension";
+
+describe("SimpleMCPServer lifecycle", () => {
+  let server: SimpleMCPServer;
+
+  const initialize = (protocolVersion: string, id: number = 1) => ({
+    jsonrpc: "2.0" as const,
+    method: "initialize",
+    params: {
+      protocolVersion,
+      capabilities: {},
+      clientInfo: { name: "test-client", version: "1.0.0" },
+    },
+    id,
+  });
+
+  beforeEach(() => {
+    server = new SimpleMCPServer(0);
+  });
+
+  describe("processJSONRPC", () => {
+    it("negotiates the protocol version and reports server info", async () => {
+      const session = server.createSession();
+
+      const response = await server.processJSONRPC(
+        initialize("2024-11-05"),
+        session
+      );
+
+      expect(response.result).toEqual({
+        protocolVersion: "2024-11-05",
+        capabilities: { tools: { listChanged: true } },
+        serverInfo: expect.objectContaining({ name: "aidm-mcp-server" }),
+      });
+      expect(session.protocolVersion).toBe("2024-11-05");
+      expect(session.clientInfo?.name).toBe("test-client");
+    });
+
+    it("offers its latest version for unknown client versions", async () => {
+      const response = await server.processJSONRPC(
+        initialize("2030-01-01"),
+        server.createSession()
+      );
+
+      expect(response.result.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    });
+
+    it("rejects requests before initialize except ping", async () => {
+      const session = server.createSession();
+
+      const ping = await server.processJSONRPC(
+        { jsonrpc: "2.0", method: "ping", id: 1 },
+        session
+      );
+      expect(ping.result).toBe("pong");
+
+      const tools = await server.processJSONRPC(
+        { jsonrpc: "2.0", method: "tools/list", id: 2 },
+        session
+      );
+      expect(tools.error?.code).toBe(JSONRPCErrorCode.INVALID_REQUEST);
+    });
+
+    it("marks the session ready and refuses a second initialize", async () => {
+      const session = server.createSession();
+      await server.processJSONRPC(initialize(MCP_PROTOCOL_VERSION), session);
+      await server.processJSONRPC(
+        { jsonrpc: "2.0", method: "notifications/initialized" } as any,
+        session
+      );
+      expect(session.initialized).toBe(true);
+
+      const again = await server.processJSONRPC(
+        initialize(MCP_PROTOCOL_VERSION, 2),
+        session
+      );
+      expect(again.error?.code).toBe(JSONRPCErrorCode.INVALID_REQUEST);
+    });
+
+    it("requires a protocolVersion", async () => {
+      const response = await server.processJSONRPC({
+        jsonrpc: "2.0",
+        method: "initialize",
+        params: {},
+        id: 1,
+      });
+
+      expect(response.error?.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+    });
+  });
+
+  describe("HTTP sessions", () => {
+    let endpoint: string;
+
+    const post = (body: any, sessionId?: string) =>
+      fetch(endpoint, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+        },
+        body: JSON.stringify(body),
+      });
+
+    beforeEach(async () => {
+      await server.start();
+      const address = (server as any).server.address() as AddressInfo;
+      endpoint = `http://127.0.0.1:${address.port}/rpc`;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("assigns a session on initialize and ends it on DELETE", async () => {
+      const initResponse = await post(initialize(MCP_PROTOCOL_VERSION));
+      const sessionId = initResponse.headers.get("mcp-session-id");
+      expect(sessionId).toBeTruthy();
+      expect(server.getSessionCount()).toBe(1);
+
+      const notified = await post(
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        sessionId!
+      );
+      expect(notified.status).toBe(202);
+
+      const tools = await post(
+        { jsonrpc: "2.0", method: "tools/list", id: 2 },
+        sessionId!
+      );
+      expect((await tools.json()).result.tools).toEqual([]);
+
+      const deleted = await fetch(endpoint, {
+        method: "DELETE",
+        headers: { "Mcp-Session-Id": sessionId! },
+      });
+      expect(deleted.status).toBe(204);
+      expect(server.getSessionCount()).toBe(0);
+    });
+
+    it("answers unknown sessions with 404", async () => {
+      const response = await post(
+        { jsonrpc: "2.0", method: "tools/list", id: 1 },
+        "missing-session"
+      );
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
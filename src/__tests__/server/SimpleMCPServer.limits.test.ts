@@ -0,0 +1,205 @@
+/**
+ * Unit Tests for SimpleMCPServer request limits and metrics
+ * Covers the concurrency cap, queue, handler timeout, body size limit and latency stats
+ */
+
+import { AddressInfo } from "net";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { RequestMetrics } from "../../server/RequestMetrics";
+import { JSONRPCErrorCode } from "../../types/extension";
+
+describe("SimpleMCPServer limits", () => {
+  const listTools = (id: number) =>
+    ({ jsonrpc: "2.0", method: "tools/list", id } as const);
+
+  /**
+   * Make tools/list requests wait until release() is called
+   */
+  const holdRequests = (server: SimpleMCPServer) => {
+    const waiting: Array<() => void> = [];
+    const original = (server as any).executeRequest.bind(server);
+    jest
+      .spyOn(server as any, "executeRequest")
+      .mockImplementation((...args: any[]) =>
+        args[0].method === "tools/list"
+          ? new Promise((resolve) =>
+              waiting.push(() => resolve(original(...args)))
+            )
+          : original(...args)
+      );
+    return {
+      release: () => waiting.splice(0).forEach((resume) => resume()),
+      get count() {
+        return waiting.length;
+      },
+    };
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("caps concurrent requests, queues the rest and rejects when full", async () => {
+    const server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+      maxConcurrentRequests: 2,
+      maxQueuedRequests: 1,
+    });
+    const held = holdRequests(server);
+
+    const pending = [1, 2, 3].map((id) =>
+      server.processJSONRPC(listTools(id))
+    );
+    const rejected = await server.processJSONRPC(listTools(4));
+    await Promise.resolve();
+
+    expect(rejected.error?.code).toBe(JSONRPCErrorCode.SERVER_BUSY);
+    expect(held.count).toBe(2);
+    expect(server.getServerStats()).toEqual(
+      expect.objectContaining({
+        activeRequests: 2,
+        queuedRequests: 1,
+        rejectedRequests: 1,
+      })
+    );
+
+    held.release();
+    await new Promise((resolve) => setImmediate(resolve));
+    held.release();
+
+    const responses = await Promise.all(pending);
+    expect(responses.map((response) => response.result)).toEqual([
+      { tools: [] },
+      { tools: [] },
+      { tools: [] },
+    ]);
+    expect(server.getServerStats()).toEqual(
+      expect.objectContaining({
+        activeRequests: 0,
+        queuedRequests: 0,
+        totalRequestsProcessed: 3,
+      })
+    );
+  });
+
+  it("times out slow handlers and frees their slot", async () => {
+    const server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+      maxConcurrentRequests: 1,
+      requestTimeout: 20,
+    });
+    holdRequests(server);
+
+    const response = await server.processJSONRPC(listTools(1));
+
+    expect(response.error?.code).toBe(JSONRPCErrorCode.REQUEST_TIMEOUT);
+    expect(server.getServerStats()).toEqual(
+      expect.objectContaining({ activeRequests: 0, timedOutRequests: 1 })
+    );
+  });
+
+  it("records per-method latency", async () => {
+    const server = new SimpleMCPServer(0);
+
+    await server.processJSONRPC(listTools(1));
+    await server.processJSONRPC({ jsonrpc: "2.0", method: "nope", id: 2 });
+
+    const methods = server.getServerStats().methods;
+    expect(methods.map((m) => m.method).sort()).toEqual([
+      "nope",
+      "tools/list",
+    ]);
+    expect(methods.find((m) => m.method === "nope")?.errors).toBe(1);
+  });
+
+  it("answers pings while every slot is taken", async () => {
+    const server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+      maxConcurrentRequests: 1,
+      maxQueuedRequests: 0,
+    });
+    const held = holdRequests(server);
+    const pending = server.processJSONRPC(listTools(1));
+
+    const busy = await server.processJSONRPC(listTools(2));
+    expect(busy.error?.code).toBe(JSONRPCErrorCode.SERVER_BUSY);
+
+    const ping = await server.processJSONRPC({
+      jsonrpc: "2.0",
+      method: "ping",
+      id: 3,
+    });
+    expect(ping.result).toBe("pong");
+
+    held.release();
+    await pending;
+  });
+
+  it("ignores invalid concurrency settings", () => {
+    const server = new SimpleMCPServer(0);
+
+    server.updateConfiguration({ maxConcurrentRequests: 20 });
+    server.updateConfiguration({ maxConcurrentRequests: 0 });
+
+    expect(server.getServerStats().maxConcurrentRequests).toBe(20);
+  });
+
+  describe("over HTTP", () => {
+    let server: SimpleMCPServer;
+    let endpoint: string;
+
+    beforeEach(async () => {
+      server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+        maxBodyBytes: 256,
+      });
+      await server.start();
+      const address = (server as any).server.address() as AddressInfo;
+      endpoint = `http://127.0.0.1:${address.port}/rpc`;
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("rejects oversized bodies with 413", async () => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          ...listTools(1),
+          params: { pad: "x".repeat(500) },
+        }),
+      });
+
+      expect(response.status).toBe(413);
+      expect(server.getServerStats().rejectedRequests).toBe(1);
+    });
+
+    it("accepts bodies within the limit", async () => {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(listTools(1)),
+      });
+
+      expect((await response.json()).result).toEqual({ tools: [] });
+    });
+  });
+});
+
+describe("RequestMetrics", () => {
+  it("reports nearest-rank percentiles over the recent window", () => {
+    const metrics = new RequestMetrics(100);
+    for (let duration = 1; duration <= 200; duration++) {
+      metrics.record("tools/call", duration, duration % 50 !== 0);
+    }
+
+    expect(metrics.getMethodStats()).toEqual([
+      {
+        method: "tools/call",
+        count: 200,
+        errors: 4,
+        p50: 150,
+        p95: 195,
+        p99: 199,
+      },
+    ]);
+  });
+});
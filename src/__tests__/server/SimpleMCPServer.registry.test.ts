@@ -0,0 +1,151 @@
+/**
+ * Unit Tests for the MCP tool registry
+ * Covers registration, JSON Schema argument validation and list_changed notifications
+ */
+
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { ToolArgumentsError, ToolRegistry } from "../../server/ToolRegistry";
+import { validateAgainstSchema } from "../../server/JSONSchemaValidator";
+import { JSONRPCErrorCode } from "../../types/extension";
+
+const ECHO_SCHEMA = {
+  type: "object",
+  properties: {
+    message: { type: "string", minLength: 1 },
+    repeat: { type: "integer", minimum: 1, maximum: 5 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["message"],
+  additionalProperties: false,
+};
+
+describe("SimpleMCPServer tool registry", () => {
+  let server: SimpleMCPServer;
+
+  const callTool = (name: string, args: any) =>
+    server.processJSONRPC({
+      jsonrpc: "2.0",
+      method: "tools/call",
+      params: { name, arguments: args },
+      id: "registry-test",
+    });
+
+  beforeEach(() => {
+    server = new SimpleMCPServer(0);
+  });
+
+  it("lists and runs registered tools", async () => {
+    server.registerTool("echo", "Echo a message", ECHO_SCHEMA, (args) =>
+      args.message.repeat(args.repeat ?? 1)
+    );
+
+    const list = await server.processJSONRPC({
+      jsonrpc: "2.0",
+      method: "tools/list",
+      id: 1,
+    });
+    expect(list.result.tools).toEqual([
+      { name: "echo", description: "Echo a message", inputSchema: ECHO_SCHEMA },
+    ]);
+
+    const response = await callTool("echo", { message: "hi", repeat: 2 });
+    expect(response.result.content[0].text).toBe('"hihi"');
+  });
+
+  it("rejects invalid arguments with every schema violation", async () => {
+    const handler = jest.fn();
+    server.registerTool("echo", "Echo a message", ECHO_SCHEMA, handler);
+
+    const response = await callTool("echo", {
+      repeat: 1.5,
+      tags: ["a", 2],
+      extra: true,
+    });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(response.error?.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+    expect(response.error?.message).toContain("Invalid arguments for echo");
+    expect(response.error?.data).toEqual({
+      tool: "echo",
+      errors: [
+        { path: "message", message: "message is required" },
+        { path: "repeat", message: "repeat must be of type integer" },
+        { path: "tags[1]", message: "tags[1] must be of type string" },
+        { path: "extra", message: "extra is not allowed" },
+      ],
+    });
+  });
+
+  it("reports ToolArgumentsError from handlers as invalid params", async () => {
+    server.registerTool("echo", "Echo a message", ECHO_SCHEMA, () => {
+      throw new ToolArgumentsError("bad message", [
+        { path: "message", message: "message is reserved" },
+      ]);
+    });
+
+    const response = await callTool("echo", { message: "admin" });
+
+    expect(response.error?.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+    expect(response.error?.data.errors).toEqual([
+      { path: "message", message: "message is reserved" },
+    ]);
+  });
+
+  it("removes disposed tools and notifies sessions", async () => {
+    const session = server.createSession();
+    session.send = jest.fn();
+
+    const registration = server.registerTool(
+      "echo",
+      "Echo a message",
+      ECHO_SCHEMA,
+      jest.fn()
+    );
+    registration.dispose();
+
+    expect(session.send).toHaveBeenCalledTimes(2);
+    expect(session.send).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      method: "notifications/tools/list_changed",
+    });
+    const response = await callTool("echo", { message: "hi" });
+    expect(response.error?.message).toBe("Unknown tool: echo");
+  });
+});
+
+describe("ToolRegistry", () => {
+  it("rejects duplicate names, invalid names and non-object schemas", () => {
+    const registry = new ToolRegistry();
+    registry.register("echo", "Echo", ECHO_SCHEMA, jest.fn());
+
+    expect(() =>
+      registry.register("echo", "Echo", ECHO_SCHEMA, jest.fn())
+    ).toThrow("already registered");
+    expect(() =>
+      registry.register("has space", "Echo", ECHO_SCHEMA, jest.fn())
+    ).toThrow("Invalid tool name");
+    expect(() =>
+      registry.register("list", "List", { type: "array" }, jest.fn())
+    ).toThrow("must be of type object");
+  });
+});
+
+describe("validateAgainstSchema", () => {
+  it("checks enums and combinators", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        status: { enum: ["open", "done"] },
+        id: { oneOf: [{ type: "string" }, { type: "integer" }] },
+      },
+    };
+
+    expect(validateAgainstSchema(schema, { status: "open", id: 3 })).toEqual(
+      []
+    );
+    expect(validateAgainstSchema(schema, { status: "late", id: 1.5 })).toEqual([
+      { path: "status", message: 'status must be one of "open", "done"' },
+      { path: "id", message: "id must match exactly one allowed schema" },
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Unit Tests for SimpleMCPServer resources/* methods
+ * Reads and subscribes to task resources backed by a temporary tasks.json
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MCPSession, SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { JSONTaskParser } from "../../services/JSONTaskParser";
+import {
+  JSONRPCErrorCode,
+  MCP_PROTOCOL_VERSION,
+} from "../../types/extension";
+
+describe("SimpleMCPServer resources", () => {
+  let tempDir: string;
+  let tasksFilePath: string;
+  let server: SimpleMCPServer;
+  let session: MCPSession;
+  let requestId = 1;
+
+  const call = (method: string, params?: any) =>
+    server.processJSONRPC(
+      { jsonrpc: "2.0", method, params, id: requestId++ },
+      session
+    );
+
+  const writeTasks = (data: any) =>
+    fs.writeFileSync(tasksFilePath, JSON.stringify(data, null, 2));
+
+  beforeEach(async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-resources-"));
+    tasksFilePath = path.join(tempDir, "tasks.json");
+    writeTasks({
+      master: {
+        tasks: [
+          { id: "1", title: "Set up project", status: "completed" },
+          { id: "2", title: "Build parser", status: "pending" },
+        ],
+      },
+      "feature-x": {
+        tasks: [{ id: "3", title: "Feature work", status: "pending" }],
+      },
+    });
+
+    server = new SimpleMCPServer(
+      0,
+      undefined,
+      new JSONTaskParser(),
+      tasksFilePath
+    );
+    session = server.createSession();
+    session.send = jest.fn();
+    await call("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "test-client", version: "1.0.0" },
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists contexts and tasks as resources", async () => {
+    const response = await call("resources/list");
+
+    expect(response.result.resources.map((r: any) => r.uri)).toEqual([
+      "aidm://tasks/context/master",
+      "aidm://tasks/context/feature-x",
+      "aidm://tasks/1",
+      "aidm://tasks/2",
+      "aidm://tasks/feature-x%3A3",
+    ]);
+  });
+
+  it("leaves schemaVersion out of the context resources", async () => {
+    writeTasks({
+      schemaVersion: 2,
+      master: { tasks: [{ id: "1", title: "Set up project" }] },
+    });
+    await server.notifyTasksUpdated();
+
+    const response = await call("resources/list");
+
+    expect(response.result.resources.map((r: any) => r.uri)).toEqual([
+      "aidm://tasks/context/master",
+      "aidm://tasks/1",
+    ]);
+  });
+
+  it("lists the task and context templates", async () => {
+    const response = await call("resources/templates/list");
+
+    expect(
+      response.result.resourceTemplates.map((t: any) => t.uriTemplate)
+    ).toEqual(["aidm://tasks/{id}", "aidm://tasks/context/{name}"]);
+  });
+
+  it("reads a task and a context", async () => {
+    const task = await call("resources/read", { uri: "aidm://tasks/2" });
+    expect(JSON.parse(task.result.contents[0].text).title).toBe(
+      "Build parser"
+    );
+
+    const context = await call("resources/read", {
+      uri: "aidm://tasks/context/feature-x",
+    });
+    const contents = JSON.parse(context.result.contents[0].text);
+    expect(contents.context).toBe("feature-x");
+    expect(contents.tasks.map((t: any) => t.id)).toEqual(["feature-x:3"]);
+
+    const contextTask = await call("resources/read", {
+      uri: "aidm://tasks/feature-x:3",
+    });
+    expect(JSON.parse(contextTask.result.contents[0].text).title).toBe(
+      "Feature work"
+    );
+  });
+
+  it("reports unknown resources", async () => {
+    const response = await call("resources/read", { uri: "aidm://tasks/99" });
+
+    expect(response.error?.code).toBe(JSONRPCErrorCode.RESOURCE_NOT_FOUND);
+  });
+
+  it("notifies subscribers only about resources that changed", async () => {
+    await call("resources/subscribe", { uri: "aidm://tasks/2" });
+    await call("resources/subscribe", { uri: "aidm://tasks/1" });
+
+    writeTasks({
+      master: {
+        tasks: [
+          { id: "1", title: "Set up project", status: "completed" },
+          { id: "2", title: "Build parser", status: "in_progress" },
+        ],
+      },
+      "feature-x": {
+        tasks: [{ id: "3", title: "Feature work", status: "pending" }],
+      },
+    });
+    await server.notifyTasksUpdated();
+
+    expect(session.send).toHaveBeenCalledTimes(1);
+    expect(session.send).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      method: "notifications/resources/updated",
+      params: { uri: "aidm://tasks/2" },
+    });
+  });
+
+  it("announces list changes and stops after unsubscribe", async () => {
+    await call("resources/subscribe", { uri: "aidm://tasks/3" });
+    await call("resources/unsubscribe", { uri: "aidm://tasks/3" });
+
+    writeTasks({ master: { tasks: [{ id: "1", title: "Only task" }] } });
+    await server.notifyTasksUpdated();
+
+    expect(session.send).toHaveBeenCalledTimes(1);
+    expect(session.send).toHaveBeenCalledWith({
+      jsonrpc: "2.0",
+      method: "notifications/resources/list_changed",
+    });
+  });
+
+  it("requires a session to subscribe", async () => {
+    const response = await server.processJSONRPC({
+      jsonrpc: "2.0",
+      method: "resources/subscribe",
+      params: { uri: "aidm://tasks/1" },
+      id: 1,
+    });
+
+    expect(response.error?.code).toBe(JSONRPCErrorCode.INVALID_REQUEST);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Unit Tests for SimpleMCPServer request security
+ * Covers the loopback bind, bearer token, Origin checks and the IP whitelist
+ */
+
+import { AddressInfo } from "net";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { RequestGuard } from "../../server/RequestGuard";
+
+describe("SimpleMCPServer security", () => {
+  const token = "test-token";
+  let server: SimpleMCPServer;
+  let endpoint: string;
+
+  const ping = (headers: Record<string, string> = {}) =>
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 1 }),
+    });
+
+  beforeEach(async () => {
+    server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+      authToken: token,
+      allowedOrigins: ["http://localhost:5173"],
+    });
+    await server.start();
+    const address = (server as any).server.address() as AddressInfo;
+    endpoint = `http://127.0.0.1:${address.port}/rpc`;
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("binds to loopback by default", () => {
+    const address = (server as any).server.address() as AddressInfo;
+
+    expect(address.address).toBe("127.0.0.1");
+  });
+
+  it("requires the bearer token", async () => {
+    const missing = await ping();
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe("Bearer");
+
+    const wrong = await ping({ Authorization: "Bearer not-the-token" });
+    expect(wrong.status).toBe(401);
+
+    const valid = await ping({ Authorization: `Bearer ${token}` });
+    expect(valid.status).toBe(200);
+    expect((await valid.json()).result).toBe("pong");
+  });
+
+  it("rejects browser origins that are not allow-listed", async () => {
+    const blocked = await ping({
+      Authorization: `Bearer ${token}`,
+      Origin: "https://evil.example",
+    });
+    expect(blocked.status).toBe(403);
+
+    const allowed = await ping({
+      Authorization: `Bearer ${token}`,
+      Origin: "http://localhost:5173",
+    });
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "http://localhost:5173"
+    );
+  });
+
+  it("answers allow-listed preflight requests without a token", async () => {
+    const response = await fetch(endpoint, {
+      method: "OPTIONS",
+      headers: { Origin: "http://localhost:5173" },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("access-control-allow-headers")).toContain(
+      "Authorization"
+    );
+  });
+});
+
+describe("RequestGuard", () => {
+  it("applies the IP whitelist on non-loopback binds", () => {
+    const guard = new RequestGuard({
+      host: "0.0.0.0",
+      ipWhitelist: ["10.0.0.0/8", "192.168.1.20", "fd00::/8", "not-a-cidr"],
+    });
+
+    expect(guard.isAddressAllowed("10.1.2.3")).toBe(true);
+    expect(guard.isAddressAllowed("::ffff:10.1.2.3")).toBe(true);
+    expect(guard.isAddressAllowed("192.168.1.20")).toBe(true);
+    expect(guard.isAddressAllowed("fd12::1")).toBe(true);
+    expect(guard.isAddressAllowed("192.168.1.21")).toBe(false);
+    expect(guard.isAddressAllowed("127.0.0.1")).toBe(true);
+    expect(guard.isAddressAllowed(undefined)).toBe(false);
+  });
+
+  it("ignores the whitelist on loopback binds", () => {
+    const guard = new RequestGuard({ ipWhitelist: ["10.0.0.0/8"] });
+
+    expect(guard.getHost()).toBe("127.0.0.1");
+    expect(guard.isAddressAllowed("192.168.1.21")).toBe(true);
+  });
+
+  it("allows everything without a token or allow-list configured", () => {
+    const guard = new RequestGuard();
+
+    expect(guard.isAuthorized(undefined)).toBe(true);
+    expect(guard.isOriginAllowed(undefined)).toBe(true);
+    expect(guard.isOriginAllowed("https://evil.example")).toBe(false);
+  });
+});
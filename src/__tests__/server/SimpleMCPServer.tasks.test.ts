@@ -0,0 +1,346 @@
+/**
+ * Unit Tests for SimpleMCPServer tasks/* JSON-RPC methods
+ * Exercises the methods against a temporary nested-contexts tasks.json
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { JSONTaskParser } from "../../services/JSONTaskParser";
+import { JSONRPCErrorCode } from "../../types/extension";
+import { TaskStatus } from "../../types/tasks";
+
+describe("SimpleMCPServer tasks/* methods", () => {
+  let tempDir: string;
+  let tasksFilePath: string;
+  let server: SimpleMCPServer;
+  let requestId = 1;
+
+  const call = (method: string, params?: any) =>
+    (server as any).processJSONRPC({
+      jsonrpc: "2.0",
+      method,
+      params,
+      id: requestId++,
+    });
+
+  const readFile = () => JSON.parse(fs.readFileSync(tasksFilePath, "utf-8"));
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-tasks-"));
+    tasksFilePath = path.join(tempDir, "tasks.json");
+    fs.writeFileSync(
+      tasksFilePath,
+      JSON.stringify(
+        {
+          master: {
+            tasks: [
+              {
+                id: "1",
+                title: "Set up project",
+                description: "Foundation work",
+                status: "completed",
+                dependencies: [],
+              },
+              {
+                id: "2",
+                title: "Build parser",
+                description: "Parse the backlog",
+                status: "pending",
+                priority: "high",
+                dependencies: ["1"],
+                testStatus: {
+                  totalTests: 4,
+                  passedTests: 3,
+                  failedTests: 1,
+                  status: "failing",
+                },
+              },
+            ],
+            metadata: { projectName: "Demo" },
+          },
+        },
+        null,
+        2
+      )
+    );
+
+    server = new SimpleMCPServer(
+      0,
+      undefined,
+      new JSONTaskParser(),
+      tasksFilePath
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists tasks from the workspace file", async () => {
+    const response = await call("tasks/list");
+
+    expect(response.error).toBeUndefined();
+    expect(response.result.count).toBe(2);
+    expect(response.result.tasks.map((t: any) => t.id)).toEqual(["1", "2"]);
+    expect(JSON.parse(response.result.content[0].text).tasks).toHaveLength(2);
+  });
+
+  it("gets a task by id and reports missing tasks", async () => {
+    const found = await call("tasks/get", { id: "2" });
+    expect(found.result.task.title).toBe("Build parser");
+
+    const missing = await call("tasks/get", { id: "99" });
+    expect(missing.error.code).toBe(JSONRPCErrorCode.TASK_NOT_FOUND);
+
+    const invalid = await call("tasks/get", {});
+    expect(invalid.error.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+  });
+
+  it("persists status updates to the file", async () => {
+    const response = await call("tasks/update-status", {
+      id: "2",
+      newStatus: TaskStatus.IN_PROGRESS,
+    });
+
+    expect(response.result.success).toBe(true);
+    expect(response.result.task.status).toBe(TaskStatus.IN_PROGRESS);
+    expect(readFile().master.tasks[1].status).toBe("in-progress");
+    expect(readFile().master.metadata).toEqual({ projectName: "Demo" });
+  });
+
+  it("rejects unknown statuses", async () => {
+    const response = await call("tasks/update-status", {
+      id: "2",
+      newStatus: "finished",
+    });
+
+    expect(response.error.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+  });
+
+  it("resolves dependencies and test results", async () => {
+    const dependencies = await call("tasks/dependencies", { id: "2" });
+    expect(dependencies.result.tasks.map((t: any) => t.id)).toEqual(["1"]);
+
+    const testResults = await call("tasks/test-results", { id: "2" });
+    expect(testResults.result.testResults.failedTests).toBe(1);
+  });
+
+  it("creates and deletes tasks", async () => {
+    const created = await call("tasks/create", {
+      updates: { title: "Write docs" },
+    });
+    expect(created.result.task.id).toBe("3");
+    expect(readFile().master.tasks).toHaveLength(3);
+
+    const duplicate = await call("tasks/create", {
+      updates: { id: "3", title: "Again" },
+    });
+    expect(duplicate.error.code).toBe(JSONRPCErrorCode.TASK_CONFLICT);
+
+    const deleted = await call("tasks/delete", { id: "3" });
+    expect(deleted.result.success).toBe(true);
+    expect(readFile().master.tasks).toHaveLength(2);
+  });
+
+  it("creates tasks in the first context of an upgraded file", async () => {
+    fs.writeFileSync(
+      tasksFilePath,
+      JSON.stringify({ schemaVersion: 2, ...readFile() }, null, 2)
+    );
+
+    const created = await call("tasks/create", {
+      updates: { title: "Write docs" },
+    });
+
+    expect(created.result.task.id).toBe("3");
+    expect(readFile().schemaVersion).toBe(2);
+    expect(readFile().master.tasks.map((t: any) => t.id)).toEqual([
+      "1",
+      "2",
+      "3",
+    ]);
+  });
+
+  it("adds tasks without reformatting the file", async () => {
+    const original = [
+      "{",
+      '\t"master": {',
+      '\t\t"tasks": [',
+      '\t\t\t{ "id": 1, "title": "Set up project", "status": "completed" },',
+      '\t\t\t{ "id": 2, "title": "Build parser", "x-owner": "platform" }',
+      "\t\t],",
+      '\t\t"metadata": { "projectName": "Demo" }',
+      "\t}",
+      "}",
+      "",
+    ].join("\n");
+    fs.writeFileSync(tasksFilePath, original);
+
+    const created = await call("tasks/create", {
+      updates: { title: "Write docs" },
+    });
+
+    expect(created.result.task.id).toBe("3");
+    const entry = readFile().master.tasks[2];
+    expect(entry.id).toBe(3);
+    const lastTask = '"x-owner": "platform" }';
+    expect(fs.readFileSync(tasksFilePath, "utf-8")).toBe(
+      original.replace(
+        lastTask,
+        `${lastTask},\n\t\t\t` +
+          JSON.stringify(entry, null, "\t").replace(/\n/g, "\n\t\t\t")
+      )
+    );
+  });
+
+  it("searches with filters and free text", async () => {
+    const response = await call("tasks/search", {
+      filters: { status: [TaskStatus.NOT_STARTED] },
+      query: "parser",
+    });
+
+    expect(response.result.tasks.map((t: any) => t.id)).toEqual(["2"]);
+  });
+
+  it("exports tasks as csv", async () => {
+    const response = await call("tasks/export", { format: "csv" });
+
+    expect(response.result.format).toBe("csv");
+    expect(response.result.data.split("\n")[0]).toBe(
+      "id,title,status,priority,assignee,dependencies"
+    );
+  });
+
+  it("picks up external edits on refresh", async () => {
+    await call("tasks/list");
+    const data = readFile();
+    data.master.tasks.push({ id: "5", title: "Added outside", status: "todo" });
+    fs.writeFileSync(tasksFilePath, JSON.stringify(data));
+
+    const refresh = await call("tasks/refresh");
+    expect(refresh.result.count).toBe(3);
+  });
+
+  it("renders task prompts", async () => {
+    const list = await call("prompts/list");
+    expect(list.result.prompts.map((p: any) => p.name)).toContain(
+      "fix_failing_tests"
+    );
+
+    const prompt = await call("prompts/get", {
+      name: "fix_failing_tests",
+      arguments: { taskId: "2" },
+    });
+    const text = prompt.result.messages[0].content.text;
+    expect(text).toContain("# Task 2: Build parser");
+    expect(text).toContain("1 of 4 tests failing");
+    expect(text).toContain("- 1: Set up project");
+
+    const missing = await call("prompts/get", {
+      name: "review_task",
+      arguments: { taskId: "99" },
+    });
+    expect(missing.error.code).toBe(JSONRPCErrorCode.TASK_NOT_FOUND);
+
+    const unknown = await call("prompts/get", {
+      name: "write_poem",
+      arguments: { taskId: "2" },
+    });
+    expect(unknown.error.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+  });
+
+  it("answers a malformed tasks file with an internal error per request", async () => {
+    fs.writeFileSync(tasksFilePath, '{ "master": { "tasks": [ }');
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    const responses = (await server.handleMessage([
+      { jsonrpc: "2.0", method: "tasks/list", id: 1 },
+      { jsonrpc: "2.0", method: "ping", id: 2 },
+    ])) as any[];
+
+    const byId = Object.fromEntries(
+      responses.map((response) => [response.id, response])
+    );
+    expect(byId[1].error.code).toBe(JSONRPCErrorCode.INTERNAL_ERROR);
+    expect(byId[2].result).toBe("pong");
+  });
+
+  it("reports an unavailable task source", async () => {
+    server = new SimpleMCPServer(0);
+
+    const response = await call("tasks/list");
+    expect(response.error.code).toBe(JSONRPCErrorCode.TASK_SOURCE_UNAVAILABLE);
+  });
+
+  describe("tasks.yaml and tasks.md files", () => {
+    const useTasksFile = (name: string, content: string) => {
+      tasksFilePath = path.join(tempDir, name);
+      fs.writeFileSync(tasksFilePath, content);
+      server = new SimpleMCPServer(
+        0,
+        undefined,
+        new JSONTaskParser(),
+        tasksFilePath
+      );
+    };
+
+    it("reads and edits tasks.yaml in place", async () => {
+      useTasksFile(
+        "tasks.yaml",
+        [
+          "master:",
+          "  tasks:",
+          "    - id: 1",
+          "      title: Set up project # first",
+          "      status: completed",
+          "    - id: 2",
+          "      title: Build parser",
+          "      status: pending",
+          "      dependencies: [1]",
+          "",
+        ].join("\n")
+      );
+
+      const list = await call("tasks/list");
+      expect(list.result.tasks.map((t: any) => t.title)).toEqual([
+        "Set up project",
+        "Build parser",
+      ]);
+
+      const updated = await call("tasks/update-status", {
+        id: "2",
+        newStatus: TaskStatus.IN_PROGRESS,
+      });
+      expect(updated.result.task.status).toBe(TaskStatus.IN_PROGRESS);
+
+      const created = await call("tasks/create", {
+        updates: { title: "Write docs" },
+      });
+      expect(created.result.task.id).toBe("3");
+
+      const content = fs.readFileSync(tasksFilePath, "utf-8");
+      expect(content).toContain("      title: Set up project # first\n");
+      expect(content).toContain("      status: in_progress\n");
+      expect(content).toContain("title: Write docs");
+    });
+
+    it("reads tasks.md", async () => {
+      useTasksFile(
+        "tasks.md",
+        [
+          "# Tasks",
+          "",
+          "- [x] 1 Set up project",
+          "- [ ] 2 Build parser",
+          "",
+        ].join("\n")
+      );
+
+      const list = await call("tasks/list");
+      expect(list.result.tasks.map((t: any) => t.id)).toEqual(["1", "2"]);
+      expect(list.result.tasks[0].status).toBe(TaskStatus.COMPLETED);
+    });
+  });
+});
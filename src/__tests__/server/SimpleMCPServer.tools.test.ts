@@ -0,0 +1,129 @@
+/**
+ * Unit Tests for SimpleMCPServer tools/list and tools/call
+ * Backs get_business_context with a ContextManager over a real MockCache file
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { ContextManager } from "../../server/ContextManager";
+import { MockCache } from "../../server/MockCache";
+import { MockDataProvider } from "../../mock/MockDataProvider";
+import { JSONRPCErrorCode } from "../../types/extension";
+
+describe("SimpleMCPServer tools", () => {
+  let tempDir: string;
+  let contextManager: ContextManager;
+  let server: SimpleMCPServer;
+
+  const call = (method: string, params?: any) =>
+    (server as any).processJSONRPC({
+      jsonrpc: "2.0",
+      method,
+      params,
+      id: "tools-test",
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-tools-"));
+    fs.mkdirSync(path.join(tempDir, ".aidm"));
+    fs.writeFileSync(
+      path.join(tempDir, ".aidm", "mock-cache.json"),
+      JSON.stringify({
+        "src/payments/PaymentService.ts": {
+          "10-25": {
+            requirements: [{ id: "REQ-101", title: "Process refunds" }],
+            implementationStatus: { completionPercentage: 60 },
+            relatedChanges: [],
+            lastUpdated: "2024-06-01",
+          },
+        },
+      })
+    );
+
+    const mockCache = new MockCache(tempDir);
+    mockCache.load();
+    contextManager = new ContextManager(new MockDataProvider(), mockCache);
+    server = new SimpleMCPServer(0, contextManager);
+  });
+
+  afterEach(async () => {
+    await contextManager.shutdown();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("lists get_business_context with its input schema", async () => {
+    const response = await call("tools/list");
+
+    expect(response.result.tools).toEqual([
+      expect.objectContaining({
+        name: "get_business_context",
+        inputSchema: expect.objectContaining({
+          required: ["filePath", "startLine"],
+        }),
+      }),
+    ]);
+  });
+
+  it("returns cached business context for a covered line", async () => {
+    const response = await call("tools/call", {
+      name: "get_business_context",
+      arguments: {
+        filePath: "src/payments/PaymentService.ts",
+        startLine: 12,
+        endLine: 12,
+      },
+    });
+
+    const context = JSON.parse(response.result.content[0].text);
+    expect(response.result.isError).toBeUndefined();
+    expect(context.requirements[0].id).toBe("REQ-101");
+  });
+
+  it("returns an empty context for uncovered lines", async () => {
+    const response = await call("tools/call", {
+      name: "get_business_context",
+      arguments: { filePath: "src/other.ts", startLine: 3 },
+    });
+
+    const context = JSON.parse(response.result.content[0].text);
+    expect(context.requirements).toEqual([]);
+  });
+
+  it("rejects unknown tools and invalid arguments", async () => {
+    const unknown = await call("tools/call", {
+      name: "does_not_exist",
+      arguments: {},
+    });
+    expect(unknown.error.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+
+    const invalid = await call("tools/call", {
+      name: "get_business_context",
+      arguments: { filePath: "src/a.ts", startLine: 0 },
+    });
+    expect(invalid.error.code).toBe(JSONRPCErrorCode.INVALID_PARAMS);
+    expect(invalid.error.message).toContain("startLine");
+  });
+
+  it("reports handler failures as isError results", async () => {
+    jest
+      .spyOn(contextManager, "getBusinessContext")
+      .mockRejectedValueOnce(new Error("cache exploded"));
+
+    const response = await call("tools/call", {
+      name: "get_business_context",
+      arguments: { filePath: "src/a.ts", startLine: 1 },
+    });
+
+    expect(response.result.isError).toBe(true);
+    expect(response.result.content[0].text).toContain("cache exploded");
+  });
+
+  it("exposes no tools without a context manager", async () => {
+    server = new SimpleMCPServer(0);
+
+    const response = await call("tools/list");
+    expect(response.result.tools).toEqual([]);
+  });
+});
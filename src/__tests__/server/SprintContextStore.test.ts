@@ -0,0 +1,173 @@
+/**
+ * Unit Tests for the sprint context file and its MCP tools
+ * Covers validation of .aidm/sprint.json, get_sprint_context and get_team_patterns
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import {
+  createSprintFileTemplate,
+  getSprintFilePath,
+  parseSprintFile,
+  SprintFileError,
+} from "../../server/SprintContextStore";
+
+describe("Sprint context", () => {
+  const sprintFile = {
+    sprint: {
+      id: "sprint-12",
+      name: "Checkout revamp",
+      startDate: "2026-10-12",
+      endDate: "2026-10-25",
+      currentStories: ["CHK-41"],
+    },
+    stories: [{ id: "CHK-41", title: "Save cards for later" }],
+    teamPatterns: [
+      { id: "result-types", name: "Typed results", category: "errors" },
+      { id: "small-prs", name: "Small PRs", category: "process" },
+    ],
+  };
+
+  const expectInvalid = (content: unknown, message: string) => {
+    let error: unknown;
+    try {
+      parseSprintFile(JSON.stringify(content));
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SprintFileError);
+    expect((error as SprintFileError).message).toContain(message);
+  };
+
+  describe("parseSprintFile", () => {
+    it("fills in optional fields", () => {
+      const parsed = parseSprintFile(JSON.stringify(sprintFile));
+
+      expect(parsed.sprint.teamMembers).toEqual([]);
+      expect(parsed.stories[0]).toEqual({
+        id: "CHK-41",
+        title: "Save cards for later",
+        description: "",
+        acceptanceCriteria: [],
+        businessValue: "",
+        priority: "medium",
+        status: "pending",
+      });
+      expect(parsed.teamPatterns[0].teamAdoption).toBe(1);
+    });
+
+    it("rejects malformed JSON", () => {
+      expect(() => parseSprintFile("{ sprint: ")).toThrow(SprintFileError);
+    });
+
+    it("lists schema violations", () => {
+      expectInvalid(
+        { sprint: { ...sprintFile.sprint, name: undefined } },
+        "name"
+      );
+      expectInvalid(
+        {
+          ...sprintFile,
+          teamPatterns: [{ id: "p", name: "Pattern", teamAdoption: 2 }],
+        },
+        "teamPatterns"
+      );
+    });
+
+    it("rejects sprints that end before they start", () => {
+      expectInvalid(
+        { ...sprintFile, sprint: { ...sprintFile.sprint, endDate: "2026-10-01" } },
+        "sprint.endDate must not be before sprint.startDate"
+      );
+    });
+
+    it("rejects current stories missing from the file", () => {
+      expectInvalid(
+        { ...sprintFile, stories: [] },
+        "sprint.currentStories names unknown story CHK-41"
+      );
+    });
+
+    it("accepts its own template", () => {
+      const template = createSprintFileTemplate(new Date("2026-10-19"));
+
+      expect(parseSprintFile(JSON.stringify(template))).toEqual(template);
+      expect(template.sprint.endDate).toBe("2026-11-01");
+    });
+  });
+
+  describe("MCP tools", () => {
+    let tempDir: string;
+    let sprintFilePath: string;
+    let server: SimpleMCPServer;
+    let requestId = 1;
+
+    const callTool = (name: string, args: any = {}) =>
+      server.processJSONRPC({
+        jsonrpc: "2.0",
+        method: "tools/call",
+        params: { name, arguments: args },
+        id: requestId++,
+      });
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-sprint-"));
+      sprintFilePath = getSprintFilePath(tempDir);
+      fs.mkdirSync(path.dirname(sprintFilePath));
+      server = new SimpleMCPServer(0);
+      server.serveSprintContext(sprintFilePath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("serves the sprint file through get_sprint_context", async () => {
+      fs.writeFileSync(sprintFilePath, JSON.stringify(sprintFile));
+
+      const response = await callTool("get_sprint_context");
+      const result = JSON.parse(response.result.content[0].text);
+
+      expect(result.sprint.name).toBe("Checkout revamp");
+      expect(result.stories).toHaveLength(1);
+      expect(result.teamPatterns).toHaveLength(2);
+    });
+
+    it("filters team patterns by category", async () => {
+      fs.writeFileSync(sprintFilePath, JSON.stringify(sprintFile));
+
+      const response = await callTool("get_team_patterns", {
+        category: "process",
+      });
+
+      expect(JSON.parse(response.result.content[0].text)).toEqual([
+        expect.objectContaining({ id: "small-prs" }),
+      ]);
+    });
+
+    it("points to the edit command when the file is missing", async () => {
+      const response = await callTool("get_sprint_context");
+
+      expect(response.result.isError).toBe(true);
+      expect(response.result.content[0].text).toContain(
+        "AiDM: Edit Sprint Context"
+      );
+    });
+
+    it("reports validation errors of an invalid file", async () => {
+      fs.writeFileSync(
+        sprintFilePath,
+        JSON.stringify({ ...sprintFile, stories: [] })
+      );
+
+      const response = await callTool("get_team_patterns");
+
+      expect(response.result.isError).toBe(true);
+      expect(response.result.content[0].text).toContain(
+        "unknown story CHK-41"
+      );
+    });
+  });
+});
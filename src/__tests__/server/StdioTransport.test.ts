@@ -0,0 +1,161 @@
+/**
+ * Unit Tests for StdioTransport
+ * Drives the transport with in-memory streams instead of process stdio
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { PassThrough } from "stream";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import { StdioTransport } from "../../server/StdioTransport";
+import { JSONTaskContentParser } from "../../services/JSONTaskContentParser";
+import {
+  JSONRPCErrorCode,
+  MCP_PROTOCOL_VERSION,
+} from "../../types/extension";
+
+describe("StdioTransport", () => {
+  let tempDir: string;
+  let input: PassThrough;
+  let output: PassThrough;
+  let transport: StdioTransport;
+
+  /**
+   * Write the given lines, close input and collect every response line
+   */
+  const exchange = (lines: string[]): Promise<any[]> =>
+    new Promise((resolve) => {
+      let written = "";
+      output.on("data", (chunk) => (written += chunk.toString()));
+      transport.start(() =>
+        resolve(
+          written
+            .split("\n")
+            .filter((line) => line.length > 0)
+            .map((line) => JSON.parse(line))
+        )
+      );
+      input.end(lines.join("\n") + "\n");
+    });
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-stdio-"));
+    fs.writeFileSync(
+      path.join(tempDir, "tasks.json"),
+      JSON.stringify({
+        master: { tasks: [{ id: "1", title: "First", status: "pending" }] },
+      })
+    );
+
+    const server = new SimpleMCPServer(
+      0,
+      undefined,
+      new JSONTaskContentParser(),
+      path.join(tempDir, "tasks.json")
+    );
+    input = new PassThrough();
+    output = new PassThrough();
+    transport = new StdioTransport(server, input, output);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const initialize = JSON.stringify({
+    jsonrpc: "2.0",
+    method: "initialize",
+    params: {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: { name: "test-client", version: "1.0.0" },
+    },
+    id: 0,
+  });
+
+  it("answers one response line per request", async () => {
+    const responses = await exchange([
+      initialize,
+      JSON.stringify({ jsonrpc: "2.0", method: "notifications/initialized" }),
+      JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 1 }),
+      "",
+      JSON.stringify({ jsonrpc: "2.0", method: "tasks/list", id: 2 }),
+    ]);
+
+    expect(responses).toHaveLength(3);
+    const byId = Object.fromEntries(responses.map((r) => [r.id, r]));
+    expect(byId[0].result.protocolVersion).toBe(MCP_PROTOCOL_VERSION);
+    expect(byId[1].result).toBe("pong");
+    expect(byId[2].result.tasks[0].title).toBe("First");
+  });
+
+  it("answers a batch line with one batch response line", async () => {
+    const responses = await exchange([
+      initialize,
+      JSON.stringify([
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+        { jsonrpc: "2.0", method: "ping", id: 1 },
+        { jsonrpc: "2.0", method: "tasks/list", id: 2 },
+      ]),
+    ]);
+
+    expect(responses).toHaveLength(2);
+    expect(responses[1].map((r: any) => r.id).sort()).toEqual([1, 2]);
+  });
+
+  it("rejects requests sent before initialize", async () => {
+    const responses = await exchange([
+      JSON.stringify({ jsonrpc: "2.0", method: "tasks/list", id: 1 }),
+    ]);
+
+    expect(responses[0].error.code).toBe(JSONRPCErrorCode.INVALID_REQUEST);
+  });
+
+  it("reports malformed lines as parse errors", async () => {
+    const responses = await exchange(["{not json"]);
+
+    expect(responses).toEqual([
+      expect.objectContaining({
+        id: null,
+        error: expect.objectContaining({
+          code: JSONRPCErrorCode.PARSE_ERROR,
+        }),
+      }),
+    ]);
+  });
+
+  it("answers a failing handler with an internal error and keeps serving", async () => {
+    const server = (transport as any).server as SimpleMCPServer;
+    const handleMessage = server.handleMessage.bind(server);
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    jest
+      .spyOn(server, "handleMessage")
+      .mockImplementation(async (message, session) =>
+        message.method === "tasks/list"
+          ? Promise.reject(new SyntaxError("Unexpected token"))
+          : handleMessage(message, session)
+      );
+
+    const responses = await exchange([
+      initialize,
+      JSON.stringify({ jsonrpc: "2.0", method: "tasks/list", id: 1 }),
+      JSON.stringify({ jsonrpc: "2.0", method: "ping", id: 2 }),
+    ]);
+
+    const byId = Object.fromEntries(responses.map((r) => [r.id, r]));
+    expect(byId[1].error).toEqual({
+      code: JSONRPCErrorCode.INTERNAL_ERROR,
+      message: "Internal error: Unexpected token",
+    });
+    expect(byId[2].result).toBe("pong");
+  });
+
+  it("does not answer notifications", async () => {
+    const responses = await exchange([
+      JSON.stringify({ jsonrpc: "2.0", method: "ping" }),
+    ]);
+
+    expect(responses).toEqual([]);
+  });
+});
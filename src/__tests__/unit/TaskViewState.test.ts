@@ -99,6 +99,32 @@ describe('TaskViewState', () => {
     });
   });
 
+  describe('Context Selection', () => {
+    it('should start with all contexts shown', () => {
+      expect(viewState.getContext()).toBeNull();
+    });
+
+    it('should remember the selected context across reloads', () => {
+      viewState.setContext('feature-x');
+
+      expect(new TaskViewState(context).getContext()).toBe('feature-x');
+
+      viewState.resetState();
+      expect(new TaskViewState(context).getContext()).toBeNull();
+    });
+  });
+
+  describe('Folder Selection', () => {
+    it('should remember the selected workspace folder across reloads', () => {
+      expect(viewState.getFolder()).toBeNull();
+
+      viewState.setFolder('api');
+
+      expect(new TaskViewState(context).getFolder()).toBe('api');
+      expect(new TaskViewState(context).getContext()).toBeNull();
+    });
+  });
+
   describe('State Persistence', () => {
     it('should persist state to workspace storage', () => {
       viewState.setExpandedTask('task-1');
@@ -139,7 +165,9 @@ describe('TaskViewState', () => {
       expect(summary).toEqual({
         expandedTaskId: 'task-1',
         filter: 'pending',
-        searchQuery: 'test query'
+        searchQuery: 'test query',
+        selectedContext: null,
+        selectedFolder: null
       });
     });
   });
@@ -0,0 +1,158 @@
+/**
+ * TaskWebviewController Unit Tests
+ * Task diffs patch the rendered list instead of rebuilding it
+ */
+
+import * as vscode from "vscode";
+import { TaskWebviewController } from "../../tasks/providers/TaskWebviewController";
+import { TasksDataService } from "../../services";
+import { diffTaskLists } from "../../services/TaskListDiff";
+import { Task, TaskComplexity, TaskStatus } from "../../types/tasks";
+
+describe("TaskWebviewController", () => {
+  const createTask = (id: string, fields: Partial<Task> = {}): Task => ({
+    id,
+    title: `Task ${id}`,
+    description: "Description",
+    status: TaskStatus.NOT_STARTED,
+    complexity: TaskComplexity.LOW,
+    dependencies: [],
+    requirements: [],
+    createdDate: "2026-10-01T09:00:00.000Z",
+    lastModified: "2026-10-01T09:00:00.000Z",
+    ...fields,
+  });
+
+  const flush = async () => {
+    for (let i = 0; i < 10; i++) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+  };
+
+  let tasks: Task[];
+  let service: {
+    onTasksChanged: vscode.EventEmitter<any>;
+    onError: vscode.EventEmitter<any>;
+    getTasks: jest.Mock;
+    getTaskContexts: jest.Mock;
+  };
+  let view: { webview: any };
+  let controller: TaskWebviewController;
+
+  /**
+   * Change the task list the way TasksDataService reports it
+   */
+  const changeTasks = (next: Task[]) => {
+    const diff = diffTaskLists(tasks, next);
+    tasks = next;
+    service.onTasksChanged.fire(diff);
+  };
+
+  const patches = () =>
+    view.webview.postMessage.mock.calls
+      .map(([message]: any[]) => message)
+      .filter((message: any) => message.type === "patchTasks");
+
+  beforeEach(async () => {
+    tasks = [createTask("1"), createTask("2"), createTask("3")];
+    service = {
+      onTasksChanged: new vscode.EventEmitter(),
+      onError: new vscode.EventEmitter(),
+      getTasks: jest.fn(async () => tasks),
+      getTaskContexts: jest.fn(async () => ["master"]),
+    };
+    view = {
+      webview: {
+        html: "",
+        options: {},
+        postMessage: jest.fn(async () => true),
+        onDidReceiveMessage: jest.fn(() => ({ dispose: jest.fn() })),
+      },
+    };
+    const storage = new Map<string, any>();
+    const context = {
+      extensionUri: vscode.Uri.file("/extension"),
+      workspaceState: {
+        get: (key: string, defaultValue?: unknown) =>
+          storage.get(key) ?? defaultValue,
+        update: async (key: string, value: unknown) => {
+          storage.set(key, value);
+        },
+      },
+    } as unknown as vscode.ExtensionContext;
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+    jest.spyOn(console, "log").mockImplementation(() => {});
+
+    controller = new TaskWebviewController(
+      service as unknown as TasksDataService,
+      context
+    );
+    controller.initialize(view as unknown as vscode.WebviewView);
+    await flush();
+  });
+
+  afterEach(() => {
+    controller.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it("patches the list in the order changes arrive", async () => {
+    const renderedHtml = view.webview.html;
+
+    changeTasks([
+      createTask("1"),
+      createTask("4"),
+      createTask("5"),
+      createTask("2", { title: "Renamed" }),
+      createTask("3", { status: TaskStatus.COMPLETED }),
+    ]);
+    changeTasks([
+      createTask("1"),
+      createTask("5"),
+      createTask("2", { title: "Renamed" }),
+      createTask("3", { status: TaskStatus.COMPLETED }),
+    ]);
+    await flush();
+
+    expect(view.webview.html).toBe(renderedHtml);
+    const [first, second] = patches();
+    expect(first.added.map((item: any) => [item.id, item.before])).toEqual([
+      ["4", "2"],
+      ["5", "2"],
+    ]);
+    expect(first.added[0].html).toContain('data-task-id="4"');
+    expect(first.replaced.map((item: any) => item.id)).toEqual(["3"]);
+    expect(first.removed).toEqual([]);
+    expect(first.tasks.map((task: any) => task.id)).toEqual([
+      "4",
+      "5",
+      "3",
+      "2",
+    ]);
+    expect(first.tasks[3].title).toBe("Renamed");
+    expect(second).toEqual(
+      expect.objectContaining({ removed: ["4"], added: [], replaced: [] })
+    );
+  });
+
+  it("renders again when changes arrive during a full refresh", async () => {
+    let finishLoading: () => void = () => undefined;
+    const loaded = new Promise<void>((resolve) => (finishLoading = resolve));
+    const loadedTasks = tasks;
+    service.getTasks.mockImplementationOnce(async () => {
+      await loaded;
+      return loadedTasks;
+    });
+
+    const refresh = controller.refreshContent();
+    changeTasks([...tasks, createTask("4")]);
+    await flush();
+    finishLoading();
+    await refresh;
+    await flush();
+
+    expect(patches()).toEqual([]);
+    expect(service.getTasks).toHaveBeenCalledTimes(3);
+    expect(view.webview.html).toContain('data-task-id="4"');
+  });
+});
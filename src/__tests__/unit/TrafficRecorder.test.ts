@@ -0,0 +1,194 @@
+/**
+ * Unit Tests for TrafficRecorder
+ * Records MCPClient traffic against a real server and replays it without one
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MCPClient } from "../../client/mcpClient";
+import { SimpleMCPServer } from "../../server/SimpleMCPServer";
+import {
+  RecordingFile,
+  ReplayMissError,
+  TrafficRecorder,
+} from "../../utils/TrafficRecorder";
+
+describe("TrafficRecorder", () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "aidm-recordings-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const readRecording = (
+    recorder: TrafficRecorder,
+    channel: "mcp" | "taskApi"
+  ): RecordingFile =>
+    JSON.parse(fs.readFileSync(recorder.getRecordingPath(channel), "utf8"));
+
+  describe("MCP traffic", () => {
+    let server: SimpleMCPServer;
+
+    beforeEach(async () => {
+      server = new SimpleMCPServer(0, undefined, undefined, undefined, {
+        authToken: "server-secret",
+      });
+      server.registerTool(
+        "whoami",
+        "Current user",
+        { type: "object" },
+        () => ({ email: "dana.lee@example.org", role: "developer" })
+      );
+      await server.start();
+    });
+
+    afterEach(async () => {
+      await server.stop();
+    });
+
+    it("replays a recorded session without the server", async () => {
+      const port = server.getPort();
+      const recorder = new TrafficRecorder(tempDir, "record");
+      const recordingClient = new MCPClient(
+        port,
+        5000,
+        "server-secret",
+        recorder
+      );
+      const live = await recordingClient.callTool("whoami", {});
+      await server.stop();
+
+      const replayClient = new MCPClient(
+        port,
+        5000,
+        "server-secret",
+        new TrafficRecorder(tempDir, "replay")
+      );
+      const replayed = await replayClient.callTool("whoami", {});
+
+      expect(replayed).toEqual(
+        JSON.parse(
+          JSON.stringify(live).replace(
+            "dana.lee@example.org",
+            "user@example.com"
+          )
+        )
+      );
+      expect(replayClient.getServerCapabilities()).toEqual(
+        recordingClient.getServerCapabilities()
+      );
+    });
+
+    it("redacts credentials and email addresses", async () => {
+      const recorder = new TrafficRecorder(tempDir, "record");
+      const client = new MCPClient(
+        server.getPort(),
+        5000,
+        "server-secret",
+        recorder
+      );
+      await client.callTool("whoami", {});
+
+      const content = fs.readFileSync(recorder.getRecordingPath("mcp"), "utf8");
+      expect(content).not.toContain("server-secret");
+      expect(content).not.toContain("dana.lee@example.org");
+      const methods = readRecording(recorder, "mcp").exchanges.map(
+        (exchange) => (exchange.request.body as any)?.method
+      );
+      expect(methods).toEqual([
+        "initialize",
+        "notifications/initialized",
+        "tools/call",
+      ]);
+    });
+
+    it("fails requests that were not recorded", async () => {
+      const recorder = new TrafficRecorder(tempDir, "record");
+      await new MCPClient(
+        server.getPort(),
+        5000,
+        "server-secret",
+        recorder
+      ).ping();
+
+      const replayClient = new MCPClient(
+        server.getPort(),
+        5000,
+        "server-secret",
+        new TrafficRecorder(tempDir, "replay")
+      );
+
+      await expect(replayClient.callTool("whoami", {})).rejects.toMatchObject({
+        details: expect.stringContaining("No mcp recording for POST /rpc"),
+      });
+    });
+  });
+
+  describe("fetch traffic", () => {
+    const liveFetch = jest.fn(
+      async () =>
+        new Response(
+          JSON.stringify({ tasks: [{ id: "1", assignee: "lee@corp.io" }] }),
+          {
+            status: 200,
+            statusText: "OK",
+            headers: {
+              "content-type": "application/json",
+              "set-cookie": "sid=1",
+            },
+          }
+        )
+    );
+
+    it("records redacted responses and serves them back", async () => {
+      const recorder = new TrafficRecorder(tempDir, "record");
+      const recordingFetch = recorder.wrapFetch("taskApi", liveFetch as any);
+      const live = await recordingFetch(
+        "https://api.example.com/sdlc/api/v1/tasks/user/lee%40corp.io",
+        { headers: { Authorization: "Bearer abc.def" } }
+      );
+      expect((await live.json()).tasks).toHaveLength(1);
+
+      const recording = readRecording(recorder, "taskApi");
+      expect(recording.exchanges[0].request.path).toBe(
+        "/sdlc/api/v1/tasks/user/user@example.com"
+      );
+      expect(recording.exchanges[0].response.headers).toEqual({
+        "content-type": "application/json",
+      });
+
+      const replayFetch = new TrafficRecorder(tempDir, "replay").wrapFetch(
+        "taskApi"
+      );
+      const replayed = await replayFetch(
+        "https://localhost:8443/sdlc/api/v1/tasks/user/lee%40corp.io"
+      );
+      expect(replayed.status).toBe(200);
+      expect(await replayed.json()).toEqual({
+        tasks: [{ id: "1", assignee: "user@example.com" }],
+      });
+    });
+
+    it("throws ReplayMissError for unknown requests", async () => {
+      const recorder = new TrafficRecorder(tempDir, "record");
+      await recorder.wrapFetch("taskApi", liveFetch as any)(
+        "https://api.example.com/sdlc/api/v1/health"
+      );
+
+      const replayFetch = new TrafficRecorder(tempDir, "replay").wrapFetch(
+        "taskApi"
+      );
+      await expect(
+        replayFetch("https://api.example.com/sdlc/api/v1/tasks/7/status", {
+          method: "PUT",
+          body: JSON.stringify({ status: "done" }),
+        })
+      ).rejects.toBeInstanceOf(ReplayMissError);
+    });
+  });
+});
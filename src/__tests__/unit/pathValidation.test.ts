@@ -71,13 +71,21 @@ describe("PATH-003: Tasks File Path Validation", () => {
       });
     });
 
-    it("should reject paths without .json extension", () => {
-      const invalidPaths = ["tasks", "tasks.txt", "tasks.md", "tasks.js"];
+    it("should reject paths without a tasks file extension", () => {
+      const invalidPaths = ["tasks", "tasks.txt", "tasks.csv", "tasks.js"];
 
       invalidPaths.forEach((path) => {
         const result = validateTasksFilePath(path);
         expect(result.isValid).toBe(false);
-        expect(result.error).toContain(".json extension");
+        expect(result.error).toContain(".json, .yaml, .yml or .md extension");
+      });
+    });
+
+    it("should accept YAML and markdown task files", () => {
+      ["tasks.yaml", "tasks.yml", "tasks.md", "docs/TASKS.MD"].forEach((path) => {
+        const result = validateTasksFilePath(path);
+        expect(result.isValid).toBe(true);
+        expect(result.error).toBeUndefined();
       });
     });
 
@@ -0,0 +1,248 @@
+/**
+ * JSONTaskFileWriter Unit Tests
+ * Status changes must touch only the edited values of a nested contexts file
+ */
+
+import { JSONTaskFileWriter } from "../../../services/JSONTaskFileWriter";
+import { TaskStatus } from "../../../types/tasks";
+
+describe("JSONTaskFileWriter", () => {
+  const writer = new JSONTaskFileWriter();
+  const now = new Date("2026-10-19T08:30:00.000Z");
+
+  const file = [
+    "{",
+    '  "master": {',
+    '    "tasks": [',
+    "      {",
+    '        "title": "Write parser",',
+    '        "id": 1,',
+    '        "status": "pending",',
+    '        "x-owner": "platform",',
+    '        "subtasks": [',
+    '          { "id": 1, "title": "Tokenizer", "status": "pending" },',
+    '          { "id": 2, "title": "Nodes", "status": "pending" }',
+    "        ]",
+    "      },",
+    "      {",
+    '        "id": 2,',
+    '        "title": "Write docs",',
+    '        "status": "pending",',
+    '        "lastModified": "2026-01-01T00:00:00.000Z"',
+    "      }",
+    "    ],",
+    '    "metadata": { "created": "2026-01-01" }',
+    "  },",
+    '  "feature-x": {',
+    '    "tasks": [{"id":1,"title":"Other context","status":"pending"}]',
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+
+  it("changes only the status value", () => {
+    const updated = writer.updateTaskStatus(
+      file,
+      "1",
+      TaskStatus.COMPLETED,
+      now
+    );
+
+    expect(updated).toBe(
+      file.replace(
+        '"id": 1,\n        "status": "pending"',
+        '"id": 1,\n        "status": "done"'
+      )
+    );
+  });
+
+  it("spells statuses the way the file already does", () => {
+    const current = file.replace(/"pending"/g, '"not_started"');
+    const mixed = file.replace(
+      '"status": "pending",\n        "lastModified"',
+      '"status": "completed",\n        "lastModified"'
+    );
+
+    expect(
+      writer.updateTaskStatus(current, "1", TaskStatus.IN_PROGRESS, now)
+    ).toContain('"id": 1,\n        "status": "in_progress"');
+    expect(
+      writer.updateTaskStatus(mixed, "1", TaskStatus.COMPLETED, now)
+    ).toContain('"id": 1,\n        "status": "completed"');
+    expect(
+      writer.updateTaskStatus(mixed, "1", TaskStatus.IN_PROGRESS, now)
+    ).toContain('"id": 1,\n        "status": "in-progress"');
+  });
+
+  it("refreshes lastModified only where the task already tracks it", () => {
+    const updated = writer.updateTaskStatus(
+      file,
+      "2",
+      TaskStatus.IN_PROGRESS,
+      now
+    )!;
+
+    const task = JSON.parse(updated).master.tasks[1];
+    expect(Object.keys(task)).toEqual(["id", "title", "status", "lastModified"]);
+    expect(task.status).toBe("in-progress");
+    expect(task.lastModified).toBe("2026-10-19T08:30:00.000Z");
+    expect(JSON.parse(updated).master.tasks[0].lastModified).toBeUndefined();
+  });
+
+  it("updates subtasks addressed as parent.subtask", () => {
+    const updated = writer.updateTaskStatus(
+      file,
+      "1.2",
+      TaskStatus.BLOCKED,
+      now
+    )!;
+
+    expect(updated).toContain(
+      '{ "id": 2, "title": "Nodes", "status": "blocked" }'
+    );
+    expect(updated).toContain(
+      '{ "id": 1, "title": "Tokenizer", "status": "pending" }'
+    );
+  });
+
+  it("adds missing fields with the surrounding indentation", () => {
+    const updated = writer.updateTask(file, "2", { assignee: "sam" })!;
+
+    expect(updated).toContain(
+      '"lastModified": "2026-01-01T00:00:00.000Z",\n        "assignee": "sam"\n'
+    );
+    expect(JSON.parse(updated).master.tasks[1].assignee).toBe("sam");
+  });
+
+  it("keeps CRLF line endings and tab indentation", () => {
+    const tabbed = JSON.stringify(JSON.parse(file), null, "\t").replace(
+      /\n/g,
+      "\r\n"
+    );
+
+    const updated = writer.updateTask(tabbed, "1", {
+      status: "done",
+      labels: ["parser"],
+    })!;
+
+    expect(updated.split("\r\n").every((line) => !line.includes("\n"))).toBe(
+      true
+    );
+    expect(updated).toContain(
+      '\r\n\t\t\t\t"labels": [\r\n\t\t\t\t\t"parser"\r\n\t\t\t\t]\r\n'
+    );
+    expect(JSON.parse(updated).master.tasks[0].status).toBe("done");
+  });
+
+  it("matches subtasks whose IDs include the parent ID", () => {
+    const qualified = file.replace(
+      '{ "id": 2, "title"',
+      '{ "id": "1.2", "title"'
+    );
+
+    const updated = writer.updateTaskStatus(
+      qualified,
+      "1.2",
+      TaskStatus.COMPLETED
+    )!;
+
+    expect(updated).toContain(
+      '{ "id": "1.2", "title": "Nodes", "status": "done" }'
+    );
+  });
+
+  it("appends tasks in the style of their siblings", () => {
+    const updated = writer.addTask(file, { id: "3", title: "Release" });
+
+    expect(updated).toContain(
+      '      },\n      {\n        "id": "3",\n        "title": "Release"\n      }\n    ],'
+    );
+    expect(
+      JSON.parse(writer.addTask(file, { id: "2" }, "feature-x"))["feature-x"]
+        .tasks
+    ).toEqual([
+      { id: 1, title: "Other context", status: "pending" },
+      { id: "2" },
+    ]);
+  });
+
+  it("creates missing contexts", () => {
+    const updated = writer.addTask(file, { id: "1" }, "hotfix");
+
+    expect(Object.keys(JSON.parse(updated))).toEqual([
+      "master",
+      "feature-x",
+      "hotfix",
+    ]);
+    expect(writer.addTask("{}", { id: "1" })).toBe(
+      '{ "master": {"tasks":[{"id":"1"}]} }'
+    );
+    expect(writer.addTask("", { id: 1 })).toBe(
+      '{\n  "master": {\n    "tasks": [\n      {\n        "id": 1\n      }\n    ]\n  }\n}\n'
+    );
+  });
+
+  it("addresses tasks of other contexts as context:id", () => {
+    const updated = writer.updateTaskStatus(
+      file,
+      "feature-x:1",
+      TaskStatus.COMPLETED
+    )!;
+
+    expect(updated).toContain(
+      '[{"id":1,"title":"Other context","status":"done"}]'
+    );
+    expect(JSON.parse(updated).master.tasks[0].status).toBe("pending");
+    expect(writer.readTask(file, "feature-x:1")).toEqual({
+      id: 1,
+      title: "Other context",
+      status: "pending",
+    });
+    expect(writer.readTask(file, "feature-x:2")).toBeNull();
+  });
+
+  it("lists and adds contexts", () => {
+    expect(writer.listContexts(file)).toEqual(["master", "feature-x"]);
+
+    const updated = writer.addContext(file, "hotfix")!;
+
+    expect(JSON.parse(updated).hotfix).toEqual({ tasks: [] });
+    expect(writer.addContext(updated, "hotfix")).toBeNull();
+  });
+
+  it("puts a new schemaVersion before the contexts", () => {
+    const updated = writer.setSchemaVersion(file, 2);
+
+    expect(updated).toBe(
+      file.replace('{\n  "master"', '{\n  "schemaVersion": 2,\n  "master"')
+    );
+    expect(writer.setSchemaVersion(updated, 3)).toBe(
+      updated.replace('"schemaVersion": 2', '"schemaVersion": 3')
+    );
+    expect(writer.setSchemaVersion('{"master":{"tasks":[]}}', 2)).toBe(
+      '{"schemaVersion": 2, "master":{"tasks":[]}}'
+    );
+  });
+
+  it("deletes tasks with their separators", () => {
+    const updated = writer.deleteTask(file, "1")!;
+
+    expect(JSON.parse(updated).master.tasks.map((t: any) => t.id)).toEqual([2]);
+    expect(updated).toContain('    "tasks": [\n      {\n        "id": 2,');
+    expect(writer.deleteTask(writer.deleteTask(updated, "2")!, "9")).toBeNull();
+    expect(JSON.parse(writer.deleteTask(file, "2")!).master.tasks).toHaveLength(
+      1
+    );
+  });
+
+  it("returns null for unknown IDs", () => {
+    expect(writer.updateTaskStatus(file, "9", TaskStatus.COMPLETED)).toBeNull();
+    expect(writer.updateSubtask(file, "1", "9", { status: "done" })).toBeNull();
+  });
+
+  it("rejects files that are not nested contexts", () => {
+    expect(() => writer.updateTask("[]", "1", { status: "done" })).toThrow(
+      "Tasks file must contain an object of contexts"
+    );
+  });
+});
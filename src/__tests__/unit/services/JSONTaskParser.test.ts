@@ -208,7 +208,8 @@ describe("JSONTaskParser", () => {
       expect(result[0].subtasks).toEqual([]); // Added: verify subtasks field
       expect(result[0].status).toBe(TaskStatus.COMPLETED);
       expect(result[0].complexity).toBe(TaskComplexity.HIGH);
-      expect(result[1].id).toBe("2");
+      expect(result[1].id).toBe("sldc-code-ingestrion:2");
+      expect(result[1].context).toBe("sldc-code-ingestrion");
       expect(result[1].title).toBe("Test Task 2");
       expect(result[1].details).toBe("Test Details 2"); // Added: verify details field
       expect(result[1].testStrategy).toBe("Test Strategy 2"); // Added: verify testStrategy field
@@ -217,6 +218,28 @@ describe("JSONTaskParser", () => {
       expect(result[1].complexity).toBe(TaskComplexity.MEDIUM);
     });
 
+    it("should qualify IDs and dependencies with their context", () => {
+      const result = parser.parseTasksFromJSONContent({
+        master: {
+          tasks: [{ id: 1, title: "Master 1", dependencies: ["feature-x:1"] }],
+        },
+        "feature-x": {
+          tasks: [
+            { id: 1, title: "Feature 1" },
+            { id: 2, title: "Feature 2", dependencies: [1, "master:1"] },
+          ],
+        },
+      });
+
+      expect(result.map((task) => [task.id, task.context])).toEqual([
+        ["1", "master"],
+        ["feature-x:1", "feature-x"],
+        ["feature-x:2", "feature-x"],
+      ]);
+      expect(result[0].dependencies).toEqual(["feature-x:1"]);
+      expect(result[2].dependencies).toEqual(["feature-x:1", "1"]);
+    });
+
     it("should handle empty JSON data", () => {
       const result = parser.parseTasksFromJSONContent({});
       expect(result).toHaveLength(0);
@@ -272,7 +295,7 @@ describe("JSONTaskParser", () => {
       expect(result[0].complexity).toBe(TaskComplexity.LOW);
       expect(result[0].priority).toBe(TaskPriority.MEDIUM);
       expect(result[0].dependencies).toEqual([]);
-      expect(result[0].requirements).toEqual(["1"]);
+      expect(result[0].requirements).toEqual(["test:1"]);
       expect(result[0].estimatedDuration).toBe("15-20 min");
       expect(result[0].isExecutable).toBe(true);
     });
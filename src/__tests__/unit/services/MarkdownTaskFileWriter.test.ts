@@ -0,0 +1,300 @@
+/**
+ * Markdown task format Unit Tests
+ * Rich tasks.md files parse into tasks and edits touch only the changed lines
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MarkdownTaskFileWriter } from "../../../services/MarkdownTaskFileWriter";
+import { MarkdownTaskParser } from "../../../services/MarkdownTaskParser";
+import { TaskComplexity, TaskPriority, TaskStatus } from "../../../types/tasks";
+
+describe("Markdown task files", () => {
+  const writer = new MarkdownTaskFileWriter();
+  const parser = new MarkdownTaskParser();
+
+  const file = [
+    "# Tasks",
+    "",
+    "Notes about the sprint stay as they are.",
+    "",
+    "- [ ] 1 Write parser",
+    "  Tokenize the input first.",
+    "  Then build the nodes.",
+    "  priority:: high",
+    "  deps:: 0",
+    "  - [x] 1.1 Tokenizer ✅",
+    "  - [ ] 1.2 Nodes",
+    "",
+    "- [ ] 2 Write docs",
+    "  ```yaml",
+    "  assignee: sam",
+    "  estimate: 3h",
+    "  tags: [docs, guide]",
+    "  ```",
+    "",
+    "- [x] 3 Legacy task",
+    "  - Description: Written by the old template",
+    "  - Complexity: high",
+    "",
+  ].join("\n");
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("parsing", () => {
+    it("reads descriptions, metadata and nested subtasks", () => {
+      const [parserTask, docsTask, legacyTask] =
+        parser.parseTasksFromMarkdownContent(file);
+
+      expect(parserTask).toEqual(
+        expect.objectContaining({
+          id: "1",
+          title: "Write parser",
+          description: "Tokenize the input first.\nThen build the nodes.",
+          priority: TaskPriority.HIGH,
+          dependencies: ["0"],
+          subtasks: [
+            {
+              id: "1",
+              title: "Tokenizer",
+              description: "Tokenizer",
+              status: TaskStatus.COMPLETED,
+            },
+            {
+              id: "2",
+              title: "Nodes",
+              description: "Nodes",
+              status: TaskStatus.NOT_STARTED,
+            },
+          ],
+        })
+      );
+      expect(docsTask).toEqual(
+        expect.objectContaining({
+          assignee: "sam",
+          estimatedHours: 3,
+          tags: ["docs", "guide"],
+        })
+      );
+      expect(legacyTask).toEqual(
+        expect.objectContaining({
+          status: TaskStatus.COMPLETED,
+          description: "Written by the old template",
+          complexity: TaskComplexity.HIGH,
+        })
+      );
+    });
+
+    it("prefers an explicit status over the checkbox", () => {
+      const [task] = parser.parseTasksFromMarkdownContent(
+        "- [ ] 4 Review API\n  status:: review"
+      );
+
+      expect(task.status).toBe(TaskStatus.REVIEW);
+    });
+  });
+
+  describe("MarkdownTaskFileWriter", () => {
+    it("changes the checkbox and status icon of a subtask", () => {
+      const updated = writer.updateTaskStatus(
+        file,
+        "1.1",
+        TaskStatus.NOT_STARTED
+      );
+
+      expect(updated).toBe(
+        file.replace("  - [x] 1.1 Tokenizer ✅", "  - [ ] 1.1 Tokenizer")
+      );
+    });
+
+    it("adds a status field for states the checkbox cannot show", () => {
+      const updated = writer.updateTaskStatus(
+        file,
+        "1",
+        TaskStatus.IN_PROGRESS
+      );
+
+      expect(updated).toBe(
+        file.replace("  deps:: 0\n", "  deps:: 0\n  status:: in_progress\n")
+      );
+    });
+
+    it("keeps the notation of each task's metadata", () => {
+      let updated = writer.updateTask(file, "1", {
+        priority: TaskPriority.LOW,
+        assignee: "kim",
+      });
+      updated = writer.updateTask(updated!, "2", {
+        estimatedHours: 5,
+        priority: TaskPriority.MEDIUM,
+      });
+      updated = writer.updateTask(updated!, "3", {
+        complexity: TaskComplexity.LOW,
+      });
+
+      expect(updated).toBe(
+        file
+          .replace(
+            "  priority:: high\n  deps:: 0\n",
+            "  priority:: low\n  deps:: 0\n  assignee:: kim\n"
+          )
+          .replace(
+            "  estimate: 3h\n  tags: [docs, guide]\n",
+            "  estimate: 5\n  tags: [docs, guide]\n  priority: medium\n"
+          )
+          .replace("  - Complexity: high", "  - Complexity: low")
+      );
+    });
+
+    it("rewrites titles and description paragraphs", () => {
+      const updated = writer.updateTask(file, "1", {
+        title: "Write the parser",
+        description: "Parse tasks.md files.",
+      });
+
+      expect(updated).toBe(
+        file.replace(
+          "- [ ] 1 Write parser\n  Tokenize the input first.\n  Then build the nodes.\n",
+          "- [ ] 1 Write the parser\n  Parse tasks.md files.\n"
+        )
+      );
+    });
+
+    it("removes metadata set to an empty value", () => {
+      const updated = writer.updateTask(file, "2", { tags: [] });
+
+      expect(updated).toBe(file.replace("  tags: [docs, guide]\n", ""));
+    });
+
+    it("adds and deletes tasks, keeping CRLF line endings", () => {
+      const crlf = file.replace(/\n/g, "\r\n");
+
+      const added = writer.addTask(crlf, {
+        id: "4",
+        title: "Ship it",
+        priority: TaskPriority.HIGH,
+        dependencies: ["1", "2"],
+      });
+      const deleted = writer.deleteTask(added, "1");
+
+      expect(added).toBe(
+        crlf.replace(
+          "  - Complexity: high\r\n",
+          "  - Complexity: high\r\n- [ ] 4 Ship it\r\n  priority:: high\r\n  deps:: 1, 2\r\n"
+        )
+      );
+      expect(deleted).not.toContain("Write parser");
+      expect(deleted).not.toContain("Tokenizer");
+      expect(deleted).toContain("Notes about the sprint stay as they are.\r\n");
+    });
+
+    it("returns null for unknown tasks and rejects contexts", () => {
+      expect(
+        writer.updateTaskStatus(file, "9", TaskStatus.COMPLETED)
+      ).toBeNull();
+      expect(writer.deleteTask(file, "9")).toBeNull();
+      expect(() =>
+        writer.addTask(file, { id: "5", title: "Other" }, "feature-x")
+      ).toThrow("no contexts");
+    });
+  });
+
+  describe("MarkdownTaskParser writing", () => {
+    let directory: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), "tasks-md-"));
+      filePath = path.join(directory, "tasks.md");
+      fs.writeFileSync(filePath, file, "utf-8");
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it("leaves the file untouched when the tasks did not change", async () => {
+      const tasks = parser.parseTasksFromMarkdownContent(file);
+
+      expect(await parser.writeTasksToFile(filePath, tasks)).toBe(true);
+
+      expect(fs.readFileSync(filePath, "utf-8")).toBe(file);
+    });
+
+    it("writes back only what changed", async () => {
+      const [parserTask, docsTask] = parser.parseTasksFromMarkdownContent(file);
+      const tasks = [
+        {
+          ...parserTask,
+          status: TaskStatus.COMPLETED,
+          subtasks: parserTask.subtasks!.map((subtask) => ({
+            ...subtask,
+            status: TaskStatus.COMPLETED,
+          })),
+        },
+        { ...docsTask, assignee: "kim" },
+      ];
+
+      expect(await parser.writeTasksToFile(filePath, tasks)).toBe(true);
+
+      expect(fs.readFileSync(filePath, "utf-8")).toBe(
+        file
+          .replace("- [ ] 1 Write parser", "- [x] 1 Write parser")
+          .replace("  - [ ] 1.2 Nodes", "  - [x] 1.2 Nodes")
+          .replace("  assignee: sam", "  assignee: kim")
+          .replace(
+            "\n- [x] 3 Legacy task\n  - Description: Written by the old template\n  - Complexity: high\n",
+            ""
+          )
+      );
+    });
+
+    it("serializes tasks that parse back to the same fields", () => {
+      const markdown = parser.serializeTaskToMarkdown({
+        id: "7",
+        title: "Release",
+        description: "Tag and publish",
+        status: TaskStatus.BLOCKED,
+        complexity: TaskComplexity.MEDIUM,
+        priority: TaskPriority.CRITICAL,
+        dependencies: ["5"],
+        requirements: [],
+        estimatedHours: 2,
+        createdDate: "2026-10-01T09:00:00.000Z",
+        lastModified: "2026-10-01T09:00:00.000Z",
+        subtasks: [
+          { id: "1", title: "Tag", description: "Tag", status: "done" },
+        ],
+      });
+
+      expect(markdown).toBe(
+        [
+          "- [ ] 7 Release",
+          "  Tag and publish",
+          "  status:: blocked",
+          "  priority:: critical",
+          "  complexity:: medium",
+          "  deps:: 5",
+          "  estimate:: 2h",
+          "  - [x] 7.1 Tag",
+        ].join("\n")
+      );
+      expect(parser.parseTaskFromMarkdown(markdown)).toEqual(
+        expect.objectContaining({
+          status: TaskStatus.BLOCKED,
+          priority: TaskPriority.CRITICAL,
+          dependencies: ["5"],
+          estimatedHours: 2,
+          subtasks: [expect.objectContaining({ id: "1", status: "completed" })],
+        })
+      );
+    });
+  });
+});
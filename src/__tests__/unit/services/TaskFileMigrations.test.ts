@@ -0,0 +1,105 @@
+/**
+ * TaskFileMigrations Unit Tests
+ * Older tasks.json files are upgraded in place, keeping their formatting
+ */
+
+import {
+  CURRENT_TASKS_SCHEMA_VERSION,
+  getTasksSchemaVersion,
+  migrateTasksFileContent,
+  TaskSchemaVersionError,
+} from "../../../services/TaskFileMigrations";
+import { JSONTaskContentParser } from "../../../services/JSONTaskContentParser";
+
+describe("TaskFileMigrations", () => {
+  const legacyFile = [
+    "{",
+    '  "master": {',
+    '    "tasks": [',
+    "      {",
+    '        "id": 1,',
+    '        "title": "Write parser",',
+    '        "status": "done",',
+    '        "x-owner": "platform",',
+    '        "subtasks": [',
+    '          { "id": 1, "title": "Tokenizer", "status": "pending" },',
+    '          { "id": 2, "title": "Nodes", "status": "completed" }',
+    "        ]",
+    "      },",
+    '      { "id": 2, "title": "Write docs", "status": "To Do", "subtasks": ["Outline", "Draft"] },',
+    '      { "id": 3, "title": "Ship", "status": "someday" }',
+    "    ]",
+    "  },",
+    '  "feature-x": {',
+    '    "tasks": [{"id":1,"title":"Other context","status":"in-progress"}]',
+    "  }",
+    "}",
+    "",
+  ].join("\n");
+
+  it("treats files without schemaVersion as version 1", () => {
+    expect(getTasksSchemaVersion(JSON.parse(legacyFile))).toBe(1);
+    expect(getTasksSchemaVersion({ schemaVersion: 2, master: {} })).toBe(2);
+  });
+
+  it("upgrades version 1 files, editing only the legacy values", () => {
+    const result = migrateTasksFileContent(legacyFile);
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        fromVersion: 1,
+        toVersion: CURRENT_TASKS_SCHEMA_VERSION,
+        applied: [expect.stringContaining("statuses")],
+      })
+    );
+    expect(result.content).toBe(
+      [
+        "{",
+        '  "schemaVersion": 2,',
+        '  "master": {',
+        '    "tasks": [',
+        "      {",
+        '        "id": 1,',
+        '        "title": "Write parser",',
+        '        "status": "completed",',
+        '        "x-owner": "platform",',
+        '        "subtasks": [',
+        '          { "id": 1, "title": "Tokenizer", "status": "not_started" },',
+        '          { "id": 2, "title": "Nodes", "status": "completed" }',
+        "        ]",
+        "      },",
+        '      { "id": 2, "title": "Write docs", "status": "not_started", "subtasks": [{"id":1,"title":"Outline","status":"not_started"},{"id":2,"title":"Draft","status":"not_started"}] },',
+        '      { "id": 3, "title": "Ship", "status": "someday" }',
+        "    ]",
+        "  },",
+        '  "feature-x": {',
+        '    "tasks": [{"id":1,"title":"Other context","status":"in_progress"}]',
+        "  }",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("leaves current files untouched", () => {
+    const current = migrateTasksFileContent(legacyFile).content;
+
+    expect(migrateTasksFileContent(current)).toEqual({
+      content: current,
+      fromVersion: 2,
+      toVersion: 2,
+      applied: [],
+    });
+  });
+
+  it("rejects files newer than the extension, also when parsing", () => {
+    const newer = '{ "schemaVersion": 3, "master": { "tasks": [] } }';
+
+    expect(() => migrateTasksFileContent(newer)).toThrow(
+      TaskSchemaVersionError
+    );
+    expect(() =>
+      new JSONTaskContentParser().parseTasksFromJSONContent(JSON.parse(newer))
+    ).toThrow("schema version 3");
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * TaskListDiff Unit Tests
+ * Tasks are matched by ID and compared field by field
+ */
+
+import {
+  diffTaskLists,
+  isEmptyTaskListDiff,
+} from "../../../services/TaskListDiff";
+import { Task, TaskComplexity, TaskStatus } from "../../../types/tasks";
+
+describe("TaskListDiff", () => {
+  const createTask = (id: string, fields: Partial<Task> = {}): Task => ({
+    id,
+    title: `Task ${id}`,
+    description: "Description",
+    status: TaskStatus.NOT_STARTED,
+    complexity: TaskComplexity.LOW,
+    dependencies: [],
+    requirements: [],
+    createdDate: "2026-10-01T09:00:00.000Z",
+    lastModified: "2026-10-01T09:00:00.000Z",
+    ...fields,
+  });
+
+  it("reports added, removed and changed tasks", () => {
+    const diff = diffTaskLists(
+      [createTask("1"), createTask("2"), createTask("3")],
+      [
+        createTask("4"),
+        createTask("1", { title: "Renamed", dependencies: ["3"] }),
+        createTask("3"),
+      ]
+    );
+
+    expect(diff).toEqual({
+      added: [createTask("4")],
+      removed: ["2"],
+      changed: [
+        {
+          task: createTask("1", { title: "Renamed", dependencies: ["3"] }),
+          fields: ["title", "dependencies"],
+        },
+      ],
+      order: ["4", "1", "3"],
+    });
+  });
+
+  it("counts fields set on only one side and compares nested values", () => {
+    const diff = diffTaskLists(
+      [
+        createTask("1", {
+          assignee: "ana",
+          subtasks: [{ id: "1", description: "Draft", status: "not_started" }],
+        }),
+      ],
+      [
+        createTask("1", {
+          tags: ["docs"],
+          subtasks: [{ id: "1", description: "Draft", status: "completed" }],
+        }),
+      ]
+    );
+
+    expect(diff.changed[0].fields.sort()).toEqual([
+      "assignee",
+      "subtasks",
+      "tags",
+    ]);
+  });
+
+  it("is empty when the lists hold the same tasks", () => {
+    const diff = diffTaskLists(
+      [createTask("1"), createTask("2")],
+      [createTask("1"), createTask("2")]
+    );
+
+    expect(isEmptyTaskListDiff(diff)).toBe(true);
+    expect(isEmptyTaskListDiff(diffTaskLists([], [createTask("1")]))).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * TaskPromptGenerator Unit Tests
+ * Prompt rendering shared by MCP prompts/get and the detail card action
+ */
+
+import { TaskPromptGenerator } from "../../../services/TaskPromptGenerator";
+import {
+  Task,
+  TaskComplexity,
+  TaskStatus,
+  TestStatusEnum,
+} from "../../../types/tasks";
+
+const createTask = (overrides: Partial<Task> = {}): Task => ({
+  id: "7",
+  title: "Add CSV export",
+  description: "Export tasks as CSV",
+  details: "Quote fields containing commas",
+  testStrategy: "Round-trip a fixture through the exporter",
+  status: TaskStatus.NOT_STARTED,
+  complexity: TaskComplexity.MEDIUM,
+  dependencies: ["3", "4"],
+  requirements: [],
+  createdDate: "2024-01-01T00:00:00.000Z",
+  lastModified: "2024-01-01T00:00:00.000Z",
+  subtasks: [
+    { id: "7.1", title: "Writer", description: "Write rows", status: "done" },
+    { id: "7.2", description: "Escape quotes", status: "pending" },
+  ],
+  ...overrides,
+});
+
+describe("TaskPromptGenerator", () => {
+  const generator = new TaskPromptGenerator();
+
+  it("lists the three task prompts with a required taskId", () => {
+    const definitions = generator.getPromptDefinitions();
+
+    expect(definitions.map((d) => d.name)).toEqual([
+      "implement_task",
+      "fix_failing_tests",
+      "review_task",
+    ]);
+    definitions.forEach((definition) =>
+      expect(definition.arguments).toEqual([
+        expect.objectContaining({ name: "taskId", required: true }),
+      ])
+    );
+  });
+
+  it("renders task fields, subtasks and dependencies", () => {
+    const dependency = createTask({
+      id: "3",
+      title: "Parser",
+      status: TaskStatus.COMPLETED,
+    });
+
+    const prompt = generator.generatePrompt("implement_task", createTask(), [
+      dependency,
+    ]);
+
+    expect(prompt).toContain("# Task 7: Add CSV export");
+    expect(prompt).toContain("## Details\n\nQuote fields containing commas");
+    expect(prompt).toContain(
+      "## Test Strategy\n\nRound-trip a fixture through the exporter"
+    );
+    expect(prompt).toContain("- [x] 7.1. Writer: Write rows");
+    expect(prompt).toContain("- [ ] 7.2. Escape quotes");
+    expect(prompt).toContain("- 3: Parser (completed)");
+    expect(prompt).toContain("- 4\n");
+  });
+
+  it("includes failing test details for fix_failing_tests", () => {
+    const task = createTask({
+      testStatus: {
+        totalTests: 5,
+        passedTests: 4,
+        failedTests: 1,
+        status: TestStatusEnum.FAILING,
+        failingTestsList: [
+          {
+            name: "quotes commas",
+            message: "expected quoted field",
+            category: "assertion",
+            testFile: "src/export.test.ts",
+            lineNumber: 42,
+            expectedValue: '"a,b"',
+            actualValue: "a,b",
+          },
+        ],
+      },
+    });
+
+    const prompt = generator.generatePrompt("fix_failing_tests", task);
+
+    expect(prompt).toContain("1 of 5 tests failing");
+    expect(prompt).toContain("### quotes commas (src/export.test.ts:42)");
+    expect(prompt).toContain('Expected: "a,b"\nActual: a,b');
+  });
+
+  it("suggests a prompt from the task state", () => {
+    expect(generator.suggestPromptName(createTask())).toBe("implement_task");
+    expect(
+      generator.suggestPromptName(createTask({ status: TaskStatus.REVIEW }))
+    ).toBe("review_task");
+    expect(
+      generator.suggestPromptName(
+        createTask({
+          testStatus: { totalTests: 2, passedTests: 1, failedTests: 1 },
+        })
+      )
+    ).toBe("fix_failing_tests");
+  });
+});
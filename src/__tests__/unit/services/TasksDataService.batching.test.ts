@@ -0,0 +1,94 @@
+/**
+ * TasksDataService JSON-RPC batching tests
+ * Calls made in the same tick share one HTTP request
+ */
+
+import { TasksDataService } from "../../../services/TasksDataService";
+import { JSONTaskParser } from "../../../services/JSONTaskParser";
+import { MockDataProvider } from "../../../mock";
+
+describe("TasksDataService JSON-RPC batching", () => {
+  let service: TasksDataService;
+  let mockPost: jest.Mock;
+
+  beforeEach(() => {
+    service = new TasksDataService(
+      {} as JSONTaskParser,
+      {} as MockDataProvider
+    );
+    mockPost = jest.fn();
+    (service as any).httpClient = { post: mockPost };
+    (service as any).isInitialized = true;
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("sends a lone call as a plain request", async () => {
+    mockPost.mockImplementation(async (_url: string, request: any) => ({
+      data: { jsonrpc: "2.0", result: "pong", id: request.id },
+    }));
+
+    const response = await service.makeJSONRPCCall("ping");
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(Array.isArray(mockPost.mock.calls[0][1])).toBe(false);
+    expect(response.result).toBe("pong");
+  });
+
+  it("coalesces same-tick calls into one batch and matches responses by id", async () => {
+    mockPost.mockImplementation(async (_url: string, batch: any[]) => ({
+      data: batch
+        .map((request) => ({
+          jsonrpc: "2.0",
+          result: request.method,
+          id: request.id,
+        }))
+        .reverse(),
+    }));
+
+    const [tasks, task] = await Promise.all([
+      service.makeJSONRPCCall("tasks/list"),
+      service.makeJSONRPCCall("tasks/get", { id: "1" }),
+    ]);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost.mock.calls[0][1].map((r: any) => r.method)).toEqual([
+      "tasks/list",
+      "tasks/get",
+    ]);
+    expect(tasks.result).toBe("tasks/list");
+    expect(task.result).toBe("tasks/get");
+  });
+
+  it("rejects calls missing from the batch response", async () => {
+    mockPost.mockImplementation(async (_url: string, batch: any[]) => ({
+      data: [{ jsonrpc: "2.0", result: "ok", id: batch[0].id }],
+    }));
+
+    const first = service.makeJSONRPCCall("tasks/list");
+    const second = service.makeJSONRPCCall("tasks/get", { id: "1" });
+
+    await expect(first).resolves.toEqual(
+      expect.objectContaining({ result: "ok" })
+    );
+    await expect(second).rejects.toThrow(/No response for JSON-RPC request/);
+  });
+
+  it("rejects every call in a batch when the request fails", async () => {
+    mockPost.mockRejectedValue(new Error("connect ECONNREFUSED"));
+
+    const calls = [
+      service.makeJSONRPCCall("tasks/list"),
+      service.makeJSONRPCCall("tasks/get", { id: "1" }),
+    ];
+
+    for (const call of calls) {
+      await expect(call).rejects.toThrow(
+        "HTTP request failed: connect ECONNREFUSED"
+      );
+    }
+  });
+});
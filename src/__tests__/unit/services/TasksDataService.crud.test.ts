@@ -0,0 +1,638 @@
+/**
+ * TasksDataService create, update and delete tests
+ * Changes are routed to the source that owns the task
+ */
+
+import * as vscode from "vscode";
+import { TasksDataService } from "../../../services/TasksDataService";
+import { JSONTaskParser } from "../../../services/JSONTaskParser";
+import { JSONTaskContentParser } from "../../../services/JSONTaskContentParser";
+import { MockDataProvider } from "../../../mock";
+import { TaskApiClient } from "../../../api/TaskApiClient";
+import { TaskValidationError } from "../../../utils/TaskValidator";
+import {
+  Task,
+  TaskComplexity,
+  TaskPriority,
+  TaskStatus,
+} from "../../../types/tasks";
+
+describe("TasksDataService task changes", () => {
+  const tasksFileUri = { scheme: "file", fsPath: "/workspace/tasks.json" };
+  const workspaceFolder = {
+    name: "workspace",
+    uri: { scheme: "file", fsPath: "/workspace" },
+  };
+
+  const createTask = (id: string): Task => ({
+    id,
+    title: `Task ${id}`,
+    description: "Description",
+    status: TaskStatus.NOT_STARTED,
+    complexity: TaskComplexity.LOW,
+    dependencies: [],
+    requirements: [],
+    createdDate: "2026-10-01T09:00:00.000Z",
+    lastModified: "2026-10-01T09:00:00.000Z",
+  });
+
+  let service: TasksDataService;
+  let fileContent: string | null;
+  let persistedTasks: Task[];
+  let persistence: { loadTasks: jest.Mock; saveTasks: jest.Mock };
+
+  beforeEach(() => {
+    fileContent = null;
+    persistedTasks = [];
+    (vscode.workspace as any).workspaceFolders = [workspaceFolder];
+    (vscode.workspace.fs as any).readFile = jest.fn(async () =>
+      Buffer.from(fileContent!, "utf8")
+    );
+    (vscode.workspace.fs as any).writeFile = jest.fn(
+      async (_uri: unknown, data: Uint8Array) => {
+        fileContent = Buffer.from(data).toString("utf8");
+      }
+    );
+
+    const parser = {
+      parseTasksFromFile: jest.fn(async () =>
+        JSON.parse(fileContent!).master.tasks.map((task: any) =>
+          createTask(String(task.id))
+        )
+      ),
+    };
+    service = new TasksDataService(
+      parser as unknown as JSONTaskParser,
+      {} as MockDataProvider
+    );
+    persistence = {
+      loadTasks: jest.fn(async () => persistedTasks),
+      saveTasks: jest.fn(async (tasks: Task[]) => {
+        persistedTasks = tasks;
+      }),
+    };
+    (service as any).persistenceService = persistence;
+    (service as any).getWritableTasksFileUri = async () =>
+      fileContent === null ? null : tasksFileUri;
+    jest.spyOn(service, "refreshTasks").mockResolvedValue();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    (vscode.workspace as any).workspaceFolders = [];
+  });
+
+  describe("tasks.json", () => {
+    beforeEach(() => {
+      fileContent = [
+        "{",
+        '  "master": {',
+        '    "tasks": [',
+        '      { "id": "1", "title": "Task 1", "x-team": "core" }',
+        "    ]",
+        "  }",
+        "}",
+      ].join("\n");
+    });
+
+    it("appends created tasks to the file", async () => {
+      const created = jest.fn();
+      service.onTaskCreated.event(created);
+
+      const task = await service.createTask({
+        title: "Write docs",
+        description: "User guide",
+        priority: TaskPriority.HIGH,
+      });
+
+      expect(task?.id).toBe("2");
+      expect(JSON.parse(fileContent!).master.tasks[1]).toEqual(
+        expect.objectContaining({ id: "2", title: "Write docs" })
+      );
+      expect(created).toHaveBeenCalledWith({ task, source: "file" });
+      expect(persistence.saveTasks).not.toHaveBeenCalled();
+    });
+
+    it("updates only the changed fields", async () => {
+      const updated = jest.fn();
+      service.onTaskUpdated.event(updated);
+
+      const task = await service.updateTask({
+        taskId: "1",
+        assignee: "sam",
+        tags: ["docs"],
+      });
+
+      expect(task?.assignee).toBe("sam");
+      expect(fileContent).toContain(
+        '{ "id": "1", "title": "Task 1", "x-team": "core", "assignee": "sam", "tags": ["docs"] }'
+      );
+      expect(updated).toHaveBeenCalledWith({ task, source: "file" });
+    });
+
+    it("deletes tasks from the file", async () => {
+      const deleted = jest.fn();
+      service.onTaskDeleted.event(deleted);
+
+      expect(await service.deleteTask("1")).toBe(true);
+
+      expect(JSON.parse(fileContent!).master.tasks).toEqual([]);
+      expect(deleted).toHaveBeenCalledWith({ taskId: "1", source: "file" });
+    });
+
+    it("rejects updates that break the task contract", async () => {
+      await expect(
+        service.updateTask({ taskId: "1", priority: "urgent" as TaskPriority })
+      ).rejects.toBeInstanceOf(TaskValidationError);
+      expect(vscode.workspace.fs.writeFile).not.toHaveBeenCalled();
+    });
+
+    it("returns null for unknown tasks", async () => {
+      expect(await service.updateTask({ taskId: "9", notes: "x" })).toBeNull();
+      expect(await service.deleteTask("9")).toBe(false);
+    });
+  });
+
+  describe("tasks.json contexts", () => {
+    beforeEach(() => {
+      fileContent = JSON.stringify(
+        {
+          master: { tasks: [{ id: 1, title: "Task 1" }] },
+          "feature-x": {
+            tasks: [
+              { id: 1, title: "Feature 1" },
+              { id: 2, title: "Feature 2", dependencies: [1, "master:1"] },
+            ],
+          },
+        },
+        null,
+        2
+      );
+      const contentParser = new JSONTaskContentParser();
+      (service as any).jsonTaskParser.parseTasksFromFile = jest.fn(async () =>
+        contentParser.parseTasksFromJSONContent(JSON.parse(fileContent!))
+      );
+    });
+
+    it("creates tasks in the requested context", async () => {
+      const task = await service.createTask({
+        title: "Feature 3",
+        description: "Description",
+        context: "feature-x",
+        dependencies: ["feature-x:2", "1"],
+      });
+
+      expect(task?.id).toBe("feature-x:3");
+      expect(JSON.parse(fileContent!)["feature-x"].tasks[2]).toEqual(
+        expect.objectContaining({ id: "3", dependencies: ["2", "master:1"] })
+      );
+      expect(JSON.parse(fileContent!)["feature-x"].tasks[2].context).toBe(
+        undefined
+      );
+    });
+
+    it("lists and creates contexts", async () => {
+      expect(await service.getTaskContexts()).toEqual(["master", "feature-x"]);
+
+      expect(await service.createTaskContext("hotfix")).toBe(true);
+      expect(await service.createTaskContext("hotfix")).toBe(false);
+      await expect(service.createTaskContext("no spaces")).rejects.toThrow(
+        "Invalid context name"
+      );
+      expect(await service.getTaskContexts()).toEqual([
+        "master",
+        "feature-x",
+        "hotfix",
+      ]);
+    });
+
+    it("copies tasks with a free ID and their dependencies", async () => {
+      const created = jest.fn();
+      service.onTaskCreated.event(created);
+
+      const task = await service.copyTaskToContext("feature-x:2", "master");
+
+      expect(task).toEqual(
+        expect.objectContaining({ id: "2", context: "master" })
+      );
+      expect(JSON.parse(fileContent!).master.tasks[1]).toEqual({
+        id: 2,
+        title: "Feature 2",
+        dependencies: ["feature-x:1", "1"],
+      });
+      expect(JSON.parse(fileContent!)["feature-x"].tasks).toHaveLength(2);
+      expect(created).toHaveBeenCalledWith({ task, source: "file" });
+    });
+
+    it("moves tasks to a free ID and points their dependents at it", async () => {
+      const deleted = jest.fn();
+      service.onTaskDeleted.event(deleted);
+
+      const task = await service.copyTaskToContext(
+        "feature-x:1",
+        "master",
+        true
+      );
+
+      expect(task?.id).toBe("2");
+      expect(JSON.parse(fileContent!).master.tasks[1]).toEqual({
+        id: "2",
+        title: "Feature 1",
+      });
+      expect(JSON.parse(fileContent!)["feature-x"].tasks).toEqual([
+        {
+          id: 2,
+          title: "Feature 2",
+          dependencies: ["master:2", "master:1"],
+        },
+      ]);
+      expect(deleted).toHaveBeenCalledWith({
+        taskId: "feature-x:1",
+        source: "file",
+      });
+    });
+  });
+
+  describe("tasks.md", () => {
+    beforeEach(() => {
+      fileContent = [
+        "# Tasks",
+        "",
+        "- [ ] 1 Task 1",
+        "  priority:: high",
+        "",
+      ].join("\n");
+      (service as any).getWritableTasksFileUri = async () => ({
+        scheme: "file",
+        fsPath: "/workspace/tasks.md",
+      });
+    });
+
+    it("writes changes in Markdown", async () => {
+      const created = await service.createTask({
+        title: "Task 2",
+        description: "Description",
+      });
+      await service.updateTaskStatus("1", TaskStatus.COMPLETED);
+      await service.updateTask({ taskId: "1", assignee: "sam" });
+
+      expect(created?.id).toBe("2");
+      expect(fileContent).toBe(
+        [
+          "# Tasks",
+          "",
+          "- [x] 1 Task 1",
+          "  priority:: high",
+          "  assignee:: sam",
+          "- [ ] 2 Task 2",
+          "  Description",
+          "  complexity:: medium",
+          "",
+        ].join("\n")
+      );
+      expect(await service.deleteTask("2")).toBe(true);
+    });
+
+    it("has no contexts", async () => {
+      expect(await service.getTaskContexts()).toEqual([]);
+      expect(await service.createTaskContext("hotfix")).toBe(false);
+      expect(await service.copyTaskToContext("1", "hotfix")).toBeNull();
+    });
+  });
+
+  describe("tasks.yaml", () => {
+    beforeEach(() => {
+      fileContent = [
+        "master:",
+        "  tasks:",
+        "    - id: 1",
+        "      title: Task 1 # first",
+        "      status: pending",
+        "",
+      ].join("\n");
+      (service as any).getWritableTasksFileUri = async () => ({
+        scheme: "file",
+        fsPath: "/workspace/tasks.yaml",
+      });
+      (service as any).yamlTaskParser.parseTasksFromFile = jest.fn(async () =>
+        (service as any).yamlTaskParser.parseTasksFromYAMLContent(fileContent)
+      );
+    });
+
+    it("writes changes in YAML", async () => {
+      await service.updateTaskStatus("1", TaskStatus.COMPLETED);
+      const created = await service.createTask({
+        title: "Task 2",
+        description: "Description",
+        context: "hotfix",
+      });
+
+      expect(created?.id).toBe("hotfix:1");
+      expect(fileContent).toContain(
+        "      title: Task 1 # first\n      status: completed\nhotfix:\n  tasks:\n    - "
+      );
+      expect(fileContent).toContain('      id: "1"\n');
+      expect(await service.getTaskContexts()).toEqual(["master", "hotfix"]);
+      expect(await service.deleteTask("hotfix:1")).toBe(true);
+      expect(fileContent).toContain("hotfix:\n  tasks: []\n");
+    });
+
+    it("moves tasks between contexts", async () => {
+      expect(await service.createTaskContext("hotfix")).toBe(true);
+
+      const task = await service.copyTaskToContext("1", "hotfix", true);
+
+      expect(task?.id).toBe("hotfix:1");
+      expect(fileContent).toBe(
+        [
+          "master:",
+          "  tasks: []",
+          "hotfix:",
+          "  tasks:",
+          "    - id: 1",
+          "      title: Task 1",
+          "      status: pending",
+          "",
+        ].join("\n")
+      );
+    });
+  });
+
+  describe(".aidm/.tasks", () => {
+    beforeEach(() => {
+      persistedTasks = [createTask("1"), createTask("2")];
+    });
+
+    it("saves local changes and refreshes the task list", async () => {
+      const task = await service.updateTask({
+        taskId: "2",
+        status: TaskStatus.IN_PROGRESS,
+        actualHours: 3,
+      });
+
+      expect(persistedTasks[1]).toBe(task);
+      expect(task).toEqual(
+        expect.objectContaining({
+          status: TaskStatus.IN_PROGRESS,
+          statusDisplayName: "in progress",
+          actualHours: 3,
+        })
+      );
+      expect(service.refreshTasks).toHaveBeenCalled();
+    });
+
+    it("routes changes through the Task API when signed in", async () => {
+      const apiTask = { ...createTask("api-7"), title: "From API" };
+      const apiClient = {
+        createTask: jest.fn(async () => ({ success: true, data: apiTask })),
+        deleteTask: jest.fn(async () => ({ success: true, data: true })),
+      };
+      service.setTaskApiClient(apiClient as unknown as TaskApiClient);
+      const created = jest.fn();
+      service.onTaskCreated.event(created);
+
+      const task = await service.createTask({
+        title: "From API",
+        description: "Description",
+      });
+      await service.deleteTask("1");
+
+      expect(task).toBe(apiTask);
+      expect(created).toHaveBeenCalledWith({ task: apiTask, source: "api" });
+      expect(apiClient.deleteTask).toHaveBeenCalledWith("1");
+      expect(persistedTasks.map((t) => t.id)).toEqual(["2", "api-7"]);
+    });
+
+    it("reports Task API failures through onError", async () => {
+      service.setTaskApiClient({
+        deleteTask: jest.fn(async () => ({
+          success: false,
+          error: "HTTP 403: Forbidden",
+        })),
+      } as unknown as TaskApiClient);
+      const errors = jest.fn();
+      service.onError.event(errors);
+
+      expect(await service.deleteTask("1")).toBe(false);
+
+      expect(errors).toHaveBeenCalledWith(
+        expect.objectContaining({
+          operation: "task_delete",
+          taskId: "1",
+          technicalDetails: "Task API error: HTTP 403: Forbidden",
+        })
+      );
+      expect(persistedTasks).toHaveLength(2);
+    });
+  });
+
+  describe("merged sources", () => {
+    beforeEach(() => {
+      fileContent = JSON.stringify({
+        master: {
+          tasks: [
+            { id: "1", title: "Task 1" },
+            { id: "2", title: "Task 2" },
+          ],
+        },
+      });
+      persistedTasks = [
+        { ...createTask("1"), title: "Synced 1" },
+        createTask("3"),
+      ];
+    });
+
+    it("merges sources by ID and records source and conflicts", async () => {
+      const tasks = await service.getTasks();
+
+      expect(tasks.map((task) => [task.id, task.source])).toEqual([
+        ["1", "aidm"],
+        ["3", "aidm"],
+        ["2", "file"],
+      ]);
+      expect(tasks[0]).toEqual(
+        expect.objectContaining({
+          title: "Synced 1",
+          sourceConflicts: [{ source: "file", fields: ["title"] }],
+        })
+      );
+      expect(tasks[1].sourceConflicts).toBeUndefined();
+    });
+
+    it("writes changes back to the source each task comes from", async () => {
+      await service.updateTask({ taskId: "1", assignee: "sam" });
+      await service.updateTask({ taskId: "2", assignee: "kim" });
+
+      expect(persistedTasks[0].assignee).toBe("sam");
+      expect(JSON.parse(fileContent!).master.tasks).toEqual([
+        { id: "1", title: "Task 1" },
+        { id: "2", title: "Task 2", assignee: "kim" },
+      ]);
+    });
+
+    it("follows the tasks.sourcePrecedence setting", async () => {
+      jest.spyOn(vscode.workspace, "getConfiguration").mockReturnValue({
+        get: (key: string) =>
+          key === "aidmVscodeExtension.tasks.sourcePrecedence"
+            ? ["file"]
+            : undefined,
+      } as any);
+
+      const tasks = await service.getTasks();
+      await service.updateTaskStatus("1", TaskStatus.COMPLETED);
+
+      expect(tasks[0]).toEqual(
+        expect.objectContaining({
+          id: "1",
+          source: "file",
+          sourceConflicts: [{ source: "aidm", fields: ["title"] }],
+        })
+      );
+      expect(JSON.parse(fileContent!).master.tasks[0].status).toBe(
+        "completed"
+      );
+      expect(persistence.saveTasks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("multi-root workspaces", () => {
+    const webFolder = {
+      name: "web",
+      uri: { scheme: "file", fsPath: "/repo/web" },
+    };
+    const apiFolder = {
+      name: "api",
+      uri: { scheme: "file", fsPath: "/repo/api" },
+    };
+    let files: Map<string, string>;
+
+    beforeEach(() => {
+      files = new Map([
+        [
+          "/repo/web/tasks.json",
+          JSON.stringify({ master: { tasks: [{ id: 1, title: "Web 1" }] } }),
+        ],
+        [
+          "/repo/api/tasks.json",
+          JSON.stringify({
+            master: {
+              tasks: [
+                { id: 1, title: "API 1", status: "pending" },
+                { id: 2, title: "API 2", dependencies: [1] },
+              ],
+            },
+          }),
+        ],
+      ]);
+      (vscode.workspace as any).workspaceFolders = [webFolder, apiFolder];
+      (vscode.workspace.fs as any).readFile = jest.fn(async (uri: any) =>
+        Buffer.from(files.get(uri.fsPath)!, "utf8")
+      );
+      (vscode.workspace.fs as any).writeFile = jest.fn(
+        async (uri: any, data: Uint8Array) => {
+          files.set(uri.fsPath, Buffer.from(data).toString("utf8"));
+        }
+      );
+      const contentParser = new JSONTaskContentParser();
+      (service as any).jsonTaskParser.parseTasksFromFile = jest.fn(
+        async (uri: any) =>
+          contentParser.parseTasksFromJSONContent(
+            JSON.parse(files.get(uri.fsPath)!)
+          )
+      );
+      (service as any).repositoryContextService = {
+        getRepositoryContext: jest.fn(async (folder: any) => ({
+          repoName: `${folder.name}-service`,
+        })),
+      };
+      // Resolve each folder's tasks.json instead of the single test file
+      delete (service as any).getWritableTasksFileUri;
+    });
+
+    it("loads tasks from every folder, tagged with folder and repository", async () => {
+      const tasks = await service.getTasks();
+
+      expect(tasks.map((task) => task.id)).toEqual(["web/1", "api/1", "api/2"]);
+      expect(tasks[2]).toEqual(
+        expect.objectContaining({
+          title: "API 2",
+          dependencies: ["api/1"],
+          workspaceFolder: "api",
+          repository: "api-service",
+        })
+      );
+    });
+
+    it("writes changes to the tasks file of the owning folder", async () => {
+      const webFile = files.get("/repo/web/tasks.json");
+
+      expect(
+        await service.updateTaskStatus("api/1", TaskStatus.COMPLETED)
+      ).toBe(true);
+      expect(await service.deleteTask("api/2")).toBe(true);
+      const task = await service.createTask({
+        title: "Web 2",
+        description: "Description",
+        workspaceFolder: "web",
+        dependencies: ["web/1"],
+      });
+
+      expect(
+        JSON.parse(files.get("/repo/api/tasks.json")!).master.tasks
+      ).toEqual([{ id: 1, title: "API 1", status: "done" }]);
+      expect(task).toEqual(
+        expect.objectContaining({ id: "web/2", workspaceFolder: "web" })
+      );
+      expect(
+        JSON.parse(files.get("/repo/web/tasks.json")!).master.tasks[1]
+      ).toEqual(
+        expect.objectContaining({
+          id: "2",
+          title: "Web 2",
+          dependencies: ["1"],
+        })
+      );
+      expect(files.get("/repo/web/tasks.json")).not.toBe(webFile);
+      await expect(
+        service.createTask({
+          title: "Docs",
+          description: "Description",
+          workspaceFolder: "docs",
+        })
+      ).rejects.toThrow('Workspace folder "docs" is not open');
+    });
+  });
+
+  describe("task diffs", () => {
+    it("fires the changes between consecutive task lists", () => {
+      const listener = jest.fn();
+      service.onTasksChanged.event(listener);
+      const first = createTask("1");
+
+      service.onTasksUpdated.fire([first, createTask("2")]);
+      service.onTasksUpdated.fire([
+        { ...first, status: TaskStatus.COMPLETED },
+        createTask("3"),
+      ]);
+      service.onTasksUpdated.fire([
+        { ...first, status: TaskStatus.COMPLETED },
+        createTask("3"),
+      ]);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith({
+        added: [createTask("3")],
+        removed: ["2"],
+        changed: [
+          {
+            task: { ...first, status: TaskStatus.COMPLETED },
+            fields: ["status"],
+          },
+        ],
+        order: ["1", "3"],
+      });
+    });
+  });
+});
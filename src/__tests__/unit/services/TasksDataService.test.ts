@@ -159,7 +159,7 @@ describe("TasksDataService", () => {
 
       // After initialization, serverUrl should be set
       await newService.initialize();
-      expect((newService as any).serverUrl).toBe("http://localhost:3001");
+      expect((newService as any).serverUrl).toBe("http://127.0.0.1:3001");
     });
 
     it("should not allow HTTP calls before initialization", async () => {
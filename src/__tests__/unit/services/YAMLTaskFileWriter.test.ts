@@ -0,0 +1,279 @@
+/**
+ * YAML task format Unit Tests
+ * tasks.yaml files parse into tasks, report problems by line and take edits
+ * without losing comments or formatting
+ */
+
+import {
+  YAMLTaskFileError,
+  readYAMLTasks,
+} from "../../../services/YAMLTaskDocument";
+import { YAMLTaskFileWriter } from "../../../services/YAMLTaskFileWriter";
+import { YAMLTaskParser } from "../../../services/YAMLTaskParser";
+import { TaskPriority, TaskStatus } from "../../../types/tasks";
+
+describe("YAML task files", () => {
+  const writer = new YAMLTaskFileWriter();
+  const parser = new YAMLTaskParser();
+  const now = new Date("2026-10-19T12:00:00.000Z");
+
+  const file = [
+    "# Sprint backlog",
+    "master:",
+    "  tasks:",
+    "    - id: 1",
+    "      title: Write parser # keep this comment",
+    "      description: |",
+    "        Tokenize the input first.",
+    "        Then build the nodes.",
+    "      status: in-progress",
+    "      priority: high",
+    "      dependencies: []",
+    "      subtasks:",
+    "        - id: 1",
+    "          title: Tokenizer",
+    "          status: done",
+    "        - {id: 2, title: Nodes, status: pending}",
+    "    - id: 2",
+    "      title: 'Write docs: guide'",
+    "      status: pending",
+    "      dependencies:",
+    "        - 1",
+    "      lastModified: 2026-10-01T09:00:00.000Z",
+    "",
+    "feature-x:",
+    "  tasks:",
+    "  - id: 1",
+    "    title: Feature work",
+    "    dependencies: [master:2]",
+    "",
+  ].join("\n");
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe("parsing", () => {
+    it("reads contexts into the same tasks as tasks.json", () => {
+      const [parserTask, docsTask, featureTask] =
+        parser.parseTasksFromYAMLContent(file);
+
+      expect(parserTask).toEqual(
+        expect.objectContaining({
+          id: "1",
+          title: "Write parser",
+          description: "Tokenize the input first.\nThen build the nodes.\n",
+          status: TaskStatus.IN_PROGRESS,
+          priority: TaskPriority.HIGH,
+          dependencies: [],
+        })
+      );
+      expect(
+        parserTask.subtasks!.map((subtask) => [subtask.id, subtask.status])
+      ).toEqual([
+        ["1", "done"],
+        ["2", "pending"],
+      ]);
+      expect(docsTask).toEqual(
+        expect.objectContaining({
+          id: "2",
+          title: "Write docs: guide",
+          dependencies: ["1"],
+        })
+      );
+      expect(featureTask).toEqual(
+        expect.objectContaining({
+          id: "feature-x:1",
+          context: "feature-x",
+          dependencies: ["2"],
+        })
+      );
+    });
+
+    it("reports every invalid field with its line", () => {
+      const content = [
+        "master:",
+        "  tasks:",
+        "    - id: 1",
+        "      status: finished",
+        "      estimatedHours: soon",
+        "    - title: No id",
+        "    - id: 1",
+        "      tags: {a: b}",
+      ].join("\n");
+
+      expect(() => readYAMLTasks(content)).toThrow(YAMLTaskFileError);
+      try {
+        readYAMLTasks(content);
+      } catch (error) {
+        expect((error as YAMLTaskFileError).problems).toEqual([
+          { line: 4, message: 'Unknown status "finished" for task 1' },
+          { line: 5, message: "estimatedHours of task 1 must be a number" },
+          { line: 6, message: "Task is missing an id" },
+          {
+            line: 7,
+            message: 'Task id 1 is used twice in context "master"',
+          },
+          { line: 8, message: "tags of task 1 must be a list of values" },
+        ]);
+      }
+    });
+
+    it("reports syntax errors with their line", () => {
+      expect(() =>
+        readYAMLTasks("master:\n  tasks:\n    - id: 1\n     title: Bad")
+      ).toThrow("Invalid YAML in tasks file: line 4: Bad indentation");
+      expect(() =>
+        readYAMLTasks("master:\n  tasks: &list\n    - id: 1")
+      ).toThrow("line 2: Anchors, aliases and tags are not supported");
+      expect(() => readYAMLTasks("master:\n  tasks: [1, 2\n")).toThrow(
+        "line 2: Inline lists and mappings must close on the same line"
+      );
+      expect(() => readYAMLTasks("master: {}\nmaster: {}")).toThrow(
+        'line 2: Duplicate key "master"'
+      );
+    });
+  });
+
+  describe("YAMLTaskFileWriter", () => {
+    it("changes only the status value", () => {
+      const updated = writer.updateTaskStatus(
+        file,
+        "1",
+        TaskStatus.COMPLETED,
+        now
+      );
+
+      expect(updated).toBe(
+        file.replace("status: in-progress", "status: completed")
+      );
+    });
+
+    it("updates subtasks and refreshes lastModified", () => {
+      let updated = writer.updateTaskStatus(
+        file,
+        "1.2",
+        TaskStatus.COMPLETED,
+        now
+      );
+      updated = writer.updateTaskStatus(
+        updated!,
+        "2",
+        TaskStatus.IN_PROGRESS,
+        now
+      );
+
+      expect(updated).toBe(
+        file
+          .replace(
+            "{id: 2, title: Nodes, status: pending}",
+            "{id: 2, title: Nodes, status: completed}"
+          )
+          .replace(
+            "      status: pending\n      dependencies:\n        - 1\n      lastModified: 2026-10-01T09:00:00.000Z",
+            "      status: in_progress\n      dependencies:\n        - 1\n      lastModified: 2026-10-19T12:00:00.000Z"
+          )
+      );
+    });
+
+    it("keeps quoting and list notation when updating fields", () => {
+      const updated = writer.updateTask(file, "2", {
+        title: "Write docs: API",
+        dependencies: ["1", "feature-x:1"],
+        assignee: "sam",
+        tags: ["docs"],
+      });
+
+      expect(updated).toBe(
+        file
+          .replace("'Write docs: guide'", "'Write docs: API'")
+          .replace(
+            "        - 1\n      lastModified: 2026-10-01T09:00:00.000Z\n",
+            [
+              '        - "1"',
+              "        - feature-x:1",
+              "      lastModified: 2026-10-01T09:00:00.000Z",
+              "      assignee: sam",
+              "      tags: [docs]",
+              "",
+            ].join("\n")
+          )
+      );
+    });
+
+    it("adds and deletes tasks and contexts, keeping CRLF line endings", () => {
+      const crlf = file.replace(/\n/g, "\r\n");
+
+      let updated = writer.addTask(
+        crlf,
+        { id: "2", title: "More work", dependencies: ["1"] },
+        "feature-x"
+      );
+      updated = writer.addContext(updated, "hotfix")!;
+      updated = writer.addTask(updated, { id: "1", title: "Patch" }, "hotfix");
+      updated = writer.deleteTask(updated, "1")!;
+
+      expect(updated).toBe(
+        [
+          "# Sprint backlog",
+          "master:",
+          "  tasks:",
+          "    - id: 2",
+          "      title: 'Write docs: guide'",
+          "      status: pending",
+          "      dependencies:",
+          "        - 1",
+          "      lastModified: 2026-10-01T09:00:00.000Z",
+          "",
+          "feature-x:",
+          "  tasks:",
+          "  - id: 1",
+          "    title: Feature work",
+          "    dependencies: [master:2]",
+          '  - id: "2"',
+          "    title: More work",
+          '    dependencies: ["1"]',
+          "hotfix:",
+          "  tasks:",
+          '    - id: "1"',
+          "      title: Patch",
+          "",
+        ].join("\r\n")
+      );
+      expect(writer.listContexts(updated)).toEqual([
+        "master",
+        "feature-x",
+        "hotfix",
+      ]);
+      expect(writer.addContext(updated, "hotfix")).toBeNull();
+    });
+
+    it("leaves an empty list when the last task is deleted", () => {
+      const updated = writer.deleteTask(file, "feature-x:1");
+
+      expect(updated).toBe(
+        file.replace(
+          "  tasks:\n  - id: 1\n    title: Feature work\n    dependencies: [master:2]\n",
+          "  tasks: []\n"
+        )
+      );
+      expect(parser.parseTasksFromYAMLContent(updated!)).toHaveLength(2);
+    });
+
+    it("reads task entries as written", () => {
+      expect(writer.readTask(file, "feature-x:1")).toEqual({
+        id: 1,
+        title: "Feature work",
+        dependencies: ["master:2"],
+      });
+      expect(writer.readTask(file, "9")).toBeNull();
+      expect(
+        writer.updateTaskStatus(file, "9", TaskStatus.COMPLETED)
+      ).toBeNull();
+    });
+  });
+});
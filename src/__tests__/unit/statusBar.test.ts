@@ -192,6 +192,54 @@ describe("StatusBarManagerImpl", () => {
       );
     });
 
+    it("should include server request metrics when available", () => {
+      statusBarManager.setServerStatsProvider(() => ({
+        isRunning: true,
+        activeRequests: 2,
+        queuedRequests: 1,
+        maxConcurrentRequests: 10,
+        maxQueuedRequests: 100,
+        totalRequestsProcessed: 42,
+        rejectedRequests: 3,
+        timedOutRequests: 1,
+        methods: [
+          { method: "tools/call", count: 30, errors: 0, p50: 12, p95: 40, p99: 85 },
+        ],
+      }));
+      statusBarManager.updateConnectionStatus(ConnectionStatus.Connected);
+
+      statusBarManager.showHealthMetrics();
+
+      expect(mockShowInformationMessage).toHaveBeenCalledWith(
+        "Enterprise AI Context is connected and ready. " +
+          "Requests: 2/10 active, 1 queued, 42 handled, 3 rejected, 1 timed out. " +
+          "Latency: tools/call p50 12ms / p95 40ms / p99 85ms.",
+        "Open Settings"
+      );
+    });
+
+    it("should report server restarts and the last failure", () => {
+      statusBarManager.updateServerHealth({
+        state: "running",
+        restartCount: 2,
+        lastFailure: "MCP server exited with code 1",
+      });
+      statusBarManager.updateConnectionStatus(ConnectionStatus.Connected);
+
+      expect(mockStatusBarItem.tooltip).toBe(
+        "Enterprise AI Context: Connected to MCP server\n" +
+          "Restarted 2 times. Last failure: MCP server exited with code 1."
+      );
+
+      statusBarManager.showHealthMetrics();
+
+      expect(mockShowInformationMessage).toHaveBeenCalledWith(
+        "Enterprise AI Context is connected and ready. " +
+          "Restarted 2 times. Last failure: MCP server exited with code 1.",
+        "Open Settings"
+      );
+    });
+
     it("should handle open settings action", async () => {
       statusBarManager.updateConnectionStatus(ConnectionStatus.Connected);
       mockShowInformationMessage.mockResolvedValue("Open Settings");
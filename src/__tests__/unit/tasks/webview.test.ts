@@ -0,0 +1,141 @@
+/**
+ * webview.js Unit Tests
+ * Runs the task list script against a minimal stand-in for the webview DOM
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vm from "vm";
+
+/**
+ * Task item holding the text fields updateTaskContent writes to
+ */
+class FakeTaskElement {
+  parent: FakeTaskList | null = null;
+  classes = new Set<string>();
+  fields: Record<string, { textContent: string; innerHTML: string }> = {};
+  readonly classList = {
+    add: (name: string) => this.classes.add(name),
+    remove: (name: string) => this.classes.delete(name),
+    contains: (name: string) => this.classes.has(name),
+  };
+
+  constructor(readonly taskId: string, readonly html: string) {}
+
+  querySelector(selector: string) {
+    const field = /data-task-field="(\w+)"/.exec(selector)?.[1];
+    if (!field) {
+      return null;
+    }
+    this.fields[field] ??= { textContent: "", innerHTML: "" };
+    return this.fields[field];
+  }
+
+  querySelectorAll(): unknown[] {
+    return [];
+  }
+
+  remove(): void {
+    this.parent?.items.splice(this.parent.items.indexOf(this), 1);
+  }
+
+  replaceWith(element: FakeTaskElement): void {
+    this.parent!.insert(element, this);
+    this.remove();
+  }
+
+  before(element: FakeTaskElement): void {
+    this.parent!.insert(element, this);
+  }
+}
+
+class FakeTaskList {
+  items: FakeTaskElement[] = [];
+
+  insert(element: FakeTaskElement, next: FakeTaskElement | null): void {
+    element.parent = this;
+    this.items.splice(
+      next ? this.items.indexOf(next) : this.items.length,
+      0,
+      element
+    );
+  }
+
+  appendChild(element: FakeTaskElement): void {
+    this.insert(element, null);
+  }
+}
+
+describe("webview.js", () => {
+  const script = fs.readFileSync(
+    path.join(__dirname, "../../../tasks/providers/webview.js"),
+    "utf8"
+  );
+
+  let taskList: FakeTaskList;
+  let postMessage: (data: unknown) => void;
+
+  const taskHtml = (id: string) =>
+    `<div class="task-item" data-task-id="${id}"></div>`;
+  const ids = () => taskList.items.map((item) => item.taskId);
+  const find = (id: string) =>
+    taskList.items.find((item) => item.taskId === id)!;
+
+  beforeEach(() => {
+    taskList = new FakeTaskList();
+    ["1", "2", "3"].forEach((id) =>
+      taskList.appendChild(new FakeTaskElement(id, taskHtml(id)))
+    );
+
+    const document = {
+      querySelector: (selector: string) => {
+        if (selector === ".task-list") {
+          return taskList;
+        }
+        const id = /data-task-id="([^"]+)"/.exec(selector)?.[1];
+        return taskList.items.find((item) => item.taskId === id) ?? null;
+      },
+      querySelectorAll: () => [],
+      createElement: () => {
+        const template = {
+          content: { firstElementChild: null as FakeTaskElement | null },
+          set innerHTML(html: string) {
+            const id = /data-task-id="([^"]+)"/.exec(html)![1];
+            template.content.firstElementChild = new FakeTaskElement(id, html);
+          },
+        };
+        return template;
+      },
+    };
+    const window = {
+      addEventListener: (_type: string, listener: (event: any) => void) => {
+        postMessage = (data) => listener({ data });
+      },
+    };
+    vm.runInNewContext(script, {
+      window,
+      document,
+      CSS: { escape: (value: string) => value },
+    });
+  });
+
+  it("removes, replaces and inserts tasks in place", () => {
+    find("1").classList.add("expanded");
+
+    postMessage({
+      type: "patchTasks",
+      removed: ["2"],
+      replaced: [{ id: "1", html: taskHtml("1") }],
+      added: [
+        { id: "4", html: taskHtml("4"), before: "3" },
+        { id: "5", html: taskHtml("5"), before: "3" },
+        { id: "6", html: taskHtml("6"), before: null },
+      ],
+      tasks: [{ id: "4", title: "New task", dependencies: [] }],
+    });
+
+    expect(ids()).toEqual(["1", "4", "5", "3", "6"]);
+    expect(find("1").classList.contains("expanded")).toBe(true);
+    expect(find("4").fields.title.textContent).toBe("New task");
+  });
+});
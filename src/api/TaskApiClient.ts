@@ -3,10 +3,11 @@
  * Single responsibility: HTTP calls to task endpoints
  */
 
-import { Task } from '../types/tasks';
+import { Task, TaskCreateRequest, TaskUpdateRequest } from '../types/tasks';
 import { TaskApiTokenProvider } from './TaskApiTokenProvider';
 import { UserIdentityService } from '../auth/userIdentityService';
 import { log } from '../utils/logger';
+import type { TrafficRecorder } from '../utils/TrafficRecorder';
 
 export interface TaskApiResponse<T> {
   success: boolean;
@@ -16,14 +17,24 @@ export interface TaskApiResponse<T> {
 
 export class TaskApiClient {
   private userIdentityService: UserIdentityService;
+  private fetch: typeof fetch;
 
+  /**
+   * @param recorder - Records the exchanges, or answers them from recordings
+   */
   constructor(
     private baseUrl: string,
-    private tokenProvider: TaskApiTokenProvider
+    private tokenProvider: TaskApiTokenProvider,
+    recorder?: TrafficRecorder
   ) {
+    this.fetch =
+      recorder && recorder.mode !== 'off'
+        ? recorder.wrapFetch('taskApi')
+        : (input, init) => fetch(input, init);
     this.userIdentityService = new UserIdentityService(
       this.baseUrl,
-      () => this.getHeaders()
+      () => this.getHeaders(),
+      this.fetch
     );
   }
 
@@ -63,7 +74,7 @@ export class TaskApiClient {
 
       log('info', 'TaskApiClient', 'API Request', { url, baseUrl: this.baseUrl, endpoint: `/sdlc/api/v1/tasks/user/${identityResult.stableUserId}` });
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'GET',
         headers: this.getHeaders(repoId),
         signal: AbortSignal.timeout(10000),
@@ -123,7 +134,7 @@ export class TaskApiClient {
     try {
       const url = `${this.baseUrl}/sdlc/api/v1/tasks/${encodeURIComponent(taskId)}/status`;
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'PUT',
         headers: this.getHeaders(),
         body: JSON.stringify({ status }),
@@ -158,6 +169,41 @@ export class TaskApiClient {
     }
   }
 
+  /**
+   * Create a task; the API assigns its ID
+   */
+  async createTask(request: TaskCreateRequest): Promise<TaskApiResponse<Task>> {
+    const result = await this.sendTaskRequest('POST', '/sdlc/api/v1/tasks', request);
+    return this.toTaskResponse(result);
+  }
+
+  /**
+   * Update task fields other than the ID
+   */
+  async updateTask(request: TaskUpdateRequest): Promise<TaskApiResponse<Task>> {
+    const { taskId, ...fields } = request;
+    const result = await this.sendTaskRequest(
+      'PATCH',
+      `/sdlc/api/v1/tasks/${encodeURIComponent(taskId)}`,
+      fields
+    );
+    return this.toTaskResponse(result);
+  }
+
+  /**
+   * Delete a task
+   */
+  async deleteTask(taskId: string): Promise<TaskApiResponse<boolean>> {
+    const result = await this.sendTaskRequest(
+      'DELETE',
+      `/sdlc/api/v1/tasks/${encodeURIComponent(taskId)}`
+    );
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    return { success: true, data: true };
+  }
+
   /**
    * Test API connectivity
    */
@@ -174,7 +220,7 @@ export class TaskApiClient {
     try {
       const url = `${this.baseUrl}/sdlc/api/v1/health`;
 
-      const response = await fetch(url, {
+      const response = await this.fetch(url, {
         method: 'GET',
         headers: this.getHeaders(),
         signal: AbortSignal.timeout(5000),
@@ -210,6 +256,72 @@ export class TaskApiClient {
     }
   }
 
+  /**
+   * Send an authenticated request to a task endpoint
+   * @returns The parsed response body as data, if it has one
+   */
+  private async sendTaskRequest(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<TaskApiResponse<any>> {
+    if (!this.tokenProvider.isAuthenticated()) {
+      return {
+        success: false,
+        error: 'User not authenticated',
+      };
+    }
+
+    try {
+      const response = await this.fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: this.getHeaders(),
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (response.status === 401) {
+        return {
+          success: false,
+          error: 'Authentication expired. Please log in again.',
+        };
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        return {
+          success: false,
+          error: `HTTP ${response.status}: ${response.statusText}. ${errorText}`,
+        };
+      }
+
+      const text = await response.text();
+      return {
+        success: true,
+        data: text ? JSON.parse(text) : undefined,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  private toTaskResponse(result: TaskApiResponse<any>): TaskApiResponse<Task> {
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+    if (!result.data?.task) {
+      return {
+        success: false,
+        error: 'Invalid response format: expected task',
+      };
+    }
+    return { success: true, data: result.data.task };
+  }
+
   private getHeaders(repoId?: string): Record<string, string> {
     const token = this.tokenProvider.getToken();
     const userContext = this.tokenProvider.getUserContext();
@@ -0,0 +1,30 @@
+// mcpServerToken.ts
+import * as vscode from 'vscode';
+import { randomBytes } from 'crypto';
+import { log } from '../utils/logger';
+
+export const MCP_SERVER_TOKEN_KEY = 'aidm-mcp-server-token';
+
+/**
+ * Issue the bearer token for this session's local MCP server
+ * A new token replaces the previous one on every activation, so a leaked
+ * token stops working once VS Code restarts
+ */
+export async function issueMCPServerToken(secretStorage: vscode.SecretStorage): Promise<string> {
+    const token = randomBytes(32).toString('hex');
+    try {
+        await secretStorage.store(MCP_SERVER_TOKEN_KEY, token);
+        log('INFO', 'MCPServerToken', 'Issued local MCP server token');
+    } catch (error) {
+        // The server is still protected; only external clients cannot look the token up
+        log('WARN', 'MCPServerToken', 'Failed to store MCP server token', { error });
+    }
+    return token;
+}
+
+/**
+ * Read the current token, e.g. to hand it to an external MCP client
+ */
+export async function getMCPServerToken(secretStorage: vscode.SecretStorage): Promise<string | undefined> {
+    return secretStorage.get(MCP_SERVER_TOKEN_KEY);
+}
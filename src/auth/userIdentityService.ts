@@ -27,7 +27,8 @@ export class UserIdentityService {
 
   constructor(
     private baseUrl: string,
-    private getAuthHeaders: () => Record<string, string>
+    private getAuthHeaders: () => Record<string, string>,
+    private fetchImpl: typeof fetch = (input, init) => fetch(input, init)
   ) {}
 
   /**
@@ -94,7 +95,7 @@ export class UserIdentityService {
   ): Promise<IdentityResolutionResult> {
     try {
       const url = `${this.baseUrl}/sdlc/api/v1/identity/resolve`;
-      const response = await fetch(url, {
+      const response = await this.fetchImpl(url, {
         method: 'POST',
         headers: {
           ...this.getAuthHeaders(),
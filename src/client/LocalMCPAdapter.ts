@@ -46,7 +46,11 @@ export class LocalMCPAdapter extends BaseMCPClient {
    * Call a tool on the local MCP server
    */
   async callTool(toolName: string, args: Record<string, any>): Promise<any> {
-    this.validateToolArgs(toolName, args);
+    this.validateToolArgs(
+      toolName,
+      args,
+      this.server.getToolDefinition(toolName)?.inputSchema
+    );
 
     try {
       // Ensure server is running
@@ -204,15 +208,7 @@ export class LocalMCPAdapter extends BaseMCPClient {
    */
   private async processServerRequest(request: any): Promise<any> {
     try {
-      // Use reflection to access the private processJSONRPC method
-      // This is safe since we control both the adapter and server
-      const serverAny = this.server as any;
-      
-      if (typeof serverAny.processJSONRPC === 'function') {
-        return await serverAny.processJSONRPC(request);
-      } else {
-        throw new Error("Unable to access server's processJSONRPC method");
-      }
+      return await this.server.processJSONRPC(request);
     } catch (error) {
       // Fallback to creating a proper error response
       return {
@@ -4,6 +4,7 @@
  */
 
 import { JSONRPCResponse, ErrorResponse, ErrorCode } from "../types/extension";
+import { validateAgainstSchema } from "../server/JSONSchemaValidator";
 
 /**
  * Core MCP client interface
@@ -193,12 +194,28 @@ export abstract class BaseMCPClient implements MCPClientInterface {
   }
 
   /**
-   * Validate tool arguments
+   * Validate tool arguments, against the tool's input schema when known
    */
-  protected validateToolArgs(toolName: string, args: any): void {
-    if (!args || typeof args !== "object") {
+  protected validateToolArgs(
+    toolName: string,
+    args: any,
+    inputSchema?: any
+  ): void {
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
       throw new Error("Arguments must be a valid object");
     }
+    if (!inputSchema) {
+      return;
+    }
+
+    const errors = validateAgainstSchema(inputSchema, args);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid arguments for ${toolName}: ${errors
+          .map((error) => error.message)
+          .join("; ")}`
+      );
+    }
   }
 
   /**
@@ -3,14 +3,41 @@
  * Handles both local sprint context and remote delivery patterns
  */
 
-import axios, { AxiosInstance } from "axios";
+import axios, { AxiosInstance, AxiosResponse } from "axios";
 import {
+  JSONRPCNotification,
   JSONRPCRequest,
   JSONRPCResponse,
   ToolCallRequest,
   ErrorCode,
   ErrorResponse,
+  MCP_SESSION_HEADER,
+  MCPInitializeResult,
 } from "../types/extension";
+import {
+  createInitializeRequest,
+  INITIALIZED_NOTIFICATION,
+  validateInitializeResult,
+} from "./mcpHandshake";
+import type {
+  CodingPattern,
+  SprintFile,
+  SprintInfo,
+  StoryContext,
+} from "../types/sprint";
+
+export type { CodingPattern, SprintInfo, StoryContext };
+
+// Stands in for the current story when the sprint file lists none
+const NO_STORY_CONTEXT: StoryContext = {
+  id: "no-story",
+  title: "No story in progress",
+  description: "",
+  acceptanceCriteria: [],
+  businessValue: "",
+  priority: "medium",
+  status: "pending",
+};
 
 export interface LocalContext {
   sprintDetails: SprintInfo;
@@ -26,34 +53,6 @@ export interface RemoteIntelligence {
   stakeholderMapping: StakeholderMap;
 }
 
-export interface SprintInfo {
-  id: string;
-  name: string;
-  startDate: Date;
-  endDate: Date;
-  teamMembers: string[];
-  currentStories: string[];
-}
-
-export interface StoryContext {
-  id: string;
-  title: string;
-  description: string;
-  acceptanceCriteria: string[];
-  businessValue: string;
-  priority: string;
-  status: string;
-}
-
-export interface CodingPattern {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  examples: string[];
-  teamAdoption: number;
-}
-
 export interface DeliveryPattern {
   id: string;
   name: string;
@@ -108,6 +107,14 @@ export interface StakeholderRelationship {
   strength: string;
 }
 
+/**
+ * MCP session held with one server
+ */
+interface ServerSession {
+  sessionId: string | null;
+  handshake: Promise<MCPInitializeResult> | null;
+}
+
 export class HybridMCPClient {
   private localClient: AxiosInstance;
   private remoteClient: AxiosInstance | null = null;
@@ -115,9 +122,18 @@ export class HybridMCPClient {
   private remoteEndpoint: string | null = null;
   private requestId: number = 1;
   private timeout: number = 5000;
+  private localSession: ServerSession = { sessionId: null, handshake: null };
+  private remoteSession: ServerSession = { sessionId: null, handshake: null };
 
-  constructor(localPort: number = 3001, timeout: number = 5000) {
-    this.localEndpoint = `http://localhost:${localPort}/rpc`;
+  /**
+   * @param authToken - Bearer token of the local MCP server
+   */
+  constructor(
+    localPort: number = 3001,
+    timeout: number = 5000,
+    authToken?: string
+  ) {
+    this.localEndpoint = `http://127.0.0.1:${localPort}/rpc`;
     this.timeout = timeout;
 
     this.localClient = axios.create({
@@ -125,6 +141,7 @@ export class HybridMCPClient {
       timeout: this.timeout,
       headers: {
         "Content-Type": "application/json",
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
       },
     });
   }
@@ -134,6 +151,7 @@ export class HybridMCPClient {
    */
   configureRemoteServer(remoteUrl: string): void {
     this.remoteEndpoint = remoteUrl;
+    this.remoteSession = { sessionId: null, handshake: null };
     this.remoteClient = axios.create({
       baseURL: remoteUrl,
       timeout: this.timeout * 2, // Allow more time for remote requests
@@ -143,6 +161,62 @@ export class HybridMCPClient {
     });
   }
 
+  /**
+   * POST a message, naming the session when there is one
+   * Records the session ID the server assigns on initialize
+   */
+  private async postWithSession(
+    client: AxiosInstance,
+    session: ServerSession,
+    message: JSONRPCRequest | JSONRPCNotification
+  ): Promise<AxiosResponse<JSONRPCResponse>> {
+    const response = session.sessionId
+      ? await client.post("", message, {
+          headers: { [MCP_SESSION_HEADER]: session.sessionId },
+        })
+      : await client.post("", message);
+
+    const sessionId = response.headers?.[MCP_SESSION_HEADER];
+    if (message.method === "initialize" && typeof sessionId === "string") {
+      session.sessionId = sessionId;
+    }
+    return response;
+  }
+
+  /**
+   * Perform the MCP initialize handshake with the local or remote server once
+   */
+  private ensureSession(
+    target: "local" | "remote"
+  ): Promise<MCPInitializeResult> {
+    const session =
+      target === "local" ? this.localSession : this.remoteSession;
+
+    if (!session.handshake) {
+      const handshake = (async () => {
+        const request = createInitializeRequest(this.requestId++);
+        const response =
+          target === "local"
+            ? await this.sendLocalRequest(request)
+            : await this.sendRemoteRequest(request);
+        const result = validateInitializeResult(response.result);
+
+        const client =
+          target === "local" ? this.localClient : this.remoteClient!;
+        await this.postWithSession(client, session, INITIALIZED_NOTIFICATION);
+        return result;
+      })();
+
+      session.handshake = handshake;
+      handshake.catch(() => {
+        if (session.handshake === handshake) {
+          session.handshake = null;
+        }
+      });
+    }
+    return session.handshake;
+  }
+
   /**
    * Send request to local MCP server
    */
@@ -150,7 +224,11 @@ export class HybridMCPClient {
     request: JSONRPCRequest
   ): Promise<JSONRPCResponse> {
     try {
-      const response = await this.localClient.post("", request);
+      const response = await this.postWithSession(
+        this.localClient,
+        this.localSession,
+        request
+      );
 
       if (response.data.error) {
         throw new Error(`Local MCP Error: ${response.data.error.message}`);
@@ -159,6 +237,13 @@ export class HybridMCPClient {
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404 && this.localSession.sessionId) {
+          this.localSession = { sessionId: null, handshake: null };
+          throw this.createError(
+            ErrorCode.CONNECTION_FAILED,
+            "Local MCP session expired"
+          );
+        }
         if (error.code === "ECONNREFUSED") {
           throw this.createError(
             ErrorCode.CONNECTION_FAILED,
@@ -190,7 +275,11 @@ export class HybridMCPClient {
     }
 
     try {
-      const response = await this.remoteClient.post("", request);
+      const response = await this.postWithSession(
+        this.remoteClient,
+        this.remoteSession,
+        request
+      );
 
       if (response.data.error) {
         throw new Error(`Remote MCP Error: ${response.data.error.message}`);
@@ -199,6 +288,13 @@ export class HybridMCPClient {
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
+        if (error.response?.status === 404 && this.remoteSession.sessionId) {
+          this.remoteSession = { sessionId: null, handshake: null };
+          throw this.createError(
+            ErrorCode.CONNECTION_FAILED,
+            "Remote MCP session expired"
+          );
+        }
         if (error.code === "ECONNREFUSED") {
           throw this.createError(
             ErrorCode.CONNECTION_FAILED,
@@ -217,22 +313,15 @@ export class HybridMCPClient {
   }
 
   /**
-   * Get current sprint context from local MCP server
+   * Get current sprint context from the local server's .aidm/sprint.json
    */
   async getCurrentSprintContext(): Promise<LocalContext> {
-    const request: ToolCallRequest = {
-      jsonrpc: "2.0",
-      method: "tools/call",
-      params: {
-        name: "get_sprint_context",
-        arguments: {},
-      },
-      id: this.requestId++,
-    };
-
     try {
-      const response = await this.sendLocalRequest(request);
-      return this.parseLocalContext(response.result);
+      const sprintFile: SprintFile = await this.callLocalTool(
+        "get_sprint_context",
+        {}
+      );
+      return this.parseLocalContext(sprintFile, []);
     } catch (error) {
       console.warn("Failed to get sprint context, using fallback:", error);
       return this.getFallbackLocalContext();
@@ -240,34 +329,66 @@ export class HybridMCPClient {
   }
 
   /**
-   * Get project context for specific file from local MCP server
+   * Get sprint context plus the business requirements of a code location
    */
   async getProjectContext(
     filePath: string,
     startLine: number,
     endLine: number
   ): Promise<LocalContext> {
+    // Workspaces without .aidm/sprint.json still have business context
+    const [sprintFile, businessContext] = await Promise.allSettled([
+      this.callLocalTool("get_sprint_context", {}),
+      this.callLocalTool("get_business_context", {
+        filePath,
+        startLine,
+        endLine,
+      }),
+    ]);
+    if (businessContext.status === "rejected") {
+      console.warn("Failed to get business context:", businessContext.reason);
+    }
+    const businessRequirements =
+      businessContext.status === "fulfilled"
+        ? businessContext.value?.requirements || []
+        : [];
+
+    if (sprintFile.status === "fulfilled") {
+      try {
+        return this.parseLocalContext(sprintFile.value, businessRequirements);
+      } catch (error) {
+        console.warn("Failed to parse sprint context, using fallback:", error);
+      }
+    } else {
+      console.warn(
+        "Failed to get sprint context, using fallback:",
+        sprintFile.reason
+      );
+    }
+    return { ...this.getFallbackLocalContext(), businessRequirements };
+  }
+
+  /**
+   * Call a local tool and decode the JSON text content it returns
+   */
+  private async callLocalTool(
+    name: string,
+    args: Record<string, any>
+  ): Promise<any> {
     const request: ToolCallRequest = {
       jsonrpc: "2.0",
       method: "tools/call",
-      params: {
-        name: "get_business_context",
-        arguments: {
-          filePath,
-          startLine,
-          endLine,
-        },
-      },
+      params: { name, arguments: args },
       id: this.requestId++,
     };
 
-    try {
-      const response = await this.sendLocalRequest(request);
-      return this.parseProjectContext(response.result, filePath);
-    } catch (error) {
-      console.warn("Failed to get project context, using fallback:", error);
-      return this.getFallbackLocalContext();
+    await this.ensureSession("local");
+    const response = await this.sendLocalRequest(request);
+    const text = response.result?.content?.[0]?.text;
+    if (response.result?.isError) {
+      throw new Error(text || `Local tool ${name} failed`);
     }
+    return JSON.parse(text);
   }
 
   /**
@@ -295,6 +416,7 @@ export class HybridMCPClient {
     };
 
     try {
+      await this.ensureSession("remote");
       const response = await this.sendRemoteRequest(request);
       return this.parseRemoteIntelligence(response.result);
     } catch (error) {
@@ -331,6 +453,7 @@ export class HybridMCPClient {
     };
 
     try {
+      await this.ensureSession("remote");
       const response = await this.sendRemoteRequest(request);
       return this.parseRemoteIntelligence(response.result);
     } catch (error) {
@@ -434,45 +557,29 @@ export class HybridMCPClient {
 
   // Helper methods for parsing and fallback data
 
-  private parseLocalContext(result: any): LocalContext {
-    // Parse the business context result into LocalContext format
+  private parseLocalContext(
+    sprintFile: SprintFile,
+    businessRequirements: any[]
+  ): LocalContext {
+    const { sprint, stories, teamPatterns } = sprintFile;
+    // The first current story is the one being worked on
+    const storyContext =
+      stories.find((story) => story.id === sprint.currentStories[0]) ||
+      stories[0] ||
+      NO_STORY_CONTEXT;
+
     return {
       sprintDetails: {
-        id: "current-sprint",
-        name: "Current Development Sprint",
-        startDate: new Date(),
-        endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-        teamMembers: ["Developer", "Product Owner", "Scrum Master"],
-        currentStories: result?.requirements?.map((r: any) => r.id) || [],
+        ...sprint,
+        startDate: new Date(sprint.startDate),
+        endDate: new Date(sprint.endDate),
       },
-      storyContext: {
-        id: "current-story",
-        title: result?.requirements?.[0]?.title || "Current Story",
-        description:
-          result?.requirements?.[0]?.description || "Story description",
-        acceptanceCriteria: result?.requirements?.[0]?.acceptanceCriteria || [],
-        businessValue: "High",
-        priority: result?.requirements?.[0]?.priority || "medium",
-        status: result?.requirements?.[0]?.status || "in_progress",
-      },
-      teamPatterns: [
-        {
-          id: "typescript-patterns",
-          name: "TypeScript Best Practices",
-          description: "Team coding standards for TypeScript",
-          category: "language",
-          examples: ["Use strict types", "Prefer interfaces over types"],
-          teamAdoption: 0.9,
-        },
-      ],
-      businessRequirements: result?.requirements || [],
+      storyContext,
+      teamPatterns,
+      businessRequirements,
     };
   }
 
-  private parseProjectContext(result: any, filePath: string): LocalContext {
-    return this.parseLocalContext(result);
-  }
-
   private parseRemoteIntelligence(result: any): RemoteIntelligence {
     return {
       deliveryPatterns: result?.patterns || [],
@@ -2,7 +2,11 @@
  * HTTP JSON-RPC Client for MCP Server Communication
  */
 
-import axios, { AxiosInstance, AxiosResponse } from "axios";
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+} from "axios";
 import * as vscode from "vscode";
 import {
   JSONRPCRequest,
@@ -12,24 +16,74 @@ import {
   MCPCommunication,
   ErrorCode,
   ErrorResponse,
+  JSONRPCNotification,
+  MCP_SESSION_HEADER,
+  MCPInitializeResult,
+  MCPServerCapabilities,
 } from "../types/extension";
 import { ErrorHandler, ErrorContext } from "../utils/errorHandler";
+import {
+  createInitializeRequest,
+  INITIALIZED_NOTIFICATION,
+  validateInitializeResult,
+} from "./mcpHandshake";
+import type { TrafficRecorder } from "../utils/TrafficRecorder";
+
+/**
+ * Options for a single MCP call
+ */
+export interface MCPCallOptions {
+  /** Cancels the call; accepts a VS Code CancellationToken as well */
+  signal?: AbortSignal | vscode.CancellationToken;
+}
+
+/**
+ * Adapt a CancellationToken to an AbortSignal so axios can abort the request
+ */
+function toAbortSignal(
+  signal: MCPCallOptions["signal"]
+): AbortSignal | undefined {
+  if (!signal || signal instanceof AbortSignal) {
+    return signal;
+  }
+  if (typeof signal.onCancellationRequested !== "function") {
+    return undefined;
+  }
+
+  const controller = new AbortController();
+  if (signal.isCancellationRequested) {
+    controller.abort();
+  } else {
+    const listener = signal.onCancellationRequested(() => {
+      listener.dispose();
+      controller.abort();
+    });
+  }
+  return controller.signal;
+}
 
 export class MCPClient {
   private httpClient: AxiosInstance;
   private config: MCPCommunication;
   private requestId: number = 1;
   private errorHandler: ErrorHandler;
-  private remoteConfig?: {
-    url: string;
-    apiKey?: string;
-    enabled: boolean;
-  };
+  private sessionId: string | null = null;
+  private initializeResult: MCPInitializeResult | null = null;
+  private handshake: Promise<MCPInitializeResult> | null = null;
 
-  constructor(port: number = 3001, timeout: number = 5000) {
+  /**
+   * @param authToken - Bearer token of the local MCP server, sent with every request
+   * @param recorder - Records the exchanges, or answers them from recordings
+   */
+  constructor(
+    port: number = 3001,
+    timeout: number = 5000,
+    private authToken?: string,
+    private recorder?: TrafficRecorder
+  ) {
     this.errorHandler = new ErrorHandler();
     this.config = {
-      endpoint: `http://localhost:${port}/rpc`,
+      endpoint: `http://127.0.0.1:${port}/rpc`,
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -37,23 +91,24 @@ export class MCPClient {
       timeout,
     };
 
-    this.httpClient = axios.create({
-      baseURL: this.config.endpoint,
-      timeout: this.config.timeout,
-      headers: this.config.headers,
-    });
-
-    // Load remote configuration from VS Code settings
-    this.loadRemoteConfig();
+    this.httpClient = this.createHttpClient();
   }
 
   /**
    * Send a JSON-RPC request to the MCP server
    */
-  private async sendRequest(request: JSONRPCRequest): Promise<JSONRPCResponse> {
+  private async sendRequest(
+    request: JSONRPCRequest,
+    signal?: AbortSignal
+  ): Promise<JSONRPCResponse> {
     try {
-      const response: AxiosResponse<JSONRPCResponse> =
-        await this.httpClient.post("", request);
+      const response = await this.post(request, signal);
+
+      // The server assigns the session on a successful initialize
+      const sessionId = response.headers?.[MCP_SESSION_HEADER];
+      if (request.method === "initialize" && typeof sessionId === "string") {
+        this.sessionId = sessionId;
+      }
 
       if (response.data.error) {
         throw new Error(
@@ -71,7 +126,24 @@ export class MCPClient {
         throw error;
       }
 
+      if (signal?.aborted) {
+        throw this.createErrorResponse(
+          ErrorCode.CANCELLED,
+          "Request cancelled",
+          error
+        );
+      }
+
       if (axios.isAxiosError(error)) {
+        // Server restarted or dropped our session; handshake again next call
+        if (error.response?.status === 404 && this.sessionId) {
+          this.resetSession();
+          throw this.createErrorResponse(
+            ErrorCode.CONNECTION_FAILED,
+            "MCP session expired",
+            error
+          );
+        }
         if (error.code === "ECONNREFUSED") {
           throw this.createErrorResponse(
             ErrorCode.CONNECTION_FAILED,
@@ -95,10 +167,114 @@ export class MCPClient {
     }
   }
 
+  /**
+   * POST a message, naming the current session when there is one
+   */
+  private post(
+    message: JSONRPCRequest | JSONRPCNotification,
+    signal?: AbortSignal
+  ): Promise<AxiosResponse<JSONRPCResponse>> {
+    const config: AxiosRequestConfig = {};
+    if (this.sessionId) {
+      config.headers = { [MCP_SESSION_HEADER]: this.sessionId };
+    }
+    if (signal) {
+      config.signal = signal;
+    }
+    if (Object.keys(config).length === 0) {
+      return this.httpClient.post("", message);
+    }
+    return this.httpClient.post("", message, config);
+  }
+
+  /**
+   * Tell the server to stop working on an abandoned request
+   * Best effort: the request may already have finished
+   */
+  private notifyCancelled(requestId: string | number, reason: string): void {
+    this.post({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId, reason },
+    }).catch((error) => {
+      console.warn("[MCPClient] Failed to send cancellation:", error);
+    });
+  }
+
+  /**
+   * Perform the MCP initialize handshake once per session
+   * Concurrent callers share the same handshake; a failed one is retried next time
+   */
+  async initialize(): Promise<MCPInitializeResult> {
+    if (!this.handshake) {
+      const handshake = this.performHandshake();
+      this.handshake = handshake;
+      handshake.catch(() => {
+        if (this.handshake === handshake) {
+          this.handshake = null;
+        }
+      });
+    }
+    return this.handshake;
+  }
+
+  private async performHandshake(): Promise<MCPInitializeResult> {
+    const response = await this.sendRequest(
+      createInitializeRequest(this.requestId++)
+    );
+
+    let result: MCPInitializeResult;
+    try {
+      result = validateInitializeResult(response.result);
+    } catch (error) {
+      throw this.createErrorResponse(
+        ErrorCode.CONNECTION_FAILED,
+        (error as Error).message,
+        error
+      );
+    }
+
+    await this.post(INITIALIZED_NOTIFICATION);
+    this.initializeResult = result;
+    console.log("[MCPClient] Session initialized:", {
+      protocolVersion: result.protocolVersion,
+      server: result.serverInfo.name,
+    });
+    return result;
+  }
+
+  /**
+   * Forget the current session so the next call performs a new handshake
+   */
+  private resetSession(): void {
+    this.sessionId = null;
+    this.initializeResult = null;
+    this.handshake = null;
+  }
+
+  /**
+   * Capabilities the server advertised, or null before the handshake
+   */
+  getServerCapabilities(): MCPServerCapabilities | null {
+    return this.initializeResult?.capabilities ?? null;
+  }
+
   /**
    * Call a tool on the MCP server
+   * Cancelling options.signal aborts the HTTP request and sends
+   * notifications/cancelled so the server stops the handler as well
    */
-  async callTool(toolName: string, args: Record<string, any>): Promise<any> {
+  async callTool(
+    toolName: string,
+    args: Record<string, any>,
+    options: MCPCallOptions = {}
+  ): Promise<any> {
+    const signal = toAbortSignal(options.signal);
+    await this.initialize();
+    if (signal?.aborted) {
+      throw this.createErrorResponse(ErrorCode.CANCELLED, "Request cancelled");
+    }
+
     const request: ToolCallRequest = {
       jsonrpc: "2.0",
       method: "tools/call",
@@ -109,14 +285,25 @@ export class MCPClient {
       id: this.requestId++,
     };
 
-    const response = await this.sendRequest(request);
-    return response.result;
+    try {
+      const response = await this.sendRequest(request, signal);
+      return response.result;
+    } catch (error) {
+      if (signal?.aborted) {
+        this.notifyCancelled(request.id, "Cancelled by the client");
+      }
+      throw error;
+    }
   }
 
   /**
    * Get business context for a code location with error handling
    */
-  async getBusinessContext(filePath: string, line: number): Promise<any> {
+  async getBusinessContext(
+    filePath: string,
+    line: number,
+    options: MCPCallOptions = {}
+  ): Promise<any> {
     // Log request details for debugging
     console.log("MCPClient - Requesting context for:", { filePath, line });
 
@@ -131,11 +318,15 @@ export class MCPClient {
 
     return await this.errorHandler.executeWithErrorHandling(
       async () => {
-        const response = await this.callTool("get_business_context", {
-          filePath,
-          startLine: line,
-          endLine: line,
-        });
+        const response = await this.callTool(
+          "get_business_context",
+          {
+            filePath,
+            startLine: line,
+            endLine: line,
+          },
+          options
+        );
 
         console.log(
           "MCPClient - Raw response:",
@@ -188,74 +379,38 @@ export class MCPClient {
     }
   }
 
-  /**
-   * Load remote configuration from VS Code settings
-   */
-  private loadRemoteConfig(): void {
-    // Use the extension namespace for settings
-    const config = vscode.workspace.getConfiguration();
-    this.remoteConfig = {
-      url: config.get<string>("aidmVscodeExtension.remote.mcpServerUrl", ""),
-      apiKey: config.get<string>("aidmVscodeExtension.remote.apiKey", ""),
-      enabled: config.get<boolean>("aidmVscodeExtension.remote.enabled", false),
-    };
-  }
-
   /**
    * Update configuration
+   * Remote MCP servers are reached through the local server, which mounts
+   * them as upstreams, so the client always talks to the local endpoint
    */
   updateConfig(port: number, timeout: number): void {
-    this.config.endpoint = `http://localhost:${port}/rpc`;
+    this.config.endpoint = `http://127.0.0.1:${port}/rpc`;
     this.config.timeout = timeout;
+    this.resetSession();
 
-    // Reload remote config
-    this.loadRemoteConfig();
-
-    // Use remote endpoint if enabled and configured
-    const endpoint = this.shouldUseRemote()
-      ? this.remoteConfig!.url
-      : this.config.endpoint;
-
-    const headers: Record<string, string> = { ...this.config.headers };
-    if (this.remoteConfig?.apiKey) {
-      headers["Authorization"] = `Bearer ${this.remoteConfig.apiKey}`;
-    }
+    this.httpClient = this.createHttpClient();
+  }
 
-    this.httpClient = axios.create({
-      baseURL: endpoint,
+  private createHttpClient(): AxiosInstance {
+    const recording =
+      this.recorder && this.recorder.mode !== "off"
+        ? { adapter: this.recorder.createAxiosAdapter("mcp") }
+        : {};
+    return axios.create({
+      baseURL: this.config.endpoint,
       timeout: this.config.timeout,
-      headers,
+      headers: this.createHeaders(this.authToken),
+      ...recording,
     });
   }
 
-  /**
-   * Check if we should use remote MCP server
-   */
-  private shouldUseRemote(): boolean {
-    return !!(this.remoteConfig?.enabled && this.remoteConfig?.url);
-  }
-
-  /**
-   * Set remote configuration
-   */
-  setRemoteConfig(url: string, apiKey?: string): void {
-    this.remoteConfig = {
-      url,
-      apiKey,
-      enabled: true,
-    };
-
-    // Update HTTP client to use remote endpoint
+  private createHeaders(bearerToken?: string): Record<string, string> {
     const headers: Record<string, string> = { ...this.config.headers };
-    if (apiKey) {
-      headers["Authorization"] = `Bearer ${apiKey}`;
+    if (bearerToken) {
+      headers["Authorization"] = `Bearer ${bearerToken}`;
     }
-
-    this.httpClient = axios.create({
-      baseURL: url,
-      timeout: this.config.timeout,
-      headers,
-    });
+    return headers;
   }
 
   private createErrorResponse(
@@ -307,7 +462,12 @@ export class MCPClient {
    */
   async shutdown(): Promise<void> {
     try {
-      // No audit logger to shutdown
+      if (this.sessionId) {
+        await this.httpClient.delete("", {
+          headers: { [MCP_SESSION_HEADER]: this.sessionId },
+        });
+        this.resetSession();
+      }
 
       console.log('[MCPClient] Client shutdown');
     } catch (error) {
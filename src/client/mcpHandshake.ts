@@ -0,0 +1,60 @@
+/**
+ * MCP Handshake Helpers
+ * Shared by MCPClient and HybridMCPClient to open sessions with MCP servers
+ */
+
+import {
+  JSONRPCNotification,
+  JSONRPCRequest,
+  MCP_PROTOCOL_VERSION,
+  MCPImplementationInfo,
+  MCPInitializeParams,
+  MCPInitializeResult,
+  SUPPORTED_MCP_PROTOCOL_VERSIONS,
+} from "../types/extension";
+
+export const CLIENT_INFO: MCPImplementationInfo = {
+  name: "aidm-vscode-extension",
+  version: "0.82.2",
+};
+
+/**
+ * Build the initialize request that opens a session
+ */
+export function createInitializeRequest(id: number): JSONRPCRequest {
+  const params: MCPInitializeParams = {
+    protocolVersion: MCP_PROTOCOL_VERSION,
+    capabilities: {},
+    clientInfo: CLIENT_INFO,
+  };
+  return { jsonrpc: "2.0", method: "initialize", params, id };
+}
+
+/**
+ * Notification sent once the initialize result has been accepted
+ */
+export const INITIALIZED_NOTIFICATION: JSONRPCNotification = {
+  jsonrpc: "2.0",
+  method: "notifications/initialized",
+};
+
+/**
+ * Check the server's initialize result
+ * @throws Error if the result is malformed or the version is not supported
+ */
+export function validateInitializeResult(result: any): MCPInitializeResult {
+  if (!result || typeof result.protocolVersion !== "string") {
+    throw new Error("Invalid initialize result: missing protocolVersion");
+  }
+  if (!SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+    throw new Error(
+      `Unsupported MCP protocol version: ${result.protocolVersion}`
+    );
+  }
+  return {
+    protocolVersion: result.protocolVersion,
+    capabilities: result.capabilities || {},
+    serverInfo: result.serverInfo || { name: "unknown", version: "unknown" },
+    instructions: result.instructions,
+  };
+}
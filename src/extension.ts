@@ -5,7 +5,9 @@ import { MCPClient } from "./client/mcpClient";
 import { BusinessContextHover } from "./providers/hoverProvider";
 import { StatusBarManagerImpl } from "./ui/statusBar";
 import { ProcessManager, ProcessManagerConfig } from "./server/ProcessManager";
-import { ConnectionStatus } from "./types/extension";
+import { LOOPBACK_HOST, MCPServerSecurityOptions } from "./server/RequestGuard";
+import type { ToolHandler } from "./server/ToolRegistry";
+import type { UpstreamServerConfig } from "./server/UpstreamMCPServer";
 import { ConfigurationPanel } from "./ui/configurationPanel";
 import {
   EXTENSION_CONFIG,
@@ -13,18 +15,28 @@ import {
   getConfigKey,
 } from "./config/extensionConfig";
 import { MockCache } from "./server/MockCache";
+import {
+  createSprintFileTemplate,
+  getSprintFilePath,
+  parseSprintFile,
+  SprintFileError,
+} from "./server/SprintContextStore";
 import {
   TasksDataService,
   JSONTaskParser,
 } from "./services";
 import { MockDataProvider } from "./mock";
 import { TaskStatus, Task } from "./types/tasks";
+import { parseTaskId, validateContextName } from "./services/TaskContextIds";
+import { CURRENT_TASKS_SCHEMA_VERSION } from "./services/TaskFileMigrations";
 import { TaskDetailCardProvider } from "./tasks/providers/TaskDetailCardProvider";
 import { TaskWebviewProvider } from "./tasks/providers";
 import { TaskErrorResponse } from "./types/tasks";
 import { TaskApiIntegrationSSO } from "./integrations/TaskApiIntegrationSSO";
 import { AuthService } from "./auth/authService";
+import { getMCPServerToken, issueMCPServerToken } from "./auth/mcpServerToken";
 import { CONFIG } from "./common/config";
+import { TrafficMode, TrafficRecorder } from "./utils/TrafficRecorder";
 
 
 
@@ -111,11 +123,12 @@ export function validateTasksFilePath(filePath: string): {
     }
   }
 
-  // Must end with .json
-  if (!trimmedPath.toLowerCase().endsWith(".json")) {
+  // Must be a tasks.json, tasks.yaml or tasks.md file
+  if (!/\.(json|ya?ml|md)$/i.test(trimmedPath)) {
     return {
       isValid: false,
-      error: "Tasks file must have .json extension (e.g., 'tasks.json').",
+      error:
+        "Tasks file must have a .json, .yaml, .yml or .md extension (e.g., 'tasks.json').",
     };
   }
 
@@ -184,7 +197,129 @@ async function handleConfigurationValidation(
   return true;
 }
 
+/**
+ * Resolve the tasks file served by the MCP server's tasks/* methods
+ * Relative paths resolve against the first workspace folder
+ */
+function resolveServerTasksFilePath(
+  config: vscode.WorkspaceConfiguration
+): string | undefined {
+  const configuredPath = config.get<string>(
+    getConfigKey("tasks.filePath"),
+    "tasks.json"
+  );
+  if (path.isAbsolute(configuredPath)) {
+    return configuredPath;
+  }
+
+  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  return workspaceFolder
+    ? path.resolve(workspaceFolder.uri.fsPath, configuredPath)
+    : undefined;
+}
+
+/**
+ * Tasks file path of one workspace folder; tasks.filePath is resource
+ * scoped, so folder settings override the workspace value
+ */
+function getFolderTasksPath(
+  workspaceFolder: vscode.WorkspaceFolder,
+  workspacePath: string
+): string {
+  return vscode.workspace
+    .getConfiguration("aidmVscodeExtension", workspaceFolder.uri)
+    .get<string>("tasks.filePath", workspacePath);
+}
+
+/**
+ * Bind address, token and caller allow-lists for the local MCP server
+ * The enterprise IP whitelist only takes effect when binding beyond loopback
+ */
+function resolveServerSecurity(
+  config: vscode.WorkspaceConfiguration,
+  authToken: string
+): MCPServerSecurityOptions {
+  return {
+    host: config.get<string>(getConfigKey("mcpServer.host"), LOOPBACK_HOST),
+    authToken,
+    allowedOrigins: config.get<string[]>(
+      getConfigKey("mcpServer.allowedOrigins"),
+      []
+    ),
+    ipWhitelist: config.get<string[]>(
+      getConfigKey("enterprise.compliance.ipWhitelist"),
+      []
+    ),
+  };
+}
+
+/**
+ * Remote MCP servers the local server mounts as "<name>.<tool>"
+ * The remote server from the configuration panel is mounted as "remote"
+ */
+function resolveUpstreamServers(
+  config: vscode.WorkspaceConfiguration
+): UpstreamServerConfig[] {
+  const upstreams = [
+    ...config.get<UpstreamServerConfig[]>(
+      getConfigKey("mcpServer.upstreams"),
+      []
+    ),
+  ];
+
+  const remoteUrl = config.get<string>(getConfigKey("remote.mcpServerUrl"), "");
+  if (
+    config.get<boolean>(getConfigKey("remote.enabled"), false) &&
+    remoteUrl &&
+    !upstreams.some((upstream) => upstream.name === "remote")
+  ) {
+    upstreams.push({
+      name: "remote",
+      url: remoteUrl,
+      apiKey:
+        config.get<string>(getConfigKey("remote.apiKey"), "") || undefined,
+    });
+  }
+  return upstreams;
+}
+
+/**
+ * Recorder for MCP and Task API traffic, or undefined when recording is off
+ * Fixtures go to .aidm/recordings of the first workspace folder
+ */
+function resolveTrafficRecorder(
+  config: vscode.WorkspaceConfiguration
+): TrafficRecorder | undefined {
+  const mode = config.get<TrafficMode>(
+    getConfigKey("debug.trafficRecording"),
+    "off"
+  );
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (mode === "off" || !workspaceRoot) {
+    return undefined;
+  }
+  console.log(`[Extension] Traffic recording mode: ${mode}`);
+  return TrafficRecorder.forWorkspace(workspaceRoot, mode);
+}
+
+/**
+ * API returned from activate() for companion extensions
+ */
+export interface AidmExtensionApi {
+  /**
+   * Expose a tool through the MCP server; arguments are validated against
+   * inputSchema (a JSON Schema of type object) before the handler runs
+   */
+  registerTool(
+    name: string,
+    description: string,
+    inputSchema: any,
+    handler: ToolHandler
+  ): vscode.Disposable;
+}
+
 let mcpClient: MCPClient;
+let mcpServerToken: string;
 let statusBarManager: StatusBarManagerImpl;
 let processManager: ProcessManager;
 let tasksDataService: TasksDataService;
@@ -193,6 +328,27 @@ let taskWebviewProvider: TaskWebviewProvider;
 let taskApiIntegration: TaskApiIntegrationSSO;
 let authService: AuthService | undefined;
 let debugChannel: vscode.OutputChannel;
+let trafficRecorder: TrafficRecorder | undefined;
+
+/**
+ * Tools registered through the API are removed when this extension deactivates
+ */
+function createExtensionApi(
+  context: vscode.ExtensionContext
+): AidmExtensionApi {
+  return {
+    registerTool: (name, description, inputSchema, handler) => {
+      const registration = processManager.registerTool(
+        name,
+        description,
+        inputSchema,
+        handler
+      );
+      context.subscriptions.push(registration);
+      return new vscode.Disposable(() => registration.dispose());
+    },
+  };
+}
 
 /**
  * Setup comprehensive UI event synchronization between tree view and detail panel
@@ -344,9 +500,119 @@ function setupUIEventSynchronization(
   }
 }
 
+/**
+ * Ask for the name of a new tasks.json context (tag)
+ */
+async function promptTaskContextName(): Promise<string | undefined> {
+  const name = await vscode.window.showInputBox({
+    prompt: "Name of the new task context",
+    placeHolder: "feature-x",
+    validateInput: (value) => validateContextName(value.trim()),
+  });
+  return name?.trim() || undefined;
+}
+
+/**
+ * Copy or move a tasks.json task to another context, asking for the task
+ * when the command was not given one
+ */
+async function copyTaskToContext(
+  tasksDataService: TasksDataService,
+  taskId: string | undefined,
+  move: boolean
+): Promise<void> {
+  const action = move ? "Move" : "Copy";
+  if (!taskId) {
+    const fileTasks = (await tasksDataService.getTasks()).filter(
+      (task) => task.context
+    );
+    const picked = await vscode.window.showQuickPick(
+      fileTasks.map((task) => ({ label: task.id, description: task.title })),
+      { placeHolder: `${action} which task?` }
+    );
+    if (!picked) {
+      return;
+    }
+    taskId = picked.label;
+  }
+
+  const newContext = "$(add) New context...";
+  const sourceContext = parseTaskId(taskId).context;
+  const contexts = (await tasksDataService.getTaskContexts()).filter(
+    (context) => context !== sourceContext
+  );
+  const choice = await vscode.window.showQuickPick([...contexts, newContext], {
+    placeHolder: `${action} task ${taskId} to context`,
+  });
+  const targetContext =
+    choice === newContext ? await promptTaskContextName() : choice;
+  if (!targetContext) {
+    return;
+  }
+
+  const task = await tasksDataService.copyTaskToContext(
+    taskId,
+    targetContext,
+    move
+  );
+  if (task) {
+    vscode.window.showInformationMessage(
+      `${move ? "Moved" : "Copied"} task ${taskId} to ${targetContext} as ${task.id}`
+    );
+  } else {
+    vscode.window.showWarningMessage(
+      `Task ${taskId} is not in tasks.json or could not be ${
+        move ? "moved" : "copied"
+      } to ${targetContext}`
+    );
+  }
+}
+
+/**
+ * Offer to upgrade tasks.json files written for an older schema version
+ * Nothing is written unless the user confirms, and each file is backed up
+ * @param userInitiated - Ask in a modal dialog and report up-to-date files
+ */
+async function upgradeTasksFiles(
+  tasksDataService: TasksDataService,
+  userInitiated: boolean
+): Promise<void> {
+  const outdated = await tasksDataService.findOutdatedTasksFiles();
+  if (outdated.length === 0) {
+    if (userInitiated) {
+      vscode.window.showInformationMessage(
+        `Tasks files already use schema version ${CURRENT_TASKS_SCHEMA_VERSION}`
+      );
+    }
+    return;
+  }
+
+  const names = outdated
+    .map((file) => vscode.workspace.asRelativePath(file.fileUri))
+    .join(", ");
+  const choice = await vscode.window.showWarningMessage(
+    `${names} ${
+      outdated.length === 1 ? "uses" : "use"
+    } an older tasks file schema. Upgrade to version ${CURRENT_TASKS_SCHEMA_VERSION}? A backup of each file is saved next to it first.`,
+    { modal: userInitiated },
+    "Upgrade"
+  );
+  if (choice !== "Upgrade") {
+    return;
+  }
+
+  for (const { fileUri } of outdated) {
+    await tasksDataService.migrateTasksFile(fileUri);
+  }
+  await tasksDataService.refreshTasks();
+  vscode.window.showInformationMessage(
+    `Upgraded ${names} to tasks file schema version ${CURRENT_TASKS_SCHEMA_VERSION}`
+  );
+}
+
 export async function activate(
   context: vscode.ExtensionContext
-): Promise<void> {
+): Promise<AidmExtensionApi> {
   try {
 
     // Essential commands only - REF-021
@@ -354,15 +620,23 @@ export async function activate(
     // Get configuration
     const config = vscode.workspace.getConfiguration();
 
-    // Get configured port or use smart port selection
+    // Preferred port; ProcessManager falls back to a free one if it is taken
     const configuredPort = config.get<number>(
       getConfigKey("mcpServer.port"),
       3005
     );
 
+    // Every activation gets a fresh token for the local MCP server
+    mcpServerToken = await issueMCPServerToken(context.secrets);
+    trafficRecorder = resolveTrafficRecorder(config);
+
     // Build process manager configuration
     const processConfig: ProcessManagerConfig = {
-      port: configuredPort, // Will be updated with actual available port
+      port: configuredPort, // Clients follow onPortChange to the port actually bound
+      tasksFilePath: resolveServerTasksFilePath(config),
+      workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+      security: resolveServerSecurity(config, mcpServerToken),
+      upstreams: resolveUpstreamServers(config),
       timeout: config.get<number>(getConfigKey("mcpServer.timeout"), 5000),
       retryAttempts: config.get<number>(
         getConfigKey("mcpServer.retryAttempts"),
@@ -393,7 +667,12 @@ export async function activate(
     }
 
     try {
-      mcpClient = new MCPClient(processConfig.port, processConfig.timeout);
+      mcpClient = new MCPClient(
+        processConfig.port,
+        processConfig.timeout,
+        mcpServerToken,
+        trafficRecorder
+      );
     } catch (error) {
       console.error("MCPClient initialization failed:", error);
       throw error;
@@ -401,6 +680,9 @@ export async function activate(
 
     try {
       statusBarManager = new StatusBarManagerImpl(mcpClient);
+      statusBarManager.setServerStatsProvider(() =>
+        processManager.getServerStats()
+      );
     } catch (error) {
       console.error("StatusBarManager initialization failed:", error);
       throw error;
@@ -423,7 +705,8 @@ export async function activate(
       tasksDataService = new TasksDataService(
         jsonParser,
         mockDataProvider,
-        authService  // Pass authService (could be undefined - that's ok)
+        authService,  // Pass authService (could be undefined - that's ok)
+        mcpServerToken
       );
 
       // Task 6.1.2: Initialize TasksDataService after workspace is ready
@@ -453,7 +736,12 @@ export async function activate(
 
     try {
       if (authService) {
-        taskApiIntegration = new TaskApiIntegrationSSO(tasksDataService, authService, context);
+        taskApiIntegration = new TaskApiIntegrationSSO(
+          tasksDataService,
+          authService,
+          context,
+          trafficRecorder
+        );
         await taskApiIntegration.initialize();
         console.log('✅ TaskApiIntegrationSSO initialized - SSO auth will auto-sync tasks');
       } else {
@@ -581,20 +869,13 @@ export async function activate(
           );
         }
 
-        return; // Skip file watching setup
+        return createExtensionApi(context); // Skip file watching setup
       }
 
-      // Create VSCode native file system watcher
+      // Create VSCode native file system watchers, one per workspace folder
+      // since each folder has its own tasks file
       const workspaceFolders = vscode.workspace.workspaceFolders;
       if (workspaceFolders && workspaceFolders.length > 0) {
-        const workspaceFolder = workspaceFolders[0];
-        const filePattern = new vscode.RelativePattern(
-          workspaceFolder,
-          configuredTasksPath
-        );
-        const fileWatcher =
-          vscode.workspace.createFileSystemWatcher(filePattern);
-
         // Setup change handlers
         const handleFileChange = async () => {
           try {
@@ -610,14 +891,23 @@ export async function activate(
           }
         };
 
-        fileWatcher.onDidChange(handleFileChange);
-        fileWatcher.onDidCreate(handleFileChange);
-        fileWatcher.onDidDelete(() => {
-          // TasksDataService will handle fallback automatically
-        });
+        for (const workspaceFolder of workspaceFolders) {
+          const filePattern = new vscode.RelativePattern(
+            workspaceFolder,
+            getFolderTasksPath(workspaceFolder, configuredTasksPath)
+          );
+          const fileWatcher =
+            vscode.workspace.createFileSystemWatcher(filePattern);
+
+          fileWatcher.onDidChange(handleFileChange);
+          fileWatcher.onDidCreate(handleFileChange);
+          fileWatcher.onDidDelete(() => {
+            // TasksDataService will handle fallback automatically
+          });
 
-        // Add to subscriptions for proper cleanup
-        context.subscriptions.push(fileWatcher);
+          // Add to subscriptions for proper cleanup
+          context.subscriptions.push(fileWatcher);
+        }
 
       } else {
       }
@@ -771,10 +1061,26 @@ export async function activate(
     }
 
     // Connect process manager status to status bar
-    processManager.onStatusChange((status: ConnectionStatus) => {
+    processManager.onStatusChange((status, health) => {
+      statusBarManager.updateServerHealth(health);
       statusBarManager.updateConnectionStatus(status);
     });
 
+    // Follow the server when it binds a fallback port
+    processManager.onPortChange((port) => {
+      mcpClient.updateConfig(port, processManager.getTimeout());
+      tasksDataService.updateServerPort(port);
+    });
+
+    // Push task changes to MCP resource subscribers
+    context.subscriptions.push(
+      tasksDataService.onTasksUpdated.event(() => {
+        processManager.notifyTasksUpdated().catch((error) => {
+          console.error("MCP resource notification failed:", error);
+        });
+      })
+    );
+
     try {
       await startMCPServer();
     } catch (error) {
@@ -845,6 +1151,104 @@ export async function activate(
       console.error("refreshTasks command failed:", error);
     }
 
+    // Register task context (tag) commands for nested tasks.json files
+    try {
+      const createTaskContextCommand = vscode.commands.registerCommand(
+        getCommandId("createTaskContext"),
+        async () => {
+          try {
+            // Each folder of a multi-root workspace has its own tasks file
+            let folderName: string | undefined;
+            if ((vscode.workspace.workspaceFolders?.length ?? 0) > 1) {
+              const folder = await vscode.window.showWorkspaceFolderPick({
+                placeHolder: "Workspace folder to add the task context to",
+              });
+              if (!folder) {
+                return;
+              }
+              folderName = folder.name;
+            }
+            const name = await promptTaskContextName();
+            if (!name) {
+              return;
+            }
+            if (await tasksDataService.createTaskContext(name, folderName)) {
+              vscode.window.showInformationMessage(
+                `Task context "${name}" created`
+              );
+            } else {
+              vscode.window.showWarningMessage(
+                `Task context "${name}" already exists or there is no tasks.json to add it to`
+              );
+            }
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error occurred";
+            vscode.window.showErrorMessage(
+              `Failed to create task context: ${errorMessage}`
+            );
+            console.error("CreateTaskContext command error:", error);
+          }
+        }
+      );
+      context.subscriptions.push(createTaskContextCommand);
+
+      for (const move of [false, true]) {
+        const command = vscode.commands.registerCommand(
+          getCommandId(move ? "moveTaskToContext" : "copyTaskToContext"),
+          async (taskId?: string) => {
+            try {
+              await copyTaskToContext(tasksDataService, taskId, move);
+            } catch (error) {
+              const errorMessage =
+                error instanceof Error
+                  ? error.message
+                  : "Unknown error occurred";
+              vscode.window.showErrorMessage(
+                `Failed to ${move ? "move" : "copy"} task: ${errorMessage}`
+              );
+              console.error("CopyTaskToContext command error:", error);
+            }
+          }
+        );
+        context.subscriptions.push(command);
+      }
+    } catch (error) {
+      console.error("Task context commands failed:", error);
+    }
+
+    // Register tasks.json schema upgrade command, and offer the upgrade once
+    // at startup when a tasks file needs it
+    try {
+      const upgradeTasksFileCommand = vscode.commands.registerCommand(
+        getCommandId("upgradeTasksFile"),
+        async () => {
+          try {
+            await upgradeTasksFiles(tasksDataService, true);
+          } catch (error) {
+            const errorMessage =
+              error instanceof Error ? error.message : "Unknown error occurred";
+            vscode.window.showErrorMessage(
+              `Failed to upgrade tasks file: ${errorMessage}`
+            );
+            console.error("UpgradeTasksFile command error:", error);
+          }
+        }
+      );
+      context.subscriptions.push(upgradeTasksFileCommand);
+
+      upgradeTasksFiles(tasksDataService, false).catch((error) => {
+        vscode.window.showErrorMessage(
+          `Failed to upgrade tasks file: ${
+            error instanceof Error ? error.message : "Unknown error occurred"
+          }`
+        );
+        console.error("Tasks file upgrade failed:", error);
+      });
+    } catch (error) {
+      console.error("upgradeTasksFile command failed:", error);
+    }
+
     // REF-021: Removed excessive commands - kept only essential commands
 
     // Register progressive authentication login command - PROGRESSIVE-002
@@ -1011,6 +1415,80 @@ export async function activate(
       console.error("configureApiUrl command failed:", error);
     }
 
+    // Register copy MCP server token command - external MCP clients need the bearer token
+    try {
+      const copyMCPServerTokenCommand = vscode.commands.registerCommand(
+        "aidm.copyMCPServerToken",
+        async () => {
+          const token = await getMCPServerToken(context.secrets);
+          if (!token) {
+            vscode.window.showWarningMessage("MCP server token not available");
+            return;
+          }
+          await vscode.env.clipboard.writeText(token);
+          vscode.window.showInformationMessage(
+            "MCP server token copied. Send it as 'Authorization: Bearer <token>'."
+          );
+        }
+      );
+      context.subscriptions.push(copyMCPServerTokenCommand);
+    } catch (error) {
+      console.error("copyMCPServerToken command failed:", error);
+    }
+
+    // Register edit sprint context command - .aidm/sprint.json backs the sprint MCP tools
+    try {
+      const editSprintContextCommand = vscode.commands.registerCommand(
+        "aidm.editSprintContext",
+        async () => {
+          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+          if (!workspaceFolder) {
+            vscode.window.showWarningMessage(
+              "Open a workspace folder to edit its sprint context"
+            );
+            return;
+          }
+          const sprintFilePath = getSprintFilePath(workspaceFolder.uri.fsPath);
+          if (!fs.existsSync(sprintFilePath)) {
+            fs.mkdirSync(path.dirname(sprintFilePath), { recursive: true });
+            fs.writeFileSync(
+              sprintFilePath,
+              JSON.stringify(createSprintFileTemplate(), null, 2) + "\n"
+            );
+          }
+          const document = await vscode.workspace.openTextDocument(
+            sprintFilePath
+          );
+          await vscode.window.showTextDocument(document);
+        }
+      );
+      context.subscriptions.push(editSprintContextCommand);
+
+      // Agents only see the sprint context while the file is valid
+      const sprintFileSaveListener = vscode.workspace.onDidSaveTextDocument(
+        (document) => {
+          const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+          if (
+            !workspaceFolder ||
+            document.uri.fsPath !==
+              getSprintFilePath(workspaceFolder.uri.fsPath)
+          ) {
+            return;
+          }
+          try {
+            parseSprintFile(document.getText());
+          } catch (error) {
+            if (error instanceof SprintFileError) {
+              vscode.window.showWarningMessage(error.message);
+            }
+          }
+        }
+      );
+      context.subscriptions.push(sprintFileSaveListener);
+    } catch (error) {
+      console.error("editSprintContext command failed:", error);
+    }
+
     // Register Task API commands - ICON-001
     try {
       const taskApiConfigureCommand = vscode.commands.registerCommand(
@@ -1108,6 +1586,10 @@ export async function activate(
                 getConfigKey("performance.maxConcurrentRequests"),
                 10
               ),
+              tasksFilePath: resolveServerTasksFilePath(config),
+              workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+              security: resolveServerSecurity(config, mcpServerToken),
+              upstreams: resolveUpstreamServers(config),
               mock: {
                 enabled: config.get<boolean>(
                   getConfigKey("mock.enabled"),
@@ -1126,8 +1608,9 @@ export async function activate(
 
             try {
               await processManager.updateConfig(newProcessConfig);
+              // The running server keeps its port until it restarts
               mcpClient.updateConfig(
-                newProcessConfig.port!,
+                processManager.getActualPort(),
                 newProcessConfig.timeout!
               );
 
@@ -1146,14 +1629,6 @@ export async function activate(
                   // Create new VSCode FileSystemWatcher
                   const workspaceFolders = vscode.workspace.workspaceFolders;
                   if (workspaceFolders && workspaceFolders.length > 0) {
-                    const workspaceFolder = workspaceFolders[0];
-                    const filePattern = new vscode.RelativePattern(
-                      workspaceFolder,
-                      newTasksPath
-                    );
-                    const fileWatcher =
-                      vscode.workspace.createFileSystemWatcher(filePattern);
-
                     // Setup change handlers
                     const handleFileChange = async () => {
                       try {
@@ -1181,14 +1656,23 @@ export async function activate(
                       }
                     };
 
-                    fileWatcher.onDidChange(handleFileChange);
-                    fileWatcher.onDidCreate(handleFileChange);
-                    fileWatcher.onDidDelete(() => {
-                      // TasksDataService will handle fallback automatically
-                    });
+                    for (const workspaceFolder of workspaceFolders) {
+                      const filePattern = new vscode.RelativePattern(
+                        workspaceFolder,
+                        getFolderTasksPath(workspaceFolder, newTasksPath)
+                      );
+                      const fileWatcher =
+                        vscode.workspace.createFileSystemWatcher(filePattern);
 
-                    // Add to subscriptions for proper cleanup
-                    context.subscriptions.push(fileWatcher);
+                      fileWatcher.onDidChange(handleFileChange);
+                      fileWatcher.onDidCreate(handleFileChange);
+                      fileWatcher.onDidDelete(() => {
+                        // TasksDataService will handle fallback automatically
+                      });
+
+                      // Add to subscriptions for proper cleanup
+                      context.subscriptions.push(fileWatcher);
+                    }
 
                   }
                 } else {
@@ -1225,6 +1709,7 @@ export async function activate(
 
 
     vscode.window.showInformationMessage(EXTENSION_CONFIG.successMessage);
+    return createExtensionApi(context);
   } catch (error) {
     console.error(`ACTIVATION FAILED:`, error);
     vscode.window.showErrorMessage(
@@ -1238,16 +1723,19 @@ export async function activate(
 
 async function startMCPServer(): Promise<void> {
   try {
-    // Use configured port from settings (no dynamic port finding)
     const port = processManager.getPort();
     mcpClient.updateConfig(port, processManager.getTimeout());
     await processManager.start();
 
-    // Get the actual port the server is running on
+    // Differs from the configured port when that one was taken
     const actualPort = processManager.getActualPort();
 
     // Log server status to debug channel instead of user notification
-    debugChannel.appendLine(`MCP Server started on port ${actualPort}`);
+    debugChannel.appendLine(
+      actualPort === port
+        ? `MCP Server started on port ${actualPort}`
+        : `MCP Server started on port ${actualPort} (port ${port} was in use)`
+    );
   } catch (error) {
     console.error("Failed to start MCP server:", error);
     vscode.window.showErrorMessage(
@@ -12,6 +12,7 @@ import { AuthServiceTokenProvider } from '../api/AuthServiceTokenProvider';
 import { TaskPersistenceService } from '../services/TaskPersistenceService';
 import { RepositoryContextService } from '../services/RepositoryContextService';
 import { log } from '../utils/logger';
+import type { TrafficRecorder } from '../utils/TrafficRecorder';
 
 export class TaskApiIntegrationSSO {
   private tokenProvider: AuthServiceTokenProvider;
@@ -23,7 +24,8 @@ export class TaskApiIntegrationSSO {
   constructor(
     private tasksDataService: TasksDataService,
     private authService: AuthService,
-    private context: vscode.ExtensionContext
+    private context: vscode.ExtensionContext,
+    private trafficRecorder?: TrafficRecorder
   ) {
     this.tokenProvider = new AuthServiceTokenProvider(authService);
     this.persistenceService = new TaskPersistenceService();
@@ -70,6 +72,7 @@ export class TaskApiIntegrationSSO {
         // User logged out
         log('INFO', 'TaskApiIntegrationSSO', 'User logged out - clearing API client');
         this.apiClient = null;
+        this.tasksDataService.setTaskApiClient(null);
       }
 
       lastAuthState = currentAuthState;
@@ -98,13 +101,20 @@ export class TaskApiIntegrationSSO {
     }
 
     this.tokenProvider.initializeIdentityService(baseUrl);
-    this.apiClient = new TaskApiClient(baseUrl, this.tokenProvider);
+    this.apiClient = new TaskApiClient(
+      baseUrl,
+      this.tokenProvider,
+      this.trafficRecorder
+    );
+    // Task changes of synced tasks go back through the API
+    this.tasksDataService.setTaskApiClient(this.apiClient);
 
     log('INFO', 'TaskApiIntegrationSSO', `API client configured with base URL: ${baseUrl}`);
   }
 
   /**
-   * Fetch tasks from API and persist to .aidm/.tasks
+   * Fetch tasks from API and persist to .aidm/.tasks of every workspace folder
+   * Each folder gets the tasks of its own repository
    */
   async fetchAndPersistTasks(userInitiated = false): Promise<void> {
     if (!this.apiClient) {
@@ -113,41 +123,45 @@ export class TaskApiIntegrationSSO {
     }
 
     try {
-      // Get repository context
-      const repoContext = await this.repoContextService.getRepositoryContext();
+      // Get repository context of every workspace folder
+      const repoContexts = await this.repoContextService.getRepositoryContexts();
 
-      if (!repoContext) {
+      if (repoContexts.length === 0) {
         log('WARN', 'TaskApiIntegrationSSO', 'No repository context available');
         return;
       }
 
-      log('INFO', 'TaskApiIntegrationSSO', `Fetching tasks for repo: ${repoContext.repoId}`);
-
-      // Fetch tasks with repo filter
-      const result = await this.apiClient.fetchUserTasks(repoContext.repoId);
-
-      if (!result.success || !result.data) {
-        log('ERROR', 'TaskApiIntegrationSSO', 'Failed to fetch tasks', {
-          error: result.error
-        });
-        // Only show warning notification for user-initiated actions
-        if (userInitiated) {
-          vscode.window.showWarningMessage(
-            `Failed to fetch tasks: ${result.error}`
-          );
+      let syncedCount = 0;
+      for (const repoContext of repoContexts) {
+        log('INFO', 'TaskApiIntegrationSSO', `Fetching tasks for repo: ${repoContext.repoId}`);
+
+        // Fetch tasks with repo filter
+        const result = await this.apiClient.fetchUserTasks(repoContext.repoId);
+
+        if (!result.success || !result.data) {
+          log('ERROR', 'TaskApiIntegrationSSO', 'Failed to fetch tasks', {
+            error: result.error
+          });
+          // Only show warning notification for user-initiated actions
+          if (userInitiated) {
+            vscode.window.showWarningMessage(
+              `Failed to fetch tasks: ${result.error}`
+            );
+          }
+
+          // Always log for debugging
+          log('WARN', 'TaskApiIntegrationSSO', 'Failed to fetch tasks', { error: result.error });
+          return;
         }
 
-        // Always log for debugging
-        log('WARN', 'TaskApiIntegrationSSO', 'Failed to fetch tasks', { error: result.error });
-        return;
-      }
-
-      log('INFO', 'TaskApiIntegrationSSO', `Fetched ${result.data.length} tasks from API`);
+        log('INFO', 'TaskApiIntegrationSSO', `Fetched ${result.data.length} tasks from API`);
 
-      // Persist to .aidm/.tasks
-      await this.persistenceService.saveTasks(result.data, repoContext.workspaceFolder);
+        // Persist to .aidm/.tasks of the folder
+        await this.persistenceService.saveTasks(result.data, repoContext.workspaceFolder);
+        syncedCount += result.data.length;
 
-      log('INFO', 'TaskApiIntegrationSSO', `Saved ${result.data.length} tasks to .aidm/.tasks`);
+        log('INFO', 'TaskApiIntegrationSSO', `Saved ${result.data.length} tasks to .aidm/.tasks in ${repoContext.workspaceFolder.name}`);
+      }
 
       // Trigger TasksDataService to reload
       await this.tasksDataService.refreshTasks();
@@ -155,12 +169,12 @@ export class TaskApiIntegrationSSO {
       // Only show success notification for user-initiated actions
       if (userInitiated) {
         vscode.window.showInformationMessage(
-          `✓ Synced ${result.data.length} tasks from API`
+          `✓ Synced ${syncedCount} tasks from API`
         );
       }
 
       // Always log for debugging
-      log('INFO', 'TaskApiIntegrationSSO', `Synced ${result.data.length} tasks from API`);
+      log('INFO', 'TaskApiIntegrationSSO', `Synced ${syncedCount} tasks from API`);
     } catch (error) {
       log('ERROR', 'TaskApiIntegrationSSO', 'Failed to fetch and persist tasks', { error });
       // Only show error notification for user-initiated actions
@@ -113,11 +113,15 @@ export class BusinessContextHover
 
       console.log("Hover Provider - CodeLocation:", codeLocation);
 
-      // Get business context from MCP server
+      // Get business context from MCP server; a moved mouse cancels the request
       const contextData = await this.mcpClient.getBusinessContext(
         codeLocation.filePath,
-        codeLocation.startLine
+        codeLocation.startLine,
+        { signal: token }
       );
+      if (token?.isCancellationRequested) {
+        return null;
+      }
 
       // Log raw response for debugging
       console.log(
@@ -240,6 +244,9 @@ export class BusinessContextHover
         new vscode.Range(position, position)
       );
     } catch (error) {
+      if (token?.isCancellationRequested) {
+        return null;
+      }
       console.error("Error retrieving business context:", error);
       return this.createErrorHover(error);
     }
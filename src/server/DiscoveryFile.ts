@@ -0,0 +1,73 @@
+/**
+ * MCP Discovery File
+ * .aidm/mcp.json tells external agents and CLIs where the extension's MCP
+ * server listens and which bearer token it expects
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+export const DISCOVERY_FILE = path.join(".aidm", "mcp.json");
+
+export interface MCPDiscoveryInfo {
+  url: string; // JSON-RPC endpoint
+  port: number;
+  pid: number; // Process serving the endpoint
+  token?: string; // Send as Authorization: Bearer <token>
+  startedAt: string; // ISO timestamp
+}
+
+export function getDiscoveryFilePath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, DISCOVERY_FILE);
+}
+
+/**
+ * Write the discovery file; only the current user may read it since it
+ * holds the server token
+ */
+export async function writeDiscoveryFile(
+  workspaceRoot: string,
+  info: MCPDiscoveryInfo
+): Promise<void> {
+  const filePath = getDiscoveryFilePath(workspaceRoot);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(tempPath, JSON.stringify(info, null, 2), {
+    mode: 0o600,
+  });
+  // Readers never see a half-written file
+  await fs.promises.rename(tempPath, filePath);
+}
+
+/**
+ * Read the discovery file, or null when no server has published one
+ */
+export async function readDiscoveryFile(
+  workspaceRoot: string
+): Promise<MCPDiscoveryInfo | null> {
+  try {
+    const content = await fs.promises.readFile(
+      getDiscoveryFilePath(workspaceRoot),
+      "utf8"
+    );
+    return JSON.parse(content) as MCPDiscoveryInfo;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the discovery file if it still describes the given process,
+ * leaving files published by other windows alone
+ */
+export async function removeDiscoveryFile(
+  workspaceRoot: string,
+  pid: number
+): Promise<void> {
+  const info = await readDiscoveryFile(workspaceRoot);
+  if (info && info.pid !== pid) {
+    return;
+  }
+  await fs.promises.rm(getDiscoveryFilePath(workspaceRoot), { force: true });
+}
@@ -0,0 +1,304 @@
+/**
+ * Minimal JSON Schema validator for MCP tool arguments
+ * Supports the keywords tool input schemas use in practice: type, enum, const,
+ * properties, required, additionalProperties, items, length, range, pattern and
+ * the anyOf/oneOf/allOf combinators. Other keywords are ignored.
+ */
+
+export interface SchemaValidationError {
+  path: string; // Dotted path of the offending value, "" for the root
+  message: string;
+}
+
+/**
+ * Validate a value against a schema
+ * @returns Every violation found, empty when the value is valid
+ */
+export function validateAgainstSchema(
+  schema: any,
+  value: unknown,
+  path: string = ""
+): SchemaValidationError[] {
+  if (schema === true || schema === undefined || schema === null) {
+    return [];
+  }
+  if (schema === false) {
+    return [{ path, message: `${label(path)} is not allowed` }];
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type
+      : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [
+        {
+          path,
+          message: `${label(path)} must be of type ${types.join(" or ")}`,
+        },
+      ];
+    }
+  }
+
+  const errors: SchemaValidationError[] = [];
+
+  if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+    errors.push({
+      path,
+      message: `${label(path)} must equal ${JSON.stringify(schema.const)}`,
+    });
+  }
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option: unknown) => deepEqual(option, value))
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must be one of ${schema.enum
+        .map((option: unknown) => JSON.stringify(option))
+        .join(", ")}`,
+    });
+  }
+
+  if (typeof value === "string") {
+    errors.push(...validateString(schema, value, path));
+  } else if (typeof value === "number") {
+    errors.push(...validateNumber(schema, value, path));
+  } else if (Array.isArray(value)) {
+    errors.push(...validateArray(schema, value, path));
+  } else if (isPlainObject(value)) {
+    errors.push(...validateObject(schema, value, path));
+  }
+
+  errors.push(...validateCombinators(schema, value, path));
+  return errors;
+}
+
+function validateString(
+  schema: any,
+  value: string,
+  path: string
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  if (
+    typeof schema.minLength === "number" &&
+    value.length < schema.minLength
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must be at least ${schema.minLength} characters`,
+    });
+  }
+  if (
+    typeof schema.maxLength === "number" &&
+    value.length > schema.maxLength
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must be at most ${schema.maxLength} characters`,
+    });
+  }
+  if (
+    typeof schema.pattern === "string" &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must match pattern ${schema.pattern}`,
+    });
+  }
+  return errors;
+}
+
+function validateNumber(
+  schema: any,
+  value: number,
+  path: string
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    errors.push({
+      path,
+      message: `${label(path)} must be >= ${schema.minimum}`,
+    });
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    errors.push({
+      path,
+      message: `${label(path)} must be <= ${schema.maximum}`,
+    });
+  }
+  if (
+    typeof schema.exclusiveMinimum === "number" &&
+    value <= schema.exclusiveMinimum
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must be > ${schema.exclusiveMinimum}`,
+    });
+  }
+  if (
+    typeof schema.exclusiveMaximum === "number" &&
+    value >= schema.exclusiveMaximum
+  ) {
+    errors.push({
+      path,
+      message: `${label(path)} must be < ${schema.exclusiveMaximum}`,
+    });
+  }
+  return errors;
+}
+
+function validateArray(
+  schema: any,
+  value: unknown[],
+  path: string
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    errors.push({
+      path,
+      message: `${label(path)} must have at least ${schema.minItems} items`,
+    });
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    errors.push({
+      path,
+      message: `${label(path)} must have at most ${schema.maxItems} items`,
+    });
+  }
+  if (schema.items !== undefined && !Array.isArray(schema.items)) {
+    value.forEach((item, index) =>
+      errors.push(
+        ...validateAgainstSchema(schema.items, item, `${path}[${index}]`)
+      )
+    );
+  }
+  return errors;
+}
+
+function validateObject(
+  schema: any,
+  value: Record<string, unknown>,
+  path: string
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const properties: Record<string, any> = schema.properties || {};
+
+  for (const name of Array.isArray(schema.required) ? schema.required : []) {
+    if (value[name] === undefined) {
+      errors.push({
+        path: joinPath(path, name),
+        message: `${joinPath(path, name)} is required`,
+      });
+    }
+  }
+
+  for (const [name, propertyValue] of Object.entries(value)) {
+    const propertyPath = joinPath(path, name);
+    if (name in properties) {
+      if (propertyValue !== undefined) {
+        errors.push(
+          ...validateAgainstSchema(
+            properties[name],
+            propertyValue,
+            propertyPath
+          )
+        );
+      }
+    } else if (schema.additionalProperties === false) {
+      errors.push({
+        path: propertyPath,
+        message: `${propertyPath} is not allowed`,
+      });
+    } else if (
+      schema.additionalProperties &&
+      typeof schema.additionalProperties === "object"
+    ) {
+      errors.push(
+        ...validateAgainstSchema(
+          schema.additionalProperties,
+          propertyValue,
+          propertyPath
+        )
+      );
+    }
+  }
+  return errors;
+}
+
+function validateCombinators(
+  schema: any,
+  value: unknown,
+  path: string
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateAgainstSchema(subschema, value, path));
+    }
+  }
+  if (Array.isArray(schema.anyOf)) {
+    const matches = schema.anyOf.some(
+      (subschema: any) =>
+        validateAgainstSchema(subschema, value, path).length === 0
+    );
+    if (!matches) {
+      errors.push({
+        path,
+        message: `${label(path)} must match at least one allowed schema`,
+      });
+    }
+  }
+  if (Array.isArray(schema.oneOf)) {
+    const matches = schema.oneOf.filter(
+      (subschema: any) =>
+        validateAgainstSchema(subschema, value, path).length === 0
+    ).length;
+    if (matches !== 1) {
+      errors.push({
+        path,
+        message: `${label(path)} must match exactly one allowed schema`,
+      });
+    }
+  }
+  return errors;
+}
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "boolean":
+      return typeof value === "boolean";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    case "null":
+      return value === null;
+    default:
+      return true;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+function label(path: string): string {
+  return path || "arguments";
+}
@@ -0,0 +1,145 @@
+/**
+ * MCP Federation
+ * Mounts the tools of upstream MCP servers in the local tool registry under
+ * "<upstream>.<tool>", so agents reach every server through one endpoint
+ */
+
+import {
+  ToolContentResult,
+  ToolRegistration,
+  ToolRegistry,
+} from "./ToolRegistry";
+import { UpstreamMCPServer, UpstreamServerConfig } from "./UpstreamMCPServer";
+
+interface MountedUpstream {
+  server: UpstreamMCPServer;
+  registrations: ToolRegistration[];
+  retryTimer?: NodeJS.Timeout;
+}
+
+const UPSTREAM_NAME_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+// Unreachable upstreams are retried this often
+const RETRY_INTERVAL = 30000;
+
+export class MCPFederation {
+  private upstreams: Map<string, MountedUpstream> = new Map();
+
+  constructor(private readonly registry: ToolRegistry) {}
+
+  /**
+   * Replace the mounted upstreams
+   * Resolves once every upstream was tried; unreachable ones are retried in
+   * the background
+   */
+  async mountAll(configs: UpstreamServerConfig[]): Promise<void> {
+    await this.unmountAll();
+
+    const accepted: MountedUpstream[] = [];
+    for (const config of configs) {
+      if (!UPSTREAM_NAME_PATTERN.test(config.name)) {
+        console.error(`[MCPFederation] Invalid upstream name: ${config.name}`);
+        continue;
+      }
+      if (this.upstreams.has(config.name)) {
+        console.error(`[MCPFederation] Duplicate upstream: ${config.name}`);
+        continue;
+      }
+      const upstream: MountedUpstream = {
+        server: new UpstreamMCPServer(config),
+        registrations: [],
+      };
+      this.upstreams.set(config.name, upstream);
+      accepted.push(upstream);
+    }
+
+    await Promise.all(accepted.map((upstream) => this.connect(upstream)));
+  }
+
+  async unmountAll(): Promise<void> {
+    const upstreams = Array.from(this.upstreams.values());
+    this.upstreams.clear();
+    for (const upstream of upstreams) {
+      clearTimeout(upstream.retryTimer);
+      this.unregisterTools(upstream);
+    }
+    await Promise.all(upstreams.map((upstream) => upstream.server.close()));
+  }
+
+  /**
+   * Fetch the upstream's tools and register them under its namespace
+   */
+  private async connect(upstream: MountedUpstream): Promise<void> {
+    const { name } = upstream.server.config;
+    try {
+      const tools = await upstream.server.listTools();
+      if (this.upstreams.get(name) !== upstream) {
+        return; // Unmounted meanwhile
+      }
+
+      for (const tool of tools) {
+        this.registerTool(
+          upstream,
+          tool.name,
+          tool.description,
+          tool.inputSchema
+        );
+      }
+      console.log(
+        `[MCPFederation] Mounted ${upstream.registrations.length} tools from ${name}`
+      );
+    } catch (error) {
+      if (this.upstreams.get(name) !== upstream) {
+        return;
+      }
+      console.error(
+        `[MCPFederation] Failed to mount ${name}, retrying in ${
+          RETRY_INTERVAL / 1000
+        }s:`,
+        error instanceof Error ? error.message : error
+      );
+      upstream.retryTimer = setTimeout(
+        () => this.connect(upstream),
+        RETRY_INTERVAL
+      );
+      upstream.retryTimer.unref?.();
+    }
+  }
+
+  private registerTool(
+    upstream: MountedUpstream,
+    toolName: string,
+    description: string | undefined,
+    inputSchema: any
+  ): void {
+    const { name } = upstream.server.config;
+    try {
+      const registration = this.registry.register(
+        `${name}.${toolName}`,
+        description ?? "",
+        // Servers may omit the schema; tools/call still needs an object
+        inputSchema?.type === "object" ? inputSchema : { type: "object" },
+        async (args, context) => {
+          const result = await upstream.server.callTool(
+            toolName,
+            args,
+            context.signal
+          );
+          return new ToolContentResult(result.content, result.isError);
+        }
+      );
+      upstream.registrations.push(registration);
+    } catch (error) {
+      console.warn(
+        `[MCPFederation] Skipping ${name} tool ${toolName}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private unregisterTools(upstream: MountedUpstream): void {
+    for (const registration of upstream.registrations) {
+      registration.dispose();
+    }
+    upstream.registrations = [];
+  }
+}
@@ -1,18 +1,36 @@
 /**
- * Simple Process Manager for MCP Server
- * Direct server control with start/stop/getStatus methods only
+ * Process Manager for MCP Server
+ * Hosts the server in a child process so crashes and blocking handlers cannot
+ * take down the extension host; probes its health and restarts it with
+ * exponential backoff after failures
  */
 
-import { SimpleMCPServer } from "./SimpleMCPServer";
-import { ContextManager } from "./ContextManager";
-import { MockDataProvider } from "../mock/MockDataProvider";
-import { JSONTaskParser } from "../services/JSONTaskParser";
+import { ChildProcess, fork } from "child_process";
+import * as path from "path";
+import type { MCPServerStats } from "./SimpleMCPServer";
+import { LOOPBACK_HOST, MCPServerSecurityOptions } from "./RequestGuard";
+import {
+  ToolArgumentsError,
+  ToolCallContext,
+  ToolHandler,
+  ToolRegistration,
+  ToolRegistry,
+} from "./ToolRegistry";
+import type { ServerHostEvent, ServerHostRequest } from "./ServerHost";
+import type { UpstreamServerConfig } from "./UpstreamMCPServer";
+import { removeDiscoveryFile, writeDiscoveryFile } from "./DiscoveryFile";
+import { ConnectionStatus } from "../types/extension";
 
 export interface ProcessManagerConfig {
   port: number;
   timeout?: number; // Optional for backward compatibility
-  retryAttempts?: number; // Optional for backward compatibility
+  retryAttempts?: number; // Consecutive restarts before giving up
   maxConcurrentRequests?: number; // Optional for backward compatibility
+  healthCheckInterval?: number; // Milliseconds between health probes
+  tasksFilePath?: string; // Absolute path to the workspace tasks.json served by tasks/* methods
+  workspaceRoot?: string; // Root holding .aidm/mock-cache.json and .aidm/mcp.json
+  security?: MCPServerSecurityOptions; // Bind address, bearer token and caller allow-lists
+  upstreams?: UpstreamServerConfig[]; // Remote MCP servers mounted as "<name>.<tool>"
   mock?: {
     enabled: boolean;
     dataSize: "small" | "medium" | "large";
@@ -26,80 +44,208 @@ export interface ProcessStats {
   uptime: number;
   lastError?: string;
   memoryUsage?: NodeJS.MemoryUsage;
+  restartCount: number;
 }
 
+export type ServerState =
+  | "stopped"
+  | "starting"
+  | "running"
+  | "restarting" // Waiting out the backoff delay after a failure
+  | "failed"; // Gave up after retryAttempts consecutive failures
+
+export interface ServerHealth {
+  state: ServerState;
+  restartCount: number; // Restarts after failures since the last manual start
+  lastFailure?: string;
+  lastFailureAt?: Date;
+  nextRestartAt?: Date;
+}
+
+export type StatusChangeListener = (
+  status: ConnectionStatus,
+  health: ServerHealth
+) => void;
+
+// Bundled next to extension.js by webpack
+const SERVER_HOST_SCRIPT = path.join(__dirname, "mcp-server-host.js");
+
+const DEFAULT_RETRY_ATTEMPTS = 3;
+const DEFAULT_HEALTH_CHECK_INTERVAL = 10000;
+const START_TIMEOUT = 15000;
+const STOP_TIMEOUT = 5000;
+const MISSED_PROBES_BEFORE_RESTART = 2;
+const INITIAL_RESTART_DELAY = 1000;
+const MAX_RESTART_DELAY = 30000;
+// Failures after this much healthy uptime start the backoff over
+const STABLE_UPTIME = 60000;
+
 export class ProcessManager {
-  private server: SimpleMCPServer | null = null;
-  private isRunning: boolean = false;
+  private child: ChildProcess | null = null;
+  private state: ServerState = "stopped";
   private config: ProcessManagerConfig;
+  private pendingStart: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private readyAt: number | null = null;
+  // Port the server bound, which differs from config.port after a fallback
+  private actualPort: number | null = null;
+  private discoveryPid: number | null = null;
+  private restartCount: number = 0;
+  private consecutiveFailures: number = 0;
+  private lastFailure?: string;
+  private lastFailureAt?: Date;
+  private nextRestartAt?: Date;
+  private restartTimer?: NodeJS.Timeout;
+  private healthCheckTimer?: NodeJS.Timeout;
+  private nextProbeId: number = 1;
+  private outstandingProbe: number | null = null;
+  private missedProbes: number = 0;
+  private lastProbe: {
+    stats: MCPServerStats;
+    memoryUsage: NodeJS.MemoryUsage;
+  } | null = null;
+  private statusListeners: Set<StatusChangeListener> = new Set();
+  private portListeners: Set<(port: number) => void> = new Set();
+  // Tools contributed by the extension, re-registered on every server start
+  private contributedTools = new ToolRegistry();
+  // Contributed tool calls running in the extension host, by call ID
+  private runningToolCalls: Map<number, AbortController> = new Map();
 
   constructor(config: ProcessManagerConfig) {
     this.config = config;
   }
 
   async start(): Promise<void> {
-    if (this.isRunning) {
+    if (this.child) {
       throw new Error('Server already running');
     }
 
-    try {
-      // Initialize mock data provider
-      const mockDataProvider = new MockDataProvider({
-        responseDelay: 50,
-        errorRate: 0,
-      });
-
-      // Initialize context manager
-      const contextManager = new ContextManager(mockDataProvider);
-
-      // Initialize JSON task parser
-      const jsonTaskParser = new JSONTaskParser();
+    this.clearRestartTimer();
+    this.restartCount = 0;
+    this.consecutiveFailures = 0;
+    this.actualPort = null;
+    this.setState("starting");
 
-      // Create and start server
-      this.server = new SimpleMCPServer(
-        this.config.port,
-        contextManager,
-        jsonTaskParser
-      );
-
-      await this.server.start();
-      this.isRunning = true;
-      console.log(`MCP server started on port ${this.config.port}`);
+    try {
+      await this.launch();
+      console.log(`MCP server started on port ${this.getActualPort()}`);
     } catch (error) {
+      if (this.state !== "stopped") {
+        this.recordFailure(error);
+        this.setState("failed");
+      }
       console.error('Failed to start server:', error);
       throw error;
     }
   }
 
   async stop(): Promise<void> {
-    if (!this.isRunning) {
-      return;
+    this.clearRestartTimer();
+    this.stopHealthChecks();
+    this.readyAt = null;
+    this.lastProbe = null;
+    // Set first so the exit below is not treated as a crash
+    if (this.state !== "stopped") {
+      this.setState("stopped");
     }
 
-    try {
-      if (this.server) {
-        await this.server.stop();
-        this.server = null;
-      }
-      this.isRunning = false;
+    const child = this.child;
+    this.child = null;
+    this.abortToolCalls();
+    this.pendingStart?.reject(new Error('MCP server stopped during startup'));
+    await this.unpublishDiscoveryFile();
+
+    if (child) {
+      await this.stopChild(child);
       console.log('MCP server stopped');
-    } catch (error) {
-      console.error('Failed to stop server:', error);
-      throw error;
     }
   }
 
+  /**
+   * Let the server notify MCP resource subscribers about task changes
+   */
+  async notifyTasksUpdated(): Promise<void> {
+    if (this.state === "running") {
+      this.send({ type: "notifyTasksUpdated" });
+    }
+  }
+
+  /**
+   * Contribute a tool to the MCP server, now and after restarts
+   */
+  registerTool(
+    name: string,
+    description: string,
+    inputSchema: any,
+    handler: ToolHandler
+  ): ToolRegistration {
+    const registration = this.contributedTools.register(
+      name,
+      description,
+      inputSchema,
+      handler
+    );
+    if (this.state === "running") {
+      this.send({
+        type: "registerTool",
+        tool: this.contributedTools.get(name)!,
+      });
+    }
+
+    let disposed = false;
+    return {
+      dispose: () => {
+        if (disposed) {
+          return;
+        }
+        disposed = true;
+        registration.dispose();
+        if (this.state === "running") {
+          this.send({ type: "unregisterTool", name });
+        }
+      },
+    };
+  }
+
+  /**
+   * Request counters and latency percentiles from the last health probe,
+   * or null while the server is not running
+   */
+  getServerStats(): MCPServerStats | null {
+    return this.state === "running" && this.lastProbe
+      ? this.lastProbe.stats
+      : null;
+  }
+
   getStatus(): 'running' | 'stopped' {
-    return this.isRunning ? 'running' : 'stopped';
+    return this.state === "running" ? 'running' : 'stopped';
+  }
+
+  /**
+   * Supervision state, restart count and the most recent failure
+   */
+  getHealth(): ServerHealth {
+    return {
+      state: this.state,
+      restartCount: this.restartCount,
+      lastFailure: this.lastFailure,
+      lastFailureAt: this.lastFailureAt,
+      nextRestartAt: this.nextRestartAt,
+    };
   }
 
   getPort(): number {
     return this.config.port;
   }
 
-  // Backward compatibility methods (simplified)
+  /**
+   * Port the server listens on; a free port replaces config.port when
+   * that one is taken
+   */
   getActualPort(): number {
-    return this.config.port;
+    return this.actualPort ?? this.config.port;
   }
 
   getTimeout(): number {
@@ -112,7 +258,16 @@ export class ProcessManager {
   }
 
   async updateConfig(newConfig: Partial<ProcessManagerConfig>): Promise<void> {
+    const upstreamsChanged =
+      newConfig.upstreams !== undefined &&
+      JSON.stringify(newConfig.upstreams) !==
+        JSON.stringify(this.config.upstreams ?? []);
     this.config = { ...this.config, ...newConfig };
+
+    // Other settings wait for a restart; upstreams are swapped in place
+    if (upstreamsChanged && this.state === "running") {
+      this.send({ type: "setUpstreams", upstreams: newConfig.upstreams! });
+    }
   }
 
   updatePort(newPort: number): void {
@@ -123,14 +278,428 @@ export class ProcessManager {
     await this.stop();
   }
 
-  onStatusChange(listener: (status: any) => void): void {
-    // Simplified - no status change notifications
+  /**
+   * Listen for state changes; the listener also receives restart details
+   */
+  onStatusChange(listener: StatusChangeListener): void {
+    this.statusListeners.add(listener);
+  }
+
+  removeStatusChangeListener(listener: StatusChangeListener): void {
+    this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Listen for the server binding a different port than before
+   */
+  onPortChange(listener: (port: number) => void): void {
+    this.portListeners.add(listener);
   }
 
   getStats(): ProcessStats {
     return {
-      isRunning: this.isRunning,
-      uptime: 0,
+      isRunning: this.state === "running",
+      pid: this.state === "running" ? this.child?.pid : undefined,
+      uptime: this.readyAt ? Date.now() - this.readyAt : 0,
+      lastError: this.lastFailure,
+      memoryUsage: this.lastProbe?.memoryUsage,
+      restartCount: this.restartCount,
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Fork the server process and wait until it is listening
+   */
+  private async launch(): Promise<void> {
+    // execArgv: [] keeps the child off the extension host's debug port
+    const child = fork(SERVER_HOST_SCRIPT, [], { execArgv: [] });
+    this.child = child;
+    child.on("message", (event: ServerHostEvent) =>
+      this.handleEvent(child, event)
+    );
+    child.on("exit", (code, signal) =>
+      this.handleExit(
+        child,
+        signal ? `exited on ${signal}` : `exited with code ${code}`
+      )
+    );
+    child.on("error", (error) => this.handleExit(child, error.message));
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(
+        () =>
+          this.pendingStart?.reject(
+            new Error(`MCP server did not start within ${START_TIMEOUT}ms`)
+          ),
+        START_TIMEOUT
+      );
+      this.pendingStart = {
+        resolve: () => {
+          clearTimeout(timer);
+          this.pendingStart = null;
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          this.pendingStart = null;
+          this.discardChild(child);
+          reject(error);
+        },
+      };
+
+      this.send({
+        type: "start",
+        config: {
+          // Restarts keep the port clients already know about
+          port: this.getActualPort(),
+          tasksFilePath: this.config.tasksFilePath,
+          workspaceRoot: this.config.workspaceRoot,
+          upstreams: this.config.upstreams,
+          options: {
+            ...this.config.security,
+            maxConcurrentRequests: this.config.maxConcurrentRequests,
+            requestTimeout: this.config.timeout,
+          },
+        },
+      });
+    });
+
+    this.readyAt = Date.now();
+    await this.publishDiscoveryFile(child);
+    for (const tool of this.contributedTools.list()) {
+      this.send({ type: "registerTool", tool });
+    }
+    this.setState("running");
+    this.startHealthChecks();
+  }
+
+  private handleEvent(child: ChildProcess, event: ServerHostEvent): void {
+    if (child !== this.child) {
+      return;
+    }
+
+    switch (event.type) {
+      case "ready":
+        this.setActualPort(event.port);
+        this.pendingStart?.resolve();
+        break;
+      case "startFailed":
+        this.pendingStart?.reject(new Error(event.error));
+        break;
+      case "probeResult":
+        this.outstandingProbe = null;
+        this.missedProbes = 0;
+        this.lastProbe = { stats: event.stats, memoryUsage: event.memoryUsage };
+        if (this.readyAt && Date.now() - this.readyAt >= STABLE_UPTIME) {
+          this.consecutiveFailures = 0;
+        }
+        break;
+      case "callTool":
+        this.runContributedTool(child, event);
+        break;
+      case "cancelTool":
+        this.runningToolCalls.get(event.callId)?.abort();
+        break;
+    }
+  }
+
+  private handleExit(child: ChildProcess, reason: string): void {
+    if (child !== this.child) {
+      return;
+    }
+    this.child = null;
+    this.abortToolCalls();
+
+    if (this.pendingStart) {
+      this.pendingStart.reject(new Error(`MCP server ${reason}`));
+    } else if (this.state === "running") {
+      this.handleFailure(`MCP server ${reason}`);
+    }
+  }
+
+  /**
+   * Record a failure and schedule a restart, unless retries are used up
+   */
+  private handleFailure(reason: string): void {
+    if (this.state === "stopped") {
+      return;
+    }
+
+    this.stopHealthChecks();
+    this.readyAt = null;
+    this.lastProbe = null;
+    this.recordFailure(reason);
+    console.error(`[ProcessManager] ${reason}`);
+    void this.unpublishDiscoveryFile();
+
+    const retryAttempts = this.config.retryAttempts ?? DEFAULT_RETRY_ATTEMPTS;
+    if (this.consecutiveFailures > retryAttempts) {
+      this.setState("failed");
+      return;
+    }
+
+    const delay = Math.min(
+      INITIAL_RESTART_DELAY * 2 ** (this.consecutiveFailures - 1),
+      MAX_RESTART_DELAY
+    );
+    this.nextRestartAt = new Date(Date.now() + delay);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = undefined;
+      this.nextRestartAt = undefined;
+      this.restartCount++;
+      this.setState("starting");
+      this.launch().catch((error) =>
+        this.handleFailure(
+          error instanceof Error ? error.message : String(error)
+        )
+      );
+    }, delay);
+    this.setState("restarting");
+  }
+
+  private setActualPort(port: number): void {
+    if (port === this.actualPort) {
+      return;
+    }
+    this.actualPort = port;
+    if (port !== this.config.port) {
+      console.warn(
+        `[ProcessManager] Port ${this.config.port} is in use, ` +
+          `MCP server moved to ${port}`
+      );
+    }
+    for (const listener of this.portListeners) {
+      try {
+        listener(port);
+      } catch (error) {
+        console.error('[ProcessManager] Port listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Tell external agents where to find the server via .aidm/mcp.json
+   */
+  private async publishDiscoveryFile(child: ChildProcess): Promise<void> {
+    if (!this.config.workspaceRoot || child.pid === undefined) {
+      return;
+    }
+
+    // Agents on this machine reach a wildcard bind through loopback
+    const bindHost = this.config.security?.host || LOOPBACK_HOST;
+    const host =
+      bindHost === "0.0.0.0" || bindHost === "::" ? LOOPBACK_HOST : bindHost;
+    const port = this.getActualPort();
+    try {
+      await writeDiscoveryFile(this.config.workspaceRoot, {
+        url: `http://${host}:${port}/rpc`,
+        port,
+        pid: child.pid,
+        token: this.config.security?.authToken,
+        startedAt: new Date().toISOString(),
+      });
+      this.discoveryPid = child.pid;
+    } catch (error) {
+      console.error('[ProcessManager] Failed to write discovery file:', error);
+    }
+  }
+
+  private async unpublishDiscoveryFile(): Promise<void> {
+    const pid = this.discoveryPid;
+    if (!this.config.workspaceRoot || pid === null) {
+      return;
+    }
+    this.discoveryPid = null;
+    try {
+      await removeDiscoveryFile(this.config.workspaceRoot, pid);
+    } catch (error) {
+      console.error('[ProcessManager] Failed to remove discovery file:', error);
+    }
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailure = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = new Date();
+  }
+
+  private startHealthChecks(): void {
+    this.stopHealthChecks();
+    this.outstandingProbe = null;
+    this.missedProbes = 0;
+    this.healthCheckTimer = setInterval(
+      () => this.probe(),
+      this.config.healthCheckInterval || DEFAULT_HEALTH_CHECK_INTERVAL
+    );
+    this.probe();
+  }
+
+  private stopHealthChecks(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+
+  /**
+   * A process whose event loop is blocked stops answering probes,
+   * so it is killed and restarted like a crashed one
+   */
+  private probe(): void {
+    if (this.outstandingProbe !== null) {
+      this.missedProbes++;
+      if (this.missedProbes >= MISSED_PROBES_BEFORE_RESTART) {
+        const child = this.child;
+        if (child) {
+          this.discardChild(child);
+        }
+        this.handleFailure("MCP server stopped answering health probes");
+      }
+      return;
+    }
+
+    this.outstandingProbe = this.nextProbeId++;
+    this.send({ type: "probe", id: this.outstandingProbe });
+  }
+
+  private runContributedTool(
+    child: ChildProcess,
+    event: Extract<ServerHostEvent, { type: "callTool" }>
+  ): void {
+    type ToolOutcome = Omit<
+      Extract<ServerHostRequest, { type: "toolResult" }>,
+      "type" | "callId"
+    >;
+    const controller = new AbortController();
+    this.runningToolCalls.set(event.callId, controller);
+    const reply = (outcome: ToolOutcome) => {
+      if (this.runningToolCalls.get(event.callId) === controller) {
+        this.runningToolCalls.delete(event.callId);
+      }
+      if (child === this.child && !controller.signal.aborted) {
+        this.send({ type: "toolResult", callId: event.callId, ...outcome });
+      }
+    };
+    const context: ToolCallContext = {
+      signal: controller.signal,
+      reportProgress: (progress, total, message) => {
+        if (child === this.child && !controller.signal.aborted) {
+          this.send({
+            type: "toolProgress",
+            callId: event.callId,
+            progress,
+            total,
+            message,
+          });
+        }
+      },
+    };
+
+    Promise.resolve()
+      .then(() => {
+        const handler = this.contributedTools.getHandler(event.name);
+        if (!handler) {
+          throw new Error(`Tool ${event.name} is not registered`);
+        }
+        return handler(event.args as Record<string, any>, context);
+      })
+      .then(
+        (result) => reply({ result }),
+        (error) =>
+          reply({
+            error: {
+              message: error instanceof Error ? error.message : String(error),
+              errors:
+                error instanceof ToolArgumentsError ? error.errors : undefined,
+            },
+          })
+      );
+  }
+
+  /**
+   * Nobody is left to receive the results of running tool calls
+   */
+  private abortToolCalls(): void {
+    for (const controller of this.runningToolCalls.values()) {
+      controller.abort();
+    }
+    this.runningToolCalls.clear();
+  }
+
+  /**
+   * Ask the process to shut down cleanly, killing it if it does not exit
+   */
+  private stopChild(child: ChildProcess): Promise<void> {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => child.kill("SIGKILL"), STOP_TIMEOUT);
+      child.once("exit", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      if (child.connected) {
+        child.send({ type: "stop" } as ServerHostRequest);
+      } else {
+        child.kill();
+      }
+    });
+  }
+
+  /**
+   * Forget a process without waiting for it; its exit is not a new failure
+   */
+  private discardChild(child: ChildProcess): void {
+    if (child === this.child) {
+      this.child = null;
+      this.abortToolCalls();
+    }
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill("SIGKILL");
+    }
+  }
+
+  private send(message: ServerHostRequest): void {
+    if (!this.child?.connected) {
+      return;
+    }
+    this.child.send(message, (error) => {
+      if (error) {
+        console.error(
+          `[ProcessManager] Failed to send ${message.type}:`,
+          error
+        );
+      }
+    });
+  }
+
+  private clearRestartTimer(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = undefined;
+      this.nextRestartAt = undefined;
+    }
+  }
+
+  private setState(state: ServerState): void {
+    this.state = state;
+    const status = {
+      stopped: ConnectionStatus.Disconnected,
+      starting: ConnectionStatus.Connecting,
+      running: ConnectionStatus.Connected,
+      restarting: ConnectionStatus.Connecting,
+      failed: ConnectionStatus.Error,
+    }[state];
+    const health = this.getHealth();
+
+    for (const listener of this.statusListeners) {
+      try {
+        listener(status, health);
+      } catch (error) {
+        console.error('[ProcessManager] Status listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Request Guard for the HTTP MCP server
+ * Decides which callers may reach the server: network address, browser origin and bearer token
+ */
+
+import { timingSafeEqual } from "crypto";
+import * as net from "net";
+
+/**
+ * Default bind address; only processes on this machine can connect
+ */
+export const LOOPBACK_HOST = "127.0.0.1";
+
+export interface MCPServerSecurityOptions {
+  host?: string; // Interface to bind, defaults to LOOPBACK_HOST
+  authToken?: string; // Bearer token every HTTP request must carry
+  allowedOrigins?: string[]; // Browser origins allowed to call the server
+  ipWhitelist?: string[]; // CIDR blocks allowed to connect on non-loopback binds
+}
+
+export class RequestGuard {
+  private readonly host: string;
+  private readonly authToken: Buffer | null;
+  private readonly allowedOrigins: Set<string>;
+  private readonly whitelist: net.BlockList | null = null;
+
+  constructor(options: MCPServerSecurityOptions = {}) {
+    this.host = options.host || LOOPBACK_HOST;
+    this.authToken = options.authToken ? Buffer.from(options.authToken) : null;
+    this.allowedOrigins = new Set(
+      (options.allowedOrigins || []).map((origin) => origin.toLowerCase())
+    );
+
+    // The whitelist only matters when other machines can reach the server
+    if (
+      !RequestGuard.isLoopbackAddress(this.host) &&
+      options.ipWhitelist?.length
+    ) {
+      this.whitelist = RequestGuard.createBlockList(options.ipWhitelist);
+    }
+  }
+
+  getHost(): string {
+    return this.host;
+  }
+
+  /**
+   * Loopback callers are always allowed; others must match the whitelist when one is set
+   */
+  isAddressAllowed(address: string | undefined): boolean {
+    if (!address) {
+      return false;
+    }
+    const normalized = RequestGuard.normalizeAddress(address);
+    if (!this.whitelist || RequestGuard.isLoopbackAddress(normalized)) {
+      return true;
+    }
+    return this.whitelist.check(
+      normalized,
+      net.isIPv6(normalized) ? "ipv6" : "ipv4"
+    );
+  }
+
+  /**
+   * Requests without an Origin come from local tools, not browsers
+   */
+  isOriginAllowed(origin: string | undefined): boolean {
+    return !origin || this.allowedOrigins.has(origin.toLowerCase());
+  }
+
+  /**
+   * Check an Authorization header against the server token
+   */
+  isAuthorized(authorization: string | undefined): boolean {
+    if (!this.authToken) {
+      return true;
+    }
+
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization || "");
+    if (!match) {
+      return false;
+    }
+    const provided = Buffer.from(match[1]);
+    return (
+      provided.length === this.authToken.length &&
+      timingSafeEqual(provided, this.authToken)
+    );
+  }
+
+  static isLoopbackAddress(address: string): boolean {
+    const normalized = RequestGuard.normalizeAddress(address);
+    return (
+      normalized === "localhost" ||
+      normalized === "::1" ||
+      (net.isIPv4(normalized) && normalized.startsWith("127."))
+    );
+  }
+
+  /**
+   * IPv4 clients of a dual-stack socket show up as ::ffff:a.b.c.d
+   */
+  private static normalizeAddress(address: string): string {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+    return mapped ? mapped[1] : address;
+  }
+
+  private static createBlockList(entries: string[]): net.BlockList {
+    const blockList = new net.BlockList();
+
+    for (const entry of entries) {
+      const [address, prefix] = entry.trim().split("/");
+      const type = net.isIPv6(address) ? "ipv6" : "ipv4";
+      try {
+        if (prefix === undefined) {
+          blockList.addAddress(address, type);
+        } else {
+          blockList.addSubnet(address, Number(prefix), type);
+        }
+      } catch (error) {
+        console.warn(
+          `[RequestGuard] Ignoring invalid ipWhitelist entry "${entry}":`,
+          error
+        );
+      }
+    }
+    return blockList;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Per-method latency tracking for the MCP server
+ * Keeps a bounded window of recent durations per method for percentile reporting
+ */
+
+export interface MethodLatencyStats {
+  method: string;
+  count: number; // Requests recorded since start, not just the current window
+  errors: number;
+  p50: number; // Milliseconds
+  p95: number;
+  p99: number;
+}
+
+interface MethodSamples {
+  durations: number[];
+  next: number; // Slot overwritten by the next sample once the window is full
+  count: number;
+  errors: number;
+}
+
+// Clients choose method names, so unknown names share one bucket past this many
+const MAX_TRACKED_METHODS = 100;
+const OTHER_METHODS = "(other)";
+
+export class RequestMetrics {
+  private samples: Map<string, MethodSamples> = new Map();
+
+  constructor(private readonly windowSize: number = 500) {}
+
+  record(method: string, durationMs: number, succeeded: boolean): void {
+    const key =
+      this.samples.has(method) || this.samples.size < MAX_TRACKED_METHODS
+        ? method
+        : OTHER_METHODS;
+
+    let entry = this.samples.get(key);
+    if (!entry) {
+      entry = { durations: [], next: 0, count: 0, errors: 0 };
+      this.samples.set(key, entry);
+    }
+
+    if (entry.durations.length < this.windowSize) {
+      entry.durations.push(durationMs);
+    } else {
+      entry.durations[entry.next] = durationMs;
+      entry.next = (entry.next + 1) % this.windowSize;
+    }
+    entry.count++;
+    if (!succeeded) {
+      entry.errors++;
+    }
+  }
+
+  /**
+   * Latency percentiles per method, busiest first
+   */
+  getMethodStats(): MethodLatencyStats[] {
+    return Array.from(this.samples.entries())
+      .map(([method, entry]) => {
+        const sorted = [...entry.durations].sort((a, b) => a - b);
+        return {
+          method,
+          count: entry.count,
+          errors: entry.errors,
+          p50: this.percentile(sorted, 50),
+          p95: this.percentile(sorted, 95),
+          p99: this.percentile(sorted, 99),
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+  }
+
+  reset(): void {
+    this.samples.clear();
+  }
+
+  /**
+   * Nearest-rank percentile of an ascending list
+   */
+  private percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) {
+      return 0;
+    }
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.max(0, rank - 1)];
+  }
+}
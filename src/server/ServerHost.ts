@@ -0,0 +1,269 @@
+/**
+ * Server Host
+ * Runs SimpleMCPServer inside the child process ProcessManager supervises,
+ * driven by IPC messages from the extension host
+ */
+
+import {
+  MCPServerOptions,
+  MCPServerStats,
+  SimpleMCPServer,
+} from "./SimpleMCPServer";
+import { ContextManager } from "./ContextManager";
+import { MockCache } from "./MockCache";
+import { MockDataProvider } from "../mock/MockDataProvider";
+import { JSONTaskContentParser } from "../services/JSONTaskContentParser";
+import { SchemaValidationError } from "./JSONSchemaValidator";
+import {
+  Tool,
+  ToolArgumentsError,
+  ToolCallContext,
+  ToolRegistration,
+} from "./ToolRegistry";
+import type { UpstreamServerConfig } from "./UpstreamMCPServer";
+import { getSprintFilePath } from "./SprintContextStore";
+
+export interface ServerHostConfig {
+  port: number; // Falls back to a free port when this one is taken
+  tasksFilePath?: string;
+  workspaceRoot?: string;
+  upstreams?: UpstreamServerConfig[]; // Remote MCP servers to mount
+  options: MCPServerOptions;
+}
+
+/**
+ * Messages from the extension host to the server process
+ */
+export type ServerHostRequest =
+  | { type: "start"; config: ServerHostConfig }
+  | { type: "stop" }
+  | { type: "probe"; id: number }
+  | { type: "notifyTasksUpdated" }
+  | { type: "setUpstreams"; upstreams: UpstreamServerConfig[] }
+  | { type: "registerTool"; tool: Tool }
+  | { type: "unregisterTool"; name: string }
+  | {
+      type: "toolResult";
+      callId: number;
+      result?: unknown;
+      error?: { message: string; errors?: SchemaValidationError[] };
+    }
+  | {
+      type: "toolProgress";
+      callId: number;
+      progress: number;
+      total?: number;
+      message?: string;
+    };
+
+/**
+ * Messages from the server process to the extension host
+ */
+export type ServerHostEvent =
+  | { type: "ready"; port: number }
+  | { type: "startFailed"; error: string }
+  | {
+      type: "probeResult";
+      id: number;
+      stats: MCPServerStats;
+      memoryUsage: NodeJS.MemoryUsage;
+    }
+  | { type: "callTool"; callId: number; name: string; args: unknown }
+  | { type: "cancelTool"; callId: number }
+  | { type: "stopped" };
+
+export class ServerHost {
+  private server: SimpleMCPServer | null = null;
+  private contextManager: ContextManager | null = null;
+  private toolRegistrations: Map<string, ToolRegistration> = new Map();
+  // Contributed tool calls waiting for the extension host to answer
+  private pendingToolCalls: Map<
+    number,
+    {
+      context: ToolCallContext;
+      resolve: (result: unknown) => void;
+      reject: (error: Error) => void;
+    }
+  > = new Map();
+  private nextToolCallId = 1;
+
+  constructor(private readonly send: (event: ServerHostEvent) => void) {}
+
+  async handleMessage(message: ServerHostRequest): Promise<void> {
+    switch (message.type) {
+      case "start":
+        await this.start(message.config);
+        break;
+      case "stop":
+        await this.stop();
+        this.send({ type: "stopped" });
+        break;
+      case "probe":
+        if (this.server) {
+          this.send({
+            type: "probeResult",
+            id: message.id,
+            stats: this.server.getServerStats(),
+            memoryUsage: process.memoryUsage(),
+          });
+        }
+        break;
+      case "notifyTasksUpdated":
+        await this.server?.notifyTasksUpdated();
+        break;
+      case "setUpstreams":
+        this.mountUpstreams(message.upstreams);
+        break;
+      case "registerTool":
+        this.registerTool(message.tool);
+        break;
+      case "unregisterTool":
+        this.toolRegistrations.get(message.name)?.dispose();
+        this.toolRegistrations.delete(message.name);
+        break;
+      case "toolResult":
+        this.resolveToolCall(message);
+        break;
+      case "toolProgress":
+        this.pendingToolCalls
+          .get(message.callId)
+          ?.context.reportProgress(
+            message.progress,
+            message.total,
+            message.message
+          );
+        break;
+    }
+  }
+
+  private async start(config: ServerHostConfig): Promise<void> {
+    try {
+      const mockDataProvider = new MockDataProvider({
+        responseDelay: 50,
+        errorRate: 0,
+      });
+
+      let mockCache: MockCache | undefined;
+      if (config.workspaceRoot) {
+        mockCache = new MockCache(config.workspaceRoot);
+        mockCache.load();
+      }
+
+      this.contextManager = new ContextManager(mockDataProvider, mockCache);
+      this.server = this.createServer(config, config.port);
+      try {
+        await this.server.start();
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "EADDRINUSE") {
+          throw error;
+        }
+        console.warn(
+          `[ServerHost] Port ${config.port} is in use, using a free port`
+        );
+        this.server = this.createServer(config, 0);
+        await this.server.start();
+      }
+      this.send({ type: "ready", port: this.server.getPort() });
+      // Slow upstreams must not hold up the ready event
+      this.mountUpstreams(config.upstreams ?? []);
+    } catch (error) {
+      this.send({
+        type: "startFailed",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private createServer(
+    config: ServerHostConfig,
+    port: number
+  ): SimpleMCPServer {
+    const server = new SimpleMCPServer(
+      port,
+      this.contextManager!,
+      new JSONTaskContentParser(),
+      config.tasksFilePath,
+      config.options
+    );
+    if (config.workspaceRoot) {
+      server.serveSprintContext(getSprintFilePath(config.workspaceRoot));
+    }
+    return server;
+  }
+
+  private mountUpstreams(upstreams: UpstreamServerConfig[]): void {
+    this.server?.mountUpstreams(upstreams).catch((error) => {
+      console.error("[ServerHost] Failed to mount upstream servers:", error);
+    });
+  }
+
+  private async stop(): Promise<void> {
+    if (this.server) {
+      await this.server.stop();
+      this.server = null;
+    }
+    if (this.contextManager) {
+      await this.contextManager.shutdown();
+      this.contextManager = null;
+    }
+  }
+
+  /**
+   * Register a contributed tool whose handler lives in the extension host
+   */
+  private registerTool(tool: Tool): void {
+    if (!this.server) {
+      return;
+    }
+    try {
+      const registration = this.server.registerTool(
+        tool.name,
+        tool.description,
+        tool.inputSchema,
+        (args, context) =>
+          new Promise((resolve, reject) => {
+            const callId = this.nextToolCallId++;
+            this.pendingToolCalls.set(callId, { context, resolve, reject });
+            // Let the extension host stop work the client no longer wants
+            context.signal.addEventListener(
+              "abort",
+              () => {
+                if (this.pendingToolCalls.delete(callId)) {
+                  this.send({ type: "cancelTool", callId });
+                  reject(new Error(`Tool ${tool.name} was cancelled`));
+                }
+              },
+              { once: true }
+            );
+            this.send({ type: "callTool", callId, name: tool.name, args });
+          })
+      );
+      this.toolRegistrations.set(tool.name, registration);
+    } catch (error) {
+      console.error(
+        `[ServerHost] Failed to register tool ${tool.name}:`,
+        error
+      );
+    }
+  }
+
+  private resolveToolCall(
+    message: Extract<ServerHostRequest, { type: "toolResult" }>
+  ): void {
+    const pending = this.pendingToolCalls.get(message.callId);
+    if (!pending) {
+      return;
+    }
+    this.pendingToolCalls.delete(message.callId);
+
+    if (!message.error) {
+      pending.resolve(message.result);
+    } else if (message.error.errors) {
+      pending.reject(
+        new ToolArgumentsError(message.error.message, message.error.errors)
+      );
+    } else {
+      pending.reject(new Error(message.error.message));
+    }
+  }
+}
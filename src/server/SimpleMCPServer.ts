@@ -4,27 +4,287 @@
  */
 
 import * as http from "http";
+import { randomUUID } from "crypto";
 import {
   JSONRPCRequest,
   JSONRPCResponse,
+  JSONRPCErrorCode,
+  JSONRPCNotification,
   ToolCallRequest,
   ToolCallResponse,
+  MCP_PROTOCOL_VERSION,
+  MCP_SESSION_HEADER,
+  SUPPORTED_MCP_PROTOCOL_VERSIONS,
+  MCPImplementationInfo,
+  MCPInitializeParams,
+  MCPInitializeResult,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPServerCapabilities,
 } from "../types/extension";
+import { Task, TaskStatus, TaskSearchFilters } from "../types/tasks";
+import type {
+  TaskJSONRPCParams,
+  TaskJSONRPCResult,
+} from "../tasks/types/taskTypes";
+import type { JSONTaskContentParser } from "../services/JSONTaskContentParser";
+import { TaskFilterService } from "../services/TaskFilterService";
+import { TaskPromptGenerator } from "../services/TaskPromptGenerator";
+import { parseTaskId } from "../services/TaskContextIds";
+import { WorkspaceTaskStore } from "./WorkspaceTaskStore";
+import { MCPServerSecurityOptions, RequestGuard } from "./RequestGuard";
+import { SchemaValidationError } from "./JSONSchemaValidator";
+import { MethodLatencyStats, RequestMetrics } from "./RequestMetrics";
+import {
+  Tool,
+  ToolArgumentsError,
+  ToolCallContext,
+  ToolContentResult,
+  ToolHandler,
+  ToolRegistration,
+  ToolRegistry,
+} from "./ToolRegistry";
+import type { ContextManager } from "./ContextManager";
+import { MCPFederation } from "./MCPFederation";
+import type { UpstreamServerConfig } from "./UpstreamMCPServer";
+import { SprintContextStore } from "./SprintContextStore";
+
+/**
+ * Server options: caller checks plus request limits
+ */
+export interface MCPServerOptions extends MCPServerSecurityOptions {
+  maxConcurrentRequests?: number; // Requests handled at once
+  maxQueuedRequests?: number; // Requests waiting for a slot before the server reports busy
+  maxBodyBytes?: number; // Larger HTTP bodies are rejected with 413
+  requestTimeout?: number; // Milliseconds before a handler is abandoned
+}
+
+export interface MCPServerStats {
+  isRunning: boolean;
+  activeRequests: number;
+  queuedRequests: number;
+  maxConcurrentRequests: number;
+  maxQueuedRequests: number;
+  totalRequestsProcessed: number;
+  rejectedRequests: number;
+  timedOutRequests: number;
+  methods: MethodLatencyStats[];
+}
+
+const DEFAULT_MAX_CONCURRENT_REQUESTS = 10;
+const DEFAULT_MAX_QUEUED_REQUESTS = 100;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Cheap lifecycle messages skip the concurrency cap so handshakes and
+ * health-check pings still succeed while the server is busy
+ */
+function bypassesRequestLimits(method: string): boolean {
+  return (
+    method === "initialize" ||
+    method === "ping" ||
+    method.startsWith("notifications/")
+  );
+}
+
+/**
+ * Per-client MCP session state
+ * protocolVersion is set once initialize succeeds
+ */
+export interface MCPSession {
+  id: string;
+  protocolVersion: string | null;
+  clientInfo?: MCPImplementationInfo;
+  clientCapabilities?: Record<string, any>;
+  initialized: boolean;
+  createdAt: Date;
+  lastActivity: Date;
+  subscriptions: Set<string>;
+  /** Delivers server-initiated notifications; unset while no stream is open */
+  send?: (notification: JSONRPCNotification) => void;
+}
 
-export interface Tool {
-  name: string;
-  description: string;
-  inputSchema: any;
+const SERVER_INFO: MCPImplementationInfo = {
+  name: "aidm-mcp-server",
+  version: "0.82.2",
+};
+
+const TASK_RESOURCE_PREFIX = "aidm://tasks/";
+const CONTEXT_RESOURCE_PREFIX = "aidm://tasks/context/";
+const RESOURCE_MIME_TYPE = "application/json";
+
+const RESOURCE_TEMPLATES: MCPResourceTemplate[] = [
+  {
+    uriTemplate: `${TASK_RESOURCE_PREFIX}{id}`,
+    name: "Task",
+    description: "A single task from the workspace tasks.json",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+  {
+    uriTemplate: `${CONTEXT_RESOURCE_PREFIX}{name}`,
+    name: "Task context",
+    description: "All tasks in one tasks.json context",
+    mimeType: RESOURCE_MIME_TYPE,
+  },
+];
+
+type TaskResourceRef =
+  | { kind: "task"; id: string }
+  | { kind: "context"; name: string };
+
+/**
+ * Check whether a message is a JSON-RPC notification, which gets no response
+ */
+export function isJSONRPCNotification(message: any): boolean {
+  return (
+    !!message &&
+    typeof message === "object" &&
+    message.jsonrpc === "2.0" &&
+    typeof message.method === "string" &&
+    !("id" in message)
+  );
 }
 
+const BUSINESS_CONTEXT_TOOL: Tool = {
+  name: "get_business_context",
+  description:
+    "Get business requirements, implementation status and related changes for a code location",
+  inputSchema: {
+    type: "object",
+    properties: {
+      filePath: {
+        type: "string",
+        minLength: 1,
+        description: "Workspace-relative path of the file",
+      },
+      startLine: {
+        type: "integer",
+        minimum: 1,
+        description: "First line of the code location (1-based)",
+      },
+      endLine: {
+        type: "integer",
+        minimum: 1,
+        description: "Last line of the code location (1-based)",
+      },
+      symbolName: {
+        type: "string",
+        description: "Optional symbol name at the location",
+      },
+    },
+    required: ["filePath", "startLine"],
+    additionalProperties: false,
+  },
+};
+
+const SPRINT_CONTEXT_TOOL: Tool = {
+  name: "get_sprint_context",
+  description:
+    "Get the current sprint, its stories and the team's coding patterns from .aidm/sprint.json",
+  inputSchema: {
+    type: "object",
+    properties: {},
+    additionalProperties: false,
+  },
+};
+
+const TEAM_PATTERNS_TOOL: Tool = {
+  name: "get_team_patterns",
+  description: "Get the team's coding patterns from .aidm/sprint.json",
+  inputSchema: {
+    type: "object",
+    properties: {
+      category: {
+        type: "string",
+        description: "Only return patterns of this category",
+      },
+    },
+    additionalProperties: false,
+  },
+};
+
 export class SimpleMCPServer {
   private server: http.Server | null = null;
   private port: number;
   private isRunning: boolean = false;
+  private contextManager: ContextManager | null;
+  private taskStore: WorkspaceTaskStore | null = null;
+  private taskFilterService = new TaskFilterService();
+  private taskPromptGenerator = new TaskPromptGenerator();
+  private sessions: Map<string, MCPSession> = new Map();
+  private eventStreams: Map<string, http.ServerResponse> = new Map();
+  // Last published state of each subscribed resource, null once it is gone
+  private resourceFingerprints: Map<string, string | null> = new Map();
+  private resourceUpdates: Promise<void> = Promise.resolve();
+  private requestGuard: RequestGuard;
+  private maxConcurrentRequests: number;
+  private maxQueuedRequests: number;
+  private maxBodyBytes: number;
+  private requestTimeout: number;
+  private activeRequests: number = 0;
+  // Requests waiting for a slot, resumed in arrival order
+  private requestQueue: Array<() => void> = [];
+  private totalRequestsProcessed: number = 0;
+  private rejectedRequests: number = 0;
+  private timedOutRequests: number = 0;
+  private requestMetrics = new RequestMetrics();
+  private toolRegistry = new ToolRegistry();
+  private federation = new MCPFederation(this.toolRegistry);
+  // Running requests by session and ID, so notifications/cancelled can abort them
+  private inFlightRequests: Map<string, AbortController> = new Map();
 
-  constructor(port: number, contextManager?: any, jsonTaskParser?: any) {
+  constructor(
+    port: number,
+    contextManager?: ContextManager,
+    jsonTaskParser?: JSONTaskContentParser,
+    tasksFilePath?: string,
+    options: MCPServerOptions = {}
+  ) {
     this.port = port;
-    // Simplified server ignores contextManager and jsonTaskParser
+    this.requestGuard = new RequestGuard(options);
+    this.maxConcurrentRequests =
+      options.maxConcurrentRequests || DEFAULT_MAX_CONCURRENT_REQUESTS;
+    this.maxQueuedRequests =
+      options.maxQueuedRequests ?? DEFAULT_MAX_QUEUED_REQUESTS;
+    this.maxBodyBytes = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+    this.requestTimeout = options.requestTimeout || DEFAULT_REQUEST_TIMEOUT;
+    this.contextManager = contextManager || null;
+    if (jsonTaskParser && tasksFilePath) {
+      this.taskStore = new WorkspaceTaskStore(jsonTaskParser, tasksFilePath);
+    }
+
+    if (contextManager) {
+      this.registerBusinessContextTool(contextManager);
+    }
+    this.toolRegistry.onDidChange(() => {
+      for (const session of this.sessions.values()) {
+        session.send?.({
+          jsonrpc: "2.0",
+          method: "notifications/tools/list_changed",
+        });
+      }
+    });
+  }
+
+  /**
+   * Expose a tool to MCP clients; arguments are validated against
+   * inputSchema before the handler runs
+   */
+  registerTool(
+    name: string,
+    description: string,
+    inputSchema: any,
+    handler: ToolHandler
+  ): ToolRegistration {
+    return this.toolRegistry.register(name, description, inputSchema, handler);
+  }
+
+  /**
+   * Look up a registered tool, e.g. to validate arguments client-side
+   */
+  getToolDefinition(name: string): Tool | undefined {
+    return this.toolRegistry.get(name);
   }
 
 
@@ -41,9 +301,15 @@ export class SimpleMCPServer {
         this.handleRequest(req, res);
       });
 
-      this.server.listen(this.port, () => {
+      const host = this.requestGuard.getHost();
+      this.server.listen(this.port, host, () => {
+        // Port 0 asks the OS for a free port; report the one it picked
+        const address = this.server!.address();
+        if (address && typeof address === "object") {
+          this.port = address.port;
+        }
         this.isRunning = true;
-        console.log(`MCP Server started on port ${this.port}`);
+        console.log(`MCP Server started on ${host}:${this.port}`);
         resolve();
       });
 
@@ -58,14 +324,22 @@ export class SimpleMCPServer {
    * Stop the HTTP server
    */
   async stop(): Promise<void> {
+    await this.federation.unmountAll();
     if (!this.server || !this.isRunning) {
       return;
     }
 
+    // Open event streams would otherwise keep close() waiting
+    for (const stream of this.eventStreams.values()) {
+      stream.end();
+    }
+    this.eventStreams.clear();
+
     return new Promise((resolve) => {
       this.server!.close(() => {
         this.isRunning = false;
         this.server = null;
+        this.sessions.clear();
         console.log("MCP Server stopped");
         resolve();
       });
@@ -73,7 +347,55 @@ export class SimpleMCPServer {
   }
 
   /**
-   * Get the port the server is configured to run on
+   * Serve the tools of upstream MCP servers as "<name>.<tool>", replacing
+   * previously mounted upstreams
+   * Resolves once each upstream was tried; unreachable ones are retried
+   */
+  mountUpstreams(upstreams: UpstreamServerConfig[]): Promise<void> {
+    return this.federation.mountAll(upstreams);
+  }
+
+  /**
+   * Serve .aidm/sprint.json through get_sprint_context and get_team_patterns
+   * The file is read on every call, so edits apply without a restart
+   */
+  serveSprintContext(sprintFilePath: string): ToolRegistration[] {
+    const store = new SprintContextStore(sprintFilePath);
+    const load = async () => {
+      const sprintFile = await store.load();
+      if (!sprintFile) {
+        throw new Error(
+          `No sprint context at ${sprintFilePath}; run "AiDM: Edit Sprint Context" to create one`
+        );
+      }
+      return sprintFile;
+    };
+
+    return [
+      this.toolRegistry.register(
+        SPRINT_CONTEXT_TOOL.name,
+        SPRINT_CONTEXT_TOOL.description,
+        SPRINT_CONTEXT_TOOL.inputSchema,
+        () => load()
+      ),
+      this.toolRegistry.register(
+        TEAM_PATTERNS_TOOL.name,
+        TEAM_PATTERNS_TOOL.description,
+        TEAM_PATTERNS_TOOL.inputSchema,
+        async (args) => {
+          const { teamPatterns } = await load();
+          return args.category === undefined
+            ? teamPatterns
+            : teamPatterns.filter(
+                (pattern) => pattern.category === args.category
+              );
+        }
+      ),
+    ];
+  }
+
+  /**
+   * Get the port the server listens on once started, or was configured with
    */
   getPort(): number {
     return this.port;
@@ -87,20 +409,76 @@ export class SimpleMCPServer {
   }
 
   /**
-   * Get server statistics (simplified version)
+   * Get request counters and per-method latency percentiles
    */
-  getServerStats(): {
-    isRunning: boolean;
-    activeRequests: number;
-    maxConcurrentRequests: number;
-    totalRequestsProcessed: number;
-  } {
+  getServerStats(): MCPServerStats {
     return {
       isRunning: this.isRunning,
-      activeRequests: 0,
-      maxConcurrentRequests: 10,
-      totalRequestsProcessed: 0,
+      activeRequests: this.activeRequests,
+      queuedRequests: this.requestQueue.length,
+      maxConcurrentRequests: this.maxConcurrentRequests,
+      maxQueuedRequests: this.maxQueuedRequests,
+      totalRequestsProcessed: this.totalRequestsProcessed,
+      rejectedRequests: this.rejectedRequests,
+      timedOutRequests: this.timedOutRequests,
+      methods: this.requestMetrics.getMethodStats(),
+    };
+  }
+
+  /**
+   * Change the concurrency cap; invalid values are ignored
+   */
+  updateConfiguration(config: { maxConcurrentRequests?: number }): void {
+    const { maxConcurrentRequests } = config;
+    if (
+      maxConcurrentRequests !== undefined &&
+      Number.isInteger(maxConcurrentRequests) &&
+      maxConcurrentRequests > 0
+    ) {
+      this.maxConcurrentRequests = maxConcurrentRequests;
+      // A raised cap lets queued requests start right away
+      while (
+        this.requestQueue.length > 0 &&
+        this.activeRequests < this.maxConcurrentRequests
+      ) {
+        this.activeRequests++;
+        this.requestQueue.shift()!();
+      }
+    }
+  }
+
+  /**
+   * Open a new MCP session; it must be initialized before most methods work
+   */
+  createSession(): MCPSession {
+    const now = new Date();
+    const session: MCPSession = {
+      id: randomUUID(),
+      protocolVersion: null,
+      initialized: false,
+      createdAt: now,
+      lastActivity: now,
+      subscriptions: new Set(),
     };
+    this.sessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * End an MCP session
+   */
+  closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+    this.eventStreams.get(sessionId)?.end();
+    this.eventStreams.delete(sessionId);
+    this.pruneResourceFingerprints();
+  }
+
+  /**
+   * Number of open MCP sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
   }
 
   /**
@@ -110,10 +488,33 @@ export class SimpleMCPServer {
     req: http.IncomingMessage,
     res: http.ServerResponse
   ): Promise<void> {
-    // Set CORS headers
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    // Refuse callers outside the allowed network before reading anything
+    if (!this.requestGuard.isAddressAllowed(req.socket.remoteAddress)) {
+      this.sendError(res, 403, "Forbidden: address not allowed");
+      return;
+    }
+
+    // Browsers always send Origin; only allow-listed pages may call the server
+    const origin = req.headers.origin;
+    if (!this.requestGuard.isOriginAllowed(origin)) {
+      this.sendError(res, 403, "Forbidden: origin not allowed");
+      return;
+    }
+
+    // Set CORS headers for allow-listed origins only
+    if (origin) {
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+      res.setHeader(
+        "Access-Control-Allow-Methods",
+        "GET, POST, DELETE, OPTIONS"
+      );
+      res.setHeader(
+        "Access-Control-Allow-Headers",
+        "Content-Type, Authorization, Mcp-Session-Id"
+      );
+      res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+    }
 
     // Handle preflight requests
     if (req.method === "OPTIONS") {
@@ -122,22 +523,138 @@ export class SimpleMCPServer {
       return;
     }
 
+    if (!this.requestGuard.isAuthorized(req.headers.authorization)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      this.sendError(res, 401, "Unauthorized");
+      return;
+    }
+
+    // Requests naming a session must name a live one
+    const sessionHeader = req.headers[MCP_SESSION_HEADER];
+    const sessionId = Array.isArray(sessionHeader)
+      ? sessionHeader[0]
+      : sessionHeader;
+    let session: MCPSession | undefined;
+    if (sessionId) {
+      session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(
+          res,
+          404,
+          "Session not found",
+          JSONRPCErrorCode.INVALID_REQUEST
+        );
+        return;
+      }
+    }
+
+    // Clients end their session with DELETE
+    if (req.method === "DELETE") {
+      if (!session) {
+        this.sendError(
+          res,
+          400,
+          "Missing session ID",
+          JSONRPCErrorCode.INVALID_REQUEST
+        );
+        return;
+      }
+      this.closeSession(session.id);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    // Clients open a server-sent event stream to receive notifications
+    if (req.method === "GET") {
+      if (!session) {
+        this.sendError(
+          res,
+          400,
+          "Missing session ID",
+          JSONRPCErrorCode.INVALID_REQUEST
+        );
+        return;
+      }
+      this.openEventStream(session, req, res);
+      return;
+    }
+
     // Only accept POST requests
     if (req.method !== "POST") {
       this.sendError(res, 405, "Method not allowed");
       return;
     }
 
-    // Parse request body
-    let body = "";
-    req.on("data", (chunk) => {
-      body += chunk.toString();
+    // Parse request body, refusing anything over the size limit
+    const declaredLength = Number(req.headers["content-length"]);
+    if (declaredLength > this.maxBodyBytes) {
+      this.rejectOversizedBody(req, res);
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let received = 0;
+    let tooLarge = false;
+    req.on("data", (chunk: Buffer) => {
+      received += chunk.length;
+      if (received > this.maxBodyBytes) {
+        tooLarge = true;
+        chunks.length = 0;
+        this.rejectOversizedBody(req, res);
+        return;
+      }
+      chunks.push(chunk);
     });
 
     req.on("end", async () => {
+      if (tooLarge) {
+        return;
+      }
+
+      let message: any;
+      try {
+        message = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch (error) {
+        this.sendError(res, 400, "Parse error", JSONRPCErrorCode.PARSE_ERROR);
+        return;
+      }
+
       try {
-        const jsonRequest: JSONRPCRequest = JSON.parse(body);
-        const response = await this.processJSONRPC(jsonRequest);
+        // initialize without a session ID opens a new session
+        const opensSession = !session && message?.method === "initialize";
+        if (opensSession) {
+          session = this.createSession();
+        }
+
+        // A client that hangs up no longer wants the answer
+        const disconnected = new AbortController();
+        res.on("close", () => {
+          if (!res.writableEnded) {
+            disconnected.abort();
+          }
+        });
+
+        const response = await this.handleMessage(
+          message,
+          session,
+          disconnected.signal
+        );
+
+        if (opensSession) {
+          if (!response || (response as JSONRPCResponse).error) {
+            this.closeSession(session!.id);
+          } else {
+            res.setHeader("Mcp-Session-Id", session!.id);
+          }
+        }
+
+        // Notifications, alone or as a whole batch, get no response body
+        if (!response) {
+          res.writeHead(202);
+          res.end();
+          return;
+        }
         this.sendResponse(res, response);
       } catch (error) {
         console.error("Request processing error:", error);
@@ -147,37 +664,1344 @@ export class SimpleMCPServer {
   }
 
   /**
-   * Process JSON-RPC requests
+   * Answer 413 and drop the rest of the body
    */
-  private async processJSONRPC(
-    request: JSONRPCRequest
+  private rejectOversizedBody(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    this.rejectedRequests++;
+    req.removeAllListeners("data");
+    req.resume();
+    if (res.headersSent) {
+      return;
+    }
+    res.setHeader("Connection", "close");
+    this.sendError(
+      res,
+      413,
+      `Request body exceeds ${this.maxBodyBytes} bytes`,
+      JSONRPCErrorCode.INVALID_REQUEST
+    );
+  }
+
+  /**
+   * Stream notifications for a session as server-sent events
+   * A newer stream for the same session replaces the older one
+   */
+  private openEventStream(
+    session: MCPSession,
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): void {
+    this.eventStreams.get(session.id)?.end();
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    const send = (notification: JSONRPCNotification) => {
+      res.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+    };
+    session.send = send;
+    this.eventStreams.set(session.id, res);
+
+    req.on("close", () => {
+      if (this.eventStreams.get(session.id) === res) {
+        this.eventStreams.delete(session.id);
+      }
+      if (session.send === send) {
+        session.send = undefined;
+      }
+    });
+  }
+
+  /**
+   * Handle a decoded message: a single request, a notification or a batch
+   * Batch entries run concurrently; task writes are still serialized by the store
+   *
+   * @param signal - Aborts every request in the message, e.g. when the
+   * transport's caller went away
+   * @returns The response or batch of responses to send, or null when the
+   * message held only notifications or cancelled requests and nothing must
+   * be sent
+   */
+  async handleMessage(
+    message: any,
+    session?: MCPSession,
+    signal?: AbortSignal
+  ): Promise<JSONRPCResponse | JSONRPCResponse[] | null> {
+    // Cancelled requests must not be answered
+    const isAnswered = (entry: any, response: JSONRPCResponse) =>
+      !isJSONRPCNotification(entry) &&
+      response.error?.code !== JSONRPCErrorCode.REQUEST_CANCELLED;
+
+    if (!Array.isArray(message)) {
+      const response = await this.processJSONRPC(message, session, signal);
+      return isAnswered(message, response) ? response : null;
+    }
+
+    if (message.length === 0) {
+      return this.createErrorResponse(
+        null,
+        JSONRPCErrorCode.INVALID_REQUEST,
+        "Invalid Request: empty batch"
+      );
+    }
+
+    const responses = await Promise.all(
+      message.map(async (entry) => {
+        const response = await this.processJSONRPC(entry, session, signal);
+        return isAnswered(entry, response) ? response : null;
+      })
+    );
+    const answered = responses.filter(
+      (response): response is JSONRPCResponse => response !== null
+    );
+    return answered.length > 0 ? answered : null;
+  }
+
+  /**
+   * Process a JSON-RPC request independent of transport
+   * Used by the HTTP handler, the stdio transport and LocalMCPAdapter
+   *
+   * @param session - Session of the caller; when given, only initialize and
+   * ping are accepted until the session is initialized. In-process and legacy
+   * HTTP callers without a session skip the lifecycle.
+   * @param signal - Aborts the request as if the client had cancelled it
+   */
+  async processJSONRPC(
+    request: JSONRPCRequest,
+    session?: MCPSession,
+    signal?: AbortSignal
   ): Promise<JSONRPCResponse> {
     // Validate JSON-RPC format
-    if (request.jsonrpc !== "2.0") {
-      return this.createErrorResponse(request.id, -32600, "Invalid Request");
+    if (
+      !request ||
+      request.jsonrpc !== "2.0" ||
+      typeof request.method !== "string"
+    ) {
+      return this.createErrorResponse(
+        request?.id ?? null,
+        JSONRPCErrorCode.INVALID_REQUEST,
+        "Invalid Request"
+      );
+    }
+
+    if (session) {
+      session.lastActivity = new Date();
+      if (
+        !session.protocolVersion &&
+        request.method !== "initialize" &&
+        request.method !== "ping"
+      ) {
+        return this.createErrorResponse(
+          request.id ?? null,
+          JSONRPCErrorCode.INVALID_REQUEST,
+          "Server not initialized: send initialize first"
+        );
+      }
     }
 
-    return this.executeRequest(request);
+    if (bypassesRequestLimits(request.method)) {
+      return this.executeRequest(
+        request,
+        session,
+        this.createRequestContext(request, session, new AbortController().signal)
+      );
+    }
+
+    const controller = new AbortController();
+    const key = this.getInFlightKey(session, request.id);
+    const tracked = !isJSONRPCNotification(request);
+    if (tracked) {
+      this.inFlightRequests.set(key, controller);
+    }
+    try {
+      return await this.executeWithLimits(request, session, controller, signal);
+    } finally {
+      if (tracked && this.inFlightRequests.get(key) === controller) {
+        this.inFlightRequests.delete(key);
+      }
+    }
+  }
+
+  private getInFlightKey(
+    session: MCPSession | undefined,
+    id: string | number | null | undefined
+  ): string {
+    return JSON.stringify([session?.id ?? null, id ?? null]);
+  }
+
+  /**
+   * Abort a running request named by notifications/cancelled
+   * Unknown or finished requests are ignored, as the spec allows for races
+   */
+  private cancelRequest(request: JSONRPCRequest, session?: MCPSession): void {
+    const requestId = request.params?.requestId;
+    if (typeof requestId !== "string" && typeof requestId !== "number") {
+      return;
+    }
+    const controller = this.inFlightRequests.get(
+      this.getInFlightKey(session, requestId)
+    );
+    if (controller) {
+      console.log(
+        `[MCPServer] Request ${requestId} cancelled:`,
+        request.params?.reason ?? "no reason given"
+      );
+      controller.abort();
+    }
+  }
+
+  /**
+   * Abort signal and progress reporting for one request
+   * Progress is sent only when the caller passed _meta.progressToken and the
+   * session has a notification stream
+   */
+  private createRequestContext(
+    request: JSONRPCRequest,
+    session: MCPSession | undefined,
+    signal: AbortSignal
+  ): ToolCallContext {
+    const progressToken = request.params?._meta?.progressToken;
+    return {
+      signal,
+      reportProgress: (progress, total, message) => {
+        if (
+          (typeof progressToken !== "string" &&
+            typeof progressToken !== "number") ||
+          !session?.send ||
+          signal.aborted
+        ) {
+          return;
+        }
+        session.send({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined && { total }),
+            ...(message !== undefined && { message }),
+          },
+        });
+      },
+    };
+  }
+
+  /**
+   * Run a request within the concurrency cap and handler timeout
+   * Requests over the cap wait in a bounded queue; once it is full they are
+   * rejected. A timed-out or cancelled handler is aborted, abandoned and its
+   * slot freed, so one stuck handler cannot starve the server.
+   */
+  private async executeWithLimits(
+    request: JSONRPCRequest,
+    session: MCPSession | undefined,
+    controller: AbortController,
+    callerSignal?: AbortSignal
+  ): Promise<JSONRPCResponse> {
+    const signal = callerSignal
+      ? AbortSignal.any([controller.signal, callerSignal])
+      : controller.signal;
+    const cancelledResponse = () =>
+      this.createErrorResponse(
+        request.id ?? null,
+        JSONRPCErrorCode.REQUEST_CANCELLED,
+        "Request cancelled"
+      );
+
+    if (!(await this.acquireRequestSlot())) {
+      this.rejectedRequests++;
+      return this.createErrorResponse(
+        request.id ?? null,
+        JSONRPCErrorCode.SERVER_BUSY,
+        "Server busy: too many concurrent requests"
+      );
+    }
+
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<JSONRPCResponse>((resolve) => {
+      timer = setTimeout(() => {
+        this.timedOutRequests++;
+        resolve(
+          this.createErrorResponse(
+            request.id ?? null,
+            JSONRPCErrorCode.REQUEST_TIMEOUT,
+            `Request timed out after ${this.requestTimeout}ms`
+          )
+        );
+        controller.abort();
+      }, this.requestTimeout);
+    });
+    const cancelled = new Promise<JSONRPCResponse>((resolve) => {
+      if (signal.aborted) {
+        resolve(cancelledResponse());
+      }
+      signal.addEventListener("abort", () => resolve(cancelledResponse()), {
+        once: true,
+      });
+    });
+
+    let succeeded = false;
+    try {
+      // Cancelled while queued: skip the handler altogether
+      const response = await Promise.race(
+        signal.aborted
+          ? [cancelled]
+          : [
+              this.executeRequest(
+                request,
+                session,
+                this.createRequestContext(request, session, signal)
+              ),
+              timeout,
+              cancelled,
+            ]
+      );
+      succeeded = !response.error;
+      return response;
+    } finally {
+      clearTimeout(timer);
+      this.requestMetrics.record(
+        request.method,
+        Date.now() - startedAt,
+        succeeded
+      );
+      this.totalRequestsProcessed++;
+      this.releaseRequestSlot();
+    }
+  }
+
+  /**
+   * Resolves true once the request may run, false when the queue is full
+   */
+  private acquireRequestSlot(): Promise<boolean> {
+    if (this.activeRequests < this.maxConcurrentRequests) {
+      this.activeRequests++;
+      return Promise.resolve(true);
+    }
+    if (this.requestQueue.length >= this.maxQueuedRequests) {
+      return Promise.resolve(false);
+    }
+    return new Promise((resolve) => this.requestQueue.push(() => resolve(true)));
+  }
+
+  private releaseRequestSlot(): void {
+    // Hand the slot straight to the next queued request
+    const next =
+      this.activeRequests <= this.maxConcurrentRequests
+        ? this.requestQueue.shift()
+        : undefined;
+    if (next) {
+      next();
+    } else {
+      this.activeRequests--;
+    }
   }
 
   /**
    * Execute individual request
    */
   private async executeRequest(
-    request: JSONRPCRequest
+    request: JSONRPCRequest,
+    session: MCPSession | undefined,
+    context: ToolCallContext
   ): Promise<JSONRPCResponse> {
-    // Handle basic methods only
-    switch (request.method) {
-      case "ping":
+    if (request.method === "initialize") {
+      return this.handleInitialize(request, session);
+    }
+
+    if (request.method === "notifications/initialized") {
+      if (session) {
+        session.initialized = true;
+      }
+      return { jsonrpc: "2.0", result: {}, id: request.id ?? null };
+    }
+
+    if (request.method === "notifications/cancelled") {
+      this.cancelRequest(request, session);
+      return { jsonrpc: "2.0", result: {}, id: null };
+    }
+
+    if (request.method === "ping") {
+      return {
+        jsonrpc: "2.0",
+        result: "pong",
+        id: request.id,
+      };
+    }
+
+    if (request.method === "tools/list") {
+      return this.handleToolsList(request);
+    }
+
+    if (request.method === "tools/call") {
+      return this.handleToolCall(request as ToolCallRequest, context);
+    }
+
+    if (request.method.startsWith("tasks/")) {
+      return this.executeTaskRequest(request, context);
+    }
+
+    if (request.method.startsWith("resources/")) {
+      return this.executeResourceRequest(request, session);
+    }
+
+    if (request.method === "prompts/list") {
+      return {
+        jsonrpc: "2.0",
+        result: {
+          prompts: this.taskStore
+            ? this.taskPromptGenerator.getPromptDefinitions()
+            : [],
+        },
+        id: request.id,
+      };
+    }
+
+    if (request.method === "prompts/get") {
+      return this.handlePromptGet(request);
+    }
+
+    return this.createErrorResponse(
+      request.id,
+      JSONRPCErrorCode.METHOD_NOT_FOUND,
+      "Method not found"
+    );
+  }
+
+  /**
+   * Negotiate the protocol version and record the client on the session
+   */
+  private handleInitialize(
+    request: JSONRPCRequest,
+    session?: MCPSession
+  ): JSONRPCResponse {
+    const params = request.params as Partial<MCPInitializeParams> | undefined;
+    if (!params || typeof params.protocolVersion !== "string") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "Invalid params: protocolVersion is required"
+      );
+    }
+
+    if (session?.protocolVersion) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_REQUEST,
+        "Session already initialized"
+      );
+    }
+
+    // Echo the client's version when supported, otherwise offer our latest
+    const protocolVersion = SUPPORTED_MCP_PROTOCOL_VERSIONS.includes(
+      params.protocolVersion
+    )
+      ? params.protocolVersion
+      : MCP_PROTOCOL_VERSION;
+
+    if (session) {
+      session.protocolVersion = protocolVersion;
+      session.clientInfo = params.clientInfo;
+      session.clientCapabilities = params.capabilities || {};
+    }
+
+    const result: MCPInitializeResult = {
+      protocolVersion,
+      capabilities: this.getCapabilities(),
+      serverInfo: SERVER_INFO,
+    };
+
+    return { jsonrpc: "2.0", result, id: request.id };
+  }
+
+  /**
+   * Capabilities advertised during initialize
+   */
+  private getCapabilities(): MCPServerCapabilities {
+    const capabilities: MCPServerCapabilities = {
+      tools: { listChanged: true },
+    };
+    if (this.taskStore) {
+      capabilities.resources = { subscribe: true, listChanged: true };
+      capabilities.prompts = { listChanged: false };
+      capabilities.experimental = { tasks: {} };
+    }
+    return capabilities;
+  }
+
+  /**
+   * List the tools this server can execute
+   */
+  private handleToolsList(request: JSONRPCRequest): JSONRPCResponse {
+    return {
+      jsonrpc: "2.0",
+      result: { tools: this.toolRegistry.list() },
+      id: request.id,
+    };
+  }
+
+  /**
+   * Execute a tool; failures inside the tool are reported as isError results
+   */
+  private async handleToolCall(
+    request: ToolCallRequest,
+    context: ToolCallContext
+  ): Promise<ToolCallResponse> {
+    const name = request.params?.name;
+    const args = request.params?.arguments ?? {};
+
+    const tool = name ? this.toolRegistry.get(name) : undefined;
+    if (!tool) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        `Unknown tool: ${name}`
+      );
+    }
+
+    const errors = this.toolRegistry.validateArguments(tool.name, args);
+    if (errors.length > 0) {
+      return this.createInvalidArgumentsResponse(request.id, tool.name, errors);
+    }
+
+    try {
+      const handler = this.toolRegistry.getHandler(tool.name)!;
+      const result = await handler(args, context);
+      if (result instanceof ToolContentResult) {
         return {
           jsonrpc: "2.0",
-          result: "pong",
+          result: {
+            // Forwarded content may hold images or resources besides text
+            content: result.content as any,
+            ...(result.isError && { isError: true }),
+          },
           id: request.id,
         };
+      }
+      return {
+        jsonrpc: "2.0",
+        result: {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        },
+        id: request.id,
+      };
+    } catch (error) {
+      if (error instanceof ToolArgumentsError) {
+        return this.createInvalidArgumentsResponse(
+          request.id,
+          tool.name,
+          error.errors
+        );
+      }
+      console.error(`Tool ${tool.name} failed:`, error);
+      return {
+        jsonrpc: "2.0",
+        result: {
+          content: [
+            {
+              type: "text",
+              text: `Error executing tool ${tool.name}: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+          isError: true,
+        },
+        id: request.id,
+      };
+    }
+  }
+
+  /**
+   * Invalid params error listing every schema violation in data.errors
+   */
+  private createInvalidArgumentsResponse(
+    id: string | number | null,
+    toolName: string,
+    errors: SchemaValidationError[]
+  ): JSONRPCResponse {
+    const summary = errors.map((error) => error.message).join("; ");
+    return this.createErrorResponse(
+      id,
+      JSONRPCErrorCode.INVALID_PARAMS,
+      `Invalid arguments for ${toolName}: ${summary}`,
+      { tool: toolName, errors }
+    );
+  }
+
+  private registerBusinessContextTool(contextManager: ContextManager): void {
+    this.toolRegistry.register(
+      BUSINESS_CONTEXT_TOOL.name,
+      BUSINESS_CONTEXT_TOOL.description,
+      BUSINESS_CONTEXT_TOOL.inputSchema,
+      (args) => {
+        if (args.endLine !== undefined && args.endLine < args.startLine) {
+          throw new ToolArgumentsError("endLine is before startLine", [
+            {
+              path: "endLine",
+              message: "endLine must be no smaller than startLine",
+            },
+          ]);
+        }
+        return contextManager.getBusinessContext({
+          filePath: args.filePath,
+          startLine: args.startLine,
+          endLine: args.endLine ?? args.startLine,
+          symbolName: args.symbolName,
+        });
+      }
+    );
+  }
+
+  /**
+   * Execute tasks/* methods against the workspace task store
+   */
+  private async executeTaskRequest(
+    request: JSONRPCRequest,
+    context: ToolCallContext
+  ): Promise<JSONRPCResponse> {
+    if (!this.taskStore) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.TASK_SOURCE_UNAVAILABLE,
+        "No workspace task source configured"
+      );
+    }
+
+    const params: TaskJSONRPCParams =
+      request.params && typeof request.params === "object"
+        ? request.params
+        : {};
+
+    try {
+      switch (request.method) {
+        case "tasks/list":
+          return await this.handleTasksList(request, params);
+        case "tasks/get":
+          return await this.handleTasksGet(request, params);
+        case "tasks/update-status":
+          return await this.handleTasksUpdateStatus(request, params);
+        case "tasks/refresh":
+          return await this.handleTasksRefresh(request, context);
+        case "tasks/dependencies":
+          return await this.handleTasksDependencies(request, params);
+        case "tasks/test-results":
+          return await this.handleTasksTestResults(request, params);
+        case "tasks/create":
+          return await this.handleTasksCreate(request, params);
+        case "tasks/delete":
+          return await this.handleTasksDelete(request, params);
+        case "tasks/search":
+          return await this.handleTasksSearch(request, params);
+        case "tasks/export":
+          return await this.handleTasksExport(request, params);
+        default:
+          return this.createErrorResponse(
+            request.id,
+            JSONRPCErrorCode.METHOD_NOT_FOUND,
+            "Method not found"
+          );
+      }
+    } catch (error) {
+      console.error(`Task method ${request.method} failed:`, error);
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INTERNAL_ERROR,
+        `Internal error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async handleTasksList(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    let tasks = await this.taskStore!.getTasks();
+    if (params.status) {
+      tasks = tasks.filter((task) => task.status === params.status);
+    }
+
+    // content mirrors the MCP tool result shape read by older clients
+    return this.createTaskResult(request.id, {
+      tasks,
+      count: tasks.length,
+      content: [{ type: "text", text: JSON.stringify({ tasks }) }],
+    });
+  }
+
+  private async handleTasksGet(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const id = this.getTaskIdParam(params);
+    if (!id) {
+      return this.createInvalidTaskIdResponse(request.id);
+    }
+
+    const task = await this.taskStore!.getTaskById(id);
+    if (!task) {
+      return this.createTaskNotFoundResponse(request.id, id);
+    }
+    return this.createTaskResult(request.id, { task });
+  }
+
+  private async handleTasksUpdateStatus(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const id = this.getTaskIdParam(params);
+    if (!id) {
+      return this.createInvalidTaskIdResponse(request.id);
+    }
+
+    const status = params.newStatus ?? params.status;
+    if (!status || !Object.values(TaskStatus).includes(status)) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        `newStatus must be one of: ${Object.values(TaskStatus).join(", ")}`
+      );
+    }
+
+    const task = await this.taskStore!.updateTaskStatus(id, status);
+    if (!task) {
+      return this.createTaskNotFoundResponse(request.id, id);
+    }
+    return this.createTaskResult(request.id, { success: true, task });
+  }
+
+  private async handleTasksRefresh(
+    request: JSONRPCRequest,
+    context: ToolCallContext
+  ): Promise<JSONRPCResponse> {
+    context.reportProgress(0, 1, "Reading tasks file");
+    const tasks = await this.taskStore!.refresh();
+    context.reportProgress(1, 1, `Loaded ${tasks.length} tasks`);
+    return this.createTaskResult(request.id, {
+      success: true,
+      count: tasks.length,
+      message: "Tasks refreshed successfully",
+    });
+  }
+
+  private async handleTasksDependencies(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const id = this.getTaskIdParam(params);
+    if (!id) {
+      return this.createInvalidTaskIdResponse(request.id);
+    }
+
+    const task = await this.taskStore!.getTaskById(id);
+    if (!task) {
+      return this.createTaskNotFoundResponse(request.id, id);
+    }
+
+    const allTasks = await this.taskStore!.getTasks();
+    const dependencies = task.dependencies
+      .map((dependencyId) => allTasks.find((t) => t.id === dependencyId))
+      .filter((dependency): dependency is Task => !!dependency);
+
+    return this.createTaskResult(request.id, {
+      task,
+      tasks: dependencies,
+      count: dependencies.length,
+    });
+  }
+
+  private async handleTasksTestResults(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const id = this.getTaskIdParam(params);
+    if (!id) {
+      return this.createInvalidTaskIdResponse(request.id);
+    }
+
+    const task = await this.taskStore!.getTaskById(id);
+    if (!task) {
+      return this.createTaskNotFoundResponse(request.id, id);
+    }
+    return this.createTaskResult(request.id, {
+      testResults: task.testStatus || null,
+    });
+  }
+
+  private async handleTasksCreate(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const fields = params.updates;
+    if (!fields || typeof fields !== "object") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "updates is required and must be an object"
+      );
+    }
+    if (typeof fields.title !== "string" || fields.title.trim() === "") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "updates.title is required and must be a non-empty string"
+      );
+    }
+    if (
+      fields.status !== undefined &&
+      !Object.values(TaskStatus).includes(fields.status)
+    ) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        `updates.status must be one of: ${Object.values(TaskStatus).join(", ")}`
+      );
+    }
+
+    const task = await this.taskStore!.createTask(fields, params.context);
+    if (!task) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.TASK_CONFLICT,
+        `Task with ID '${fields.id}' already exists`
+      );
+    }
+    return this.createTaskResult(request.id, { success: true, task });
+  }
+
+  private async handleTasksDelete(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const id = this.getTaskIdParam(params);
+    if (!id) {
+      return this.createInvalidTaskIdResponse(request.id);
+    }
 
-      default:
-        return this.createErrorResponse(request.id, -32601, "Method not found");
+    const deleted = await this.taskStore!.deleteTask(id);
+    if (!deleted) {
+      return this.createTaskNotFoundResponse(request.id, id);
     }
+    return this.createTaskResult(request.id, { success: true });
+  }
+
+  private async handleTasksSearch(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const filters: TaskSearchFilters = params.filters || {};
+    if (typeof filters !== "object") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "filters must be an object"
+      );
+    }
+
+    let tasks = this.taskFilterService.applyFilters(
+      await this.taskStore!.getTasks(),
+      this.parseSearchFilterDates(filters)
+    );
+
+    if (params.query) {
+      const query = String(params.query).toLowerCase();
+      tasks = tasks.filter((task) =>
+        [task.id, task.title, task.description, task.details]
+          .filter(Boolean)
+          .some((value) => String(value).toLowerCase().includes(query))
+      );
+    }
+
+    return this.createTaskResult(request.id, { tasks, count: tasks.length });
+  }
+
+  private async handleTasksExport(
+    request: JSONRPCRequest,
+    params: TaskJSONRPCParams
+  ): Promise<JSONRPCResponse> {
+    const format = params.format || "json";
+    if (format !== "json" && format !== "csv") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "format must be one of: json, csv"
+      );
+    }
+
+    const tasks = await this.taskStore!.getTasks();
+    const data =
+      format === "csv"
+        ? this.serializeTasksAsCSV(tasks)
+        : JSON.stringify(tasks, null, 2);
+
+    return this.createTaskResult(request.id, {
+      format,
+      data,
+      count: tasks.length,
+    });
+  }
+
+  /**
+   * Render a task prompt for the task named in arguments.taskId
+   */
+  private async handlePromptGet(
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> {
+    const name = request.params?.name;
+    if (
+      typeof name !== "string" ||
+      !this.taskPromptGenerator.isPromptName(name)
+    ) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        `Invalid params: unknown prompt ${name}`
+      );
+    }
+
+    const taskId = request.params?.arguments?.taskId;
+    if (typeof taskId !== "string" || taskId.length === 0) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "Invalid params: taskId argument is required"
+      );
+    }
+
+    if (!this.taskStore) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.TASK_SOURCE_UNAVAILABLE,
+        "No workspace task source configured"
+      );
+    }
+
+    try {
+      const task = await this.taskStore.getTaskById(taskId);
+      if (!task) {
+        return this.createTaskNotFoundResponse(request.id, taskId);
+      }
+
+      const tasks = await this.taskStore.getTasks();
+      const dependencies = tasks.filter((candidate) =>
+        task.dependencies.includes(candidate.id)
+      );
+      const definition = this.taskPromptGenerator
+        .getPromptDefinitions()
+        .find((prompt) => prompt.name === name)!;
+
+      return {
+        jsonrpc: "2.0",
+        result: {
+          description: `${definition.description} (task ${task.id})`,
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: this.taskPromptGenerator.generatePrompt(
+                  name,
+                  task,
+                  dependencies
+                ),
+              },
+            },
+          ],
+        },
+        id: request.id,
+      };
+    } catch (error) {
+      console.error("[SimpleMCPServer] prompts/get failed:", error);
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INTERNAL_ERROR,
+        `Internal error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Route resources/* methods; task resources are backed by the task store
+   */
+  private async executeResourceRequest(
+    request: JSONRPCRequest,
+    session?: MCPSession
+  ): Promise<JSONRPCResponse> {
+    try {
+      switch (request.method) {
+        case "resources/list":
+          return {
+            jsonrpc: "2.0",
+            result: { resources: await this.listResources() },
+            id: request.id,
+          };
+        case "resources/templates/list":
+          return {
+            jsonrpc: "2.0",
+            result: {
+              resourceTemplates: this.taskStore ? RESOURCE_TEMPLATES : [],
+            },
+            id: request.id,
+          };
+        case "resources/read":
+          return await this.handleResourceRead(request);
+        case "resources/subscribe":
+          return await this.handleResourceSubscribe(request, session);
+        case "resources/unsubscribe":
+          return this.handleResourceUnsubscribe(request, session);
+        default:
+          return this.createErrorResponse(
+            request.id,
+            JSONRPCErrorCode.METHOD_NOT_FOUND,
+            "Method not found"
+          );
+      }
+    } catch (error) {
+      console.error(`[SimpleMCPServer] ${request.method} failed:`, error);
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INTERNAL_ERROR,
+        `Internal error: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  private async handleResourceRead(
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "Invalid params: uri is required"
+      );
+    }
+
+    const resource = await this.readResource(uri);
+    if (!resource) {
+      return this.createResourceNotFoundResponse(request.id, uri);
+    }
+
+    return {
+      jsonrpc: "2.0",
+      result: {
+        contents: [{ uri, mimeType: RESOURCE_MIME_TYPE, text: resource.text }],
+      },
+      id: request.id,
+    };
+  }
+
+  private async handleResourceSubscribe(
+    request: JSONRPCRequest,
+    session?: MCPSession
+  ): Promise<JSONRPCResponse> {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "Invalid params: uri is required"
+      );
+    }
+    if (!session) {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_REQUEST,
+        "Resource subscriptions require a session"
+      );
+    }
+
+    const resource = await this.readResource(uri);
+    if (!resource) {
+      return this.createResourceNotFoundResponse(request.id, uri);
+    }
+
+    session.subscriptions.add(uri);
+    if (!this.resourceFingerprints.has(uri)) {
+      this.resourceFingerprints.set(uri, resource.fingerprint);
+    }
+    return { jsonrpc: "2.0", result: {}, id: request.id };
+  }
+
+  private handleResourceUnsubscribe(
+    request: JSONRPCRequest,
+    session?: MCPSession
+  ): JSONRPCResponse {
+    const uri = request.params?.uri;
+    if (typeof uri !== "string") {
+      return this.createErrorResponse(
+        request.id,
+        JSONRPCErrorCode.INVALID_PARAMS,
+        "Invalid params: uri is required"
+      );
+    }
+
+    session?.subscriptions.delete(uri);
+    this.pruneResourceFingerprints();
+    return { jsonrpc: "2.0", result: {}, id: request.id };
+  }
+
+  /**
+   * One resource per context and per task in the tasks file
+   */
+  private async listResources(): Promise<MCPResource[]> {
+    if (!this.taskStore) {
+      return [];
+    }
+
+    const rawContexts = await this.taskStore.getRawContexts();
+    const tasks = await this.taskStore.getTasks();
+    const resources: MCPResource[] = [];
+
+    for (const [contextName, rawTasks] of Object.entries(rawContexts)) {
+      resources.push({
+        uri: CONTEXT_RESOURCE_PREFIX + encodeURIComponent(contextName),
+        name: `Context: ${contextName}`,
+        description: `${rawTasks.length} tasks in the ${contextName} context`,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+    for (const task of tasks) {
+      resources.push({
+        uri: TASK_RESOURCE_PREFIX + encodeURIComponent(task.id),
+        name: `Task ${task.id}: ${task.title}`,
+        description: task.description,
+        mimeType: RESOURCE_MIME_TYPE,
+      });
+    }
+    return resources;
+  }
+
+  private parseResourceUri(uri: string): TaskResourceRef | null {
+    if (uri.startsWith(CONTEXT_RESOURCE_PREFIX)) {
+      const name = uri.slice(CONTEXT_RESOURCE_PREFIX.length);
+      return name && !name.includes("/")
+        ? { kind: "context", name: decodeURIComponent(name) }
+        : null;
+    }
+    if (uri.startsWith(TASK_RESOURCE_PREFIX)) {
+      const id = uri.slice(TASK_RESOURCE_PREFIX.length);
+      return id && !id.includes("/")
+        ? { kind: "task", id: decodeURIComponent(id) }
+        : null;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a resource URI to its contents
+   * The fingerprint comes from the raw file entries so parser defaults
+   * (such as generated dates) never register as changes
+   */
+  private async readResource(
+    uri: string
+  ): Promise<{ text: string; fingerprint: string } | null> {
+    const ref = this.parseResourceUri(uri);
+    if (!ref || !this.taskStore) {
+      return null;
+    }
+
+    const rawContexts = await this.taskStore.getRawContexts();
+
+    if (ref.kind === "context") {
+      const rawTasks = rawContexts[ref.name];
+      if (!rawTasks) {
+        return null;
+      }
+      const tasks = (await this.taskStore.getTasks()).filter(
+        (task) => task.context === ref.name
+      );
+      return {
+        text: JSON.stringify({ context: ref.name, tasks }, null, 2),
+        fingerprint: JSON.stringify(rawTasks),
+      };
+    }
+
+    const { context, id } = parseTaskId(ref.id);
+    const rawTask = rawContexts[context]?.find(
+      (task) => String(task.id) === id
+    );
+    const task = rawTask ? await this.taskStore.getTaskById(ref.id) : null;
+    if (!task) {
+      return null;
+    }
+    return {
+      text: JSON.stringify(task, null, 2),
+      fingerprint: JSON.stringify(rawTask),
+    };
+  }
+
+  /**
+   * Re-read the tasks file and notify sessions about changed resources
+   * Called whenever the extension's task data changes
+   */
+  notifyTasksUpdated(): Promise<void> {
+    const run = () => this.publishResourceUpdates();
+    const result = this.resourceUpdates.then(run, run);
+    this.resourceUpdates = result.catch(() => undefined);
+    return result;
+  }
+
+  private async publishResourceUpdates(): Promise<void> {
+    if (!this.taskStore) {
+      return;
+    }
+
+    const listUris = async () =>
+      (await this.listResources()).map((resource) => resource.uri).join("\n");
+    const before = await listUris();
+    await this.taskStore.refresh();
+    const after = await listUris();
+
+    if (before !== after) {
+      for (const session of this.sessions.values()) {
+        session.send?.({
+          jsonrpc: "2.0",
+          method: "notifications/resources/list_changed",
+        });
+      }
+    }
+
+    for (const [uri, previous] of this.resourceFingerprints) {
+      const resource = await this.readResource(uri);
+      const fingerprint = resource ? resource.fingerprint : null;
+      if (fingerprint === previous) {
+        continue;
+      }
+
+      this.resourceFingerprints.set(uri, fingerprint);
+      for (const session of this.sessions.values()) {
+        if (session.subscriptions.has(uri)) {
+          session.send?.({
+            jsonrpc: "2.0",
+            method: "notifications/resources/updated",
+            params: { uri },
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Forget fingerprints no session is subscribed to any more
+   */
+  private pruneResourceFingerprints(): void {
+    for (const uri of this.resourceFingerprints.keys()) {
+      const subscribed = Array.from(this.sessions.values()).some((session) =>
+        session.subscriptions.has(uri)
+      );
+      if (!subscribed) {
+        this.resourceFingerprints.delete(uri);
+      }
+    }
+  }
+
+  private createResourceNotFoundResponse(
+    id: string | number,
+    uri: string
+  ): JSONRPCResponse {
+    return this.createErrorResponse(
+      id,
+      JSONRPCErrorCode.RESOURCE_NOT_FOUND,
+      `Resource not found: ${uri}`
+    );
+  }
+
+  /**
+   * Accept both "id" (TasksDataService) and "taskId" (TaskJSONRPCParams)
+   */
+  private getTaskIdParam(params: TaskJSONRPCParams): string | null {
+    const id = params.id ?? params.taskId;
+    return typeof id === "string" && id.length > 0 ? id : null;
+  }
+
+  /**
+   * Date filters arrive as ISO strings over JSON
+   */
+  private parseSearchFilterDates(
+    filters: TaskSearchFilters
+  ): TaskSearchFilters {
+    const parsed: TaskSearchFilters = { ...filters };
+    for (const key of [
+      "createdAfter",
+      "createdBefore",
+      "modifiedAfter",
+      "modifiedBefore",
+    ] as const) {
+      if (parsed[key] !== undefined) {
+        parsed[key] = new Date(parsed[key] as any);
+      }
+    }
+    return parsed;
+  }
+
+  private serializeTasksAsCSV(tasks: Task[]): string {
+    const columns: Array<keyof Task> = [
+      "id",
+      "title",
+      "status",
+      "priority",
+      "assignee",
+      "dependencies",
+    ];
+    const escape = (value: unknown): string => {
+      const text = Array.isArray(value)
+        ? value.join(";")
+        : value === undefined || value === null
+        ? ""
+        : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const rows = tasks.map((task) =>
+      columns.map((column) => escape(task[column])).join(",")
+    );
+    return [columns.join(","), ...rows].join("\n");
+  }
+
+  private createTaskResult(
+    id: string | number,
+    result: TaskJSONRPCResult & Record<string, any>
+  ): JSONRPCResponse {
+    return {
+      jsonrpc: "2.0",
+      result,
+      id,
+    };
+  }
+
+  private createInvalidTaskIdResponse(id: string | number): JSONRPCResponse {
+    return this.createErrorResponse(
+      id,
+      JSONRPCErrorCode.INVALID_PARAMS,
+      "id is required and must be a string"
+    );
+  }
+
+  private createTaskNotFoundResponse(
+    id: string | number,
+    taskId: string
+  ): JSONRPCResponse {
+    return this.createErrorResponse(
+      id,
+      JSONRPCErrorCode.TASK_NOT_FOUND,
+      `Task with ID '${taskId}' not found`
+    );
   }
 
 
@@ -185,15 +2009,17 @@ export class SimpleMCPServer {
    * Create JSON-RPC error response
    */
   private createErrorResponse(
-    id: string | number,
+    id: string | number | null,
     code: number,
-    message: string
+    message: string,
+    data?: any
   ): JSONRPCResponse {
     return {
       jsonrpc: "2.0",
       error: {
         code,
         message,
+        ...(data !== undefined && { data }),
       },
       id,
     };
@@ -204,7 +2030,7 @@ export class SimpleMCPServer {
    */
   private sendResponse(
     res: http.ServerResponse,
-    response: JSONRPCResponse
+    response: JSONRPCResponse | JSONRPCResponse[]
   ): void {
     res.setHeader("Content-Type", "application/json");
     res.writeHead(200);
@@ -217,7 +2043,8 @@ export class SimpleMCPServer {
   private sendError(
     res: http.ServerResponse,
     statusCode: number,
-    message: string
+    message: string,
+    code: number = statusCode
   ): void {
     res.setHeader("Content-Type", "application/json");
     res.writeHead(statusCode);
@@ -225,7 +2052,7 @@ export class SimpleMCPServer {
       JSON.stringify({
         jsonrpc: "2.0",
         error: {
-          code: statusCode,
+          code,
           message,
         },
         id: null,
@@ -0,0 +1,232 @@
+/**
+ * Sprint Context Store
+ * Reads .aidm/sprint.json, the team's current sprint, its stories and coding
+ * patterns, served to agents by the get_sprint_context and get_team_patterns
+ * tools
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  SchemaValidationError,
+  validateAgainstSchema,
+} from "./JSONSchemaValidator";
+import { SprintFile } from "../types/sprint";
+
+export const SPRINT_FILE = path.join(".aidm", "sprint.json");
+
+const NON_EMPTY_STRING = { type: "string", minLength: 1 };
+const STRING_LIST = { type: "array", items: { type: "string" } };
+const ISO_DATE = { type: "string", pattern: "^\\d{4}-\\d{2}-\\d{2}" };
+
+export const SPRINT_FILE_SCHEMA = {
+  type: "object",
+  properties: {
+    sprint: {
+      type: "object",
+      properties: {
+        id: NON_EMPTY_STRING,
+        name: NON_EMPTY_STRING,
+        startDate: ISO_DATE,
+        endDate: ISO_DATE,
+        teamMembers: STRING_LIST,
+        currentStories: STRING_LIST,
+      },
+      required: ["id", "name", "startDate", "endDate"],
+    },
+    stories: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: NON_EMPTY_STRING,
+          title: NON_EMPTY_STRING,
+          description: { type: "string" },
+          acceptanceCriteria: STRING_LIST,
+          businessValue: { type: "string" },
+          priority: { type: "string" },
+          status: { type: "string" },
+        },
+        required: ["id", "title"],
+      },
+    },
+    teamPatterns: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: NON_EMPTY_STRING,
+          name: NON_EMPTY_STRING,
+          description: { type: "string" },
+          category: { type: "string" },
+          examples: STRING_LIST,
+          teamAdoption: { type: "number", minimum: 0, maximum: 1 },
+        },
+        required: ["id", "name"],
+      },
+    },
+  },
+  required: ["sprint"],
+};
+
+/**
+ * Thrown for sprint files that are not valid JSON or break the format
+ */
+export class SprintFileError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: SchemaValidationError[]
+  ) {
+    super(message);
+    this.name = "SprintFileError";
+  }
+}
+
+export function getSprintFilePath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, SPRINT_FILE);
+}
+
+/**
+ * Parse and validate sprint file content, filling in optional fields
+ * @throws SprintFileError listing every problem found
+ */
+export function parseSprintFile(content: string): SprintFile {
+  let raw: any;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new SprintFileError(`Invalid ${SPRINT_FILE}: ${message}`, [
+      { path: "", message },
+    ]);
+  }
+
+  const errors = validateAgainstSchema(SPRINT_FILE_SCHEMA, raw);
+  if (errors.length === 0) {
+    errors.push(...checkReferences(raw));
+  }
+  if (errors.length > 0) {
+    throw new SprintFileError(
+      `Invalid ${SPRINT_FILE}: ${errors.map((e) => e.message).join("; ")}`,
+      errors
+    );
+  }
+
+  return {
+    sprint: {
+      id: raw.sprint.id,
+      name: raw.sprint.name,
+      startDate: raw.sprint.startDate,
+      endDate: raw.sprint.endDate,
+      teamMembers: raw.sprint.teamMembers ?? [],
+      currentStories: raw.sprint.currentStories ?? [],
+    },
+    stories: (raw.stories ?? []).map((story: any) => ({
+      id: story.id,
+      title: story.title,
+      description: story.description ?? "",
+      acceptanceCriteria: story.acceptanceCriteria ?? [],
+      businessValue: story.businessValue ?? "",
+      priority: story.priority ?? "medium",
+      status: story.status ?? "pending",
+    })),
+    teamPatterns: (raw.teamPatterns ?? []).map((pattern: any) => ({
+      id: pattern.id,
+      name: pattern.name,
+      description: pattern.description ?? "",
+      category: pattern.category ?? "general",
+      examples: pattern.examples ?? [],
+      teamAdoption: pattern.teamAdoption ?? 1,
+    })),
+  };
+}
+
+/**
+ * Rules the schema cannot express: real dates in order and known stories
+ */
+function checkReferences(raw: any): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+  const start = Date.parse(raw.sprint.startDate);
+  const end = Date.parse(raw.sprint.endDate);
+  if (isNaN(start)) {
+    errors.push({
+      path: "sprint.startDate",
+      message: "sprint.startDate is not a valid date",
+    });
+  }
+  if (isNaN(end)) {
+    errors.push({
+      path: "sprint.endDate",
+      message: "sprint.endDate is not a valid date",
+    });
+  }
+  if (!isNaN(start) && !isNaN(end) && end < start) {
+    errors.push({
+      path: "sprint.endDate",
+      message: "sprint.endDate must not be before sprint.startDate",
+    });
+  }
+
+  const storyIds = new Set((raw.stories ?? []).map((story: any) => story.id));
+  (raw.sprint.currentStories ?? []).forEach((id: string, index: number) => {
+    if (!storyIds.has(id)) {
+      errors.push({
+        path: `sprint.currentStories.${index}`,
+        message: `sprint.currentStories names unknown story ${id}`,
+      });
+    }
+  });
+  return errors;
+}
+
+/**
+ * Starting point for a new sprint file: a two-week sprint from today
+ */
+export function createSprintFileTemplate(now: Date = new Date()): SprintFile {
+  const day = 24 * 60 * 60 * 1000;
+  const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return {
+    sprint: {
+      id: "sprint-1",
+      name: "Sprint 1",
+      startDate: toDate(now.getTime()),
+      endDate: toDate(now.getTime() + 13 * day),
+      teamMembers: [],
+      currentStories: ["story-1"],
+    },
+    stories: [
+      {
+        id: "story-1",
+        title: "First story",
+        description: "What the story delivers and for whom",
+        acceptanceCriteria: ["Describe a verifiable outcome"],
+        businessValue: "medium",
+        priority: "medium",
+        status: "pending",
+      },
+    ],
+    teamPatterns: [],
+  };
+}
+
+export class SprintContextStore {
+  constructor(public readonly sprintFilePath: string) {}
+
+  /**
+   * Read the sprint file; it is small, so every call sees the latest edit
+   * @returns The sprint context, or null when the file does not exist
+   * @throws SprintFileError when the file is invalid
+   */
+  async load(): Promise<SprintFile | null> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.sprintFilePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+    return parseSprintFile(content);
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Stdio Transport for the MCP server
+ * Serves SimpleMCPServer's JSON-RPC handlers over newline-delimited stdio
+ */
+
+import * as readline from "readline";
+import {
+  JSONRPCErrorCode,
+  JSONRPCNotification,
+  JSONRPCResponse,
+} from "../types/extension";
+import type { MCPSession, SimpleMCPServer } from "./SimpleMCPServer";
+
+export class StdioTransport {
+  private lineReader: readline.Interface | null = null;
+  private pending: Set<Promise<void>> = new Set();
+  private session: MCPSession | null = null;
+
+  constructor(
+    private readonly server: SimpleMCPServer,
+    private readonly input: NodeJS.ReadableStream = process.stdin,
+    private readonly output: NodeJS.WritableStream = process.stdout
+  ) {}
+
+  /**
+   * Start reading one JSON-RPC message per line
+   * @param onClose - Called once the input ends and in-flight requests settle
+   */
+  start(onClose?: () => void): void {
+    if (this.lineReader) {
+      return;
+    }
+
+    // A stdio connection is a single session for its whole lifetime
+    this.session = this.server.createSession();
+    this.session.send = (notification) => this.write(notification);
+
+    this.lineReader = readline.createInterface({
+      input: this.input,
+      crlfDelay: Infinity,
+    });
+
+    this.lineReader.on("line", (line) => {
+      const handling = this.handleLine(line);
+      this.pending.add(handling);
+      handling.finally(() => this.pending.delete(handling));
+    });
+
+    this.lineReader.on("close", async () => {
+      this.lineReader = null;
+      await Promise.all(this.pending);
+      if (this.session) {
+        this.server.closeSession(this.session.id);
+        this.session = null;
+      }
+      onClose?.();
+    });
+  }
+
+  /**
+   * Stop reading input
+   */
+  stop(): void {
+    this.lineReader?.close();
+  }
+
+  private async handleLine(line: string): Promise<void> {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.write({
+        jsonrpc: "2.0",
+        error: { code: JSONRPCErrorCode.PARSE_ERROR, message: "Parse error" },
+        id: null,
+      });
+      return;
+    }
+
+    let response: JSONRPCResponse | JSONRPCResponse[] | null;
+    try {
+      response = await this.server.handleMessage(
+        message,
+        this.session ?? undefined
+      );
+    } catch (error) {
+      // A failing handler answers its request instead of ending the process
+      console.error("[StdioTransport] Message handling failed:", error);
+      const id = Array.isArray(message) ? null : message?.id;
+      response =
+        id === undefined
+          ? null
+          : {
+              jsonrpc: "2.0",
+              error: {
+                code: JSONRPCErrorCode.INTERNAL_ERROR,
+                message: `Internal error: ${
+                  error instanceof Error ? error.message : String(error)
+                }`,
+              },
+              id,
+            };
+    }
+
+    // Notifications must not be answered
+    if (response) {
+      this.write(response);
+    }
+  }
+
+  private write(
+    message: JSONRPCResponse | JSONRPCResponse[] | JSONRPCNotification
+  ): void {
+    this.output.write(JSON.stringify(message) + "\n");
+  }
+}
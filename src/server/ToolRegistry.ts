@@ -0,0 +1,143 @@
+/**
+ * Tool Registry for the MCP server
+ * Holds the tools the server exposes, each with a JSON Schema for its arguments
+ */
+
+import {
+  SchemaValidationError,
+  validateAgainstSchema,
+} from "./JSONSchemaValidator";
+
+export interface Tool {
+  name: string;
+  description: string;
+  inputSchema: any;
+}
+
+/**
+ * Per-call state handed to tool handlers
+ */
+export interface ToolCallContext {
+  /** Aborts when the client cancels the call or it times out */
+  signal: AbortSignal;
+  /** Sends notifications/progress; a no-op unless the client asked for it */
+  reportProgress(progress: number, total?: number, message?: string): void;
+}
+
+/**
+ * Runs a tool; the result is serialized as JSON text for the client
+ */
+export type ToolHandler = (
+  args: Record<string, any>,
+  context: ToolCallContext
+) => unknown;
+
+export interface ToolRegistration {
+  dispose(): void;
+}
+
+/**
+ * Thrown by handlers for arguments the schema cannot express,
+ * reported to the client as invalid params instead of a tool failure
+ */
+export class ToolArgumentsError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: SchemaValidationError[]
+  ) {
+    super(message);
+    this.name = "ToolArgumentsError";
+  }
+}
+
+/**
+ * Returned by handlers whose result already is MCP content, such as calls
+ * forwarded to another MCP server; it is sent as is instead of as JSON text
+ */
+export class ToolContentResult {
+  constructor(
+    public readonly content: unknown[],
+    public readonly isError: boolean = false
+  ) {}
+}
+
+const TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+
+export class ToolRegistry {
+  private tools: Map<string, { tool: Tool; handler: ToolHandler }> =
+    new Map();
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * Add a tool; names must be unique and the schema must describe an object
+   */
+  register(
+    name: string,
+    description: string,
+    inputSchema: any,
+    handler: ToolHandler
+  ): ToolRegistration {
+    if (!TOOL_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid tool name: ${name}`);
+    }
+    if (this.tools.has(name)) {
+      throw new Error(`Tool ${name} is already registered`);
+    }
+    if (
+      !inputSchema ||
+      typeof inputSchema !== "object" ||
+      inputSchema.type !== "object"
+    ) {
+      throw new Error(`Input schema for ${name} must be of type object`);
+    }
+
+    const entry = { tool: { name, description, inputSchema }, handler };
+    this.tools.set(name, entry);
+    this.notifyChanged();
+
+    return {
+      dispose: () => {
+        // A later registration under the same name must survive this dispose
+        if (this.tools.get(name) === entry) {
+          this.tools.delete(name);
+          this.notifyChanged();
+        }
+      },
+    };
+  }
+
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map((entry) => entry.tool);
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name)?.tool;
+  }
+
+  getHandler(name: string): ToolHandler | undefined {
+    return this.tools.get(name)?.handler;
+  }
+
+  /**
+   * Validate arguments against a tool's input schema
+   * @returns Every violation found, empty when the arguments are valid
+   */
+  validateArguments(name: string, args: unknown): SchemaValidationError[] {
+    const tool = this.get(name);
+    return tool ? validateAgainstSchema(tool.inputSchema, args) : [];
+  }
+
+  /**
+   * Listen for tools being added or removed
+   */
+  onDidChange(listener: () => void): ToolRegistration {
+    this.listeners.add(listener);
+    return { dispose: () => this.listeners.delete(listener) };
+  }
+
+  private notifyChanged(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
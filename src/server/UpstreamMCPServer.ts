@@ -0,0 +1,234 @@
+/**
+ * Upstream MCP Server
+ * JSON-RPC client for a remote MCP server whose tools the local server mounts
+ */
+
+import axios, { AxiosInstance } from "axios";
+import {
+  JSONRPCNotification,
+  JSONRPCRequest,
+  JSONRPCResponse,
+  MCP_SESSION_HEADER,
+} from "../types/extension";
+import {
+  createInitializeRequest,
+  INITIALIZED_NOTIFICATION,
+  validateInitializeResult,
+} from "../client/mcpHandshake";
+import { Tool } from "./ToolRegistry";
+
+export interface UpstreamServerConfig {
+  name: string; // Namespace of the server's tools, e.g. "remote"
+  url: string; // JSON-RPC endpoint
+  apiKey?: string; // Sent as Authorization: Bearer <apiKey>
+  headers?: Record<string, string>; // Extra headers such as a tenant ID
+  timeout?: number; // Milliseconds per request
+}
+
+export interface UpstreamToolResult {
+  content: unknown[];
+  isError?: boolean;
+}
+
+const DEFAULT_UPSTREAM_TIMEOUT = 10000;
+// Guards against servers that keep returning a cursor
+const MAX_TOOL_PAGES = 20;
+
+export class UpstreamMCPServer {
+  private httpClient: AxiosInstance;
+  private requestId: number = 1;
+  private sessionId: string | null = null;
+  private handshake: Promise<void> | null = null;
+
+  constructor(public readonly config: UpstreamServerConfig) {
+    this.httpClient = axios.create({
+      baseURL: config.url,
+      timeout: config.timeout ?? DEFAULT_UPSTREAM_TIMEOUT,
+      headers: {
+        ...config.headers,
+        "Content-Type": "application/json",
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+    });
+  }
+
+  /**
+   * Every tool the server offers, following tools/list pagination
+   */
+  async listTools(): Promise<Tool[]> {
+    const tools: Tool[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < MAX_TOOL_PAGES; page++) {
+      const result = await this.request(
+        "tools/list",
+        cursor ? { cursor } : undefined
+      );
+      tools.push(...(Array.isArray(result?.tools) ? result.tools : []));
+      cursor = result?.nextCursor;
+      if (!cursor) {
+        break;
+      }
+    }
+    return tools;
+  }
+
+  /**
+   * Call a tool; aborting the signal cancels the call on the server too
+   */
+  async callTool(
+    name: string,
+    args: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<UpstreamToolResult> {
+    const result = await this.request(
+      "tools/call",
+      { name, arguments: args },
+      signal
+    );
+    return {
+      content: Array.isArray(result?.content) ? result.content : [],
+      isError: result?.isError === true,
+    };
+  }
+
+  /**
+   * End the session, if the server opened one
+   */
+  async close(): Promise<void> {
+    const sessionId = this.sessionId;
+    this.sessionId = null;
+    this.handshake = null;
+    if (!sessionId) {
+      return;
+    }
+    try {
+      await this.httpClient.delete("", {
+        headers: { [MCP_SESSION_HEADER]: sessionId },
+      });
+    } catch (error) {
+      console.warn(
+        `[Upstream ${this.config.name}] Failed to end session:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  private async request(
+    method: string,
+    params?: any,
+    signal?: AbortSignal
+  ): Promise<any> {
+    await this.initialize();
+
+    const request: JSONRPCRequest = {
+      jsonrpc: "2.0",
+      method,
+      ...(params !== undefined && { params }),
+      id: this.requestId++,
+    };
+
+    let response: JSONRPCResponse;
+    try {
+      response = await this.post(request, signal);
+    } catch (error) {
+      if (signal?.aborted) {
+        this.notifyCancelled(request.id);
+        throw new Error(`${method} on ${this.config.name} was cancelled`);
+      }
+      // Server restarted or dropped our session; handshake again next call
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        this.sessionId = null;
+        this.handshake = null;
+      }
+      throw new Error(this.describeFailure(method, error));
+    }
+
+    if (response.error) {
+      throw new Error(
+        `${this.config.name} rejected ${method}: ${response.error.message} ` +
+          `(Code: ${response.error.code})`
+      );
+    }
+    return response.result;
+  }
+
+  /**
+   * Perform the MCP handshake once; a failed one is retried next time
+   */
+  private initialize(): Promise<void> {
+    if (!this.handshake) {
+      const handshake = this.performHandshake();
+      this.handshake = handshake;
+      handshake.catch(() => {
+        if (this.handshake === handshake) {
+          this.handshake = null;
+        }
+      });
+    }
+    return this.handshake;
+  }
+
+  private async performHandshake(): Promise<void> {
+    let response: JSONRPCResponse;
+    try {
+      response = await this.post(createInitializeRequest(this.requestId++));
+    } catch (error) {
+      throw new Error(this.describeFailure("initialize", error));
+    }
+    if (response.error) {
+      throw new Error(
+        `${this.config.name} rejected initialize: ${response.error.message}`
+      );
+    }
+    validateInitializeResult(response.result);
+    await this.post(INITIALIZED_NOTIFICATION);
+  }
+
+  /**
+   * POST a message, naming the session when there is one
+   * Records the session ID the server assigns on initialize
+   */
+  private async post(
+    message: JSONRPCRequest | JSONRPCNotification,
+    signal?: AbortSignal
+  ): Promise<JSONRPCResponse> {
+    const response = await this.httpClient.post("", message, {
+      ...(this.sessionId && {
+        headers: { [MCP_SESSION_HEADER]: this.sessionId },
+      }),
+      ...(signal && { signal }),
+    });
+
+    const sessionId = response.headers?.[MCP_SESSION_HEADER];
+    if (message.method === "initialize" && typeof sessionId === "string") {
+      this.sessionId = sessionId;
+    }
+    return response.data;
+  }
+
+  /**
+   * Best effort: the call may already have finished upstream
+   */
+  private notifyCancelled(requestId: string | number): void {
+    this.post({
+      jsonrpc: "2.0",
+      method: "notifications/cancelled",
+      params: { requestId, reason: "Cancelled by the gateway client" },
+    }).catch(() => undefined);
+  }
+
+  private describeFailure(method: string, error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      if (error.code === "ECONNABORTED") {
+        const timeout = this.config.timeout ?? DEFAULT_UPSTREAM_TIMEOUT;
+        return `${method} on ${this.config.name} timed out after ${timeout}ms`;
+      }
+      if (error.response) {
+        return `${this.config.name} answered ${method} with HTTP ${error.response.status}`;
+      }
+    }
+    return `${this.config.name} is unreachable: ${
+      error instanceof Error ? error.message : String(error)
+    }`;
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Workspace Task Store
+ * Reads and mutates the tasks file backing the MCP tasks/* methods: a
+ * nested-contexts tasks.json or tasks.yaml, or a tasks.md without contexts
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { JSONTaskContentParser } from "../services/JSONTaskContentParser";
+import { JSONTaskFileWriter } from "../services/JSONTaskFileWriter";
+import { isMarkdownTaskFile } from "../services/MarkdownTaskDocument";
+import { MarkdownTaskFileWriter } from "../services/MarkdownTaskFileWriter";
+import { MarkdownTaskParser } from "../services/MarkdownTaskParser";
+import { isYAMLTaskFile, readYAMLTasks } from "../services/YAMLTaskDocument";
+import { YAMLTaskFileWriter } from "../services/YAMLTaskFileWriter";
+import {
+  DEFAULT_TASK_CONTEXT,
+  isTaskContext,
+  parseTaskId,
+  qualifyTaskId,
+} from "../services/TaskContextIds";
+import { Task, TaskStatus } from "../types/tasks";
+
+// In-place edits every tasks file format supports
+type TaskFileWriter = Pick<
+  JSONTaskFileWriter,
+  "updateTaskStatus" | "addTask" | "deleteTask"
+>;
+
+export class WorkspaceTaskStore {
+  private cachedTasks: Task[] | null = null;
+  private cachedRaw: Record<string, any> | null = null;
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private readonly taskFileWriter: TaskFileWriter;
+  private readonly markdownTaskParser = new MarkdownTaskParser();
+
+  constructor(
+    private readonly jsonTaskParser: JSONTaskContentParser,
+    public readonly tasksFilePath: string
+  ) {
+    this.taskFileWriter = isMarkdownTaskFile(tasksFilePath)
+      ? new MarkdownTaskFileWriter()
+      : isYAMLTaskFile(tasksFilePath)
+        ? new YAMLTaskFileWriter()
+        : new JSONTaskFileWriter();
+  }
+
+  /**
+   * Get all tasks, parsing the file on first access
+   */
+  async getTasks(): Promise<Task[]> {
+    if (!this.cachedTasks) {
+      this.cachedTasks = isMarkdownTaskFile(this.tasksFilePath)
+        ? this.markdownTaskParser.parseTasksFromMarkdownContent(
+            await this.readContent()
+          )
+        : this.jsonTaskParser.parseTasksFromJSONContent(await this.getRaw());
+    }
+    return this.cachedTasks;
+  }
+
+  /**
+   * Get a single task by ID
+   */
+  async getTaskById(id: string): Promise<Task | null> {
+    const tasks = await this.getTasks();
+    return tasks.find((task) => task.id === id) || null;
+  }
+
+  /**
+   * Raw task entries grouped by context, as stored in the file
+   */
+  async getRawContexts(): Promise<Record<string, any[]>> {
+    const raw = await this.getRaw();
+    const contexts: Record<string, any[]> = {};
+    for (const [contextName, tasks] of this.contextEntries(raw)) {
+      contexts[contextName] = tasks.filter(
+        (task: any) => task && typeof task === "object"
+      );
+    }
+    return contexts;
+  }
+
+  /**
+   * Drop the parsed cache and re-read the file
+   */
+  async refresh(): Promise<Task[]> {
+    this.cachedTasks = null;
+    this.cachedRaw = null;
+    return this.getTasks();
+  }
+
+  /**
+   * Update a task's status in the file, leaving the rest of it as written
+   * @returns The updated task, or null if no task has the given ID
+   */
+  async updateTaskStatus(id: string, status: TaskStatus): Promise<Task | null> {
+    const updated = await this.edit((content) =>
+      content.trim().length > 0
+        ? this.taskFileWriter.updateTaskStatus(content, id, status)
+        : null
+    );
+
+    return updated ? this.getTaskById(id) : null;
+  }
+
+  /**
+   * Append a new task to a context, generating an ID when none is given
+   * @param contextName - Defaults to the first context of the file
+   * @returns The created task, or null if the ID is already taken
+   */
+  async createTask(
+    fields: Partial<Task>,
+    contextName?: string
+  ): Promise<Task | null> {
+    let createdId = "";
+    const created = await this.edit((content) => {
+      const raw = this.parseRaw(content);
+      const targetContext =
+        contextName ||
+        this.contextEntries(raw)[0]?.[0] ||
+        DEFAULT_TASK_CONTEXT;
+      const id = fields.id
+        ? parseTaskId(String(fields.id), targetContext).id
+        : this.nextTaskId(raw);
+      if (this.findRawTask(raw, qualifyTaskId(targetContext, id))) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const { context: _context, ...entry } = fields;
+      const task = {
+        ...entry,
+        id: this.fileTaskId(raw, id),
+        status: fields.status || TaskStatus.NOT_STARTED,
+        dependencies: fields.dependencies || [],
+        createdDate: fields.createdDate || now,
+        lastModified: now,
+      };
+      createdId = qualifyTaskId(targetContext, id);
+
+      return this.taskFileWriter.addTask(content, task, targetContext);
+    });
+
+    return created ? this.getTaskById(createdId) : null;
+  }
+
+  /**
+   * Remove a task, given as "<context>:<id>" outside the default context
+   * @returns true if a task was removed
+   */
+  async deleteTask(id: string): Promise<boolean> {
+    return this.edit((content) =>
+      content.trim().length > 0
+        ? this.taskFileWriter.deleteTask(content, id)
+        : null
+    );
+  }
+
+  private async getRaw(): Promise<Record<string, any>> {
+    if (!this.cachedRaw) {
+      this.cachedRaw = await this.readRaw();
+    }
+    return this.cachedRaw;
+  }
+
+  /**
+   * Read the raw nested-contexts JSON, treating a missing file as empty
+   */
+  private async readRaw(): Promise<Record<string, any>> {
+    return this.parseRaw(await this.readContent());
+  }
+
+  private async readContent(): Promise<string> {
+    try {
+      return await fs.promises.readFile(this.tasksFilePath, "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return "";
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The parsed file: contexts and file-level keys such as schemaVersion;
+   * tasks.md has only the default context
+   */
+  private parseRaw(content: string): Record<string, any> {
+    if (content.trim().length === 0) {
+      return {};
+    }
+    if (isMarkdownTaskFile(this.tasksFilePath)) {
+      return {
+        [DEFAULT_TASK_CONTEXT]: {
+          tasks: this.markdownTaskParser.parseTasksFromMarkdownContent(content),
+        },
+      };
+    }
+
+    const json = isYAMLTaskFile(this.tasksFilePath)
+      ? readYAMLTasks(content)
+      : JSON.parse(content);
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error(
+        `Tasks file must contain an object of contexts: ${this.tasksFilePath}`
+      );
+    }
+    return json;
+  }
+
+  /**
+   * Replace the file text with the change's result, if it returns one
+   * Writes are serialized so concurrent requests never interleave
+   */
+  private edit(change: (content: string) => string | null): Promise<boolean> {
+    const run = async (): Promise<boolean> => {
+      const updated = change(await this.readContent());
+      if (updated === null) {
+        return false;
+      }
+
+      await fs.promises.mkdir(path.dirname(this.tasksFilePath), {
+        recursive: true,
+      });
+      await fs.promises.writeFile(this.tasksFilePath, updated, "utf-8");
+      this.cachedTasks = null;
+      this.cachedRaw = null;
+      return true;
+    };
+
+    const result = this.writeQueue.then(run, run);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Names and task arrays of the contexts, skipping file-level keys
+   */
+  private contextEntries(raw: Record<string, any>): [string, any[]][] {
+    return Object.entries(raw)
+      .filter(([, contextData]) => isTaskContext(contextData))
+      .map(([contextName, contextData]) => [contextName, contextData.tasks]);
+  }
+
+  private findRawTask(raw: Record<string, any>, taskId: string): any | null {
+    const { context, id } = parseTaskId(taskId);
+    const contextData = raw[context];
+    if (!isTaskContext(contextData)) {
+      return null;
+    }
+    return (
+      contextData.tasks.find((task: any) => task && String(task.id) === id) ||
+      null
+    );
+  }
+
+  /**
+   * The ID as the file writes its IDs: a number when it has numeric IDs
+   */
+  private fileTaskId(raw: Record<string, any>, id: string): string | number {
+    const numericIds = this.contextEntries(raw).some(([, tasks]) =>
+      tasks.some((task) => typeof task?.id === "number")
+    );
+    return numericIds && /^\d+$/.test(id) ? Number(id) : id;
+  }
+
+  /**
+   * Next numeric ID across all contexts (tasks.json uses "1", "2", ...)
+   */
+  private nextTaskId(raw: Record<string, any>): string {
+    let maxId = 0;
+    for (const [, tasks] of this.contextEntries(raw)) {
+      for (const task of tasks) {
+        const numericId = parseInt(String(task?.id), 10);
+        if (!isNaN(numericId) && numericId > maxId) {
+          maxId = numericId;
+        }
+      }
+    }
+    return String(maxId + 1);
+  }
+}
@@ -2,10 +2,55 @@
  * Server Module Exports
  */
 
-export { SimpleMCPServer, Tool } from "./SimpleMCPServer";
+export {
+  SimpleMCPServer,
+  MCPServerOptions,
+  MCPServerStats,
+} from "./SimpleMCPServer";
+export { RequestMetrics, MethodLatencyStats } from "./RequestMetrics";
 export { ContextManager } from "./ContextManager";
+export {
+  ToolRegistry,
+  Tool,
+  ToolHandler,
+  ToolCallContext,
+  ToolContentResult,
+  ToolRegistration,
+  ToolArgumentsError,
+} from "./ToolRegistry";
+export { MCPFederation } from "./MCPFederation";
+export {
+  UpstreamMCPServer,
+  UpstreamServerConfig,
+  UpstreamToolResult,
+} from "./UpstreamMCPServer";
+export {
+  SprintContextStore,
+  SprintFileError,
+  SPRINT_FILE,
+  getSprintFilePath,
+  parseSprintFile,
+  createSprintFileTemplate,
+} from "./SprintContextStore";
+export {
+  validateAgainstSchema,
+  SchemaValidationError,
+} from "./JSONSchemaValidator";
+export {
+  RequestGuard,
+  MCPServerSecurityOptions,
+  LOOPBACK_HOST,
+} from "./RequestGuard";
 export {
   ProcessManager,
   ProcessManagerConfig,
   ProcessStats,
+  ServerHealth,
+  ServerState,
+  StatusChangeListener,
 } from "./ProcessManager";
+export {
+  MCPDiscoveryInfo,
+  DISCOVERY_FILE,
+  readDiscoveryFile,
+} from "./DiscoveryFile";
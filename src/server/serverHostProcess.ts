@@ -0,0 +1,29 @@
+/**
+ * Entry point of the MCP server child process
+ * Forked by ProcessManager, which talks to it over the IPC channel
+ */
+
+import { ServerHost, ServerHostRequest } from "./ServerHost";
+
+if (!process.send) {
+  console.error("[ServerHost] Must be started with an IPC channel");
+  process.exit(1);
+}
+
+const host = new ServerHost((event) => process.send?.(event));
+
+process.on("message", (message: ServerHostRequest) => {
+  host
+    .handleMessage(message)
+    .then(() => {
+      if (message.type === "stop") {
+        process.exit(0);
+      }
+    })
+    .catch((error) => {
+      console.error(`[ServerHost] ${message.type} failed:`, error);
+    });
+});
+
+// Never outlive the extension host
+process.on("disconnect", () => process.exit(0));
@@ -0,0 +1,68 @@
+/**
+ * Standalone MCP server entry point
+ * Serves the JSON-RPC handlers over stdio without VS Code, so agents such as
+ * Cursor, RooCode or Claude Desktop can launch it directly:
+ *
+ *   node out/mcp-server.js --workspace <dir> [--tasks <path>]
+ *
+ * The workspace defaults to AIDM_WORKSPACE, then the current directory.
+ * The tasks file defaults to tasks.json, resolved against the workspace.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { SimpleMCPServer } from "./SimpleMCPServer";
+import { StdioTransport } from "./StdioTransport";
+import { ContextManager } from "./ContextManager";
+import { MockCache } from "./MockCache";
+import { MockDataProvider } from "../mock/MockDataProvider";
+import { JSONTaskContentParser } from "../services/JSONTaskContentParser";
+import { getSprintFilePath } from "./SprintContextStore";
+
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+// stdout carries protocol messages only, so route all logging to stderr
+console.log = console.error;
+console.info = console.error;
+console.warn = console.error;
+console.debug = console.error;
+
+const args = process.argv.slice(2);
+const workspaceRoot = path.resolve(
+  readOption(args, "--workspace") || process.env.AIDM_WORKSPACE || process.cwd()
+);
+const tasksFilePath = path.resolve(
+  workspaceRoot,
+  readOption(args, "--tasks") || "tasks.json"
+);
+
+const mockCache = new MockCache(workspaceRoot);
+mockCache.load();
+const contextManager = new ContextManager(new MockDataProvider(), mockCache);
+const server = new SimpleMCPServer(
+  0,
+  contextManager,
+  new JSONTaskContentParser(),
+  tasksFilePath
+);
+server.serveSprintContext(getSprintFilePath(workspaceRoot));
+
+console.error(
+  `[MCP stdio] Serving ${workspaceRoot} (tasks: ${tasksFilePath})`
+);
+
+// Without VS Code there is no TasksDataService, so watch the file directly
+const onTasksFileChange = () => {
+  server.notifyTasksUpdated().catch((error) => {
+    console.error("[MCP stdio] Resource notification failed:", error);
+  });
+};
+fs.watchFile(tasksFilePath, { interval: 1000 }, onTasksFileChange);
+
+new StdioTransport(server).start(async () => {
+  fs.unwatchFile(tasksFilePath, onTasksFileChange);
+  await contextManager.shutdown();
+});
@@ -0,0 +1,516 @@
+/**
+ * JSONTaskFileWriter - Writes field changes into nested contexts task files
+ * Edits only the affected values in the file text, so key order, unknown
+ * fields, indentation, line endings and other contexts stay as they were
+ * Free of VS Code APIs so the MCP server can share it
+ */
+
+import { TaskStatus } from "../types/tasks";
+import {
+  DEFAULT_TASK_CONTEXT,
+  isTaskContext,
+  parseTaskId,
+} from "./TaskContextIds";
+import { spellTaskStatus } from "./TaskStatusSpellings";
+
+export type TaskFields = Record<string, unknown>;
+
+interface JSONNode {
+  kind: "object" | "array" | "literal";
+  start: number;
+  end: number; // Exclusive
+  properties: JSONProperty[]; // Objects only
+  items: JSONNode[]; // Arrays only
+  value?: unknown; // Literals only
+}
+
+interface JSONProperty {
+  key: string;
+  keyStart: number;
+  value: JSONNode;
+}
+
+interface TaskLocation {
+  tasks: JSONNode; // The context's tasks array
+  index: number;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const STRING_TOKEN = /"(?:[^"\\]|\\.)*"/y;
+const LITERAL_TOKEN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null/y;
+const WHITESPACE = /[ \t\r\n]*/y;
+
+/**
+ * Parse JSON text into nodes that remember where each value sits
+ * Callers validate the text with JSON.parse first
+ */
+function parseNodes(text: string): JSONNode {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    WHITESPACE.lastIndex = pos;
+    WHITESPACE.exec(text);
+    pos = WHITESPACE.lastIndex;
+  };
+
+  const readToken = (pattern: RegExp): string => {
+    pattern.lastIndex = pos;
+    const match = pattern.exec(text);
+    if (!match) {
+      throw new SyntaxError(`Unexpected token at position ${pos}`);
+    }
+    pos = pattern.lastIndex;
+    return match[0];
+  };
+
+  const parseValue = (): JSONNode => {
+    skipWhitespace();
+    const start = pos;
+    const node: JSONNode = {
+      kind: "literal",
+      start,
+      end: start,
+      properties: [],
+      items: [],
+    };
+
+    if (text[pos] === "{") {
+      node.kind = "object";
+      pos++;
+      skipWhitespace();
+      while (text[pos] !== "}") {
+        skipWhitespace();
+        const keyStart = pos;
+        const key = JSON.parse(readToken(STRING_TOKEN));
+        skipWhitespace();
+        pos++; // ":"
+        node.properties.push({ key, keyStart, value: parseValue() });
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+        }
+      }
+      pos++;
+    } else if (text[pos] === "[") {
+      node.kind = "array";
+      pos++;
+      skipWhitespace();
+      while (text[pos] !== "]") {
+        node.items.push(parseValue());
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          skipWhitespace();
+        }
+      }
+      pos++;
+    } else if (text[pos] === '"') {
+      node.value = JSON.parse(readToken(STRING_TOKEN));
+    } else {
+      node.value = JSON.parse(readToken(LITERAL_TOKEN));
+    }
+
+    node.end = pos;
+    return node;
+  };
+
+  return parseValue();
+}
+
+function getProperty(node: JSONNode, key: string): JSONNode | undefined {
+  return node.properties.find((property) => property.key === key)?.value;
+}
+
+function hasId(node: JSONNode, id: string): boolean {
+  const idNode = node.kind === "object" ? getProperty(node, "id") : undefined;
+  return (
+    idNode?.kind === "literal" &&
+    idNode.value !== null &&
+    String(idNode.value) === id
+  );
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  // Apply back to front so earlier offsets stay valid
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+      content
+    );
+}
+
+export class JSONTaskFileWriter {
+  /**
+   * Set fields of a task, adding fields the entry does not have yet
+   *
+   * @param content - Text of the nested contexts task file
+   * @param taskId - ID of the task, "<context>:<id>" outside the default context
+   * @param fields - New field values; undefined values are skipped
+   * @param now - When given, refreshes lastModified if the task tracks it
+   * @returns The updated text, or null if no task has the ID
+   */
+  updateTask(
+    content: string,
+    taskId: string,
+    fields: TaskFields,
+    now?: Date
+  ): string | null {
+    const task = this.findTask(parseNodes(this.validate(content)), taskId);
+    if (!task) {
+      return null;
+    }
+    return this.setFields(
+      content,
+      task,
+      now ? this.withLastModified(task, fields, now) : fields
+    );
+  }
+
+  /**
+   * Append a task to the tasks array of a context, creating the context
+   * when the file does not have it yet; an empty file starts as {}
+   */
+  addTask(
+    content: string,
+    task: TaskFields,
+    contextName: string = DEFAULT_TASK_CONTEXT
+  ): string {
+    const text = content.trim().length > 0 ? content : "{\n}\n";
+    const root = parseNodes(this.validate(text));
+    const context = getProperty(root, contextName);
+    if (!context || context.kind !== "object") {
+      return this.setFields(text, root, {
+        [contextName]: { tasks: [task] },
+      });
+    }
+
+    const tasks = getProperty(context, "tasks");
+    if (!tasks || tasks.kind !== "array") {
+      return this.setFields(text, context, { tasks: [task] });
+    }
+    return this.appendItem(text, tasks, task);
+  }
+
+  /**
+   * Add an empty context
+   * @returns The updated text, or null if the context already exists
+   */
+  addContext(content: string, contextName: string): string | null {
+    const root = parseNodes(this.validate(content));
+    if (getProperty(root, contextName)) {
+      return null;
+    }
+    return this.setFields(content, root, { [contextName]: { tasks: [] } });
+  }
+
+  /**
+   * Set the schemaVersion of the file; a new one goes before the contexts
+   */
+  setSchemaVersion(content: string, version: number): string {
+    const root = parseNodes(this.validate(content));
+    const existing = getProperty(root, "schemaVersion");
+    if (existing || root.properties.length === 0) {
+      return this.setFields(content, root, { schemaVersion: version });
+    }
+
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const first = root.properties[0].keyStart;
+    const singleLine = !content.slice(root.start, root.end).includes("\n");
+    const separator = singleLine ? " " : eol + this.lineIndent(content, first);
+    return applyEdits(content, [
+      {
+        start: first,
+        end: first,
+        text: `"schemaVersion": ${version},${separator}`,
+      },
+    ]);
+  }
+
+  /**
+   * Names of the contexts in the file, in file order
+   */
+  listContexts(content: string): string[] {
+    return parseNodes(this.validate(content))
+      .properties.filter(({ value }) =>
+        isTaskContext(JSON.parse(content.slice(value.start, value.end)))
+      )
+      .map((context) => context.key);
+  }
+
+  /**
+   * The task entry as written, including fields the Task type does not know
+   * @returns The parsed entry, or null if no task has the ID
+   */
+  readTask(content: string, taskId: string): TaskFields | null {
+    const task = this.findTask(parseNodes(this.validate(content)), taskId);
+    return task ? JSON.parse(content.slice(task.start, task.end)) : null;
+  }
+
+  /**
+   * Remove a task and the separator before or after it
+   * @returns The updated text, or null if no task has the ID
+   */
+  deleteTask(content: string, taskId: string): string | null {
+    const location = this.locateTask(
+      parseNodes(this.validate(content)),
+      taskId
+    );
+    if (!location) {
+      return null;
+    }
+
+    const { items } = location.tasks;
+    const { index } = location;
+    let edit: TextEdit;
+    if (index < items.length - 1) {
+      edit = {
+        start: items[index].start,
+        end: items[index + 1].start,
+        text: "",
+      };
+    } else if (index > 0) {
+      edit = { start: items[index - 1].end, end: items[index].end, text: "" };
+    } else {
+      edit = {
+        start: location.tasks.start + 1,
+        end: location.tasks.end - 1,
+        text: "",
+      };
+    }
+    return applyEdits(content, [edit]);
+  }
+
+  /**
+   * Set fields of a subtask in the subtasks array of its parent task
+   * @returns The updated text, or null if the subtask does not exist
+   */
+  updateSubtask(
+    content: string,
+    taskId: string,
+    subtaskId: string,
+    fields: TaskFields
+  ): string | null {
+    const root = parseNodes(this.validate(content));
+    const subtask = this.findSubtask(root, taskId, subtaskId);
+    return subtask ? this.setFields(content, subtask, fields) : null;
+  }
+
+  /**
+   * Change the status of a task, or of a subtask given as "<taskId>.<subtaskId>"
+   * The status is spelled as the file spells statuses, so files that still
+   * use the legacy vocabulary do not mix it with the schema's
+   * Entries that track lastModified get it refreshed
+   * @returns The updated text, or null if nothing has the ID
+   */
+  updateTaskStatus(
+    content: string,
+    id: string,
+    status: TaskStatus,
+    now: Date = new Date()
+  ): string | null {
+    const root = parseNodes(this.validate(content));
+    // Subtask IDs are only unique within their parent
+    const separator = id.lastIndexOf(".");
+    const entry =
+      this.findTask(root, id) ??
+      (separator > 0
+        ? this.findSubtask(
+            root,
+            id.slice(0, separator),
+            id.slice(separator + 1)
+          )
+        : undefined);
+    if (!entry) {
+      return null;
+    }
+
+    return this.setFields(
+      content,
+      entry,
+      this.withLastModified(
+        entry,
+        { status: spellTaskStatus(status, this.listStatuses(content)) },
+        now
+      )
+    );
+  }
+
+  /**
+   * Statuses of the tasks and subtasks, as the file spells them
+   */
+  private listStatuses(content: string): unknown[] {
+    return Object.values(JSON.parse(content))
+      .filter(isTaskContext)
+      .flatMap((context) => context.tasks)
+      .flatMap((task: any) => [
+        task,
+        ...(Array.isArray(task?.subtasks) ? task.subtasks : []),
+      ])
+      .map((entry: any) => entry?.status);
+  }
+
+  private withLastModified(
+    entry: JSONNode,
+    fields: TaskFields,
+    now: Date
+  ): TaskFields {
+    return getProperty(entry, "lastModified")
+      ? { ...fields, lastModified: now.toISOString() }
+      : fields;
+  }
+
+  /**
+   * @throws Error when the content is not a nested contexts object
+   */
+  private validate(content: string): string {
+    const json = JSON.parse(content);
+    if (!json || typeof json !== "object" || Array.isArray(json)) {
+      throw new Error("Tasks file must contain an object of contexts");
+    }
+    return content;
+  }
+
+  private findTask(root: JSONNode, taskId: string): JSONNode | undefined {
+    const location = this.locateTask(root, taskId);
+    return location && location.tasks.items[location.index];
+  }
+
+  private locateTask(root: JSONNode, taskId: string): TaskLocation | undefined {
+    const { context: contextName, id } = parseTaskId(taskId);
+    const context = getProperty(root, contextName);
+    const tasks =
+      context?.kind === "object" ? getProperty(context, "tasks") : undefined;
+    const index = tasks?.items.findIndex((item) => hasId(item, id)) ?? -1;
+    return tasks && index >= 0 ? { tasks, index } : undefined;
+  }
+
+  private findSubtask(
+    root: JSONNode,
+    taskId: string,
+    subtaskId: string
+  ): JSONNode | undefined {
+    const task = this.findTask(root, taskId);
+    const subtasks = task && getProperty(task, "subtasks");
+    // Subtask IDs are written either bare ("2") or qualified ("1.2")
+    const qualifiedId = `${parseTaskId(taskId).id}.${subtaskId}`;
+    return subtasks?.items.find(
+      (item) => hasId(item, subtaskId) || hasId(item, qualifiedId)
+    );
+  }
+
+  private appendItem(content: string, array: JSONNode, value: unknown): string {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const singleLine = !content.slice(array.start, array.end).includes("\n");
+    const last = array.items[array.items.length - 1];
+    const arrayIndent = this.lineIndent(content, array.start);
+    const itemIndent = last
+      ? this.lineIndent(content, array.items[0].start)
+      : arrayIndent + this.detectIndentUnit(content);
+    const indentUnit =
+      itemIndent.slice(arrayIndent.length) || this.detectIndentUnit(content);
+    const text = singleLine
+      ? JSON.stringify(value)
+      : JSON.stringify(value, null, indentUnit).replace(
+          /\n/g,
+          eol + itemIndent
+        );
+
+    if (last) {
+      const separator = singleLine ? ", " : `,${eol}${itemIndent}`;
+      return applyEdits(content, [
+        { start: last.end, end: last.end, text: separator + text },
+      ]);
+    }
+    return applyEdits(content, [
+      {
+        start: array.start + 1,
+        end: array.end - 1,
+        text: singleLine ? text : eol + itemIndent + text + eol + arrayIndent,
+      },
+    ]);
+  }
+
+  private setFields(
+    content: string,
+    entry: JSONNode,
+    fields: TaskFields
+  ): string {
+    const eol = content.includes("\r\n") ? "\r\n" : "\n";
+    const singleLine = !content.slice(entry.start, entry.end).includes("\n");
+    const entryIndent = this.lineIndent(content, entry.start);
+    const propertyIndent =
+      entry.properties.length > 0
+        ? this.lineIndent(content, entry.properties[0].keyStart)
+        : entryIndent + this.detectIndentUnit(content);
+    const indentUnit =
+      propertyIndent.slice(entryIndent.length) ||
+      this.detectIndentUnit(content);
+
+    const serialize = (value: unknown) =>
+      singleLine
+        ? JSON.stringify(value)
+        : JSON.stringify(value, null, indentUnit).replace(
+            /\n/g,
+            eol + propertyIndent
+          );
+
+    const edits: TextEdit[] = [];
+    const added: string[] = [];
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        continue;
+      }
+      const existing = getProperty(entry, key);
+      if (existing) {
+        edits.push({
+          start: existing.start,
+          end: existing.end,
+          text: serialize(value),
+        });
+      } else {
+        added.push(`${JSON.stringify(key)}: ${serialize(value)}`);
+      }
+    }
+
+    if (added.length > 0) {
+      const separator = singleLine ? ", " : `,${eol}${propertyIndent}`;
+      if (entry.properties.length > 0) {
+        const last = entry.properties[entry.properties.length - 1].value;
+        edits.push({
+          start: last.end,
+          end: last.end,
+          text: separator + added.join(separator),
+        });
+      } else {
+        edits.push({
+          start: entry.start + 1,
+          end: entry.end - 1,
+          text: singleLine
+            ? ` ${added.join(separator)} `
+            : eol + propertyIndent + added.join(separator) + eol + entryIndent,
+        });
+      }
+    }
+
+    return applyEdits(content, edits);
+  }
+
+  /**
+   * Whitespace at the start of the line holding offset
+   */
+  private lineIndent(content: string, offset: number): string {
+    const lineStart = content.lastIndexOf("\n", offset - 1) + 1;
+    return /^[ \t]*/.exec(content.slice(lineStart, offset))![0];
+  }
+
+  private detectIndentUnit(content: string): string {
+    return /\n([ \t]+)\S/.exec(content)?.[1] ?? "  ";
+  }
+}
@@ -0,0 +1,577 @@
+/**
+ * MarkdownTaskDocument - Task structure of a tasks.md file
+ * Tasks are checkbox lines ("- [ ] 1 Title"); the lines indented under a task
+ * hold its description, "key:: value" metadata, a ```yaml metadata block and
+ * nested subtasks. Line positions are kept so writers can edit single values
+ * and leave the rest of the file as it was
+ */
+
+import { TaskComplexity, TaskPriority, TaskStatus } from "../types/tasks";
+
+/** Task fields that can be written as metadata */
+export type MarkdownFieldName =
+  | "status"
+  | "priority"
+  | "complexity"
+  | "assignee"
+  | "dependencies"
+  | "requirements"
+  | "tags"
+  | "estimatedHours"
+  | "actualHours"
+  | "estimatedDuration"
+  | "dueDate"
+  | "notes"
+  | "description";
+
+/**
+ * inline: "key:: value"; bullet: "- Key: value" with a known key;
+ * yaml: "key: value" inside a ```yaml block
+ */
+export type MarkdownFieldStyle = "inline" | "bullet" | "yaml";
+
+export interface MarkdownField {
+  name?: MarkdownFieldName; // Undefined for keys the Task model has no field for
+  value: string;
+  line: number;
+  valueStart: number; // Column where the value starts
+  prefix: string; // Text before the key, e.g. "  - "
+  style: MarkdownFieldStyle;
+}
+
+export interface MarkdownTaskBlock {
+  id: string;
+  title: string;
+  checkbox: string; // Character between the brackets
+  icon?: string; // Status icon after the title
+  line: number; // Line of the checkbox
+  end: number; // Line after the last line of the task, subtasks included
+  indent: string;
+  childIndent: string; // Indentation of the lines under the task
+  checkboxColumn: number;
+  titleStart: number;
+  titleEnd: number;
+  fields: MarkdownField[];
+  description: string;
+  descriptionLines: number[];
+  yamlBlock?: { start: number; end: number }; // Lines of the opening and closing fence
+  subtasks: MarkdownTaskBlock[];
+}
+
+export interface MarkdownTaskDocument {
+  lines: string[];
+  eol: string;
+  tasks: MarkdownTaskBlock[];
+}
+
+export const STATUS_ICONS: Record<TaskStatus, string> = {
+  [TaskStatus.COMPLETED]: "✅",
+  [TaskStatus.IN_PROGRESS]: "🔄",
+  [TaskStatus.REVIEW]: "⏳",
+  [TaskStatus.BLOCKED]: "❌",
+  [TaskStatus.NOT_STARTED]: "",
+  [TaskStatus.DEPRECATED]: "🚫",
+};
+
+// Keys written for new metadata lines, per style
+const INLINE_KEYS: Record<MarkdownFieldName, string> = {
+  status: "status",
+  priority: "priority",
+  complexity: "complexity",
+  assignee: "assignee",
+  dependencies: "deps",
+  requirements: "requirements",
+  tags: "tags",
+  estimatedHours: "estimate",
+  actualHours: "actual",
+  estimatedDuration: "duration",
+  dueDate: "due",
+  notes: "notes",
+  description: "description",
+};
+
+const BULLET_KEYS: Record<MarkdownFieldName, string> = {
+  status: "Status",
+  priority: "Priority",
+  complexity: "Complexity",
+  assignee: "Assignee",
+  dependencies: "Dependencies",
+  requirements: "Requirements",
+  tags: "Tags",
+  estimatedHours: "Estimated Hours",
+  actualHours: "Actual Hours",
+  estimatedDuration: "Estimated Duration",
+  dueDate: "Due Date",
+  notes: "Notes",
+  description: "Description",
+};
+
+// Keys as written, lower-cased without spaces, dashes and underscores
+const FIELD_ALIASES: Record<string, MarkdownFieldName> = {
+  status: "status",
+  priority: "priority",
+  complexity: "complexity",
+  assignee: "assignee",
+  owner: "assignee",
+  deps: "dependencies",
+  dependencies: "dependencies",
+  dependson: "dependencies",
+  requirements: "requirements",
+  tags: "tags",
+  estimate: "estimatedHours",
+  estimatedhours: "estimatedHours",
+  actual: "actualHours",
+  actualhours: "actualHours",
+  duration: "estimatedDuration",
+  estimatedduration: "estimatedDuration",
+  due: "dueDate",
+  duedate: "dueDate",
+  notes: "notes",
+  description: "description",
+};
+
+const LIST_FIELDS: MarkdownFieldName[] = [
+  "dependencies",
+  "requirements",
+  "tags",
+];
+const HOUR_FIELDS: MarkdownFieldName[] = ["estimatedHours", "actualHours"];
+
+const TASK_LINE = /^(\s*)([-*+])\s+\[([ xX])\]\s+(\S+)(.*)$/;
+const STATUS_ICON = /\s*(✅|❌|⏳|🔄|🚫)\s*$/u;
+const INLINE_FIELD = /^(\s*(?:[-*+]\s+)?)([A-Za-z][\w -]*?)\s*::(\s*)(.*)$/;
+const BULLET_FIELD = /^(\s*[-*+]\s+)([A-Za-z][\w ]*?):(\s+)(.*)$/;
+const YAML_FIELD = /^(\s*)([A-Za-z][\w-]*)\s*:(\s*)(.*)$/;
+const YAML_FENCE = /^```\s*ya?ml\s*$/i;
+const HOURS = /^(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|m|mins?|minutes?|d|days?)?$/i;
+
+export function isMarkdownTaskFile(filePath: string): boolean {
+  return /\.md$/i.test(filePath);
+}
+
+/**
+ * Read the tasks of a tasks.md file
+ * Lines outside task blocks (headings, prose) are kept in lines untouched
+ */
+export function readMarkdownTaskDocument(
+  content: string
+): MarkdownTaskDocument {
+  const lines = content.split(/\r?\n/);
+  return {
+    lines,
+    eol: content.includes("\r\n") ? "\r\n" : "\n",
+    tasks: readBlocks(lines, 0, lines.length, 0),
+  };
+}
+
+/**
+ * Find a task or subtask; subtasks also match as "<parentId>.<subtaskId>"
+ */
+export function findMarkdownTask(
+  blocks: MarkdownTaskBlock[],
+  taskId: string,
+  parentId?: string
+): MarkdownTaskBlock | null {
+  for (const block of blocks) {
+    const qualifiedId = parentId
+      ? `${parentId}.${localSubtaskId(parentId, block.id)}`
+      : block.id;
+    if (block.id === taskId || qualifiedId === taskId) {
+      return block;
+    }
+    const subtask = findMarkdownTask(block.subtasks, taskId, qualifiedId);
+    if (subtask) {
+      return subtask;
+    }
+  }
+  return null;
+}
+
+/**
+ * ID of a subtask within its parent: "1.2" under task "1" is "2"
+ */
+export function localSubtaskId(parentId: string, id: string): string {
+  return id.startsWith(`${parentId}.`) ? id.slice(parentId.length + 1) : id;
+}
+
+/**
+ * Status from an explicit status field, else the status icon, else the checkbox
+ */
+export function getMarkdownTaskStatus(block: MarkdownTaskBlock): TaskStatus {
+  const field = block.fields.find((f) => f.name === "status");
+  if (field) {
+    return readFieldValue("status", field.value) as TaskStatus;
+  }
+  const iconStatus = (Object.keys(STATUS_ICONS) as TaskStatus[]).find(
+    (status) => block.icon && STATUS_ICONS[status] === block.icon
+  );
+  if (iconStatus) {
+    return iconStatus;
+  }
+  return block.checkbox === " " ? TaskStatus.NOT_STARTED : TaskStatus.COMPLETED;
+}
+
+/**
+ * Convert a metadata value as written into the Task field value
+ * @returns undefined when the value cannot be used for the field
+ */
+export function readFieldValue(
+  name: MarkdownFieldName,
+  rawValue: string
+): unknown {
+  const value = unquote(rawValue.trim());
+  if (LIST_FIELDS.includes(name)) {
+    const items = value.replace(/^\[(.*)\]$/, "$1");
+    return items
+      .split(items.includes(",") ? "," : /\s+/)
+      .map((item) => unquote(item.trim()))
+      .map((item) => (name === "tags" ? item.replace(/^#/, "") : item))
+      .filter((item) => item.length > 0);
+  }
+  if (HOUR_FIELDS.includes(name)) {
+    return parseHours(value);
+  }
+
+  switch (name) {
+    case "status":
+      return mapStatus(value);
+    case "priority":
+      return (Object.values(TaskPriority) as string[]).includes(
+        value.toLowerCase()
+      )
+        ? value.toLowerCase()
+        : undefined;
+    case "complexity":
+      return (Object.values(TaskComplexity) as string[]).includes(
+        value.toLowerCase()
+      )
+        ? value.toLowerCase()
+        : undefined;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Write a Task field value in the notation of a metadata style
+ */
+export function formatFieldValue(
+  name: MarkdownFieldName,
+  value: unknown,
+  style: MarkdownFieldStyle
+): string {
+  if (Array.isArray(value)) {
+    const items = value.map(String);
+    return style === "yaml" ? `[${items.join(", ")}]` : items.join(", ");
+  }
+  if (HOUR_FIELDS.includes(name) && typeof value === "number") {
+    return style === "yaml" ? String(value) : `${value}h`;
+  }
+  const text = String(value).replace(/\r?\n/g, " ");
+  if (style === "yaml" && !/^[\w.@/][\w.@/ -]*$/.test(text)) {
+    return JSON.stringify(text);
+  }
+  return text;
+}
+
+/**
+ * Key for a new metadata line of a field in a style
+ */
+export function getFieldKey(
+  name: MarkdownFieldName,
+  style: MarkdownFieldStyle
+): string {
+  if (style === "yaml") {
+    return name;
+  }
+  return style === "bullet" ? BULLET_KEYS[name] : INLINE_KEYS[name];
+}
+
+/**
+ * Markdown for a task and its subtasks, metadata as "key:: value" lines
+ * @param task - Task fields; unset and empty values are left out
+ */
+export function serializeMarkdownTask(
+  task: Record<string, unknown>,
+  indent: string = "",
+  eol: string = "\n"
+): string {
+  const id = String(task.id);
+  const title = String(task.title ?? "Untitled Task");
+  const status = task.status as TaskStatus | undefined;
+  const childIndent = `${indent}  `;
+  const lines = [
+    `${indent}- [${status === TaskStatus.COMPLETED ? "x" : " "}] ${id} ${title}`,
+  ];
+
+  const description = task.description ? String(task.description) : "";
+  if (description && description !== title) {
+    for (const line of description.split(/\r?\n/)) {
+      lines.push(line.trim() ? `${childIndent}${line.trim()}` : "");
+    }
+  }
+
+  // The checkbox already tells these two apart
+  if (
+    status &&
+    status !== TaskStatus.COMPLETED &&
+    status !== TaskStatus.NOT_STARTED
+  ) {
+    lines.push(`${childIndent}${INLINE_KEYS.status}:: ${status}`);
+  }
+  for (const name of Object.keys(INLINE_KEYS) as MarkdownFieldName[]) {
+    const value = task[name];
+    if (
+      name === "status" ||
+      name === "description" ||
+      name === "requirements" ||
+      value === undefined ||
+      value === null ||
+      value === "" ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      continue;
+    }
+    lines.push(
+      `${childIndent}${INLINE_KEYS[name]}:: ${formatFieldValue(
+        name,
+        value,
+        "inline"
+      )}`
+    );
+  }
+
+  const subtasks = Array.isArray(task.subtasks) ? task.subtasks : [];
+  for (const subtask of subtasks) {
+    const subtaskTitle = subtask.title || subtask.description;
+    lines.push(
+      serializeMarkdownTask(
+        {
+          id: `${id}.${localSubtaskId(id, String(subtask.id))}`,
+          title: subtaskTitle,
+          description: subtask.title ? subtask.description : undefined,
+          status: mapStatus(String(subtask.status ?? "")),
+        },
+        childIndent,
+        eol
+      )
+    );
+  }
+  return lines.join(eol);
+}
+
+function readBlocks(
+  lines: string[],
+  start: number,
+  end: number,
+  minIndent: number
+): MarkdownTaskBlock[] {
+  const blocks: MarkdownTaskBlock[] = [];
+  let index = start;
+  while (index < end) {
+    const match = TASK_LINE.exec(lines[index]);
+    if (!match || indentWidth(match[1]) < minIndent) {
+      index++;
+      continue;
+    }
+
+    // The task owns the lines indented deeper than its checkbox
+    const taskIndent = indentWidth(match[1]);
+    let last = index;
+    for (let next = index + 1; next < end; next++) {
+      if (lines[next].trim() === "") {
+        continue;
+      }
+      if (indentWidth(lines[next]) <= taskIndent) {
+        break;
+      }
+      last = next;
+    }
+
+    blocks.push(readBlock(lines, index, last + 1, match));
+    index = last + 1;
+  }
+  return blocks;
+}
+
+function readBlock(
+  lines: string[],
+  start: number,
+  end: number,
+  match: RegExpExecArray
+): MarkdownTaskBlock {
+  const text = lines[start];
+  const [, indent, , checkbox, id, rest] = match;
+  const checkboxColumn = text.indexOf("[", indent.length) + 1;
+  const idEnd = text.indexOf(id, checkboxColumn + 2) + id.length;
+  const icon = STATUS_ICON.exec(rest);
+  const titleStart = idEnd + (rest.length - rest.trimStart().length);
+  const titleEnd = Math.max(
+    titleStart,
+    icon ? text.length - icon[0].length : text.trimEnd().length
+  );
+  const title = text.slice(titleStart, titleEnd).trim() || "Untitled Task";
+
+  const block: MarkdownTaskBlock = {
+    id,
+    title,
+    checkbox,
+    icon: icon?.[1],
+    line: start,
+    end,
+    indent,
+    childIndent: "",
+    checkboxColumn,
+    titleStart,
+    titleEnd,
+    fields: [],
+    description: "",
+    descriptionLines: [],
+    subtasks: readBlocks(lines, start + 1, end, indentWidth(indent) + 1),
+  };
+
+  const paragraphs: string[][] = [];
+  let paragraph: string[] = [];
+  let yamlStart: number | undefined;
+  for (let index = start + 1; index < end; index++) {
+    const subtask = block.subtasks.find(
+      (s) => index >= s.line && index < s.end
+    );
+    if (subtask) {
+      index = subtask.end - 1;
+      continue;
+    }
+
+    const line = lines[index];
+    const trimmed = line.trim();
+    if (!block.childIndent && trimmed) {
+      block.childIndent = line.slice(0, line.length - line.trimStart().length);
+    }
+
+    if (yamlStart !== undefined) {
+      if (trimmed === "```") {
+        block.yamlBlock = { start: yamlStart, end: index };
+        yamlStart = undefined;
+      } else {
+        addField(block, YAML_FIELD.exec(line), index, "yaml");
+      }
+      continue;
+    }
+    if (YAML_FENCE.test(trimmed)) {
+      yamlStart = index;
+      continue;
+    }
+    if (!trimmed) {
+      if (paragraph.length > 0) {
+        paragraphs.push(paragraph);
+        paragraph = [];
+      }
+      continue;
+    }
+
+    const inline = INLINE_FIELD.exec(line);
+    if (inline) {
+      addField(block, inline, index, "inline");
+      continue;
+    }
+    const bullet = BULLET_FIELD.exec(line);
+    if (bullet && getFieldName(bullet[2])) {
+      addField(block, bullet, index, "bullet");
+      continue;
+    }
+
+    paragraph.push(trimmed);
+    block.descriptionLines.push(index);
+  }
+  if (paragraph.length > 0) {
+    paragraphs.push(paragraph);
+  }
+
+  block.description = paragraphs.map((p) => p.join("\n")).join("\n\n");
+  block.childIndent =
+    block.childIndent || block.subtasks[0]?.indent || `${indent}  `;
+  return block;
+}
+
+function addField(
+  block: MarkdownTaskBlock,
+  match: RegExpExecArray | null,
+  line: number,
+  style: MarkdownFieldStyle
+): void {
+  if (!match) {
+    return;
+  }
+  const [text, prefix, key, , value] = match;
+  block.fields.push({
+    name: getFieldName(key),
+    value: value.trimEnd(),
+    line,
+    valueStart: text.length - value.length,
+    prefix,
+    style,
+  });
+}
+
+function getFieldName(key: string): MarkdownFieldName | undefined {
+  return FIELD_ALIASES[key.toLowerCase().replace(/[\s_-]/g, "")];
+}
+
+function mapStatus(value: string): TaskStatus {
+  const status = value
+    .toLowerCase()
+    .trim()
+    .replace(/[\s-]+/g, "_");
+  switch (status) {
+    case "done":
+    case "complete":
+      return TaskStatus.COMPLETED;
+    case "review":
+      return TaskStatus.REVIEW;
+    case "pending":
+    case "todo":
+      return TaskStatus.NOT_STARTED;
+    default:
+      return (Object.values(TaskStatus) as string[]).includes(status)
+        ? (status as TaskStatus)
+        : TaskStatus.NOT_STARTED;
+  }
+}
+
+function parseHours(value: string): number | undefined {
+  const match = HOURS.exec(value);
+  if (!match) {
+    return undefined;
+  }
+  const amount = parseFloat(match[1]);
+  const unit = (match[2] || "h").toLowerCase();
+  if (unit.startsWith("m")) {
+    return amount / 60;
+  }
+  return unit.startsWith("d") ? amount * 8 : amount;
+}
+
+function unquote(value: string): string {
+  if (/^".*"$/.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  return /^'.*'$/.test(value) ? value.slice(1, -1) : value;
+}
+
+function indentWidth(line: string): number {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") {
+      width++;
+    } else if (char === "\t") {
+      width += 4;
+    } else {
+      break;
+    }
+  }
+  return width;
+}
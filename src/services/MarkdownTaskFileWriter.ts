@@ -0,0 +1,370 @@
+/**
+ * MarkdownTaskFileWriter - Writes task changes into tasks.md files
+ * Edits only the lines of the affected values, so headings, prose, metadata
+ * notation, indentation and line endings stay as they were
+ */
+
+import { TaskStatus } from "../types/tasks";
+import type { TaskFields } from "./JSONTaskFileWriter";
+import { DEFAULT_TASK_CONTEXT } from "./TaskContextIds";
+import {
+  MarkdownField,
+  MarkdownFieldName,
+  MarkdownFieldStyle,
+  MarkdownTaskBlock,
+  MarkdownTaskDocument,
+  STATUS_ICONS,
+  findMarkdownTask,
+  formatFieldValue,
+  getFieldKey,
+  readMarkdownTaskDocument,
+  serializeMarkdownTask,
+} from "./MarkdownTaskDocument";
+
+interface LineEdit {
+  start: number;
+  end: number; // Exclusive; equal to start for insertions
+  lines: string[];
+}
+
+interface TaskLineChange {
+  checkbox?: string;
+  icon?: string;
+  title?: string;
+}
+
+const METADATA_FIELDS: MarkdownFieldName[] = [
+  "priority",
+  "complexity",
+  "assignee",
+  "dependencies",
+  "requirements",
+  "tags",
+  "estimatedHours",
+  "actualHours",
+  "estimatedDuration",
+  "dueDate",
+  "notes",
+];
+
+function applyLineEdits(
+  document: MarkdownTaskDocument,
+  edits: LineEdit[]
+): string {
+  const lines = [...document.lines];
+  // Back to front so earlier line numbers stay valid; at the same line,
+  // replacements go first so insertions end up in front of them
+  edits
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .forEach((edit) =>
+      lines.splice(edit.start, edit.end - edit.start, ...edit.lines)
+    );
+  return lines.join(document.eol);
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+export class MarkdownTaskFileWriter {
+  /**
+   * Set the status of a task or subtask ("<taskId>.<subtaskId>")
+   * The checkbox, a status icon and a status field are kept in step
+   * @returns The updated text, or null if no task has the ID
+   */
+  updateTaskStatus(
+    content: string,
+    taskId: string,
+    status: TaskStatus
+  ): string | null {
+    return this.updateTask(content, taskId, { status });
+  }
+
+  /**
+   * Set fields of a task; metadata the task does not have yet is added in
+   * the notation its other metadata uses
+   * @param fields - Task field values; undefined values and fields that
+   * tasks.md cannot hold are skipped, empty values remove the metadata
+   * @returns The updated text, or null if no task has the ID
+   */
+  updateTask(
+    content: string,
+    taskId: string,
+    fields: TaskFields
+  ): string | null {
+    const document = readMarkdownTaskDocument(content);
+    const block = findMarkdownTask(document.tasks, taskId);
+    if (!block) {
+      return null;
+    }
+
+    const edits: LineEdit[] = [];
+    const lineChange: TaskLineChange = {};
+    const added = new Map<MarkdownFieldName, unknown>();
+
+    for (const [name, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        continue;
+      }
+      if (name === "title") {
+        lineChange.title = String(value);
+      } else if (name === "status") {
+        const status = value as TaskStatus;
+        this.setStatus(document, block, status, lineChange, added, edits);
+      } else if (name === "description") {
+        this.setDescription(document, block, String(value ?? ""), edits);
+      } else if (METADATA_FIELDS.includes(name as MarkdownFieldName)) {
+        const field = this.getField(block, name as MarkdownFieldName);
+        if (field) {
+          edits.push(this.setFieldValue(document, field, value));
+        } else if (!isEmptyValue(value)) {
+          added.set(name as MarkdownFieldName, value);
+        }
+      }
+    }
+
+    if (Object.keys(lineChange).length > 0) {
+      edits.push({
+        start: block.line,
+        end: block.line + 1,
+        lines: [
+          this.renderTaskLine(document.lines[block.line], block, lineChange),
+        ],
+      });
+    }
+    if (added.size > 0) {
+      edits.push(this.addFields(document, block, added));
+    }
+    return applyLineEdits(document, edits);
+  }
+
+  /**
+   * Append a task after the last top-level task, or at the end of the file
+   * @param contextName - tasks.md has no contexts; only the default one is
+   * accepted
+   */
+  addTask(
+    content: string,
+    task: TaskFields,
+    contextName: string = DEFAULT_TASK_CONTEXT
+  ): string {
+    if (contextName !== DEFAULT_TASK_CONTEXT) {
+      throw new Error(
+        `Markdown task files have no contexts; cannot add a task to "${contextName}"`
+      );
+    }
+
+    const document = readMarkdownTaskDocument(content);
+    const last = document.tasks[document.tasks.length - 1];
+    const markdown = serializeMarkdownTask(
+      task,
+      last?.indent ?? "",
+      document.eol
+    );
+    if (last) {
+      return applyLineEdits(document, [
+        { start: last.end, end: last.end, lines: [markdown] },
+      ]);
+    }
+
+    const text = content.replace(/\s+$/, "");
+    return text
+      ? `${text}${document.eol}${document.eol}${markdown}${document.eol}`
+      : `${markdown}${document.eol}`;
+  }
+
+  /**
+   * Remove a task with its description, metadata and subtasks
+   * @returns The updated text, or null if no task has the ID
+   */
+  deleteTask(content: string, taskId: string): string | null {
+    const document = readMarkdownTaskDocument(content);
+    const block = findMarkdownTask(document.tasks, taskId);
+    if (!block) {
+      return null;
+    }
+    const isBlank = (index: number) =>
+      index >= 0 &&
+      index < document.lines.length &&
+      document.lines[index].trim() === "";
+    let start = block.line;
+    let end = block.end;
+    // A task set apart by blank lines takes one of the gaps along
+    if (isBlank(start - 1)) {
+      let next = end;
+      while (isBlank(next)) {
+        next++;
+      }
+      if (next < document.lines.length) {
+        end = next;
+      } else {
+        while (isBlank(start - 1)) {
+          start--;
+        }
+      }
+    }
+    return applyLineEdits(document, [{ start, end, lines: [] }]);
+  }
+
+  private setStatus(
+    document: MarkdownTaskDocument,
+    block: MarkdownTaskBlock,
+    status: TaskStatus,
+    lineChange: TaskLineChange,
+    added: Map<MarkdownFieldName, unknown>,
+    edits: LineEdit[]
+  ): void {
+    if (status === TaskStatus.COMPLETED) {
+      lineChange.checkbox = block.checkbox === " " ? "x" : block.checkbox;
+    } else {
+      lineChange.checkbox = " ";
+    }
+    if (block.icon) {
+      lineChange.icon = STATUS_ICONS[status];
+    }
+
+    const field = this.getField(block, "status");
+    if (field) {
+      edits.push(this.setFieldValue(document, field, status));
+    } else if (
+      !block.icon &&
+      status !== TaskStatus.COMPLETED &&
+      status !== TaskStatus.NOT_STARTED
+    ) {
+      // The checkbox alone cannot tell the other statuses apart
+      added.set("status", status);
+    }
+  }
+
+  /**
+   * Replace the description paragraphs, or a description field where the
+   * task has one
+   */
+  private setDescription(
+    document: MarkdownTaskDocument,
+    block: MarkdownTaskBlock,
+    description: string,
+    edits: LineEdit[]
+  ): void {
+    const field = this.getField(block, "description");
+    if (field) {
+      edits.push(this.setFieldValue(document, field, description));
+      return;
+    }
+    // Tasks without a description show their title
+    if (
+      description === block.description ||
+      (description === block.title && block.descriptionLines.length === 0)
+    ) {
+      return;
+    }
+
+    for (const line of block.descriptionLines) {
+      edits.push({ start: line, end: line + 1, lines: [] });
+    }
+    const lines = description
+      .split(/\r?\n/)
+      .map((line) => (line.trim() ? block.childIndent + line.trim() : ""));
+    const start = block.descriptionLines[0] ?? block.line + 1;
+    edits.push({
+      start,
+      end: start,
+      lines: description ? lines : [],
+    });
+  }
+
+  private setFieldValue(
+    document: MarkdownTaskDocument,
+    field: MarkdownField,
+    value: unknown
+  ): LineEdit {
+    if (isEmptyValue(value)) {
+      return { start: field.line, end: field.line + 1, lines: [] };
+    }
+    const text = document.lines[field.line];
+    return {
+      start: field.line,
+      end: field.line + 1,
+      lines: [
+        text.slice(0, field.valueStart) +
+          formatFieldValue(field.name!, value, field.style),
+      ],
+    };
+  }
+
+  /**
+   * Insert new metadata into the task's ```yaml block if it has one, else
+   * after its last metadata or description line
+   */
+  private addFields(
+    document: MarkdownTaskDocument,
+    block: MarkdownTaskBlock,
+    fields: Map<MarkdownFieldName, unknown>
+  ): LineEdit {
+    const lineFields = block.fields.filter((field) => field.style !== "yaml");
+    const yamlField = block.fields.find((field) => field.style === "yaml");
+    const template = block.yamlBlock
+      ? yamlField
+      : lineFields[lineFields.length - 1];
+    const style: MarkdownFieldStyle = block.yamlBlock
+      ? "yaml"
+      : (template?.style ?? "inline");
+    const prefix =
+      template?.prefix ??
+      (block.yamlBlock
+        ? document.lines[block.yamlBlock.start].match(/^\s*/)![0]
+        : block.childIndent);
+
+    const lines = [...fields].map(
+      ([name, value]) =>
+        prefix +
+        `${getFieldKey(name, style)}${style === "inline" ? ":: " : ": "}` +
+        formatFieldValue(name, value, style)
+    );
+
+    const position = block.yamlBlock
+      ? block.yamlBlock.end
+      : Math.max(
+          block.line,
+          ...lineFields.map((field) => field.line),
+          ...block.descriptionLines
+        ) + 1;
+    return { start: position, end: position, lines };
+  }
+
+  private getField(
+    block: MarkdownTaskBlock,
+    name: MarkdownFieldName
+  ): MarkdownField | undefined {
+    return block.fields.find((field) => field.name === name);
+  }
+
+  private renderTaskLine(
+    text: string,
+    block: MarkdownTaskBlock,
+    change: TaskLineChange
+  ): string {
+    const title =
+      change.title === undefined
+        ? text.slice(block.titleStart, block.titleEnd)
+        : (block.titleStart === block.titleEnd ? " " : "") + change.title;
+    const icon =
+      change.icon === undefined
+        ? text.slice(block.titleEnd)
+        : change.icon
+          ? ` ${change.icon}`
+          : "";
+    const checkbox = change.checkbox ?? block.checkbox;
+    return (
+      text.slice(0, block.checkboxColumn) +
+      checkbox +
+      text.slice(block.checkboxColumn + 1, block.titleStart) +
+      title +
+      icon
+    );
+  }
+}
@@ -7,6 +7,8 @@
  * Enhanced Task 2.6.3: Add realistic ISO timestamp mock data for relative time testing
  * DATA-001: Implement file reading in parseTasksFromFile method
  * Task 4: Add comprehensive file path validation with user feedback
+ * Nested subtasks, description paragraphs and key:: value / ```yaml metadata,
+ * written back through MarkdownTaskFileWriter
  * Requirements: 3.1-3.6, 4.1-4.4, 7.1-7.6, 6.8, 6.9, 7.7, 4.8, 7.9, 9.3
  */
 
@@ -19,11 +21,43 @@ import {
   TaskPriority,
   TestStatusEnum,
   STATUS_DISPLAY_NAMES,
+  Subtask,
 } from "../types/tasks";
+import {
+  MarkdownFieldName,
+  MarkdownTaskBlock,
+  STATUS_ICONS,
+  getMarkdownTaskStatus,
+  localSubtaskId,
+  readFieldValue,
+  readMarkdownTaskDocument,
+  serializeMarkdownTask,
+} from "./MarkdownTaskDocument";
+import { MarkdownTaskFileWriter } from "./MarkdownTaskFileWriter";
 import { FailingTestScenarios } from "../mock/FailingTestScenarios";
 import { TimestampGenerator } from "../mock/TimestampGenerator";
 
+// Task fields tasks.md can hold; writeTasksToFile compares these
+const WRITABLE_FIELDS: (keyof Task)[] = [
+  "title",
+  "description",
+  "status",
+  "priority",
+  "complexity",
+  "assignee",
+  "dependencies",
+  "requirements",
+  "tags",
+  "estimatedHours",
+  "actualHours",
+  "estimatedDuration",
+  "dueDate",
+  "notes",
+];
+
 export class MarkdownTaskParser {
+  private readonly fileWriter = new MarkdownTaskFileWriter();
+
   constructor() {
     // Empty constructor - just make it compile
   }
@@ -102,7 +136,9 @@ export class MarkdownTaskParser {
 1. Add tasks in the format: \`- [ ] TaskID Task Title\`
 2. Mark completed tasks with: \`- [x] TaskID Task Title\`
 3. Add additional details on subsequent lines
-4. Save the file to see updates in the extension
+4. Add metadata as indented \`key:: value\` lines (priority, assignee, deps, estimate)
+5. Indent tasks under a task to make them its subtasks
+6. Save the file to see updates in the extension
 
 ## Task Format Examples
 
@@ -202,64 +238,41 @@ export class MarkdownTaskParser {
       return [];
     }
 
-    const lines = markdownContent.trim().split("\n");
+    const document = readMarkdownTaskDocument(markdownContent);
     console.log(
-      `[MarkdownTaskParser] Processing ${lines.length} lines of markdown content`
+      `[MarkdownTaskParser] Processing ${document.lines.length} lines of markdown content`
     );
     const tasks: Task[] = [];
 
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      // Skip empty lines
-      if (!trimmedLine) {continue;}
-
-      // Check for task lines (- [x] or - [ ] format)
-      if (trimmedLine.startsWith("- [")) {
-        console.log(
-          `[MarkdownTaskParser] Found task line: ${trimmedLine.substring(
-            0,
-            50
-          )}...`
-        );
-        const task = this.parseTaskFromMarkdown(trimmedLine);
-        if (task) {
-          // Enhance the task with default values
-          const enhancedTask: Task = {
-            ...task,
-            description: task.description || task.title,
-            complexity: task.complexity || TaskComplexity.LOW,
-            dependencies: task.dependencies || [],
-            requirements: task.requirements || [task.id],
-            createdDate: task.createdDate || new Date().toISOString(),
-            lastModified: task.lastModified || new Date().toISOString(),
-            priority: task.priority || TaskPriority.MEDIUM,
-            assignee: task.assignee || "dev-team",
-            estimatedHours: task.estimatedHours || 1,
-            actualHours: task.actualHours || 0,
-            estimatedDuration: task.estimatedDuration || "15-20 min",
-            isExecutable:
-              task.isExecutable !== undefined
-                ? task.isExecutable
-                : task.status === TaskStatus.NOT_STARTED,
-            tags: task.tags || ["task"],
-            statusDisplayName:
-              task.statusDisplayName || STATUS_DISPLAY_NAMES[task.status],
-            testStatus: task.testStatus,
-          };
-          tasks.push(enhancedTask);
-          console.log(
-            `[MarkdownTaskParser] Successfully parsed task: ${task.id} - ${task.title}`
-          );
-        } else {
-          console.log(
-            `[MarkdownTaskParser] Failed to parse task line: ${trimmedLine.substring(
-              0,
-              50
-            )}...`
-          );
-        }
-      }
+    for (const block of document.tasks) {
+      const task = this.toTask(block);
+      // Enhance the task with default values
+      const enhancedTask: Task = {
+        ...task,
+        description: task.description || task.title,
+        complexity: task.complexity || TaskComplexity.LOW,
+        dependencies: task.dependencies || [],
+        requirements: task.requirements || [task.id],
+        createdDate: task.createdDate || new Date().toISOString(),
+        lastModified: task.lastModified || new Date().toISOString(),
+        priority: task.priority || TaskPriority.MEDIUM,
+        assignee: task.assignee || "dev-team",
+        estimatedHours: task.estimatedHours || 1,
+        actualHours: task.actualHours || 0,
+        estimatedDuration: task.estimatedDuration || "15-20 min",
+        isExecutable:
+          task.isExecutable !== undefined
+            ? task.isExecutable
+            : task.status === TaskStatus.NOT_STARTED,
+        tags: task.tags || ["task"],
+        statusDisplayName:
+          task.statusDisplayName || STATUS_DISPLAY_NAMES[task.status],
+        testStatus: task.testStatus,
+      };
+      tasks.push(enhancedTask);
+      console.log(
+        `[MarkdownTaskParser] Successfully parsed task: ${task.id} - ${task.title}`
+      );
     }
 
     console.log(
@@ -281,73 +294,98 @@ export class MarkdownTaskParser {
         return null;
       }
 
-      const lines = markdownContent.trim().split("\n");
-      const firstLine = lines[0].trim();
-
-      // Step 1: Check if line starts with dash
-      if (!firstLine.startsWith("-")) {
-        return null;
-      }
-
-      // Step 2: Remove the dash and trim
-      let remaining = firstLine.substring(1).trim();
+      // The task line has to come first; the lines after it are its details
+      const [block] = readMarkdownTaskDocument(markdownContent.trim()).tasks;
+      return block && block.line === 0 ? this.toTask(block) : null;
+    } catch (error) {
+      return null;
+    }
+  }
 
-      // Step 3: Check for checkbox format [x] or [ ]
-      if (!remaining.startsWith("[") || remaining.length < 3) {
-        return null;
-      }
+  /**
+   * Markdown for a task, its subtasks and metadata as "key:: value" lines
+   *
+   * @param task - Task to write
+   * @returns string - Markdown block for the task
+   */
+  serializeTaskToMarkdown(task: Task): string {
+    return serializeMarkdownTask({ ...task });
+  }
 
-      // Step 4: Extract checkbox status
-      const checkboxEnd = remaining.indexOf("]");
-      if (checkboxEnd === -1 || checkboxEnd !== 2) {
-        return null; // Should be exactly [x] or [ ]
-      }
+  /**
+   * Write tasks to a markdown file, changing only what differs from the file
+   * Tasks missing from the file are appended and tasks missing from the list
+   * are removed; headings, prose and metadata notation are kept
+   *
+   * @param filePath - Path to the markdown file; created if missing
+   * @param tasks - Complete list of tasks for the file
+   * @returns Promise<boolean> - True if the file holds the tasks
+   */
+  async writeTasksToFile(filePath: string, tasks: Task[]): Promise<boolean> {
+    try {
+      const content = existsSync(filePath)
+        ? await fs.readFile(filePath, "utf-8")
+        : "# Tasks\n";
+      const existing = this.parseTasksFromMarkdownContent(content);
+      let updated = content;
+
+      for (const task of tasks) {
+        const current = existing.find((t) => t.id === task.id);
+        if (!current) {
+          updated = this.fileWriter.addTask(updated, { ...task });
+          continue;
+        }
 
-      const checkboxContent = remaining.substring(1, 2);
-      const isCompleted = checkboxContent === "x";
+        const changes = WRITABLE_FIELDS.filter(
+          (field) =>
+            task[field] !== undefined &&
+            JSON.stringify(task[field]) !== JSON.stringify(current[field])
+        );
+        if (changes.length > 0) {
+          const fields = Object.fromEntries(
+            changes.map((field) => [field, task[field]])
+          );
+          updated =
+            this.fileWriter.updateTask(updated, task.id, fields) ?? updated;
+        }
 
-      // Only allow 'x' or ' ' (space) as valid checkbox content
-      if (checkboxContent !== "x" && checkboxContent !== " ") {
-        return null;
+        for (const subtask of task.subtasks ?? []) {
+          const currentSubtask = current.subtasks?.find(
+            (s) => s.id === String(subtask.id)
+          );
+          if (
+            currentSubtask &&
+            (currentSubtask.status !== subtask.status ||
+              (subtask.title !== undefined &&
+                currentSubtask.title !== subtask.title))
+          ) {
+            updated =
+              this.fileWriter.updateTask(
+                updated,
+                `${task.id}.${subtask.id}`,
+                { status: subtask.status as TaskStatus, title: subtask.title }
+              ) ?? updated;
+          }
+        }
       }
 
-      // Step 5: Extract task info after checkbox
-      remaining = remaining.substring(3).trim(); // Remove "] " and trim
-
-      if (!remaining) {
-        return null; // No task content after checkbox
+      for (const current of existing) {
+        if (!tasks.some((task) => task.id === current.id)) {
+          updated = this.fileWriter.deleteTask(updated, current.id) ?? updated;
+        }
       }
 
-      // Step 6: Extract ID and title - find first space to separate ID from title
-      const firstSpaceIndex = remaining.indexOf(" ");
-
-      let id: string;
-      let title: string;
-
-      if (firstSpaceIndex === -1) {
-        // No space found, treat entire string as ID
-        id = remaining;
-        title = "Untitled Task";
-      } else {
-        id = remaining.substring(0, firstSpaceIndex).trim();
-        title = remaining.substring(firstSpaceIndex + 1).trim();
+      if (updated !== content) {
+        await fs.writeFile(filePath, updated, "utf-8");
+        console.log(`[MarkdownTaskParser] Wrote tasks to ${filePath}`);
       }
-
-      // Step 7: Create basic task object
-      return {
-        id,
-        title,
-        description: title,
-        status: isCompleted ? TaskStatus.COMPLETED : TaskStatus.NOT_STARTED,
-        complexity: TaskComplexity.LOW,
-        dependencies: [],
-        requirements: [id],
-        createdDate: new Date().toISOString(),
-        lastModified: new Date().toISOString(),
-        priority: TaskPriority.MEDIUM,
-      };
+      return true;
     } catch (error) {
-      return null;
+      console.error(
+        `[MarkdownTaskParser] Failed to write tasks to ${filePath}:`,
+        error
+      );
+      return false;
     }
   }
 
@@ -411,14 +449,48 @@ export class MarkdownTaskParser {
   private getStatusIcon(status?: TaskStatus): string {
     if (!status) {return "";}
 
-    const iconMap = {
-      [TaskStatus.COMPLETED]: "✅",
-      [TaskStatus.IN_PROGRESS]: "🔄",
-      [TaskStatus.REVIEW]: "⏳",
-      [TaskStatus.BLOCKED]: "❌",
-      [TaskStatus.NOT_STARTED]: "",
-      [TaskStatus.DEPRECATED]: "🚫",
+    return STATUS_ICONS[status] || "";
+  }
+
+  /**
+   * Task for a task block of a markdown file
+   * Metadata the file does not set is left to the parse defaults
+   */
+  private toTask(block: MarkdownTaskBlock): Task {
+    const metadata: Partial<Record<MarkdownFieldName, any>> = {};
+    for (const field of block.fields) {
+      const value = field.name && readFieldValue(field.name, field.value);
+      if (field.name && value !== undefined) {
+        metadata[field.name] = value;
+      }
+    }
+
+    const subtasks: Subtask[] = block.subtasks.map((subtask) => ({
+      id: localSubtaskId(block.id, subtask.id),
+      title: subtask.title,
+      description: subtask.description || subtask.title,
+      status: getMarkdownTaskStatus(subtask),
+    }));
+
+    return {
+      id: block.id,
+      title: block.title,
+      description: metadata.description || block.description || block.title,
+      status: getMarkdownTaskStatus(block),
+      complexity: metadata.complexity || TaskComplexity.LOW,
+      dependencies: metadata.dependencies || [],
+      requirements: metadata.requirements || [block.id],
+      createdDate: new Date().toISOString(),
+      lastModified: new Date().toISOString(),
+      priority: metadata.priority || TaskPriority.MEDIUM,
+      assignee: metadata.assignee,
+      estimatedHours: metadata.estimatedHours,
+      actualHours: metadata.actualHours,
+      estimatedDuration: metadata.estimatedDuration,
+      dueDate: metadata.dueDate,
+      notes: metadata.notes,
+      tags: metadata.tags,
+      subtasks: subtasks.length > 0 ? subtasks : undefined,
     };
-    return iconMap[status] || "";
   }
 }
@@ -23,26 +23,29 @@ export interface RepositoryContext {
 
 export class RepositoryContextService {
   /**
-   * Get repository context for current workspace
+   * Get repository context for a workspace folder
    * Falls back gracefully if git is not available
+   * @param workspaceFolder - Folder to look at; defaults to the first one
    */
-  async getRepositoryContext(): Promise<RepositoryContext | null> {
+  async getRepositoryContext(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<RepositoryContext | null> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
 
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    if (!workspaceFolder && (!workspaceFolders || workspaceFolders.length === 0)) {
       log('WARN', 'RepositoryContextService', 'No workspace folder available');
       return null;
     }
 
-    const workspaceFolder = workspaceFolders[0];
+    workspaceFolder = workspaceFolder ?? workspaceFolders![0];
 
     try {
       // Try to get git remote URL
       const gitExtension = vscode.extensions.getExtension('vscode.git')?.exports;
       const api = gitExtension?.getAPI(1);
 
-      if (api && api.repositories.length > 0) {
-        const repo = api.repositories[0];
+      const repo = api && this.findRepository(api, workspaceFolder);
+      if (repo) {
         const remote = repo.state.remotes.find((r: any) => r.name === 'origin');
 
         if (remote?.fetchUrl) {
@@ -76,6 +79,33 @@ export class RepositoryContextService {
     };
   }
 
+  /**
+   * Get repository contexts for every workspace folder, in folder order
+   */
+  async getRepositoryContexts(): Promise<RepositoryContext[]> {
+    const contexts: RepositoryContext[] = [];
+    for (const workspaceFolder of vscode.workspace.workspaceFolders ?? []) {
+      const context = await this.getRepositoryContext(workspaceFolder);
+      if (context) {
+        contexts.push(context);
+      }
+    }
+    return contexts;
+  }
+
+  /**
+   * Git repository holding the workspace folder
+   * Single-folder workspaces use the first repository git knows about
+   */
+  private findRepository(api: any, workspaceFolder: vscode.WorkspaceFolder): any {
+    const repo = api.getRepository?.(workspaceFolder.uri);
+    if (repo) {
+      return repo;
+    }
+    const isSingleFolder = (vscode.workspace.workspaceFolders?.length ?? 0) <= 1;
+    return isSingleFolder ? api.repositories[0] : undefined;
+  }
+
   /**
    * Extract repository name from git remote URL
    * Handles various formats: https, ssh, etc.
@@ -0,0 +1,76 @@
+/**
+ * TaskContextIds - IDs of tasks in nested contexts task files
+ * Task IDs are only unique within their context, so tasks outside the
+ * default context are identified as "<context>:<id>"
+ * Free of VS Code APIs so the standalone MCP server can share it
+ */
+
+export const DEFAULT_TASK_CONTEXT = "master";
+
+const CONTEXT_SEPARATOR = ":";
+const CONTEXT_NAME = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export interface ContextTaskId {
+  context: string;
+  id: string; // ID within the context, as written in the file
+}
+
+/**
+ * ID of a task across contexts; default context tasks keep their own ID
+ */
+export function qualifyTaskId(context: string, id: string): string {
+  return context === DEFAULT_TASK_CONTEXT
+    ? id
+    : `${context}${CONTEXT_SEPARATOR}${id}`;
+}
+
+/**
+ * Split a task ID into context and local ID
+ * @param defaultContext - Context of IDs without a context prefix
+ */
+export function parseTaskId(
+  taskId: string,
+  defaultContext: string = DEFAULT_TASK_CONTEXT
+): ContextTaskId {
+  const separator = taskId.indexOf(CONTEXT_SEPARATOR);
+  return separator > 0
+    ? {
+        context: taskId.slice(0, separator),
+        id: taskId.slice(separator + 1),
+      }
+    : { context: defaultContext, id: taskId };
+}
+
+/**
+ * How a task in context refers to taskId: bare within the same context,
+ * prefixed with its context otherwise
+ */
+export function localizeTaskId(taskId: string, context: string): string {
+  const parsed = parseTaskId(taskId);
+  return parsed.context === context
+    ? parsed.id
+    : `${parsed.context}${CONTEXT_SEPARATOR}${parsed.id}`;
+}
+
+/**
+ * Whether a top-level value of a tasks file is a context: an object holding
+ * a tasks array, unlike file-level keys such as schemaVersion
+ */
+export function isTaskContext(value: unknown): value is { tasks: unknown[] } {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Array.isArray((value as { tasks?: unknown }).tasks)
+  );
+}
+
+/**
+ * @returns Why the name cannot be used for a context, or null if it can
+ */
+export function validateContextName(name: string): string | null {
+  if (!CONTEXT_NAME.test(name)) {
+    return "Use letters, digits, dots, dashes and underscores, starting with a letter or digit";
+  }
+  return null;
+}
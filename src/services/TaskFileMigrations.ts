@@ -0,0 +1,155 @@
+/**
+ * TaskFileMigrations - Schema versions of tasks.json and the migrations
+ * that upgrade older files to the current one
+ * Migrations edit the file text through JSONTaskFileWriter, so formatting,
+ * key order and custom fields survive the upgrade
+ * Free of VS Code APIs so the MCP server can share it
+ */
+
+import { TaskStatus } from "../types/tasks";
+import { JSONTaskFileWriter, TaskFields } from "./JSONTaskFileWriter";
+import { isTaskContext, qualifyTaskId } from "./TaskContextIds";
+import { normalizeTaskStatus } from "./TaskStatusSpellings";
+
+export const CURRENT_TASKS_SCHEMA_VERSION = 2;
+
+// Files written before schemaVersion existed
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export interface TaskFileMigration {
+  version: number; // Version the migration upgrades to from the one before
+  description: string;
+  migrate(content: string, writer: JSONTaskFileWriter): string;
+}
+
+export interface TaskFileMigrationResult {
+  content: string;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // Descriptions of the migrations that ran
+}
+
+/**
+ * Thrown for files written for a newer schema than this extension reads
+ */
+export class TaskSchemaVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(
+      `Tasks file uses schema version ${version}, but this extension reads versions up to ${CURRENT_TASKS_SCHEMA_VERSION}. Update the extension to read it.`
+    );
+    this.name = "TaskSchemaVersionError";
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Schema version of parsed tasks file content
+ */
+export function getTasksSchemaVersion(json: unknown): number {
+  const version = isObject(json) ? json.schemaVersion : undefined;
+  return Number.isInteger(version) && version > 0
+    ? version
+    : UNVERSIONED_SCHEMA_VERSION;
+}
+
+/**
+ * The subtask with its status spelled as the schema does
+ * @returns The same object when there is nothing to change
+ */
+function migrateSubtaskStatus(subtask: any): any {
+  const status = isObject(subtask)
+    ? normalizeTaskStatus(subtask.status)
+    : undefined;
+  return status && status !== subtask.status ? { ...subtask, status } : subtask;
+}
+
+export const TASK_FILE_MIGRATIONS: TaskFileMigration[] = [
+  {
+    version: 2,
+    description:
+      "Spell statuses as the schema does and turn text subtasks into subtask objects",
+    migrate(content, writer) {
+      let migrated = content;
+      for (const [context, data] of Object.entries(JSON.parse(content))) {
+        const tasks = isTaskContext(data) ? data.tasks : [];
+        for (const task of tasks) {
+          if (!isObject(task) || task.id === undefined || task.id === null) {
+            continue;
+          }
+          const taskId = qualifyTaskId(context, String(task.id));
+          const fields: TaskFields = {};
+          const status = normalizeTaskStatus(task.status);
+          if (status && status !== task.status) {
+            fields.status = status;
+          }
+
+          const subtasks: any[] = Array.isArray(task.subtasks)
+            ? task.subtasks
+            : [];
+          if (subtasks.some((subtask) => typeof subtask === "string")) {
+            fields.subtasks = subtasks.map((subtask, index) =>
+              typeof subtask === "string"
+                ? {
+                    id: index + 1,
+                    title: subtask,
+                    status: TaskStatus.NOT_STARTED,
+                  }
+                : migrateSubtaskStatus(subtask)
+            );
+          } else {
+            for (const subtask of subtasks) {
+              const upgraded = migrateSubtaskStatus(subtask);
+              if (upgraded !== subtask && subtask.id !== undefined) {
+                migrated =
+                  writer.updateSubtask(migrated, taskId, String(subtask.id), {
+                    status: upgraded.status,
+                  }) ?? migrated;
+              }
+            }
+          }
+
+          if (Object.keys(fields).length > 0) {
+            migrated = writer.updateTask(migrated, taskId, fields) ?? migrated;
+          }
+        }
+      }
+      return migrated;
+    },
+  },
+];
+
+/**
+ * Run the migrations between the version of the file and the current one,
+ * then record the current version in the file
+ * @returns The file unchanged when it is up to date
+ * @throws TaskSchemaVersionError when the file is newer than the extension
+ */
+export function migrateTasksFileContent(
+  content: string,
+  writer: JSONTaskFileWriter = new JSONTaskFileWriter()
+): TaskFileMigrationResult {
+  const fromVersion = getTasksSchemaVersion(JSON.parse(content));
+  if (fromVersion > CURRENT_TASKS_SCHEMA_VERSION) {
+    throw new TaskSchemaVersionError(fromVersion);
+  }
+
+  let migrated = content;
+  const applied: string[] = [];
+  for (const migration of TASK_FILE_MIGRATIONS) {
+    if (migration.version > fromVersion) {
+      migrated = migration.migrate(migrated, writer);
+      applied.push(migration.description);
+    }
+  }
+  if (fromVersion < CURRENT_TASKS_SCHEMA_VERSION) {
+    migrated = writer.setSchemaVersion(migrated, CURRENT_TASKS_SCHEMA_VERSION);
+  }
+  return {
+    content: migrated,
+    fromVersion,
+    toVersion: CURRENT_TASKS_SCHEMA_VERSION,
+    applied,
+  };
+}
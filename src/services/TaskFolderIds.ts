@@ -0,0 +1,35 @@
+/**
+ * TaskFolderIds - IDs of tasks in multi-root workspaces
+ * Every workspace folder has its own task sources, so IDs are only unique
+ * within a folder; with several folders open, tasks are identified as
+ * "<folder>/<id>", where <id> may itself be "<context>:<id>"
+ * Free of VS Code APIs so the standalone MCP server can share it
+ */
+
+const FOLDER_SEPARATOR = "/";
+
+export interface FolderTaskId {
+  folder: string | null; // null for IDs without a folder prefix
+  id: string; // ID within the folder
+}
+
+/**
+ * ID of a task across workspace folders
+ * @param folder - Name of the folder, or null in single-folder workspaces
+ */
+export function qualifyFolderTaskId(folder: string | null, id: string): string {
+  return folder === null ? id : `${folder}${FOLDER_SEPARATOR}${id}`;
+}
+
+/**
+ * Split a task ID into workspace folder name and the ID within the folder
+ */
+export function parseFolderTaskId(taskId: string): FolderTaskId {
+  const separator = taskId.indexOf(FOLDER_SEPARATOR);
+  return separator > 0
+    ? {
+        folder: taskId.slice(0, separator),
+        id: taskId.slice(separator + 1),
+      }
+    : { folder: null, id: taskId };
+}
@@ -0,0 +1,67 @@
+/**
+ * TaskListDiff - Structural difference between two task lists
+ * Tasks are matched by ID; a task counts as changed when any of its fields
+ * differs, so consumers can patch their view instead of rebuilding it
+ */
+
+import { Task } from "../types/tasks";
+
+export interface TaskFieldChange {
+  task: Task; // The task as it is now
+  fields: string[]; // Fields that were added, removed or given another value
+}
+
+export interface TaskListDiff {
+  added: Task[]; // In the order of the new list
+  removed: string[]; // IDs of tasks no longer in the list
+  changed: TaskFieldChange[];
+  order: string[]; // IDs of the new list, to place added tasks
+}
+
+/**
+ * Fields whose values differ between the two versions of a task; Dates
+ * compare by their ISO strings, arrays and objects by their JSON
+ */
+export function diffTaskFieldValues(previous: Task, next: Task): string[] {
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  return [...fields].filter(
+    (field) =>
+      JSON.stringify((previous as any)[field]) !==
+      JSON.stringify((next as any)[field])
+  );
+}
+
+export function diffTaskLists(previous: Task[], next: Task[]): TaskListDiff {
+  const previousById = new Map(previous.map((task) => [task.id, task]));
+  const nextIds = new Set(next.map((task) => task.id));
+  const diff: TaskListDiff = {
+    added: [],
+    removed: [],
+    changed: [],
+    order: next.map((task) => task.id),
+  };
+
+  for (const task of next) {
+    const before = previousById.get(task.id);
+    if (!before) {
+      diff.added.push(task);
+      continue;
+    }
+    const fields = diffTaskFieldValues(before, task);
+    if (fields.length > 0) {
+      diff.changed.push({ task, fields });
+    }
+  }
+  diff.removed = previous
+    .filter((task) => !nextIds.has(task.id))
+    .map((task) => task.id);
+  return diff;
+}
+
+export function isEmptyTaskListDiff(diff: TaskListDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+}
@@ -0,0 +1,170 @@
+import { Task, TaskStatus, TestStatusEnum } from '../types/tasks';
+
+export type TaskPromptName = 'implement_task' | 'fix_failing_tests' | 'review_task';
+
+export interface TaskPromptArgument {
+  name: string;
+  description: string;
+  required: boolean;
+}
+
+export interface TaskPromptDefinition {
+  name: TaskPromptName;
+  description: string;
+  arguments: TaskPromptArgument[];
+}
+
+const TASK_ID_ARGUMENT: TaskPromptArgument = {
+  name: 'taskId',
+  description: 'ID of the task in tasks.json',
+  required: true,
+};
+
+const PROMPT_DEFINITIONS: TaskPromptDefinition[] = [
+  {
+    name: 'implement_task',
+    description: 'Brief for implementing a task from its description, details and test strategy',
+    arguments: [TASK_ID_ARGUMENT],
+  },
+  {
+    name: 'fix_failing_tests',
+    description: "Brief for fixing a task's failing tests",
+    arguments: [TASK_ID_ARGUMENT],
+  },
+  {
+    name: 'review_task',
+    description: 'Brief for reviewing a completed implementation against the task',
+    arguments: [TASK_ID_ARGUMENT],
+  },
+];
+
+/**
+ * TaskPromptGenerator - Renders AI implementation briefs from tasks
+ * Shared by the MCP prompts/* methods and the detail card "Generate Prompt" action
+ */
+export class TaskPromptGenerator {
+  /**
+   * Prompts available for every task
+   */
+  public getPromptDefinitions(): TaskPromptDefinition[] {
+    return PROMPT_DEFINITIONS;
+  }
+
+  public isPromptName(name: string): name is TaskPromptName {
+    return PROMPT_DEFINITIONS.some(definition => definition.name === name);
+  }
+
+  /**
+   * Pick the prompt that fits the task's current state
+   */
+  public suggestPromptName(task: Task): TaskPromptName {
+    if (
+      task.testStatus?.status === TestStatusEnum.FAILING ||
+      (task.testStatus?.failedTests ?? 0) > 0
+    ) {
+      return 'fix_failing_tests';
+    }
+    if (task.status === TaskStatus.REVIEW || task.status === TaskStatus.COMPLETED) {
+      return 'review_task';
+    }
+    return 'implement_task';
+  }
+
+  /**
+   * Render a prompt for a task
+   * @param dependencies - Resolved dependency tasks; unresolved IDs are listed bare
+   */
+  public generatePrompt(name: TaskPromptName, task: Task, dependencies: Task[] = []): string {
+    const sections = [this.renderIntro(name, task), ...this.renderTaskSections(task, dependencies)];
+
+    if (name === 'fix_failing_tests') {
+      sections.push(this.renderFailingTests(task));
+    }
+    sections.push(this.renderInstructions(name));
+
+    return sections.filter(section => section.length > 0).join('\n\n');
+  }
+
+  private renderIntro(name: TaskPromptName, task: Task): string {
+    const heading = `# Task ${task.id}: ${task.title}`;
+    switch (name) {
+      case 'fix_failing_tests':
+        return `${heading}\n\nThe tests for this task are failing. Find the root cause and fix it.`;
+      case 'review_task':
+        return `${heading}\n\nReview the implementation of this task against its requirements.`;
+      default:
+        return `${heading}\n\nImplement this task.`;
+    }
+  }
+
+  private renderTaskSections(task: Task, dependencies: Task[]): string[] {
+    const sections: string[] = [];
+
+    if (task.description) {
+      sections.push(`## Description\n\n${task.description}`);
+    }
+    if (task.details) {
+      sections.push(`## Details\n\n${task.details}`);
+    }
+    if (task.testStrategy) {
+      sections.push(`## Test Strategy\n\n${task.testStrategy}`);
+    }
+
+    if (task.subtasks && task.subtasks.length > 0) {
+      const lines = task.subtasks.map(subtask => {
+        const checked = subtask.status === TaskStatus.COMPLETED || subtask.status === 'done' ? 'x' : ' ';
+        const label = subtask.title ? `${subtask.title}: ${subtask.description}` : subtask.description;
+        return `- [${checked}] ${subtask.id}. ${label}`;
+      });
+      sections.push(`## Subtasks\n\n${lines.join('\n')}`);
+    }
+
+    if (task.dependencies.length > 0) {
+      const lines = task.dependencies.map(id => {
+        const dependency = dependencies.find(candidate => candidate.id === id);
+        return dependency
+          ? `- ${id}: ${dependency.title} (${dependency.statusDisplayName || dependency.status})`
+          : `- ${id}`;
+      });
+      sections.push(`## Dependencies\n\n${lines.join('\n')}`);
+    }
+
+    return sections;
+  }
+
+  private renderFailingTests(task: Task): string {
+    const testStatus = task.testStatus;
+    if (!testStatus) {
+      return '## Failing Tests\n\nNo test results are recorded for this task. Run the tests first.';
+    }
+
+    const summary = `${testStatus.failedTests} of ${testStatus.totalTests} tests failing` +
+      (testStatus.testSuite ? ` in ${testStatus.testSuite}` : '');
+    const failures = (testStatus.failingTestsList || []).map(test => {
+      const location = test.testFile
+        ? ` (${test.testFile}${test.lineNumber ? `:${test.lineNumber}` : ''})`
+        : '';
+      const lines = [`### ${test.name}${location}`, '', `${test.category}: ${test.message}`];
+      if (test.expectedValue !== undefined || test.actualValue !== undefined) {
+        lines.push('', `Expected: ${test.expectedValue ?? ''}`, `Actual: ${test.actualValue ?? ''}`);
+      }
+      if (test.stackTrace) {
+        lines.push('', '```', test.stackTrace, '```');
+      }
+      return lines.join('\n');
+    });
+
+    return [`## Failing Tests\n\n${summary}`, ...failures].join('\n\n');
+  }
+
+  private renderInstructions(name: TaskPromptName): string {
+    switch (name) {
+      case 'fix_failing_tests':
+        return '## Instructions\n\n- Fix the code under test, not the assertions, unless the test itself is wrong\n- Re-run the failing tests and confirm they pass\n- Keep the rest of the suite green';
+      case 'review_task':
+        return '## Instructions\n\n- Check every detail and subtask is covered\n- Check the test strategy is followed and tests exist\n- List problems by severity, with file and line where possible';
+      default:
+        return '## Instructions\n\n- Make sure the dependencies above are in place first\n- Follow the test strategy and add tests alongside the change\n- Work through the subtasks in order';
+    }
+  }
+}
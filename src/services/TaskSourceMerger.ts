@@ -0,0 +1,87 @@
+/**
+ * TaskSourceMerger - Combine the tasks of several sources by task ID
+ * The source earliest in the precedence wins a task; other sources holding
+ * the same ID with different values are recorded as conflicts on it
+ */
+
+import { Task, TaskSource, TaskSourceConflict } from "../types/tasks";
+
+/**
+ * Where tasks are stored: .aidm/.tasks (the Task API mirror) or the tasks file
+ */
+export type TaskStore = "aidm" | "file";
+
+export const DEFAULT_SOURCE_PRECEDENCE: TaskStore[] = ["aidm", "file"];
+
+const TASK_STORES: TaskStore[] = ["aidm", "file"];
+
+// Fields compared between sources; dates and display fields are left out
+const COMPARED_FIELDS: Array<keyof Task> = [
+  "title",
+  "description",
+  "details",
+  "testStrategy",
+  "status",
+  "priority",
+  "complexity",
+  "dependencies",
+  "assignee",
+  "estimatedHours",
+  "actualHours",
+  "tags",
+  "notes",
+  "dueDate",
+];
+
+export interface SourcedTasks {
+  source: TaskSource;
+  tasks: Task[];
+}
+
+/**
+ * Precedence from the tasks.sourcePrecedence setting: unknown and repeated
+ * entries are dropped, missing stores go last in their default order
+ */
+export function normalizeSourcePrecedence(value: unknown): TaskStore[] {
+  const listed = Array.isArray(value)
+    ? value.filter((store): store is TaskStore => TASK_STORES.includes(store))
+    : [];
+  return [...new Set([...listed, ...DEFAULT_SOURCE_PRECEDENCE])];
+}
+
+/**
+ * Fields both tasks set to different values
+ */
+export function diffTaskFields(task: Task, other: Task): string[] {
+  return COMPARED_FIELDS.filter(
+    (field) =>
+      task[field] !== undefined &&
+      other[field] !== undefined &&
+      JSON.stringify(task[field]) !== JSON.stringify(other[field])
+  );
+}
+
+/**
+ * Merge sources by task ID
+ * @param sources - In precedence order; the first source holding an ID wins
+ * @returns Tasks of the first source in their order, then the tasks only
+ * later sources hold, each tagged with its source
+ */
+export function mergeTaskSources(sources: SourcedTasks[]): Task[] {
+  const merged = new Map<string, Task>();
+  for (const { source, tasks } of sources) {
+    for (const task of tasks) {
+      const winner = merged.get(task.id);
+      if (!winner) {
+        merged.set(task.id, { ...task, source });
+        continue;
+      }
+      const fields = diffTaskFields(winner, task);
+      if (fields.length > 0) {
+        const conflict: TaskSourceConflict = { source, fields };
+        winner.sourceConflicts = [...(winner.sourceConflicts ?? []), conflict];
+      }
+    }
+  }
+  return [...merged.values()];
+}
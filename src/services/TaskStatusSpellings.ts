@@ -0,0 +1,73 @@
+/**
+ * TaskStatusSpellings - How task files spell statuses
+ * Files at schema version 2 spell them as TaskStatus does; older files may
+ * use the legacy vocabulary (pending, in-progress, done) or other variants
+ * Free of VS Code APIs so the MCP server can share it
+ */
+
+import { TaskStatus } from "../types/tasks";
+
+// Status spellings of version 1 files, lower case
+const STATUS_ALIASES: Record<string, TaskStatus> = {
+  not_started: TaskStatus.NOT_STARTED,
+  "not started": TaskStatus.NOT_STARTED,
+  "not-started": TaskStatus.NOT_STARTED,
+  pending: TaskStatus.NOT_STARTED,
+  "to do": TaskStatus.NOT_STARTED,
+  todo: TaskStatus.NOT_STARTED,
+  in_progress: TaskStatus.IN_PROGRESS,
+  "in progress": TaskStatus.IN_PROGRESS,
+  "in-progress": TaskStatus.IN_PROGRESS,
+  review: TaskStatus.REVIEW,
+  ready_for_review: TaskStatus.REVIEW,
+  "ready for review": TaskStatus.REVIEW,
+  "ready-for-review": TaskStatus.REVIEW,
+  completed: TaskStatus.COMPLETED,
+  done: TaskStatus.COMPLETED,
+  blocked: TaskStatus.BLOCKED,
+  deprecated: TaskStatus.DEPRECATED,
+};
+
+// Spellings of the legacy vocabulary
+const LEGACY_STATUS_SPELLINGS: Record<TaskStatus, string> = {
+  [TaskStatus.NOT_STARTED]: "pending",
+  [TaskStatus.IN_PROGRESS]: "in-progress",
+  [TaskStatus.REVIEW]: "review",
+  [TaskStatus.COMPLETED]: "done",
+  [TaskStatus.BLOCKED]: "blocked",
+  [TaskStatus.DEPRECATED]: "deprecated",
+};
+
+/**
+ * Status for any spelling version 1 files use
+ * @returns undefined for unknown statuses
+ */
+export function normalizeTaskStatus(status: unknown): TaskStatus | undefined {
+  return typeof status === "string"
+    ? STATUS_ALIASES[status.trim().toLowerCase()]
+    : undefined;
+}
+
+/**
+ * The status as a file writes it: the file's own spelling of it, the
+ * legacy one when the file spells other statuses that way, or TaskStatus
+ * @param spellings - Statuses as written in the file
+ */
+export function spellTaskStatus(
+  status: TaskStatus,
+  spellings: unknown[]
+): string {
+  const known = spellings.filter(
+    (spelling): spelling is string =>
+      normalizeTaskStatus(spelling) !== undefined
+  );
+  const existing = known.find(
+    (spelling) => normalizeTaskStatus(spelling) === status
+  );
+  if (existing !== undefined) {
+    return existing;
+  }
+  return known.some((spelling) => spelling !== normalizeTaskStatus(spelling))
+    ? LEGACY_STATUS_SPELLINGS[status]
+    : status;
+}
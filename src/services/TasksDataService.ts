@@ -20,8 +20,47 @@ import {
   TaskComplexity,
   TaskPriority,
   TaskErrorResponse,
+  TaskCreateRequest,
+  TaskUpdateRequest,
+  TaskSource,
+  TaskChangeEvent,
+  TaskDeletedEvent,
+  STATUS_DISPLAY_NAMES,
 } from "../types/tasks";
+import { JSONRPCErrorCode } from "../types/extension";
 import { JSONTaskParser } from "./JSONTaskParser";
+import { JSONTaskFileWriter, TaskFields } from "./JSONTaskFileWriter";
+import { MarkdownTaskParser } from "./MarkdownTaskParser";
+import { MarkdownTaskFileWriter } from "./MarkdownTaskFileWriter";
+import { isMarkdownTaskFile } from "./MarkdownTaskDocument";
+import { YAMLTaskParser } from "./YAMLTaskParser";
+import { YAMLTaskFileWriter } from "./YAMLTaskFileWriter";
+import { isYAMLTaskFile } from "./YAMLTaskDocument";
+import { parseFolderTaskId, qualifyFolderTaskId } from "./TaskFolderIds";
+import { RepositoryContextService } from "./RepositoryContextService";
+import {
+  mergeTaskSources,
+  normalizeSourcePrecedence,
+  SourcedTasks,
+  TaskStore,
+} from "./TaskSourceMerger";
+import {
+  DEFAULT_TASK_CONTEXT,
+  localizeTaskId,
+  parseTaskId,
+  qualifyTaskId,
+  validateContextName,
+} from "./TaskContextIds";
+import { TaskPersistenceService } from "./TaskPersistenceService";
+import {
+  CURRENT_TASKS_SCHEMA_VERSION,
+  getTasksSchemaVersion,
+  migrateTasksFileContent,
+  TaskFileMigrationResult,
+} from "./TaskFileMigrations";
+import { diffTaskLists, isEmptyTaskListDiff, TaskListDiff } from "./TaskListDiff";
+import { TaskValidator, TaskValidationError } from "../utils/TaskValidator";
+import type { TaskApiClient, TaskApiResponse } from "../api/TaskApiClient";
 import { MockDataProvider } from "../mock";
 import * as vscode from "vscode";
 import { AuthService } from '../auth/authService';
@@ -31,6 +70,33 @@ interface ITasksDataService {
   getTaskById(id: string): Promise<Task | null>;
 }
 
+interface TaskOwner {
+  task: Task; // As stored, with the ID within its workspace folder
+  source: TaskSource;
+  workspaceFolder?: vscode.WorkspaceFolder;
+  localId: string; // ID within the workspace folder
+}
+
+export interface OutdatedTasksFile {
+  fileUri: vscode.Uri;
+  version: number; // Schema version the file is written for
+}
+
+interface FolderTaskTarget {
+  workspaceFolder?: vscode.WorkspaceFolder;
+  id: string; // ID within the workspace folder
+}
+
+// Edits every tasks file format supports
+type TaskFileWriter = Pick<
+  JSONTaskFileWriter,
+  "updateTaskStatus" | "updateTask" | "addTask" | "deleteTask"
+>;
+
+// Writers of the formats with contexts: tasks.json and tasks.yaml
+type ContextsFileWriter = TaskFileWriter &
+  Pick<JSONTaskFileWriter, "addContext" | "listContexts" | "readTask">;
+
 export class TasksDataService implements ITasksDataService {
   // Event emitter for task updates - Recovery Task 2.3.1
   public readonly onTasksUpdated: EventEmitter<Task[]> = new EventEmitter<
@@ -41,19 +107,66 @@ export class TasksDataService implements ITasksDataService {
   public readonly onError: EventEmitter<TaskErrorResponse> =
     new EventEmitter<TaskErrorResponse>();
 
+  // Granular events for tasks created, updated or deleted through this service
+  public readonly onTaskCreated: EventEmitter<TaskChangeEvent> =
+    new EventEmitter<TaskChangeEvent>();
+  public readonly onTaskUpdated: EventEmitter<TaskChangeEvent> =
+    new EventEmitter<TaskChangeEvent>();
+  public readonly onTaskDeleted: EventEmitter<TaskDeletedEvent> =
+    new EventEmitter<TaskDeletedEvent>();
+
+  // Added, removed and changed tasks between consecutive onTasksUpdated lists
+  public readonly onTasksChanged: EventEmitter<TaskListDiff> =
+    new EventEmitter<TaskListDiff>();
+  private lastUpdatedTasks: Task[] = [];
+
   // HTTP client for JSON-RPC communication - Recovery Task 2.4.1
   protected httpClient!: AxiosInstance;
   private serverUrl: string; // Changed from readonly to mutable for initialization
+  private serverPort?: number; // Port the MCP server actually bound, if known
   private isInitialized: boolean = false;
   private extensionActivationTime: number = Date.now();
 
+  // JSON-RPC calls waiting to be sent together as one batch request
+  private pendingJSONRPCCalls: Array<{
+    request: { jsonrpc: "2.0"; id: number; method: string; params?: any };
+    resolve: (response: any) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private nextJSONRPCId: number = 1;
+  private taskFileWriter = new JSONTaskFileWriter();
+  private markdownTaskParser = new MarkdownTaskParser();
+  private markdownFileWriter = new MarkdownTaskFileWriter();
+  private yamlTaskParser = new YAMLTaskParser();
+  private yamlFileWriter = new YAMLTaskFileWriter();
+  private persistenceService = new TaskPersistenceService();
+  private repositoryContextService = new RepositoryContextService();
+  private folderRepositories = new Map<string, string>(); // Folder name → repository
+  private taskApiClient: TaskApiClient | null = null;
+
   constructor(
     private jsonTaskParser: JSONTaskParser,
     private mockDataProvider: MockDataProvider,
-    private authService?: AuthService  // NEW: Optional AuthService injection
+    private authService?: AuthService,  // NEW: Optional AuthService injection
+    private mcpServerToken?: string  // Bearer token of the local MCP server
   ) {
     // Configuration will be set in initialize() method to avoid timing race condition
     this.serverUrl = ""; // Will be set by initialize()
+
+    // onTasksUpdated is also fired from outside (task stream, API integration)
+    this.onTasksUpdated.event((tasks: Task[]) => this.fireTasksChanged(tasks));
+  }
+
+  /**
+   * Fire onTasksChanged with the difference to the previous task list,
+   * unless nothing changed
+   */
+  private fireTasksChanged(tasks: Task[]): void {
+    const diff = diffTaskLists(this.lastUpdatedTasks, tasks);
+    this.lastUpdatedTasks = [...tasks];
+    if (!isEmptyTaskListDiff(diff)) {
+      this.onTasksChanged.fire(diff);
+    }
   }
 
   // Task 6.1.2: Async initialization method to fix workspace configuration race condition
@@ -97,11 +210,10 @@ export class TasksDataService implements ITasksDataService {
 
       // Get port from VS Code configuration when workspace is ready
       const config = workspace.getConfiguration();
-      const port = config.get<number>(
-        "aidmVscodeExtension.mcpServer.port",
-        3001
-      );
-      this.serverUrl = `http://localhost:${port}`;
+      const port =
+        this.serverPort ??
+        config.get<number>("aidmVscodeExtension.mcpServer.port", 3001);
+      this.serverUrl = `http://127.0.0.1:${port}`;
 
       // Setup HTTP client after configuration is loaded
       this.setupHttpClient();
@@ -151,30 +263,96 @@ export class TasksDataService implements ITasksDataService {
       headers: {
         "Content-Type": "application/json",
         Accept: "application/json",
+        ...(this.mcpServerToken
+          ? { Authorization: `Bearer ${this.mcpServerToken}` }
+          : {}),
       },
     });
   }
 
+  /**
+   * Point JSON-RPC calls at the port the MCP server actually bound
+   */
+  updateServerPort(port: number): void {
+    this.serverPort = port;
+    this.serverUrl = `http://127.0.0.1:${port}`;
+    if (this.isInitialized) {
+      this.setupHttpClient();
+    }
+  }
+
+  /**
+   * Route changes of tasks synced to .aidm/.tasks through the Task API
+   * @param client - The signed-in API client, or null after logout
+   */
+  setTaskApiClient(client: TaskApiClient | null): void {
+    this.taskApiClient = client;
+  }
+
   // Method for testing - allows injection of mock HTTP client
   protected setHttpClientForTesting(client: AxiosInstance): void {
     this.httpClient = client;
   }
 
   // Recovery Task 2.4.2: Real JSON-RPC communication implementation
+  // Calls made in the same tick are coalesced into one JSON-RPC batch request
   public async makeJSONRPCCall(method: string, params?: any): Promise<any> {
     // Ensure service is initialized before making HTTP calls
     this.ensureInitialized();
 
     const request = {
-      jsonrpc: "2.0",
-      id: Date.now(),
+      jsonrpc: "2.0" as const,
+      id: this.nextJSONRPCId++,
       method,
       params,
     };
 
+    return new Promise((resolve, reject) => {
+      this.pendingJSONRPCCalls.push({ request, resolve, reject });
+      if (this.pendingJSONRPCCalls.length === 1) {
+        process.nextTick(() => this.flushJSONRPCCalls());
+      }
+    });
+  }
+
+  /**
+   * Send queued calls: a lone call as a plain request, several as a batch
+   * Batch responses are matched back to their callers by request id
+   */
+  private async flushJSONRPCCalls(): Promise<void> {
+    const calls = this.pendingJSONRPCCalls.splice(0);
+    if (calls.length === 0) {
+      return;
+    }
+
     try {
-      const response = await this.httpClient.post("/jsonrpc", request);
-      return response.data;
+      const body =
+        calls.length === 1
+          ? calls[0].request
+          : calls.map((call) => call.request);
+      const response = await this.httpClient.post("/jsonrpc", body);
+
+      // A single error object answers the whole batch (e.g. a parse error)
+      if (!Array.isArray(response.data)) {
+        calls.forEach((call) => call.resolve(response.data));
+        return;
+      }
+
+      const responsesById = new Map<any, any>(
+        response.data.map((entry: any) => [entry?.id, entry])
+      );
+      for (const call of calls) {
+        const entry = responsesById.get(call.request.id);
+        if (entry) {
+          call.resolve(entry);
+        } else {
+          call.reject(
+            new Error(
+              `No response for JSON-RPC request ${call.request.id} (${call.request.method})`
+            )
+          );
+        }
+      }
     } catch (error) {
       // PATH-FIX-004: Enhanced error logging with path context for debugging
       console.error("TasksDataService.makeJSONRPCCall Error Details:");
@@ -189,29 +367,125 @@ export class TasksDataService implements ITasksDataService {
           .get("tasks.filePath")
       );
       console.error("- Server URL:", this.serverUrl);
-      console.error("- Method:", method);
+      console.error(
+        "- Methods:",
+        calls.map((call) => call.request.method)
+      );
       console.error("- Error:", error);
 
-      throw new Error(
+      const failure = new Error(
         `HTTP request failed: ${
           error instanceof Error ? error.message : String(error)
         }`
       );
+      calls.forEach((call) => call.reject(failure));
     }
   }
 
-  // UPDATED: Prioritize .aidm/.tasks → File → MCP → Mock fallback chain
+  // Merge .aidm/.tasks and File by task ID, else fall back to MCP
+  // Multi-root workspaces combine the tasks of every folder
   async getTasks(): Promise<Task[]> {
     console.log("[TasksDataService] getTasks() called");
 
-    // Priority 1: Load from .aidm/.tasks (synced from API)
+    const folderTasks: Task[] = [];
+    let loadedFromFolders = false;
+    for (const workspaceFolder of this.getTaskFolders()) {
+      const tasks = await this.loadFolderTasks(workspaceFolder);
+      if (tasks) {
+        loadedFromFolders = true;
+        folderTasks.push(...(await this.tagFolderTasks(tasks, workspaceFolder)));
+      }
+    }
+    if (loadedFromFolders) {
+      return folderTasks;
+    }
+
+    // Priority 3: Try MCP server
     try {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (workspaceFolder) {
-        const { TaskPersistenceService } = await import('./TaskPersistenceService');
-        const persistenceService = new TaskPersistenceService();
+      console.log(
+        "[TasksDataService] Attempting MCP server call for tasks/list"
+      );
+      const response = await this.makeJSONRPCCall("tasks/list");
+
+      if (response.error) {
+        throw new Error(`MCP server error: ${response.error.message}`);
+      }
+
+      if (Array.isArray(response.result?.tasks)) {
+        console.log(
+          `[TasksDataService] Retrieved ${response.result.tasks.length} tasks from MCP server`
+        );
+        return response.result.tasks;
+      }
+
+      if (response.result?.content?.[0]?.text) {
+        try {
+          const parsedContent = JSON.parse(response.result.content[0].text);
+          const mcpTasks = parsedContent.tasks || [];
+          console.log(
+            `[TasksDataService] Retrieved ${mcpTasks.length} tasks from MCP server`
+          );
+          return mcpTasks;
+        } catch (parseError) {
+          console.warn("Failed to parse MCP response content:", parseError);
+        }
+      }
+    } catch (error) {
+      console.warn(
+        "MCP server unavailable:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
 
-        const tasksFromPersistence = await persistenceService.loadTasks(workspaceFolder);
+    // All task loading methods failed - return empty array
+    console.warn("[TasksDataService] All task loading methods failed - no tasks available");
+    return [];
+  }
+
+  /**
+   * Tasks of one workspace folder: .aidm/.tasks and its tasks file, merged
+   * by task ID in the order of the tasks.sourcePrecedence setting
+   * @param workspaceFolder - undefined without workspace folders, where only
+   * an absolute tasks.filePath can be read
+   * @returns null when the folder has neither
+   */
+  private async loadFolderTasks(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<Task[] | null> {
+    const sources: SourcedTasks[] = [];
+    for (const store of this.getSourcePrecedence(workspaceFolder)) {
+      const tasks =
+        store === "aidm"
+          ? await this.loadPersistedFolderTasks(workspaceFolder)
+          : await this.loadFileFolderTasks(workspaceFolder);
+      if (tasks) {
+        sources.push({ source: this.getStoreSource(store), tasks });
+      }
+    }
+    if (sources.length === 0) {
+      return null;
+    }
+
+    const merged = mergeTaskSources(sources);
+    const conflicts = merged.filter((task) => task.sourceConflicts);
+    if (conflicts.length > 0) {
+      console.warn(
+        `[TasksDataService] ${conflicts.length} task(s) differ between sources:`,
+        conflicts.map((task) => task.id)
+      );
+    }
+    return merged;
+  }
+
+  /**
+   * @returns Tasks of .aidm/.tasks (synced from API), or null when empty
+   */
+  private async loadPersistedFolderTasks(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<Task[] | null> {
+    try {
+      if (workspaceFolder) {
+        const tasksFromPersistence = await this.loadPersistedTasks(workspaceFolder);
         if (tasksFromPersistence.length > 0) {
           console.log(
             `[TasksDataService] Loaded ${tasksFromPersistence.length} tasks from .aidm/.tasks`
@@ -222,22 +496,31 @@ export class TasksDataService implements ITasksDataService {
     } catch (error) {
       console.warn('[TasksDataService] Could not load from .aidm/.tasks:', error);
     }
+    return null;
+  }
 
-    // Priority 2: Load from configured task file (legacy support)
+  /**
+   * @returns Tasks of the configured task file (legacy support), or null
+   * when there is no such file or it cannot be parsed
+   */
+  private async loadFileFolderTasks(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<Task[] | null> {
     try {
       console.log(
         "[TasksDataService] Attempting file parsing fallback from configured path"
       );
 
-      const configuredUri = this.getConfiguredFileUri();
-      const fallbackUri = await this.getTasksFileUri("tasks.json");
+      const configuredUri = this.getConfiguredFileUri(workspaceFolder);
+      const fallbackUri = await this.getTasksFileUri(
+        "tasks.json",
+        workspaceFolder
+      );
       const fileUri = configuredUri || fallbackUri;
 
       if (fileUri) {
         try {
-          const parsedTasks = await this.jsonTaskParser.parseTasksFromFile(
-            fileUri
-          );
+          const parsedTasks = await this.parseTasksFile(fileUri);
           console.log(
             `[TasksDataService] Retrieved ${parsedTasks.length} tasks from file parser`
           );
@@ -261,39 +544,7 @@ export class TasksDataService implements ITasksDataService {
       console.error("TasksDataService.getTasks File Loading Error:", fileError);
     }
 
-    // Priority 3: Try MCP server
-    try {
-      console.log(
-        "[TasksDataService] Attempting MCP server call for tasks/list"
-      );
-      const response = await this.makeJSONRPCCall("tasks/list");
-
-      if (response.error) {
-        throw new Error(`MCP server error: ${response.error.message}`);
-      }
-
-      if (response.result?.content?.[0]?.text) {
-        try {
-          const parsedContent = JSON.parse(response.result.content[0].text);
-          const mcpTasks = parsedContent.tasks || [];
-          console.log(
-            `[TasksDataService] Retrieved ${mcpTasks.length} tasks from MCP server`
-          );
-          return mcpTasks;
-        } catch (parseError) {
-          console.warn("Failed to parse MCP response content:", parseError);
-        }
-      }
-    } catch (error) {
-      console.warn(
-        "MCP server unavailable:",
-        error instanceof Error ? error.message : String(error)
-      );
-    }
-
-    // All task loading methods failed - return empty array
-    console.warn("[TasksDataService] All task loading methods failed - no tasks available");
-    return [];
+    return null;
   }
 
   // Legacy method - kept for backward compatibility
@@ -414,9 +665,7 @@ export class TasksDataService implements ITasksDataService {
         }
 
         try {
-          const parsedTasks = await this.jsonTaskParser.parseTasksFromFile(
-            fileUri
-          );
+          const parsedTasks = await this.parseTasksFile(fileUri);
           console.log(
             `[TasksDataService] Retrieved ${parsedTasks.length} tasks from file parser`
           );
@@ -470,12 +719,22 @@ export class TasksDataService implements ITasksDataService {
   async getTaskById(id: string): Promise<Task | null> {
     console.log(`[TasksDataService] getTaskById(${id}) called`);
 
+    // The MCP server only knows the tasks of one folder
+    if (this.isMultiRootWorkspace()) {
+      return (await this.getTasks()).find((task) => task.id === id) ?? null;
+    }
+
     try {
       console.log(
         `[TasksDataService] Attempting MCP server call for tasks/get with id: ${id}`
       );
       const response = await this.makeJSONRPCCall("tasks/get", { id });
 
+      if (response.error?.code === JSONRPCErrorCode.TASK_NOT_FOUND) {
+        console.log(`[TasksDataService] Task ${id} not found in MCP server`);
+        return null;
+      }
+
       if (response.error) {
         throw new Error(`MCP server error: ${response.error.message}`);
       }
@@ -545,6 +804,30 @@ export class TasksDataService implements ITasksDataService {
   async updateTaskStatus(id: string, status: TaskStatus): Promise<boolean> {
     console.log(`[TasksDataService] updateTaskStatus(${id}, ${status}) called`);
 
+    // Tasks shown from .aidm/.tasks are saved there, or through the Task API
+    const owner = await this.findTaskOwner(id);
+    if (owner && owner.source !== "file") {
+      return (await this.updateTask({ taskId: id, status })) !== null;
+    }
+
+    try {
+      if (await this.updateTaskStatusInFile(id, status)) {
+        return true;
+      }
+    } catch (error) {
+      this.onError.fire({
+        operation: "status_update",
+        taskId: id,
+        suggestedAction: "retry",
+        userInstructions: `Failed to save task status to the tasks file: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        technicalDetails:
+          error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+
     try {
       console.log(
         `[TasksDataService] Attempting MCP server call for tasks/update-status`
@@ -624,6 +907,845 @@ export class TasksDataService implements ITasksDataService {
     }
   }
 
+  /**
+   * Write a status change into the configured tasks file, leaving the rest
+   * of the file untouched; the file watcher then refreshes the task list
+   * @returns false when the file does not exist or does not hold the task
+   */
+  private async updateTaskStatusInFile(
+    id: string,
+    status: TaskStatus
+  ): Promise<boolean> {
+    const target = this.resolveTaskFolder(id);
+    if (!target) {
+      return false;
+    }
+    const saved = await this.editTasksFile(
+      (content, writer) => writer.updateTaskStatus(content, target.id, status),
+      target.workspaceFolder
+    );
+    if (saved) {
+      console.log(`[TasksDataService] Saved status ${status} for task ${id}`);
+    }
+    return saved;
+  }
+
+  /**
+   * Create a task in the first source by precedence that holds tasks:
+   * .aidm/.tasks (through the Task API when signed in) or tasks.json,
+   * where it goes to request.context or the default context
+   * Multi-root workspaces use the sources of request.workspaceFolder
+   * @returns The created task, or null if saving it failed
+   * @throws TaskValidationError when the task breaks the data contract
+   * @throws Error when request.workspaceFolder is not open
+   */
+  async createTask(request: TaskCreateRequest): Promise<Task | null> {
+    console.log(`[TasksDataService] createTask(${request.title}) called`);
+
+    const { workspaceFolder: folderName, ...taskRequest } = request;
+    const workspaceFolder = this.findWorkspaceFolder(folderName);
+    const persistedTasks = await this.loadPersistedTasks(workspaceFolder);
+    let fileTasks: Task[] | null = null;
+    for (const store of this.getSourcePrecedence(workspaceFolder)) {
+      if (store === "aidm" && persistedTasks.length > 0) {
+        break;
+      }
+      if (store === "file") {
+        fileTasks = await this.loadFileTasks(workspaceFolder);
+        if (fileTasks) {
+          break;
+        }
+      }
+    }
+    const source: TaskSource = fileTasks
+      ? "file"
+      : this.taskApiClient
+        ? "api"
+        : "aidm";
+
+    const context = request.context ?? DEFAULT_TASK_CONTEXT;
+    const localId = this.nextTaskId(
+      source === "file"
+        ? this.getLocalTaskIds(fileTasks!, context)
+        : persistedTasks.map((task) => task.id)
+    );
+    const now = new Date().toISOString();
+    const status = request.status ?? TaskStatus.NOT_STARTED;
+    const task: Task = {
+      status,
+      complexity: TaskComplexity.MEDIUM,
+      dependencies: [],
+      requirements: [],
+      ...taskRequest,
+      id: source === "file" ? qualifyTaskId(context, localId) : localId,
+      createdDate: now,
+      lastModified: now,
+    };
+    if (taskRequest.dependencies) {
+      task.dependencies = this.localizeFolderTaskIds(
+        taskRequest.dependencies,
+        workspaceFolder
+      );
+    }
+    this.validateTask(task);
+
+    try {
+      let created = task;
+      if (source === "file") {
+        const { context: _context, ...fields } = task;
+        await this.saveTasksFile(
+          task.id,
+          (content, writer) =>
+            writer.addTask(
+              content,
+              {
+                ...fields,
+                id: localId,
+                dependencies: task.dependencies.map((dependency) =>
+                  localizeTaskId(dependency, context)
+                ),
+              },
+              context
+            ),
+          workspaceFolder
+        );
+      } else {
+        if (source === "api") {
+          created = this.unwrapApiResult(
+            await this.taskApiClient!.createTask(taskRequest)
+          );
+        }
+        await this.savePersistedTasks(
+          [...persistedTasks, created],
+          workspaceFolder
+        );
+      }
+
+      console.log(
+        `[TasksDataService] Created task ${created.id} in ${source} source`
+      );
+      [created] = await this.tagFolderTasks([created], workspaceFolder);
+      this.onTaskCreated.fire({ task: created, source });
+      return created;
+    } catch (error) {
+      this.fireChangeError("task_create", task.id, error);
+      return null;
+    }
+  }
+
+  /**
+   * Update task fields in the source that owns the task
+   * @returns The updated task, or null if it does not exist or saving failed
+   * @throws TaskValidationError when the update breaks the data contract
+   */
+  async updateTask(request: TaskUpdateRequest): Promise<Task | null> {
+    const { taskId, ...changes } = request;
+    console.log(`[TasksDataService] updateTask(${taskId}) called`);
+
+    const owner = await this.findTaskOwner(taskId);
+    if (!owner) {
+      console.log(`[TasksDataService] Task ${taskId} not found for update`);
+      return null;
+    }
+
+    const fields = Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    );
+    const now = new Date();
+    let updated: Task = {
+      ...owner.task,
+      ...fields,
+      lastModified: now.toISOString(),
+    };
+    if (request.status) {
+      updated.statusDisplayName = STATUS_DISPLAY_NAMES[request.status];
+    }
+    this.validateTask(updated);
+
+    try {
+      const { localId, workspaceFolder } = owner;
+      if (owner.source === "file") {
+        await this.saveTasksFile(
+          taskId,
+          (content, writer) => writer.updateTask(content, localId, fields, now),
+          workspaceFolder
+        );
+      } else {
+        if (owner.source === "api") {
+          updated = this.unwrapApiResult(
+            await this.taskApiClient!.updateTask({ ...request, taskId: localId })
+          );
+        }
+        const persistedTasks = await this.loadPersistedTasks(workspaceFolder);
+        await this.savePersistedTasks(
+          persistedTasks.map((task) => (task.id === localId ? updated : task)),
+          workspaceFolder
+        );
+      }
+
+      [updated] = await this.tagFolderTasks([updated], owner.workspaceFolder);
+      this.onTaskUpdated.fire({ task: updated, source: owner.source });
+      return updated;
+    } catch (error) {
+      this.fireChangeError("task_update", taskId, error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a task from the source that owns it
+   * @returns true if the task was deleted
+   */
+  async deleteTask(id: string): Promise<boolean> {
+    console.log(`[TasksDataService] deleteTask(${id}) called`);
+
+    const owner = await this.findTaskOwner(id);
+    if (!owner) {
+      console.log(`[TasksDataService] Task ${id} not found for deletion`);
+      return false;
+    }
+
+    try {
+      const { localId, workspaceFolder } = owner;
+      if (owner.source === "file") {
+        await this.saveTasksFile(
+          id,
+          (content, writer) => writer.deleteTask(content, localId),
+          workspaceFolder
+        );
+      } else {
+        if (owner.source === "api") {
+          this.unwrapApiResult(await this.taskApiClient!.deleteTask(localId));
+        }
+        const persistedTasks = await this.loadPersistedTasks(workspaceFolder);
+        await this.savePersistedTasks(
+          persistedTasks.filter((task) => task.id !== localId),
+          workspaceFolder
+        );
+      }
+
+      this.onTaskDeleted.fire({ taskId: id, source: owner.source });
+      return true;
+    } catch (error) {
+      this.fireChangeError("task_delete", id, error);
+      return false;
+    }
+  }
+
+  /**
+   * Contexts (tags) of the tasks files, in file order; multi-root
+   * workspaces list each context once across all folders
+   * @returns An empty list when no tasks file format has contexts
+   */
+  async getTaskContexts(): Promise<string[]> {
+    const contexts = new Set<string>();
+    for (const workspaceFolder of this.getTaskFolders()) {
+      (await this.getFolderTaskContexts(workspaceFolder)).forEach((context) =>
+        contexts.add(context)
+      );
+    }
+    return [...contexts];
+  }
+
+  private async getFolderTaskContexts(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<string[]> {
+    const writer = await this.getContextsFileWriter(workspaceFolder);
+    if (!writer) {
+      return [];
+    }
+    const content = await this.readTasksFile(workspaceFolder);
+    if (content === null || content.trim().length === 0) {
+      return [];
+    }
+    try {
+      return writer.listContexts(content);
+    } catch (error) {
+      console.error("[TasksDataService] Failed to list task contexts:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Add an empty context to the tasks file
+   * @param workspaceFolder - Name of the folder whose tasks file gets the
+   * context; defaults to the first
+   * @returns false when the context exists or the tasks file has no contexts
+   * @throws Error when the name cannot be used for a context or the folder
+   * is not open
+   */
+  async createTaskContext(
+    name: string,
+    workspaceFolder?: string
+  ): Promise<boolean> {
+    const problem = validateContextName(name);
+    if (problem) {
+      throw new Error(`Invalid context name "${name}": ${problem}`);
+    }
+    console.log(`[TasksDataService] createTaskContext(${name}) called`);
+    const folder = this.findWorkspaceFolder(workspaceFolder);
+    const writer = await this.getContextsFileWriter(folder);
+    if (!writer) {
+      return false;
+    }
+    return this.editTasksFile(
+      (content) => writer.addContext(content, name),
+      folder
+    );
+  }
+
+  /**
+   * Copy a task of the tasks file to another context, keeping its fields as
+   * written
+   * The copy keeps the task's ID unless the target context already uses it,
+   * and its dependencies keep pointing at the same tasks
+   * @param move - Also remove the task from its current context; tasks that
+   * depend on it then point at its new ID
+   * @returns The new task, or null if the task is not in a tasks file with
+   * contexts or saving failed
+   */
+  async copyTaskToContext(
+    taskId: string,
+    targetContext: string,
+    move: boolean = false
+  ): Promise<Task | null> {
+    console.log(
+      `[TasksDataService] ${move ? "move" : "copy"}TaskToContext(${taskId}, ${targetContext}) called`
+    );
+    const problem = validateContextName(targetContext);
+    if (problem) {
+      throw new Error(`Invalid context name "${targetContext}": ${problem}`);
+    }
+
+    const owner = await this.findTaskOwner(taskId);
+    if (owner?.source !== "file") {
+      console.log(
+        `[TasksDataService] Task ${taskId} cannot go to context ${targetContext}`
+      );
+      return null;
+    }
+    const { workspaceFolder, localId: fileTaskId } = owner;
+    const { context: sourceContext, id: localId } = parseTaskId(fileTaskId);
+    const writer = await this.getContextsFileWriter(workspaceFolder);
+    if (sourceContext === targetContext || !writer) {
+      console.log(
+        `[TasksDataService] Task ${taskId} cannot go to context ${targetContext}`
+      );
+      return null;
+    }
+
+    const fileTasks = (await this.loadFileTasks(workspaceFolder)) ?? [];
+    const targetIds = this.getLocalTaskIds(fileTasks, targetContext);
+    const newLocalId = targetIds.includes(localId)
+      ? this.nextTaskId(targetIds)
+      : localId;
+    const newFileTaskId = qualifyTaskId(targetContext, newLocalId);
+    // Task dependencies are IDs across contexts; write them as the target
+    // context refers to them
+    const fileDependencies = owner.task.dependencies.map((dependency) =>
+      localizeTaskId(dependency, targetContext)
+    );
+    const dependents = move
+      ? fileTasks.filter(
+          (task) =>
+            task.id !== fileTaskId && task.dependencies.includes(fileTaskId)
+        )
+      : [];
+
+    try {
+      await this.saveTasksFile(
+        taskId,
+        (content) => {
+          const entry = writer.readTask(content, fileTaskId);
+          if (!entry) {
+            return null;
+          }
+          const copy: TaskFields = {
+            ...entry,
+            id: newLocalId === localId ? entry.id : newLocalId,
+          };
+          if (Array.isArray(entry.dependencies)) {
+            copy.dependencies = fileDependencies;
+          }
+          const updated = writer.addTask(content, copy, targetContext);
+          if (!move) {
+            return updated;
+          }
+          return dependents.reduce<string | null>(
+            (text, dependent) =>
+              text &&
+              this.redirectDependency(
+                writer,
+                text,
+                dependent.id,
+                fileTaskId,
+                newFileTaskId
+              ),
+            writer.deleteTask(updated, fileTaskId)
+          );
+        },
+        workspaceFolder
+      );
+
+      const [created] = await this.tagFolderTasks(
+        [
+          {
+            ...owner.task,
+            id: newFileTaskId,
+            context: targetContext,
+          },
+        ],
+        workspaceFolder
+      );
+      this.onTaskCreated.fire({ task: created, source: "file" });
+      if (move) {
+        this.onTaskDeleted.fire({ taskId, source: "file" });
+      }
+      return created;
+    } catch (error) {
+      this.fireChangeError("task_create", taskId, error);
+      return null;
+    }
+  }
+
+  /**
+   * Point the dependencies of a task that name one task at another, leaving
+   * its other dependencies as written
+   * @returns The updated text, or null if the task is not in the file
+   */
+  private redirectDependency(
+    writer: ContextsFileWriter,
+    content: string,
+    taskId: string,
+    fromTaskId: string,
+    toTaskId: string
+  ): string | null {
+    const { context } = parseTaskId(taskId);
+    const dependencies = writer.readTask(content, taskId)?.dependencies;
+    if (!Array.isArray(dependencies)) {
+      return null;
+    }
+    const reference = localizeTaskId(toTaskId, context);
+    return writer.updateTask(content, taskId, {
+      dependencies: dependencies.map((dependency) => {
+        const { context: dependencyContext, id } = parseTaskId(
+          String(dependency),
+          context
+        );
+        if (qualifyTaskId(dependencyContext, id) !== fromTaskId) {
+          return dependency;
+        }
+        // Keep numeric IDs numeric where the reference allows it
+        return typeof dependency === "number" && /^\d+$/.test(reference)
+          ? Number(reference)
+          : reference;
+      }),
+    });
+  }
+
+  /**
+   * tasks.json files of the workspace folders written for an older schema
+   * version; YAML and Markdown task files have no schema version
+   */
+  async findOutdatedTasksFiles(): Promise<OutdatedTasksFile[]> {
+    const outdated: OutdatedTasksFile[] = [];
+    for (const workspaceFolder of this.getTaskFolders()) {
+      const fileUri = await this.getWritableTasksFileUri(workspaceFolder);
+      if (
+        !fileUri ||
+        isMarkdownTaskFile(fileUri.fsPath) ||
+        isYAMLTaskFile(fileUri.fsPath)
+      ) {
+        continue;
+      }
+      const content = await this.readTasksFile(workspaceFolder);
+      if (content === null || content.trim().length === 0) {
+        continue;
+      }
+      try {
+        const version = getTasksSchemaVersion(JSON.parse(content));
+        if (version < CURRENT_TASKS_SCHEMA_VERSION) {
+          outdated.push({ fileUri, version });
+        }
+      } catch {
+        // Invalid JSON is reported when the tasks load
+      }
+    }
+    return outdated;
+  }
+
+  /**
+   * Upgrade a tasks.json file to the current schema version in place, after
+   * copying it to "<file>.v<version>.bak"; the file watcher then refreshes
+   * the task list
+   * @returns What the migration did; up-to-date files are left untouched
+   * @throws TaskSchemaVersionError when the file is newer than the extension
+   */
+  async migrateTasksFile(fileUri: vscode.Uri): Promise<TaskFileMigrationResult> {
+    console.log(`[TasksDataService] migrateTasksFile(${fileUri.fsPath}) called`);
+    const content = Buffer.from(
+      await vscode.workspace.fs.readFile(fileUri)
+    ).toString("utf8");
+    const result = migrateTasksFileContent(content, this.taskFileWriter);
+    if (result.fromVersion === result.toVersion) {
+      return result;
+    }
+
+    const backupUri = vscode.Uri.file(
+      `${fileUri.fsPath}.v${result.fromVersion}.bak`
+    );
+    await vscode.workspace.fs.writeFile(backupUri, Buffer.from(content, "utf8"));
+    await vscode.workspace.fs.writeFile(
+      fileUri,
+      Buffer.from(result.content, "utf8")
+    );
+    console.log(
+      `[TasksDataService] Upgraded ${fileUri.fsPath} from schema version ${result.fromVersion} to ${result.toVersion}, backup at ${backupUri.fsPath}`
+    );
+    return result;
+  }
+
+  /**
+   * Find which source holds a task, in source precedence order, so changes
+   * go to the version getTasks() shows; tasks in .aidm/.tasks belong to the
+   * Task API while signed in
+   * Multi-root workspaces look in the folder named by the task ID
+   */
+  private async findTaskOwner(id: string): Promise<TaskOwner | null> {
+    const target = this.resolveTaskFolder(id);
+    if (!target) {
+      return null;
+    }
+    const { workspaceFolder, id: localId } = target;
+
+    for (const store of this.getSourcePrecedence(workspaceFolder)) {
+      const tasks =
+        store === "aidm"
+          ? await this.loadPersistedTasks(workspaceFolder)
+          : await this.loadFileTasks(workspaceFolder);
+      const task = tasks?.find((candidate) => candidate.id === localId);
+      if (task) {
+        return {
+          task,
+          source: this.getStoreSource(store),
+          workspaceFolder,
+          localId,
+        };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Order in which sources win tasks both hold
+   * @param workspaceFolder - Folder whose tasks.sourcePrecedence setting to use
+   */
+  private getSourcePrecedence(
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): TaskStore[] {
+    return normalizeSourcePrecedence(
+      workspace
+        .getConfiguration(undefined, workspaceFolder?.uri)
+        .get("aidmVscodeExtension.tasks.sourcePrecedence")
+    );
+  }
+
+  private getStoreSource(store: TaskStore): TaskSource {
+    if (store === "file") {
+      return "file";
+    }
+    return this.taskApiClient ? "api" : "aidm";
+  }
+
+  /**
+   * Folders to load tasks from; [undefined] without workspace folders, where
+   * only an absolute tasks.filePath can be read
+   */
+  private getTaskFolders(): Array<vscode.WorkspaceFolder | undefined> {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    return workspaceFolders && workspaceFolders.length > 0
+      ? [...workspaceFolders]
+      : [undefined];
+  }
+
+  private isMultiRootWorkspace(): boolean {
+    return (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+  }
+
+  /**
+   * Workspace folder by name
+   * @param name - Defaults to the first folder
+   * @throws Error when no open folder has the name
+   */
+  private findWorkspaceFolder(
+    name?: string
+  ): vscode.WorkspaceFolder | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    if (name === undefined) {
+      return workspaceFolders[0];
+    }
+    const workspaceFolder = workspaceFolders.find(
+      (folder) => folder.name === name
+    );
+    if (!workspaceFolder) {
+      throw new Error(`Workspace folder "${name}" is not open`);
+    }
+    return workspaceFolder;
+  }
+
+  /**
+   * Folder of a task and its ID there; task IDs only carry the folder in
+   * multi-root workspaces
+   * @returns null when the ID names a folder that is not open
+   */
+  private resolveTaskFolder(taskId: string): FolderTaskTarget | null {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!this.isMultiRootWorkspace()) {
+      return { workspaceFolder: workspaceFolders?.[0], id: taskId };
+    }
+    const { folder, id } = parseFolderTaskId(taskId);
+    const workspaceFolder = workspaceFolders!.find((f) => f.name === folder);
+    return workspaceFolder ? { workspaceFolder, id } : null;
+  }
+
+  /**
+   * Tag the tasks of a folder with the folder and its repository, and make
+   * their IDs unique across folders; only done in multi-root workspaces
+   */
+  private async tagFolderTasks(
+    tasks: Task[],
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): Promise<Task[]> {
+    if (!workspaceFolder || !this.isMultiRootWorkspace()) {
+      return tasks;
+    }
+    const folder = workspaceFolder.name;
+    let repository = this.folderRepositories.get(folder);
+    if (repository === undefined) {
+      repository =
+        (await this.repositoryContextService.getRepositoryContext(
+          workspaceFolder
+        ))?.repoName ?? folder;
+      this.folderRepositories.set(folder, repository);
+    }
+    return tasks.map((task) => ({
+      ...task,
+      id: qualifyFolderTaskId(folder, task.id),
+      dependencies: (task.dependencies ?? []).map((dependency) =>
+        qualifyFolderTaskId(folder, dependency)
+      ),
+      workspaceFolder: folder,
+      repository,
+    }));
+  }
+
+  /**
+   * IDs as the sources of a folder store them: without the folder prefix,
+   * which only tasks of the same folder can have
+   */
+  private localizeFolderTaskIds(
+    taskIds: string[],
+    workspaceFolder: vscode.WorkspaceFolder | undefined
+  ): string[] {
+    if (!workspaceFolder || !this.isMultiRootWorkspace()) {
+      return taskIds;
+    }
+    return taskIds.map((taskId) => {
+      const { folder, id } = parseFolderTaskId(taskId);
+      return folder === workspaceFolder.name ? id : taskId;
+    });
+  }
+
+  private async loadPersistedTasks(
+    workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+  ): Promise<Task[]> {
+    return workspaceFolder
+      ? this.persistenceService.loadTasks(workspaceFolder)
+      : [];
+  }
+
+  /**
+   * Save .aidm/.tasks, which has no file watcher, and refresh the task list
+   */
+  private async savePersistedTasks(
+    tasks: Task[],
+    workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+  ): Promise<void> {
+    if (!workspaceFolder) {
+      throw new Error("No workspace folder to save .aidm/.tasks in");
+    }
+    await this.persistenceService.saveTasks(tasks, workspaceFolder);
+    await this.refreshTasks();
+  }
+
+  /**
+   * @returns Tasks of the tasks file, or null when there is no such file
+   */
+  private async loadFileTasks(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<Task[] | null> {
+    const fileUri = await this.getWritableTasksFileUri(workspaceFolder);
+    return fileUri ? this.parseTasksFile(fileUri) : null;
+  }
+
+  /**
+   * Parse the tasks file with the parser for its format
+   */
+  private async parseTasksFile(fileUri: vscode.Uri): Promise<Task[]> {
+    if (isYAMLTaskFile(fileUri.fsPath)) {
+      return this.yamlTaskParser.parseTasksFromFile(fileUri);
+    }
+    if (!isMarkdownTaskFile(fileUri.fsPath)) {
+      return this.jsonTaskParser.parseTasksFromFile(fileUri);
+    }
+    const content = Buffer.from(
+      await vscode.workspace.fs.readFile(fileUri)
+    ).toString("utf8");
+    return this.markdownTaskParser.parseTasksFromMarkdownContent(content);
+  }
+
+  /**
+   * Writer for the format of the tasks file
+   */
+  private getTasksFileWriter(fileUri: vscode.Uri): TaskFileWriter {
+    if (isMarkdownTaskFile(fileUri.fsPath)) {
+      return this.markdownFileWriter;
+    }
+    return isYAMLTaskFile(fileUri.fsPath)
+      ? this.yamlFileWriter
+      : this.taskFileWriter;
+  }
+
+  /**
+   * @returns null for tasks.md files, which have no contexts
+   */
+  private async getContextsFileWriter(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<ContextsFileWriter | null> {
+    const fileUri = await this.getWritableTasksFileUri(workspaceFolder);
+    if (fileUri && isMarkdownTaskFile(fileUri.fsPath)) {
+      return null;
+    }
+    return fileUri && isYAMLTaskFile(fileUri.fsPath)
+      ? this.yamlFileWriter
+      : this.taskFileWriter;
+  }
+
+  /**
+   * @param workspaceFolder - Folder whose tasks file to use; defaults to the
+   * first
+   */
+  private async getWritableTasksFileUri(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<vscode.Uri | null> {
+    return (
+      this.getConfiguredFileUri(workspaceFolder) ||
+      (await this.getTasksFileUri("tasks.json", workspaceFolder))
+    );
+  }
+
+  /**
+   * @returns Text of the tasks file, or null when it cannot be read
+   */
+  private async readTasksFile(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<string | null> {
+    const fileUri = await this.getWritableTasksFileUri(workspaceFolder);
+    if (!fileUri) {
+      return null;
+    }
+    try {
+      return Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString(
+        "utf8"
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Apply a text change to the tasks file; the file watcher picks it up
+   * @param change - Gets the file text and the writer for the file's format
+   * @returns false when the file cannot be read or the change finds nothing
+   */
+  private async editTasksFile(
+    change: (content: string, writer: TaskFileWriter) => string | null,
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<boolean> {
+    const fileUri = await this.getWritableTasksFileUri(workspaceFolder);
+    const content = await this.readTasksFile(workspaceFolder);
+    if (!fileUri || content === null) {
+      return false;
+    }
+
+    const updated = change(content, this.getTasksFileWriter(fileUri));
+    if (updated === null) {
+      return false;
+    }
+    await vscode.workspace.fs.writeFile(fileUri, Buffer.from(updated, "utf8"));
+    return true;
+  }
+
+  private async saveTasksFile(
+    taskId: string,
+    change: (content: string, writer: TaskFileWriter) => string | null,
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): Promise<void> {
+    if (!(await this.editTasksFile(change, workspaceFolder))) {
+      throw new Error(`Could not write task ${taskId} to the tasks file`);
+    }
+  }
+
+  /**
+   * Next numeric ID after the highest one in use ("1", "2", ...)
+   */
+  private nextTaskId(ids: string[]): string {
+    const numericIds = ids
+      .map((id) => parseInt(id, 10))
+      .filter((id) => !isNaN(id));
+    return String(Math.max(0, ...numericIds) + 1);
+  }
+
+  /**
+   * IDs of the tasks of one context, as written in the file
+   */
+  private getLocalTaskIds(tasks: Task[], context: string): string[] {
+    return tasks
+      .map((task) => parseTaskId(task.id))
+      .filter((parsed) => parsed.context === context)
+      .map((parsed) => parsed.id);
+  }
+
+  private validateTask(task: Task): void {
+    const validation = TaskValidator.validateTask(task);
+    if (!validation.isValid) {
+      throw new TaskValidationError(task.id, validation.errors);
+    }
+  }
+
+  private unwrapApiResult<T>(result: TaskApiResponse<T>): T {
+    if (!result.success || result.data === undefined) {
+      throw new Error(`Task API error: ${result.error ?? "empty response"}`);
+    }
+    return result.data;
+  }
+
+  private fireChangeError(
+    operation: "task_create" | "task_update" | "task_delete",
+    taskId: string,
+    error: unknown
+  ): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[TasksDataService] ${operation} failed for ${taskId}:`, error);
+    this.onError.fire({
+      operation,
+      taskId,
+      suggestedAction: "retry",
+      userInstructions: `Failed to save task ${taskId}: ${message}`,
+      technicalDetails: message,
+    });
+  }
+
   // Task 4.4.1: Add refreshTasks method for manual task refresh
   // PATH-002: Enhanced with comprehensive file loading error handling
   // Task 6.1.6: Fixed event timing to ensure complete data before UI notification
@@ -707,6 +1829,9 @@ export class TasksDataService implements ITasksDataService {
     ) {
       errorType = "permission_denied";
       userInstructions = `Permission denied accessing: ${filePath}\n\nSolutions:\n1. Check file permissions\n2. Run VS Code as administrator (if needed)\n3. Move file to accessible location`;
+    } else if (error.message.includes("Invalid YAML")) {
+      errorType = "validation_error";
+      userInstructions = `Invalid YAML in tasks file: ${filePath}\n\nSolutions:\n1. Fix the lines listed below\n2. Keep one entry per context, each with a tasks list\n3. View specific error: ${error.message}`;
     } else if (error.message.includes("JSON") || error.name === "SyntaxError") {
       errorType = "json_parse_error";
       userInstructions = `Invalid JSON in tasks file: ${filePath}\n\nSolutions:\n1. Check JSON syntax with online validator\n2. Look for missing commas, brackets, or quotes\n3. View specific error: ${error.message}`;
@@ -899,9 +2024,18 @@ export class TasksDataService implements ITasksDataService {
     }
   }
 
-  private getConfiguredFileUri(): vscode.Uri | null {
+  /**
+   * @param workspaceFolder - Folder whose tasks.filePath setting to use and
+   * resolve against; defaults to the first
+   */
+  private getConfiguredFileUri(
+    workspaceFolder?: vscode.WorkspaceFolder
+  ): vscode.Uri | null {
     try {
-      const config = workspace.getConfiguration();
+      const config = workspace.getConfiguration(
+        undefined,
+        workspaceFolder?.uri
+      );
       const filePath = config.get<string>("aidmVscodeExtension.tasks.filePath");
 
       if (
@@ -915,7 +2049,7 @@ export class TasksDataService implements ITasksDataService {
         return null;
       }
 
-      return this.resolveWorkspaceFileUri(filePath);
+      return this.resolveWorkspaceFileUri(filePath, workspaceFolder);
     } catch (error) {
       // PATH-FIX-004: Enhanced error logging with path context for debugging
       console.error("TasksDataService.getConfiguredFileUri Error Details:");
@@ -943,7 +2077,10 @@ export class TasksDataService implements ITasksDataService {
    * Resolve a file path to workspace-relative or absolute URI
    * Handles both relative and absolute paths using manual path construction for compatibility
    */
-  private resolveWorkspaceFileUri(configuredPath: string): vscode.Uri | null {
+  private resolveWorkspaceFileUri(
+    configuredPath: string,
+    workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+  ): vscode.Uri | null {
     if (
       !configuredPath ||
       typeof configuredPath !== "string" ||
@@ -962,8 +2099,7 @@ export class TasksDataService implements ITasksDataService {
     }
 
     // Handle relative paths with workspace resolution
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
+    if (!workspaceFolder) {
       console.warn(
         `[TasksDataService] No workspace folders available for path: ${trimmedPath}`
       );
@@ -971,7 +2107,6 @@ export class TasksDataService implements ITasksDataService {
     }
 
     // Manual path construction to bypass VS Code joinPath issues on Windows
-    const workspaceFolder = workspaceFolders[0];
     const workspacePath = workspaceFolder.uri.fsPath;
     const fullPath = path.resolve(workspacePath, trimmedPath);
     const uri = vscode.Uri.file(fullPath);
@@ -992,10 +2127,14 @@ export class TasksDataService implements ITasksDataService {
 
   // PATH-FIX-001: Manual path construction to bypass VS Code joinPath issues on Windows
   private async getTasksFileUri(
-    configuredPath: string
+    configuredPath: string,
+    workspaceFolder?: vscode.WorkspaceFolder
   ): Promise<vscode.Uri | null> {
     try {
-      const fileUri = this.resolveWorkspaceFileUri(configuredPath);
+      const fileUri = this.resolveWorkspaceFileUri(
+        configuredPath,
+        workspaceFolder
+      );
 
       if (!fileUri) {
         return null; // No workspace available or invalid path
@@ -1106,6 +2245,10 @@ export class TasksDataService implements ITasksDataService {
   dispose(): void {
     this.onTasksUpdated.dispose();
     this.onError.dispose();
+    this.onTaskCreated.dispose();
+    this.onTaskUpdated.dispose();
+    this.onTaskDeleted.dispose();
+    this.onTasksChanged.dispose();
   }
 }
 
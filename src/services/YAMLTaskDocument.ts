@@ -0,0 +1,851 @@
+/**
+ * YAMLTaskDocument - Reads tasks.yaml files into nodes that remember where
+ * each value sits, so problems are reported by line and writers can edit
+ * single values in place
+ * Covers block mappings and sequences, one-line flow collections, quoted,
+ * plain and block scalars; anchors, aliases, tags and multiple documents are
+ * reported as errors
+ * Free of VS Code APIs so the MCP server can share it
+ */
+
+export interface YAMLNode {
+  kind: "map" | "seq" | "scalar";
+  line: number; // 1-based line of the first character
+  start: number; // Offset of the first character
+  end: number; // Offset after the last character, comments excluded
+  flow: boolean; // Written inline as [...] or {...}
+  entries: YAMLEntry[]; // Maps only
+  items: YAMLNode[]; // Sequences only
+  value?: unknown; // Scalars only
+  style?: "plain" | "single" | "double" | "block"; // Scalars only
+  dash?: number; // Offset of the "-" of a block sequence item
+}
+
+export interface YAMLEntry {
+  key: string;
+  keyStart: number;
+  line: number;
+  colonEnd: number; // Offset after the ":" that ends the key
+  value: YAMLNode;
+}
+
+export interface YAMLTaskProblem {
+  line: number;
+  message: string;
+}
+
+/**
+ * Thrown when the text is not YAML this reader understands
+ */
+export class YAMLSyntaxError extends Error {
+  constructor(
+    public readonly line: number,
+    public readonly column: number,
+    public readonly reason: string
+  ) {
+    super(`${reason} (line ${line}, column ${column})`);
+    this.name = "YAMLSyntaxError";
+  }
+}
+
+/**
+ * Thrown when a tasks.yaml file cannot be read into tasks
+ */
+export class YAMLTaskFileError extends Error {
+  constructor(public readonly problems: YAMLTaskProblem[]) {
+    super(
+      `Invalid YAML in tasks file: ${problems
+        .map((problem) => `line ${problem.line}: ${problem.message}`)
+        .join("; ")}`
+    );
+    this.name = "YAMLTaskFileError";
+  }
+}
+
+interface SourceLine {
+  number: number;
+  offset: number;
+  text: string;
+  start: number; // Column where the content parsed next begins
+}
+
+// Status spellings JSONTaskContentParser understands
+const STATUSES = [
+  "not_started",
+  "not started",
+  "not-started",
+  "pending",
+  "to do",
+  "todo",
+  "in_progress",
+  "in progress",
+  "in-progress",
+  "review",
+  "ready_for_review",
+  "ready for review",
+  "ready-for-review",
+  "completed",
+  "done",
+  "blocked",
+  "deprecated",
+];
+const PRIORITIES = ["low", "medium", "high", "critical"];
+const COMPLEXITIES = ["low", "medium", "high", "extreme"];
+const LIST_FIELDS = ["dependencies", "requirements", "tags"];
+const NUMBER_FIELDS = ["estimatedHours", "actualHours"];
+
+const MAP_KEY =
+  /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s#"'[\]{},:][^#]*?)[ \t]*:(?=[ \t]|$)/;
+const SEQUENCE_ITEM = /^-(?=[ \t]|$)/;
+const BLOCK_SCALAR_HEADER = /^([|>])([+-]?)([1-9]?)[ \t]*(?:#.*)?$/;
+
+export function isYAMLTaskFile(filePath: string): boolean {
+  return /\.ya?ml$/i.test(filePath);
+}
+
+/**
+ * Parse YAML text into nodes; an empty document is a null scalar
+ * @throws YAMLSyntaxError with the line of the first problem
+ */
+export function parseYAMLNodes(content: string): YAMLNode {
+  return new YAMLReader(content).read();
+}
+
+/**
+ * Plain value of a node: objects, arrays, strings, numbers, booleans, null
+ */
+export function toYAMLValue(node: YAMLNode): unknown {
+  if (node.kind === "map") {
+    return Object.fromEntries(
+      node.entries.map((entry) => [entry.key, toYAMLValue(entry.value)])
+    );
+  }
+  if (node.kind === "seq") {
+    return node.items.map(toYAMLValue);
+  }
+  return node.value;
+}
+
+export function getYAMLEntry(
+  node: YAMLNode,
+  key: string
+): YAMLEntry | undefined {
+  return node.entries.find((entry) => entry.key === key);
+}
+
+/**
+ * Value of a plain scalar under the YAML 1.2 core schema
+ */
+export function resolvePlain(raw: string): unknown {
+  if (/^(?:~|null|Null|NULL)?$/.test(raw)) {
+    return null;
+  }
+  if (/^(?:true|True|TRUE)$/.test(raw)) {
+    return true;
+  }
+  if (/^(?:false|False|FALSE)$/.test(raw)) {
+    return false;
+  }
+  if (/^[-+]?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?$/.test(raw)) {
+    return Number(raw);
+  }
+  return raw;
+}
+
+/**
+ * Parse and check a tasks.yaml file
+ * @returns The nested contexts object, shaped like tasks.json
+ * @throws YAMLTaskFileError listing every problem with its line
+ */
+export function readYAMLTasks(content: string): Record<string, unknown> {
+  let root: YAMLNode;
+  try {
+    root = parseYAMLNodes(content);
+  } catch (error) {
+    if (error instanceof YAMLSyntaxError) {
+      throw new YAMLTaskFileError([
+        { line: error.line, message: error.reason },
+      ]);
+    }
+    throw error;
+  }
+
+  const problems = validateYAMLTasks(root);
+  if (problems.length > 0) {
+    throw new YAMLTaskFileError(problems);
+  }
+  return root.kind === "map"
+    ? (toYAMLValue(root) as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Check that a document has the nested contexts structure of tasks.json
+ * and that task fields hold values the Task model accepts
+ */
+export function validateYAMLTasks(root: YAMLNode): YAMLTaskProblem[] {
+  const problems: YAMLTaskProblem[] = [];
+  if (root.kind === "scalar" && root.value === null) {
+    return problems;
+  }
+  if (root.kind !== "map") {
+    return [
+      {
+        line: root.line,
+        message: "Tasks file must contain a mapping of contexts",
+      },
+    ];
+  }
+
+  for (const context of root.entries) {
+    // Top-level entries without tasks are not contexts
+    const tasks =
+      context.value.kind === "map"
+        ? getYAMLEntry(context.value, "tasks")
+        : undefined;
+    if (
+      !tasks ||
+      (tasks.value.kind === "scalar" && tasks.value.value === null)
+    ) {
+      continue;
+    }
+    if (tasks.value.kind !== "seq") {
+      problems.push({
+        line: tasks.line,
+        message: `tasks of context "${context.key}" must be a list`,
+      });
+      continue;
+    }
+
+    const ids = new Set<string>();
+    for (const task of tasks.value.items) {
+      problems.push(...validateTask(task, context.key, ids));
+    }
+  }
+  return problems;
+}
+
+function validateTask(
+  task: YAMLNode,
+  contextName: string,
+  ids: Set<string>
+): YAMLTaskProblem[] {
+  if (task.kind !== "map") {
+    return [{ line: task.line, message: "Task must be a mapping of fields" }];
+  }
+
+  const problems: YAMLTaskProblem[] = [];
+  const id = getYAMLEntry(task, "id");
+  const idValue = id?.value.value;
+  if (
+    !id ||
+    id.value.kind !== "scalar" ||
+    idValue === null ||
+    idValue === "" ||
+    typeof idValue === "boolean"
+  ) {
+    problems.push({ line: task.line, message: "Task is missing an id" });
+  } else if (ids.has(String(idValue))) {
+    problems.push({
+      line: id.line,
+      message: `Task id ${idValue} is used twice in context "${contextName}"`,
+    });
+  } else {
+    ids.add(String(idValue));
+  }
+
+  const label =
+    idValue !== undefined && idValue !== null ? `task ${idValue}` : "task";
+  for (const entry of task.entries) {
+    const problem = checkField(entry, label);
+    if (problem) {
+      problems.push({ line: entry.line, message: problem });
+    }
+  }
+
+  const subtasks = getYAMLEntry(task, "subtasks");
+  if (subtasks?.value.kind === "seq") {
+    for (const subtask of subtasks.value.items) {
+      if (subtask.kind !== "map" || !getYAMLEntry(subtask, "id")) {
+        problems.push({
+          line: subtask.line,
+          message: `Subtask of ${label} must be a mapping with an id`,
+        });
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * @returns Why the field value cannot be used, or undefined if it can
+ */
+function checkField(entry: YAMLEntry, label: string): string | undefined {
+  const { key, value } = entry;
+  if (value.kind === "scalar" && value.value === null) {
+    return undefined;
+  }
+  const text = value.kind === "scalar" ? String(value.value) : "";
+
+  switch (key) {
+    case "title":
+    case "description":
+      return value.kind === "scalar"
+        ? undefined
+        : `${key} of ${label} must be text`;
+    case "status":
+      return value.kind === "scalar" && STATUSES.includes(text.toLowerCase())
+        ? undefined
+        : `Unknown status "${text}" for ${label}`;
+    case "priority":
+      return value.kind === "scalar" && PRIORITIES.includes(text.toLowerCase())
+        ? undefined
+        : `Unknown priority "${text}" for ${label}; use ${PRIORITIES.join(", ")}`;
+    case "complexity":
+      return value.kind === "scalar" &&
+        COMPLEXITIES.includes(text.toLowerCase())
+        ? undefined
+        : `Unknown complexity "${text}" for ${label}; use ${COMPLEXITIES.join(", ")}`;
+    case "subtasks":
+      return value.kind === "seq"
+        ? undefined
+        : `subtasks of ${label} must be a list`;
+  }
+  if (LIST_FIELDS.includes(key)) {
+    return value.kind === "seq" &&
+      value.items.every((item) => item.kind === "scalar")
+      ? undefined
+      : `${key} of ${label} must be a list of values`;
+  }
+  if (NUMBER_FIELDS.includes(key)) {
+    return typeof value.value === "number"
+      ? undefined
+      : `${key} of ${label} must be a number`;
+  }
+  return undefined;
+}
+
+/**
+ * Recursive descent over the lines of a document; each block node starts
+ * at the current line's start column
+ */
+class YAMLReader {
+  private readonly lines: SourceLine[] = [];
+  private index = 0;
+
+  constructor(private readonly content: string) {
+    let offset = 0;
+    for (const [number, raw] of content.split("\n").entries()) {
+      const text = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+      const indent = /^ */.exec(text)![0].length;
+      this.lines.push({ number: number + 1, offset, text, start: indent });
+      offset += raw.length + 1;
+    }
+  }
+
+  read(): YAMLNode {
+    let line = this.peek();
+    if (line && /^---(?:[ \t]|$)/.test(line.text)) {
+      if (stripComment(line.text.slice(3)).trim()) {
+        this.fail(line, 3, "Content after --- is not supported");
+      }
+      this.index++;
+      line = this.peek();
+    }
+    if (!line) {
+      return scalarNode(null, "plain", 1, 0, 0);
+    }
+
+    const root = this.parseBlockAt(line, -1);
+    const rest = this.peek();
+    if (rest) {
+      this.fail(
+        rest,
+        rest.start,
+        /^---(?:[ \t]|$)/.test(rest.text)
+          ? "Multiple documents are not supported"
+          : "Unexpected content; check the indentation"
+      );
+    }
+    return root;
+  }
+
+  /**
+   * Next line with content, skipping blank and comment lines
+   */
+  private peek(): SourceLine | undefined {
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      const content = line.text.slice(line.start);
+      if (/^\.\.\.(?:[ \t]|$)/.test(line.text)) {
+        this.index = this.lines.length;
+        return undefined;
+      }
+      if (content.trim() && !content.trimStart().startsWith("#")) {
+        if (/^ *\t/.test(line.text)) {
+          this.fail(line, 0, "Tabs cannot be used for indentation");
+        }
+        return line;
+      }
+      this.index++;
+    }
+    return undefined;
+  }
+
+  private parseBlockAt(line: SourceLine, parentIndent: number): YAMLNode {
+    const text = line.text.slice(line.start);
+    if (SEQUENCE_ITEM.test(text)) {
+      return this.parseSequence(line.start);
+    }
+    if (MAP_KEY.test(text)) {
+      return this.parseMap(line.start);
+    }
+    return this.parseValueAt(line, line.start, parentIndent);
+  }
+
+  private parseSequence(indent: number): YAMLNode {
+    const first = this.lines[this.index];
+    const node = collectionNode("seq", first);
+    let line: SourceLine | undefined = first;
+
+    while (
+      line &&
+      line.start === indent &&
+      SEQUENCE_ITEM.test(line.text.slice(line.start))
+    ) {
+      const dash = line.offset + line.start;
+      const restColumn = this.skipSpaces(line, line.start + 1);
+      let item: YAMLNode;
+      if (!stripComment(line.text.slice(restColumn)).trim()) {
+        this.index++;
+        const next = this.peek();
+        item =
+          next && next.start > indent
+            ? this.parseBlockAt(next, indent)
+            : scalarNode(null, "plain", line.number, dash + 1, dash + 1);
+      } else {
+        line.start = restColumn;
+        item = this.parseBlockAt(line, indent);
+      }
+      item.dash = dash;
+      node.items.push(item);
+
+      line = this.peek();
+      if (line && line.start > indent) {
+        this.fail(line, line.start, "Bad indentation of a list item");
+      }
+    }
+
+    node.end = node.items[node.items.length - 1].end;
+    return node;
+  }
+
+  private parseMap(indent: number): YAMLNode {
+    const first = this.lines[this.index];
+    const node = collectionNode("map", first);
+    let line: SourceLine | undefined = first;
+
+    while (line && line.start === indent) {
+      const text = line.text.slice(line.start);
+      if (SEQUENCE_ITEM.test(text)) {
+        this.fail(
+          line,
+          line.start,
+          "List item where a mapping entry was expected"
+        );
+      }
+      const match = MAP_KEY.exec(text);
+      if (!match) {
+        this.fail(line, line.start, 'Expected "key: value"');
+      }
+      const key = readKey(match[1]);
+      if (getYAMLEntry(node, key)) {
+        this.fail(line, line.start, `Duplicate key "${key}"`);
+      }
+
+      const colonEnd = line.offset + line.start + match[0].length;
+      const valueColumn = this.skipSpaces(line, line.start + match[0].length);
+      const rest = stripComment(line.text.slice(valueColumn)).trim();
+      let value: YAMLNode;
+      if (!rest) {
+        this.index++;
+        const next = this.peek();
+        if (next && next.start > indent) {
+          value = this.parseBlockAt(next, indent);
+        } else if (
+          next &&
+          next.start === indent &&
+          SEQUENCE_ITEM.test(next.text.slice(next.start))
+        ) {
+          // Lists may sit at the indentation of their key
+          value = this.parseSequence(indent);
+        } else {
+          value = scalarNode(null, "plain", line.number, colonEnd, colonEnd);
+        }
+      } else {
+        value = this.parseValueAt(line, valueColumn, indent);
+      }
+
+      node.entries.push({
+        key,
+        keyStart: line.offset + line.start,
+        line: line.number,
+        colonEnd,
+        value,
+      });
+
+      line = this.peek();
+      if (line && line.start > indent) {
+        this.fail(line, line.start, "Bad indentation of a mapping entry");
+      }
+    }
+
+    node.end = node.entries[node.entries.length - 1].value.end;
+    return node;
+  }
+
+  /**
+   * Value written after "key:" or "-" on the current line; consumes the
+   * line and any lines a block scalar or multi-line plain scalar spans
+   */
+  private parseValueAt(
+    line: SourceLine,
+    column: number,
+    parentIndent: number
+  ): YAMLNode {
+    const text = line.text;
+    const start = line.offset + column;
+    const char = text[column];
+
+    if (char === "&" || char === "*" || char === "!") {
+      this.fail(line, column, "Anchors, aliases and tags are not supported");
+    }
+    if (char === "@" || char === "`" || char === "%") {
+      this.fail(line, column, `A value cannot start with ${char}`);
+    }
+
+    const header = BLOCK_SCALAR_HEADER.exec(text.slice(column));
+    if (header) {
+      return this.parseBlockScalar(line, column, parentIndent, header);
+    }
+
+    let node: YAMLNode;
+    let end: number;
+    if (char === "[" || char === "{") {
+      [node, end] = this.parseFlow(line, column);
+    } else if (char === '"' || char === "'") {
+      [node, end] = this.parseQuoted(line, column);
+    } else {
+      const raw = stripComment(text.slice(column)).trimEnd();
+      end = column + raw.length;
+      node = scalarNode(
+        resolvePlain(raw),
+        "plain",
+        line.number,
+        start,
+        line.offset + end
+      );
+    }
+
+    if (stripComment(text.slice(end)).trim()) {
+      this.fail(line, end, "Unexpected text after the value");
+    }
+    this.index++;
+
+    // Plain scalars continue on more indented lines, folded with spaces
+    if (node.style === "plain" && typeof node.value === "string") {
+      let next = this.peek();
+      while (next && next.start > parentIndent) {
+        const part = stripComment(next.text).trim();
+        if (MAP_KEY.test(part) || SEQUENCE_ITEM.test(part)) {
+          break;
+        }
+        node.value = `${node.value} ${part}`;
+        node.end = next.offset + next.text.indexOf(part) + part.length;
+        this.index++;
+        next = this.peek();
+      }
+    }
+    return node;
+  }
+
+  private parseBlockScalar(
+    line: SourceLine,
+    column: number,
+    parentIndent: number,
+    header: RegExpExecArray
+  ): YAMLNode {
+    const [, indicator, chomping, indentDigit] = header;
+    const node = scalarNode(
+      "",
+      "block",
+      line.number,
+      line.offset + column,
+      line.offset + line.text.length
+    );
+    this.index++;
+
+    const body: string[] = [];
+    let contentIndent = indentDigit
+      ? Math.max(parentIndent, 0) + Number(indentDigit)
+      : 0;
+    while (this.index < this.lines.length) {
+      const next = this.lines[this.index];
+      const indent = /^ */.exec(next.text)![0].length;
+      if (next.text.trim() && indent <= parentIndent) {
+        break;
+      }
+      if (!contentIndent && next.text.trim()) {
+        contentIndent = indent;
+      }
+      if (next.text.trim() && indent < contentIndent) {
+        break;
+      }
+      body.push(next.text.slice(contentIndent));
+      if (next.text.trim()) {
+        node.end = next.offset + next.text.length;
+      }
+      this.index++;
+    }
+
+    // Trailing blank lines belong to chomping, not to the next node
+    let trailing = 0;
+    while (body.length > 0 && !body[body.length - 1].trim()) {
+      body.pop();
+      trailing++;
+    }
+    this.index -= trailing;
+
+    const text =
+      indicator === "|"
+        ? body.join("\n")
+        : body
+            .join("\n")
+            .replace(/([^\n])\n(?=[^\n ])/g, "$1 ")
+            .replace(/\n\n/g, "\n");
+    if (chomping === "-" || body.length === 0) {
+      node.value = text;
+    } else if (chomping === "+") {
+      node.value = text + "\n".repeat(trailing + 1);
+    } else {
+      node.value = `${text}\n`;
+    }
+    return node;
+  }
+
+  private parseQuoted(line: SourceLine, column: number): [YAMLNode, number] {
+    const text = line.text;
+    const quote = text[column];
+    let pos = column + 1;
+    while (pos < text.length) {
+      if (quote === '"' && text[pos] === "\\") {
+        pos += 2;
+        continue;
+      }
+      if (text[pos] === quote) {
+        if (quote === "'" && text[pos + 1] === "'") {
+          pos += 2;
+          continue;
+        }
+        break;
+      }
+      pos++;
+    }
+    if (pos >= text.length) {
+      this.fail(line, column, "Quoted value must close on the same line");
+    }
+
+    const raw = text.slice(column, pos + 1);
+    let value: string;
+    if (quote === "'") {
+      value = raw.slice(1, -1).replace(/''/g, "'");
+    } else {
+      try {
+        value = JSON.parse(raw.replace(/\\'/g, "'").replace(/\\\//g, "/"));
+      } catch {
+        this.fail(line, column, "Invalid escape sequence in quoted value");
+      }
+    }
+    return [
+      scalarNode(
+        value,
+        quote === "'" ? "single" : "double",
+        line.number,
+        line.offset + column,
+        line.offset + pos + 1
+      ),
+      pos + 1,
+    ];
+  }
+
+  /**
+   * [...] or {...} written on one line
+   * @returns The node and the column after its closing bracket
+   */
+  private parseFlow(line: SourceLine, column: number): [YAMLNode, number] {
+    const text = line.text;
+    let pos = column;
+
+    const skip = () => {
+      while (text[pos] === " " || text[pos] === "\t") {
+        pos++;
+      }
+    };
+    const plainEnd = (stop: string) => {
+      let end = pos;
+      while (
+        end < text.length &&
+        !stop.includes(text[end]) &&
+        !(text[end] === ":" && /[\s,\]}]/.test(text[end + 1] ?? " ")) &&
+        !(text[end] === "#" && /\s/.test(text[end - 1]))
+      ) {
+        end++;
+      }
+      return end;
+    };
+
+    const parseItem = (): YAMLNode => {
+      skip();
+      const char = text[pos];
+      if (char === "[" || char === "{") {
+        const [node, end] = this.parseFlow(line, pos);
+        pos = end;
+        return node;
+      }
+      if (char === '"' || char === "'") {
+        const [node, end] = this.parseQuoted(line, pos);
+        pos = end;
+        return node;
+      }
+      if (char === "&" || char === "*" || char === "!") {
+        this.fail(line, pos, "Anchors, aliases and tags are not supported");
+      }
+      const start = pos;
+      const raw = text.slice(start, plainEnd(",]}")).trimEnd();
+      pos = start + raw.length;
+      return scalarNode(
+        resolvePlain(raw),
+        "plain",
+        line.number,
+        line.offset + start,
+        line.offset + pos
+      );
+    };
+
+    const isOpen = () => pos >= text.length || text[pos] === "#";
+    const failUnclosed = () =>
+      this.fail(
+        line,
+        column,
+        "Inline lists and mappings must close on the same line"
+      );
+
+    const node = collectionNode(text[column] === "[" ? "seq" : "map", line);
+    node.flow = true;
+    node.start = line.offset + column;
+    const close = node.kind === "seq" ? "]" : "}";
+    pos++;
+    skip();
+    while (text[pos] !== close) {
+      if (isOpen()) {
+        failUnclosed();
+      }
+      if (node.kind === "seq") {
+        node.items.push(parseItem());
+      } else {
+        const keyStart = pos;
+        const keyNode = parseItem();
+        skip();
+        if (text[pos] !== ":") {
+          this.fail(line, pos, 'Expected ":" after the key');
+        }
+        pos++;
+        const key = String(keyNode.value);
+        if (getYAMLEntry(node, key)) {
+          this.fail(line, keyStart, `Duplicate key "${key}"`);
+        }
+        node.entries.push({
+          key,
+          keyStart: line.offset + keyStart,
+          line: line.number,
+          colonEnd: line.offset + pos,
+          value: parseItem(),
+        });
+      }
+      skip();
+      if (text[pos] === ",") {
+        pos++;
+        skip();
+      } else if (isOpen()) {
+        failUnclosed();
+      } else if (text[pos] !== close) {
+        this.fail(line, pos, `Expected "," or "${close}"`);
+      }
+    }
+    pos++;
+    node.end = line.offset + pos;
+    return [node, pos];
+  }
+
+  private skipSpaces(line: SourceLine, column: number): number {
+    while (line.text[column] === " " || line.text[column] === "\t") {
+      column++;
+    }
+    return column;
+  }
+
+  private fail(line: SourceLine, column: number, reason: string): never {
+    throw new YAMLSyntaxError(line.number, column + 1, reason);
+  }
+}
+
+function collectionNode(kind: "map" | "seq", line: SourceLine): YAMLNode {
+  const start = line.offset + line.start;
+  return {
+    kind,
+    line: line.number,
+    start,
+    end: start,
+    flow: false,
+    entries: [],
+    items: [],
+  };
+}
+
+function scalarNode(
+  value: unknown,
+  style: YAMLNode["style"],
+  line: number,
+  start: number,
+  end: number
+): YAMLNode {
+  return {
+    kind: "scalar",
+    line,
+    start,
+    end,
+    flow: false,
+    entries: [],
+    items: [],
+    value,
+    style,
+  };
+}
+
+function readKey(raw: string): string {
+  if (raw.startsWith('"')) {
+    return JSON.parse(raw);
+  }
+  if (raw.startsWith("'")) {
+    return raw.slice(1, -1).replace(/''/g, "'");
+  }
+  return raw.trimEnd();
+}
+
+/**
+ * Text before a " #" comment; callers only pass text outside quotes
+ */
+function stripComment(text: string): string {
+  const match = /(^|[ \t])#/.exec(text);
+  return match ? text.slice(0, match.index) : text;
+}
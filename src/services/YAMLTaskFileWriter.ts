@@ -0,0 +1,512 @@
+/**
+ * YAMLTaskFileWriter - Writes field changes into nested contexts tasks.yaml
+ * files
+ * Edits only the affected values in the file text, so comments, key order,
+ * quoting, indentation and line endings stay as they were
+ * Free of VS Code APIs so the MCP server can share it
+ */
+
+import { TaskStatus } from "../types/tasks";
+import type { TaskFields } from "./JSONTaskFileWriter";
+import {
+  DEFAULT_TASK_CONTEXT,
+  isTaskContext,
+  parseTaskId,
+} from "./TaskContextIds";
+import {
+  YAMLNode,
+  getYAMLEntry,
+  parseYAMLNodes,
+  resolvePlain,
+  toYAMLValue,
+} from "./YAMLTaskDocument";
+
+interface TaskLocation {
+  context: YAMLNode;
+  tasks: YAMLNode; // The context's tasks sequence
+  index: number;
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const PLAIN_KEY = /^[A-Za-z_][\w.-]*$/;
+const PLAIN_TEXT = /^[^\s\-?:,[\]{}#&*!|>'"%@`][^#]*$/;
+
+function hasId(node: YAMLNode, id: string): boolean {
+  const idNode = node.kind === "map" ? getYAMLEntry(node, "id") : undefined;
+  return (
+    idNode?.value.kind === "scalar" &&
+    idNode.value.value !== null &&
+    String(idNode.value.value) === id
+  );
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+  // Apply back to front so earlier offsets stay valid
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, edit) =>
+        text.slice(0, edit.start) + edit.text + text.slice(edit.end),
+      content
+    );
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Values written on lines of their own: mappings and lists of mappings
+ */
+function isBlockValue(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some((item) => isPlainObject(item));
+  }
+  return isPlainObject(value) && Object.keys(value).length > 0;
+}
+
+function formatKey(key: string): string {
+  return PLAIN_KEY.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * A value in flow notation: plain scalars where they read back the same,
+ * double quotes otherwise
+ * @param style - Quoting of the value being replaced, kept where possible
+ */
+function formatInline(
+  value: unknown,
+  style?: YAMLNode["style"],
+  inFlow = false
+): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => formatInline(item, undefined, true)).join(", ")}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return `{${entries
+      .map(([k, v]) => `${formatKey(k)}: ${formatInline(v, undefined, true)}`)
+      .join(", ")}}`;
+  }
+  if (value === null || value === undefined) {
+    return "null";
+  }
+  if (typeof value !== "string") {
+    return String(value);
+  }
+
+  if (style === "single" && !value.includes("\n")) {
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+  const plain =
+    style !== "double" &&
+    PLAIN_TEXT.test(value) &&
+    value === value.trim() &&
+    !value.includes(": ") &&
+    !(inFlow && value.includes(",")) &&
+    resolvePlain(value) === value;
+  return plain ? value : JSON.stringify(value);
+}
+
+/**
+ * Lines of a mapping or list written in block notation
+ */
+function formatBlock(value: unknown, indent: string, unit: string): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => {
+      if (!isPlainObject(item) || Object.keys(item).length === 0) {
+        return [`${indent}- ${formatInline(item)}`];
+      }
+      const lines = formatBlock(item, `${indent}  `, unit);
+      lines[0] = `${indent}- ${lines[0].slice(indent.length + 2)}`;
+      return lines;
+    });
+  }
+
+  return Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined)
+    .flatMap(([key, v]) =>
+      isBlockValue(v)
+        ? [
+            `${indent}${formatKey(key)}:`,
+            ...formatBlock(v, indent + unit, unit),
+          ]
+        : [`${indent}${formatKey(key)}: ${formatInline(v)}`]
+    );
+}
+
+export class YAMLTaskFileWriter {
+  /**
+   * Set fields of a task, adding fields the entry does not have yet
+   *
+   * @param content - Text of the nested contexts tasks.yaml file
+   * @param taskId - ID of the task, "<context>:<id>" outside the default context
+   * @param fields - New field values; undefined values are skipped
+   * @param now - When given, refreshes lastModified if the task tracks it
+   * @returns The updated text, or null if no task has the ID
+   */
+  updateTask(
+    content: string,
+    taskId: string,
+    fields: TaskFields,
+    now?: Date
+  ): string | null {
+    const task = this.findTask(this.parse(content), taskId);
+    if (!task) {
+      return null;
+    }
+    return this.setFields(
+      content,
+      task,
+      now ? this.withLastModified(task, fields, now) : fields
+    );
+  }
+
+  /**
+   * Change the status of a task, or of a subtask given as "<taskId>.<subtaskId>"
+   * Entries that track lastModified get it refreshed
+   * @returns The updated text, or null if nothing has the ID
+   */
+  updateTaskStatus(
+    content: string,
+    id: string,
+    status: TaskStatus,
+    now: Date = new Date()
+  ): string | null {
+    const root = this.parse(content);
+    // Subtask IDs are only unique within their parent
+    const separator = id.lastIndexOf(".");
+    const entry =
+      this.findTask(root, id) ??
+      (separator > 0
+        ? this.findSubtask(
+            root,
+            id.slice(0, separator),
+            id.slice(separator + 1)
+          )
+        : undefined);
+    if (!entry) {
+      return null;
+    }
+
+    return this.setFields(
+      content,
+      entry,
+      this.withLastModified(entry, { status }, now)
+    );
+  }
+
+  /**
+   * Append a task to the tasks list of a context, creating the context
+   * when the file does not have it yet
+   */
+  addTask(
+    content: string,
+    task: TaskFields,
+    contextName: string = DEFAULT_TASK_CONTEXT
+  ): string {
+    const root = this.parse(content);
+    const context =
+      root.kind === "map" ? getYAMLEntry(root, contextName)?.value : undefined;
+    if (!context || context.kind !== "map") {
+      return this.setFields(content, root, {
+        [contextName]: { tasks: [task] },
+      });
+    }
+
+    const tasks = getYAMLEntry(context, "tasks")?.value;
+    if (!tasks || tasks.kind !== "seq" || tasks.items.length === 0) {
+      return this.setFields(content, context, { tasks: [task] });
+    }
+    return this.appendItem(content, tasks, task);
+  }
+
+  /**
+   * Add an empty context
+   * @returns The updated text, or null if the context already exists
+   */
+  addContext(content: string, contextName: string): string | null {
+    const root = this.parse(content);
+    if (root.kind === "map" && getYAMLEntry(root, contextName)) {
+      return null;
+    }
+    return this.setFields(content, root, { [contextName]: { tasks: [] } });
+  }
+
+  /**
+   * Names of the contexts in the file, in file order
+   */
+  listContexts(content: string): string[] {
+    const root = this.parse(content);
+    return root.entries
+      .filter((context) => isTaskContext(toYAMLValue(context.value)))
+      .map((context) => context.key);
+  }
+
+  /**
+   * The task entry as written, including fields the Task type does not know
+   * @returns The parsed entry, or null if no task has the ID
+   */
+  readTask(content: string, taskId: string): TaskFields | null {
+    const task = this.findTask(this.parse(content), taskId);
+    return task ? (toYAMLValue(task) as TaskFields) : null;
+  }
+
+  /**
+   * Remove a task with the lines it spans
+   * @returns The updated text, or null if no task has the ID
+   */
+  deleteTask(content: string, taskId: string): string | null {
+    const location = this.locateTask(this.parse(content), taskId);
+    if (!location) {
+      return null;
+    }
+
+    const { items } = location.tasks;
+    const { index } = location;
+    const item = items[index];
+    if (location.tasks.flow) {
+      if (index < items.length - 1) {
+        return applyEdits(content, [
+          { start: item.start, end: items[index + 1].start, text: "" },
+        ]);
+      }
+      return applyEdits(content, [
+        {
+          start: index > 0 ? items[index - 1].end : location.tasks.start + 1,
+          end: index > 0 ? item.end : location.tasks.end - 1,
+          text: "",
+        },
+      ]);
+    }
+
+    if (items.length === 1) {
+      // A block list cannot be empty; the context gets "tasks: []"
+      return this.setFields(content, location.context, { tasks: [] });
+    }
+    const start = this.lineStart(content, item.dash ?? item.start);
+    const end = this.nextLineStart(content, this.lineEnd(content, item.end));
+    return applyEdits(content, [{ start, end, text: "" }]);
+  }
+
+  private withLastModified(
+    entry: YAMLNode,
+    fields: TaskFields,
+    now: Date
+  ): TaskFields {
+    return getYAMLEntry(entry, "lastModified")
+      ? { ...fields, lastModified: now.toISOString() }
+      : fields;
+  }
+
+  /**
+   * @throws YAMLSyntaxError when the content is not YAML this reader knows
+   * @throws Error when the content is not a mapping of contexts
+   */
+  private parse(content: string): YAMLNode {
+    const root = parseYAMLNodes(content);
+    if (
+      root.kind === "map" ||
+      (root.kind === "scalar" && root.value === null)
+    ) {
+      return root;
+    }
+    throw new Error("Tasks file must contain a mapping of contexts");
+  }
+
+  private findTask(root: YAMLNode, taskId: string): YAMLNode | undefined {
+    const location = this.locateTask(root, taskId);
+    return location && location.tasks.items[location.index];
+  }
+
+  private locateTask(root: YAMLNode, taskId: string): TaskLocation | undefined {
+    const { context: contextName, id } = parseTaskId(taskId);
+    const context = getYAMLEntry(root, contextName)?.value;
+    const tasks =
+      context?.kind === "map"
+        ? getYAMLEntry(context, "tasks")?.value
+        : undefined;
+    const index =
+      tasks?.kind === "seq"
+        ? tasks.items.findIndex((item) => hasId(item, id))
+        : -1;
+    return context && tasks && index >= 0
+      ? { context, tasks, index }
+      : undefined;
+  }
+
+  private findSubtask(
+    root: YAMLNode,
+    taskId: string,
+    subtaskId: string
+  ): YAMLNode | undefined {
+    const task = this.findTask(root, taskId);
+    const subtasks = task && getYAMLEntry(task, "subtasks")?.value;
+    // Subtask IDs are written either bare ("2") or qualified ("1.2")
+    const qualifiedId = `${parseTaskId(taskId).id}.${subtaskId}`;
+    return subtasks?.items.find(
+      (item) => hasId(item, subtaskId) || hasId(item, qualifiedId)
+    );
+  }
+
+  private appendItem(content: string, list: YAMLNode, value: unknown): string {
+    const last = list.items[list.items.length - 1];
+    if (list.flow) {
+      return applyEdits(content, [
+        { start: last.end, end: last.end, text: `, ${formatInline(value)}` },
+      ]);
+    }
+
+    const eol = this.eol(content);
+    const first = list.items[0];
+    const indent = " ".repeat(this.column(content, first.dash ?? first.start));
+    const lines = formatBlock([value], indent, this.indentUnit(content));
+    const end = this.lineEnd(content, last.end);
+    return applyEdits(content, [
+      { start: end, end, text: eol + lines.join(eol) },
+    ]);
+  }
+
+  private setFields(
+    content: string,
+    entry: YAMLNode,
+    fields: TaskFields
+  ): string {
+    const eol = this.eol(content);
+    const unit = this.indentUnit(content);
+    const edits: TextEdit[] = [];
+    const added: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        continue;
+      }
+      const existing = getYAMLEntry(entry, key);
+      if (!existing) {
+        added[key] = value;
+        continue;
+      }
+
+      const node = existing.value;
+      const keyIndent = " ".repeat(this.column(content, existing.keyStart));
+      if (!entry.flow && isBlockValue(value)) {
+        edits.push({
+          start: existing.colonEnd,
+          end: node.end,
+          text: eol + formatBlock(value, keyIndent + unit, unit).join(eol),
+        });
+      } else if (
+        !entry.flow &&
+        !node.flow &&
+        node.kind === "seq" &&
+        Array.isArray(value) &&
+        value.length > 0
+      ) {
+        // Keep lists written one item per line that way
+        const itemIndent = " ".repeat(
+          this.column(content, node.items[0].dash ?? node.items[0].start)
+        );
+        edits.push({
+          start: this.lineEnd(content, existing.colonEnd),
+          end: node.end,
+          text: eol + formatBlock(value, itemIndent, unit).join(eol),
+        });
+      } else if (node.kind === "scalar" || node.flow) {
+        const text = formatInline(value, node.style, entry.flow);
+        edits.push({
+          start: node.start,
+          end: node.end,
+          text: node.start === existing.colonEnd ? ` ${text}` : text,
+        });
+      } else {
+        edits.push({
+          start: existing.colonEnd,
+          end: node.end,
+          text: ` ${formatInline(value)}`,
+        });
+      }
+    }
+
+    if (Object.keys(added).length > 0) {
+      edits.push(this.addEntries(content, entry, added, eol, unit));
+    }
+    return applyEdits(content, edits);
+  }
+
+  private addEntries(
+    content: string,
+    entry: YAMLNode,
+    fields: Record<string, unknown>,
+    eol: string,
+    unit: string
+  ): TextEdit {
+    if (entry.flow) {
+      const text = Object.entries(fields)
+        .map(
+          ([key, value]) =>
+            `${formatKey(key)}: ${formatInline(value, undefined, true)}`
+        )
+        .join(", ");
+      return entry.entries.length > 0
+        ? { start: entry.end - 1, end: entry.end - 1, text: `, ${text}` }
+        : { start: entry.start + 1, end: entry.end - 1, text };
+    }
+
+    if (entry.kind !== "map") {
+      // Empty document
+      const text = formatBlock(fields, "", unit).join(eol);
+      return {
+        start: 0,
+        end: content.length,
+        text: content.trim()
+          ? content.trimEnd() + eol + text + eol
+          : text + eol,
+      };
+    }
+
+    const indent = " ".repeat(this.column(content, entry.entries[0].keyStart));
+    const end = this.lineEnd(content, entry.end);
+    return {
+      start: end,
+      end,
+      text: eol + formatBlock(fields, indent, unit).join(eol),
+    };
+  }
+
+  private column(content: string, offset: number): number {
+    return offset - this.lineStart(content, offset);
+  }
+
+  private lineStart(content: string, offset: number): number {
+    return content.lastIndexOf("\n", offset - 1) + 1;
+  }
+
+  /**
+   * Offset of the line break ending the line that holds offset
+   */
+  private lineEnd(content: string, offset: number): number {
+    const newline = content.indexOf("\n", offset);
+    if (newline === -1) {
+      return content.length;
+    }
+    return content[newline - 1] === "\r" ? newline - 1 : newline;
+  }
+
+  private nextLineStart(content: string, lineEnd: number): number {
+    const newline = content.indexOf("\n", lineEnd);
+    return newline === -1 ? content.length : newline + 1;
+  }
+
+  private eol(content: string): string {
+    return content.includes("\r\n") ? "\r\n" : "\n";
+  }
+
+  private indentUnit(content: string): string {
+    return /\n( +)\S/.exec(content)?.[1] ?? "  ";
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * YAMLTaskParser - Parses nested contexts YAML task files
+ * tasks.yaml and tasks.yml use the context structure of tasks.json and
+ * become the same Task objects
+ */
+
+import { Task } from "../types/tasks";
+import { JSONTaskParser } from "./JSONTaskParser";
+import { readYAMLTasks } from "./YAMLTaskDocument";
+
+export class YAMLTaskParser extends JSONTaskParser {
+  /**
+   * Parse tasks from the text of a tasks.yaml file
+   *
+   * @param content - YAML text with one entry per context
+   * @returns Array of parsed Task objects
+   * @throws YAMLTaskFileError listing the lines with problems
+   */
+  parseTasksFromYAMLContent(content: string): Task[] {
+    return this.parseTasksFromJSONContent(readYAMLTasks(content));
+  }
+
+  protected parseFileContent(contentString: string): Task[] {
+    return this.parseTasksFromYAMLContent(contentString);
+  }
+}
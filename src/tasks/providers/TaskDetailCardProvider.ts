@@ -13,6 +13,7 @@ import * as vscode from "vscode";
 import { Task, TaskStatus } from "../types";
 import { TaskDetailFormatters } from './TaskDetailFormatters';
 import { TaskDetailHTMLGenerator } from './TaskDetailHTMLGenerator';
+import { TaskPromptGenerator } from '../../services/TaskPromptGenerator';
 
 /**
  * TaskDetailCardProvider implements vscode.WebviewViewProvider to display
@@ -106,6 +107,11 @@ export class TaskDetailCardProvider implements vscode.WebviewViewProvider {
    */
   private htmlGenerator = new TaskDetailHTMLGenerator();
 
+  /**
+   * Prompt generator shared with the MCP server's prompts/get
+   */
+  private promptGenerator = new TaskPromptGenerator();
+
   /**
    * Constructor for TaskDetailCardProvider
    * Simplified with inline time formatting methods
@@ -720,8 +726,7 @@ export class TaskDetailCardProvider implements vscode.WebviewViewProvider {
 
         case "generate-prompt":
           if (message.taskId) {
-            // Handle prompt generation (future implementation)
-            console.log("Generate prompt for task:", message.taskId);
+            this.handleGeneratePrompt(message.taskId);
           }
           break;
 
@@ -1049,6 +1054,37 @@ export class TaskDetailCardProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * Generates a prompt for the current task and copies it to the clipboard
+   * The prompt kind follows the task state: failing tests, review or implementation
+   *
+   * @param taskId - The ID of the task to generate a prompt for
+   */
+  private async handleGeneratePrompt(taskId: string): Promise<void> {
+    try {
+      if (!this.currentTask || this.currentTask.id !== taskId) {
+        console.warn("Prompt requested for non-current task:", taskId);
+        return;
+      }
+
+      const task = this.currentTask;
+      const promptName = this.promptGenerator.suggestPromptName(task);
+      const prompt = this.promptGenerator.generatePrompt(promptName, task);
+
+      await vscode.env.clipboard.writeText(prompt);
+      vscode.window.showInformationMessage(
+        `Prompt for task ${task.id} copied to clipboard`
+      );
+    } catch (error) {
+      console.error("Failed to generate prompt:", error);
+      vscode.window.showErrorMessage(
+        `Failed to generate prompt: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
   /**
    * Handles Cursor execution requests from the webview
    * Called when user requests Cursor AI integration for a task
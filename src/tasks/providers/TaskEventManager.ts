@@ -4,14 +4,15 @@
  */
 
 import * as vscode from "vscode";
-import { Task, TaskErrorResponse } from "../../types/tasks";
+import { TaskErrorResponse } from "../../types/tasks";
 import { TasksDataService } from "../../services";
+import { TaskListDiff } from "../../services/TaskListDiff";
 
 /**
  * Callback interface for event handlers
  */
 export interface EventCallbacks {
-  onTasksUpdated: (tasks: Task[]) => void;
+  onTasksChanged: (diff: TaskListDiff) => void;
   onServiceError: (error: TaskErrorResponse) => void;
   onMessageReceived: (message: any) => Promise<void>;
 }
@@ -31,11 +32,11 @@ export class TaskEventManager {
    * Setup all event handlers for data service events
    */
   public setupEventHandlers(): void {
-    // Listen for task updates
-    const tasksUpdatedDisposable = this.tasksDataService.onTasksUpdated.event(
-      (tasks: Task[]) => this.callbacks.onTasksUpdated(tasks)
+    // Listen for task changes, as differences to the previous task list
+    const tasksChangedDisposable = this.tasksDataService.onTasksChanged.event(
+      (diff: TaskListDiff) => this.callbacks.onTasksChanged(diff)
     );
-    this.disposables.push(tasksUpdatedDisposable);
+    this.disposables.push(tasksChangedDisposable);
 
     // Listen for service errors  
     const errorDisposable = this.tasksDataService.onError.event(
@@ -1,10 +1,47 @@
 import * as vscode from "vscode";
-import { Task, TaskStatus, STATUS_DISPLAY_NAMES } from "../../types/tasks";
+import { Subtask, Task, TaskSource, TaskStatus, STATUS_DISPLAY_NAMES } from "../../types/tasks";
 // Import bundled CSS content at build time
 import cssContent from './styles.css';
 // Import bundled JavaScript content at build time
 import jsContent from './webview.js';
 
+/**
+ * tasks.json contexts (tags) offered by the context switcher
+ */
+export interface ContextSelection {
+  contexts: string[];
+  selected: string | null; // null shows the tasks of all contexts
+}
+
+/**
+ * Workspace folders offered by the folder switcher in multi-root workspaces
+ */
+export interface FolderSelection {
+  folders: string[];
+  selected: string | null; // null shows the tasks of all folders, grouped
+}
+
+/**
+ * Task text that updateTaskContent in webview.js sets as textContent
+ */
+export interface TaskContentData {
+  id: string;
+  title: string;
+  description: string;
+  testStrategy: string;
+  dependencies: string[];
+  subtasks: Subtask[];
+  assignee: string;
+}
+
+const NO_FOLDER_SELECTION: FolderSelection = { folders: [], selected: null };
+
+const TASK_SOURCE_LABELS: Record<TaskSource, string> = {
+  aidm: '.aidm/.tasks',
+  file: 'Tasks file',
+  api: 'Task API',
+};
+
 /**
  * TaskHTMLGenerator - Responsible for generating all HTML content for the task webview
  * Extracted from TaskWebviewProvider to maintain single responsibility principle
@@ -75,15 +112,28 @@ export class TaskHTMLGenerator {
   /**
    * Generate the complete HTML content for the webview
    */
-  async generateFullHTML(tasks: Task[], expandedId: string | null = null, authStatusBanner: string = ''): Promise<string> {
-    return await this.generateTaskmasterHTML(tasks, authStatusBanner);
+  async generateFullHTML(
+    tasks: Task[],
+    expandedId: string | null = null,
+    authStatusBanner: string = '',
+    contextSelection: ContextSelection = { contexts: [], selected: null },
+    folderSelection: FolderSelection = NO_FOLDER_SELECTION
+  ): Promise<string> {
+    return await this.generateTaskmasterHTML(tasks, authStatusBanner, contextSelection, folderSelection);
   }
 
   /**
    * Send task data to webview for safe rendering (replaces HTML escaping)
    */
   sendTaskDataToWebview(tasks: Task[], webview: any): void {
-    const taskData = tasks.map((task) => ({
+    webview.postMessage({
+      type: "updateTaskData",
+      tasks: this.getTaskContentData(tasks),
+    });
+  }
+
+  getTaskContentData(tasks: Task[]): TaskContentData[] {
+    return tasks.map((task) => ({
       id: task.id,
       title: task.title || "",
       description: task.description || "No description available",
@@ -95,11 +145,13 @@ export class TaskHTMLGenerator {
       subtasks: task.subtasks || [],
       assignee: task.assignee || "dev-team",
     }));
+  }
 
-    webview.postMessage({
-      type: "updateTaskData",
-      tasks: taskData,
-    });
+  /**
+   * HTML of a single task item, for patching the rendered task list
+   */
+  async generateTaskItemHTML(task: Task): Promise<string> {
+    return this.generateTaskItem(task);
   }
 
   /**
@@ -147,11 +199,20 @@ export class TaskHTMLGenerator {
   /**
    * Generate complete Taskmaster dashboard HTML with CSS and JavaScript
    */
-  private async generateTaskmasterHTML(tasks: Task[], authStatusBanner: string = ''): Promise<string> {
+  private async generateTaskmasterHTML(
+    tasks: Task[],
+    authStatusBanner: string = '',
+    contextSelection: ContextSelection = { contexts: [], selected: null },
+    folderSelection: FolderSelection = NO_FOLDER_SELECTION
+  ): Promise<string> {
+    const groupByFolder =
+      folderSelection.folders.length > 1 && folderSelection.selected === null;
     const taskListHTML =
-      tasks.length > 0
-        ? (await Promise.all(tasks.map((task) => this.generateTaskItem(task)))).join("")
-        : '<div class="no-tasks">No tasks available</div>';
+      tasks.length === 0
+        ? '<div class="no-tasks">No tasks available</div>'
+        : groupByFolder
+          ? await this.generateFolderGroups(tasks, folderSelection.folders)
+          : (await Promise.all(tasks.map((task) => this.generateTaskItem(task)))).join("");
 
     return `<!DOCTYPE html>
 <html lang="en">
@@ -181,7 +242,7 @@ ${this.getAuthStatusCSS()}
         </div>
         <div class="sidebar-content">
             ${authStatusBanner}
-            ${this.generateWebviewHeader()}
+            ${this.generateWebviewHeader(contextSelection, folderSelection)}
             <div class="task-list">
                 ${taskListHTML}
             </div>
@@ -197,9 +258,86 @@ ${this.getAuthJavaScript()}
 
   /**
    * Generate webview header with filter controls
+   * The context switcher is only shown when the file has several contexts,
+   * the folder switcher only in multi-root workspaces
+   */
+  private generateWebviewHeader(
+    contextSelection: ContextSelection,
+    folderSelection: FolderSelection = NO_FOLDER_SELECTION
+  ): string {
+    const switchers: string[] = [];
+    if (folderSelection.folders.length > 1) {
+      switchers.push(this.generateSwitcher('Folder', 'All folders', 'selectFolder', folderSelection.folders, folderSelection.selected));
+    }
+    if (contextSelection.contexts.length > 1) {
+      switchers.push(this.generateSwitcher('Context', 'All contexts', 'selectContext', contextSelection.contexts, contextSelection.selected));
+    }
+    if (switchers.length === 0) {
+      return `<div class="webview-header"></div>`;
+    }
+
+    return `<div class="webview-header">
+      <div class="filter-controls">
+        ${switchers.join('\n        ')}
+      </div>
+    </div>`;
+  }
+
+  /**
+   * Select with an "all" option that calls a webview.js handler on change
+   */
+  private generateSwitcher(
+    label: string,
+    allLabel: string,
+    handler: string,
+    values: string[],
+    selected: string | null
+  ): string {
+    const options = [
+      `<option value=""${selected === null ? ' selected' : ''}>${allLabel}</option>`,
+      ...values.map((value) => {
+        const name = this.escapeHtml(value);
+        return `<option value="${name}"${value === selected ? ' selected' : ''}>${name}</option>`;
+      }),
+    ].join('');
+
+    return `<label class="context-switcher">
+          <span class="filter-label">${label}</span>
+          <select class="context-select" onchange="${handler}(this.value)">${options}</select>
+        </label>`;
+  }
+
+  /**
+   * Task list grouped under a header per workspace folder, in folder order
    */
-  private generateWebviewHeader(): string {
-    return `<div class="webview-header"></div>`;
+  private async generateFolderGroups(tasks: Task[], folders: string[]): Promise<string> {
+    const groups = await Promise.all(
+      folders.map(async (folder) => {
+        const folderTasks = tasks.filter((task) => task.workspaceFolder === folder);
+        if (folderTasks.length === 0) {
+          return '';
+        }
+        const repository = folderTasks[0].repository;
+        const repositoryLabel =
+          repository && repository !== folder
+            ? ` <span class="folder-group-repository">${this.escapeHtml(repository)}</span>`
+            : '';
+        const items = await Promise.all(folderTasks.map((task) => this.generateTaskItem(task)));
+        return `<div class="folder-group" data-folder="${this.escapeHtml(folder)}">
+          <div class="folder-group-header">${this.escapeHtml(folder)}${repositoryLabel}</div>
+          ${items.join('')}
+        </div>`;
+      })
+    );
+    return groups.join('');
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
   }
 
   /**
@@ -286,14 +424,27 @@ ${this.getAuthJavaScript()}
       .replace('{{id}}', task.id)
       .replace('{{statusClass}}', statusClass)
       .replace('{{statusDisplay}}', statusDisplay)
-      .replace('{{executableIcon}}', executableIcon);
+      .replace('{{executableIcon}}', executableIcon + this.generateConflictBadge(task));
+  }
+
+  /**
+   * Warning badge for tasks other sources hold with different values
+   */
+  private generateConflictBadge(task: Task): string {
+    if (!task.sourceConflicts || task.sourceConflicts.length === 0) {
+      return '';
+    }
+    const details = task.sourceConflicts
+      .map((conflict) => `${TASK_SOURCE_LABELS[conflict.source]}: ${conflict.fields.join(', ')}`)
+      .join('; ');
+    return `<span class="task-conflict" title="Differs in ${this.escapeHtml(details)}">conflict</span>`;
   }
 
   private async generateTaskDetails(task: Task): Promise<string> {
     const template = await this.loadTemplate('task-details');
     return template
       .replace('{{testStrategy}}', this.generateTestStrategy(task))
-      .replace('{{taskMeta}}', this.generateTaskMeta(task))
+      .replace('{{taskMeta}}', this.generateTaskMeta(task) + this.generateSourceConflicts(task))
       .replace('{{dependencies}}', this.generateDependencies(task))
       .replace('{{testResults}}', this.generateTestResults(task))
       .replace('{{actions}}', this.generateActions(task));
@@ -321,7 +472,37 @@ ${this.getAuthJavaScript()}
         <div class="meta-value">${
           task.estimatedDuration || "Not specified"
         }</div>
-      </div>
+      </div>${
+        task.source
+          ? `
+      <div class="meta-item">
+        <div class="meta-label">Source</div>
+        <div class="meta-value">${TASK_SOURCE_LABELS[task.source]}</div>
+      </div>`
+          : ""
+      }
+    </div>`;
+  }
+
+  /**
+   * Fields other sources hold different values for; changes are saved to
+   * the source shown in the task meta
+   */
+  private generateSourceConflicts(task: Task): string {
+    if (!task.sourceConflicts || task.sourceConflicts.length === 0) {
+      return "";
+    }
+    const items = task.sourceConflicts
+      .map(
+        (conflict) =>
+          `<li>${TASK_SOURCE_LABELS[conflict.source]} differs in ${this.escapeHtml(
+            conflict.fields.join(", ")
+          )}</li>`
+      )
+      .join("");
+    return `<div class="source-conflicts">
+      <div class="source-conflicts-title">Source conflicts</div>
+      <ul class="source-conflicts-list">${items}</ul>
     </div>`;
   }
 
@@ -141,11 +141,13 @@ export class TaskMessageHandler {
       }
 
       const commitHash = task.implementation.commitHash;
+      const workspaceRoot = this.getTaskWorkspaceFolder(task);
 
       // Validate git diff operation with VS Code-specific checks
       const validation = await this.validateGitDiffOperation(
         taskId,
-        commitHash
+        commitHash,
+        workspaceRoot
       );
       if (!validation.valid) {
         await this.handleGitDiffError(validation.error!, taskId, commitHash);
@@ -155,7 +157,7 @@ export class TaskMessageHandler {
       // Get changed files from git commit
       const changedFiles = await GitUtilities.getChangedFilesFromCommit(
         commitHash,
-        vscode.workspace.workspaceFolders![0].uri.fsPath
+        workspaceRoot!.uri.fsPath
       );
 
       if (changedFiles.length === 0) {
@@ -170,7 +172,7 @@ export class TaskMessageHandler {
           await this.openDiffForFile(
             filePath,
             commitHash,
-            vscode.workspace.workspaceFolders![0].uri
+            workspaceRoot!.uri
           );
           successfulDiffs++;
           console.debug(
@@ -217,23 +219,34 @@ export class TaskMessageHandler {
     }
   }
 
+  /**
+   * Workspace folder holding a task's repository: the folder the task was
+   * loaded from, else the first one
+   */
+  private getTaskWorkspaceFolder(
+    task: Task
+  ): vscode.WorkspaceFolder | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+    return (
+      workspaceFolders.find((folder) => folder.name === task.workspaceFolder) ??
+      workspaceFolders[0]
+    );
+  }
+
   /**
    * Validate git diff operation with VS Code-specific checks
    */
   private async validateGitDiffOperation(
     taskId: string,
-    commitHash: string
+    commitHash: string,
+    workspaceRoot: vscode.WorkspaceFolder | undefined
   ): Promise<{ valid: boolean; error?: string }> {
     try {
       // Check workspace availability
-      if (
-        !vscode.workspace.workspaceFolders ||
-        vscode.workspace.workspaceFolders.length === 0
-      ) {
+      if (!workspaceRoot) {
         return { valid: false, error: "NO_WORKSPACE" };
       }
 
-      const workspaceRoot = vscode.workspace.workspaceFolders[0];
       console.debug(
         `[TaskMessageHandler] Using workspace root: ${workspaceRoot.uri.fsPath}`
       );
@@ -1,6 +1,7 @@
 /**
  * TaskViewState Class
- * Manages webview state including expanded tasks, filters, and search queries
+ * Manages webview state including expanded tasks, filters, search queries,
+ * the selected tasks.json context and the selected workspace folder
  * REF-012: Extract state management from TaskWebviewProvider
  *
  * This class centralizes all webview state management with VSCode workspace persistence.
@@ -16,6 +17,8 @@ interface ViewStateData {
   expandedTaskId?: string | null;
   filter?: string;
   searchQuery?: string;
+  selectedContext?: string | null;
+  selectedFolder?: string | null;
   lastUpdated?: number;
 }
 
@@ -27,6 +30,8 @@ export class TaskViewState {
   private expandedTaskId: string | null = null;
   private currentFilter: string = 'all';
   private searchQuery: string = '';
+  private selectedContext: string | null = null;
+  private selectedFolder: string | null = null;
   private readonly stateKey = 'taskmaster.viewState';
 
   constructor(private readonly context: vscode.ExtensionContext) {
@@ -84,6 +89,40 @@ export class TaskViewState {
     return this.searchQuery;
   }
 
+  /**
+   * Set the tasks.json context (tag) whose tasks are shown
+   * @param context - Context name, or null to show all contexts
+   */
+  setContext(context: string | null): void {
+    this.selectedContext = context;
+    this.saveState();
+  }
+
+  /**
+   * Get the selected tasks.json context
+   * @returns Selected context name, or null when all contexts are shown
+   */
+  getContext(): string | null {
+    return this.selectedContext;
+  }
+
+  /**
+   * Set the workspace folder whose tasks are shown
+   * @param folder - Folder name, or null to show all folders
+   */
+  setFolder(folder: string | null): void {
+    this.selectedFolder = folder;
+    this.saveState();
+  }
+
+  /**
+   * Get the selected workspace folder
+   * @returns Selected folder name, or null when all folders are shown
+   */
+  getFolder(): string | null {
+    return this.selectedFolder;
+  }
+
   /**
    * Toggle expanded state for a task (accordion behavior)
    * @param taskId - Task ID to toggle
@@ -123,11 +162,15 @@ export class TaskViewState {
       this.expandedTaskId = state.expandedTaskId || null;
       this.currentFilter = state.filter || 'all';
       this.searchQuery = state.searchQuery || '';
+      this.selectedContext = state.selectedContext || null;
+      this.selectedFolder = state.selectedFolder || null;
 
       console.debug('TaskViewState: State loaded from workspace storage:', {
         expandedTaskId: this.expandedTaskId,
         filter: this.currentFilter,
         searchQuery: this.searchQuery,
+        selectedContext: this.selectedContext,
+        selectedFolder: this.selectedFolder,
         lastUpdated: state.lastUpdated ? new Date(state.lastUpdated).toISOString() : 'never'
       });
     } catch (error) {
@@ -136,6 +179,8 @@ export class TaskViewState {
       this.expandedTaskId = null;
       this.currentFilter = 'all';
       this.searchQuery = '';
+      this.selectedContext = null;
+      this.selectedFolder = null;
     }
   }
 
@@ -148,6 +193,8 @@ export class TaskViewState {
         expandedTaskId: this.expandedTaskId,
         filter: this.currentFilter,
         searchQuery: this.searchQuery,
+        selectedContext: this.selectedContext,
+        selectedFolder: this.selectedFolder,
         lastUpdated: Date.now()
       };
 
@@ -157,6 +204,8 @@ export class TaskViewState {
         expandedTaskId: this.expandedTaskId,
         filter: this.currentFilter,
         searchQuery: this.searchQuery,
+        selectedContext: this.selectedContext,
+        selectedFolder: this.selectedFolder,
         timestamp: Date.now()
       });
     } catch (error) {
@@ -171,6 +220,8 @@ export class TaskViewState {
     this.expandedTaskId = null;
     this.currentFilter = 'all';
     this.searchQuery = '';
+    this.selectedContext = null;
+    this.selectedFolder = null;
     this.saveState();
     
     console.debug('TaskViewState: State reset to defaults');
@@ -179,11 +230,19 @@ export class TaskViewState {
   /**
    * Get a summary of current state for debugging
    */
-  getStateSummary(): { expandedTaskId: string | null; filter: string; searchQuery: string } {
+  getStateSummary(): {
+    expandedTaskId: string | null;
+    filter: string;
+    searchQuery: string;
+    selectedContext: string | null;
+    selectedFolder: string | null;
+  } {
     return {
       expandedTaskId: this.expandedTaskId,
       filter: this.currentFilter,
-      searchQuery: this.searchQuery
+      searchQuery: this.searchQuery,
+      selectedContext: this.selectedContext,
+      selectedFolder: this.selectedFolder
     };
   }
 }
\ No newline at end of file
@@ -10,7 +10,9 @@ import * as fs from "fs";
 import * as path from "path";
 import { Task, TaskErrorResponse } from "../../types/tasks";
 import { TasksDataService } from "../../services";
+import { TaskListDiff } from "../../services/TaskListDiff";
 import { TaskHTMLGenerator } from "./TaskHTMLGenerator";
+import { DEFAULT_TASK_CONTEXT } from "../../services/TaskContextIds";
 import { TaskMessageHandler } from "./TaskMessageHandler";
 import { TaskViewState } from "./TaskViewState";
 import { TaskEventManager, EventCallbacks } from "./TaskEventManager";
@@ -27,6 +29,21 @@ export interface WebviewController {
   dispose(): void;
 }
 
+// Fields updateTaskContent in webview.js sets in place; changes to any other
+// field replace the task item
+const CONTENT_FIELDS = ["title", "description", "testStrategy", "dependencies"];
+
+/**
+ * What the last full render of the task list shows, to patch it later
+ */
+interface RenderedTaskList {
+  taskIds: string[]; // In list order
+  contexts: string[];
+  context: string | null; // Selected context
+  folder: string | null; // Selected folder
+  grouped: boolean; // Grouped under folder headers
+}
+
 /**
  * TaskWebviewController orchestrates all webview operations
  * Separates business logic from view management
@@ -43,6 +60,10 @@ export class TaskWebviewController implements WebviewController {
   // State management
   private isInitialized: boolean = false;
   private refreshInProgress: boolean = false;
+  private patchInProgress: boolean = false;
+  private refreshPending: boolean = false; // Changes arrived during a render
+  private patchQueue: Promise<void> = Promise.resolve();
+  private renderedList: RenderedTaskList | null = null;
 
   constructor(
     private readonly tasksDataService: TasksDataService,
@@ -55,7 +76,7 @@ export class TaskWebviewController implements WebviewController {
     
     // Setup orchestration callbacks
     const orchestrationCallbacks: EventCallbacks = {
-      onTasksUpdated: (tasks: Task[]) => this.orchestrateTasksUpdate(tasks),
+      onTasksChanged: (diff: TaskListDiff) => this.orchestrateTasksChange(diff),
       onServiceError: (error: TaskErrorResponse) => this.orchestrateErrorHandling(error),
       onMessageReceived: async (message: any) => this.orchestrateMessageProcessing(message)
     };
@@ -164,16 +185,141 @@ export class TaskWebviewController implements WebviewController {
   }
 
   /**
-   * Orchestrate tasks update events
+   * Orchestrate task change events
    * @private orchestration method
    */
-  private orchestrateTasksUpdate(tasks: Task[]): void {
+  private orchestrateTasksChange(diff: TaskListDiff): void {
     if (this.view && this.isInitialized) {
-      // Coordinate update with state preservation
-      this.orchestrateContentRefresh().catch(error => {
-        console.error("TaskWebviewController: Tasks update orchestration failed:", error);
+      // Patch the rendered list so scroll position and focus survive; each
+      // diff builds on the previous one, so patches are applied in order
+      this.patchQueue = this.patchQueue
+        .then(() => this.orchestrateTaskPatch(diff))
+        .catch(error => {
+          console.error("TaskWebviewController: Tasks update orchestration failed:", error);
+        });
+    }
+  }
+
+  /**
+   * Orchestrate patching the rendered task list with a task diff
+   * Falls back to a full refresh when the layout around the tasks changes:
+   * folder groups, the empty list placeholder or a new context
+   * @private orchestration method
+   */
+  private async orchestrateTaskPatch(diff: TaskListDiff): Promise<void> {
+    const rendered = this.renderedList;
+    if (!this.view) {
+      return;
+    }
+    // The render in progress may predate the diff; render again after it
+    if (this.refreshInProgress) {
+      this.refreshPending = true;
+      return;
+    }
+    const changedTasks = [...diff.added, ...diff.changed.map((change) => change.task)];
+    const hasNewContext = changedTasks.some(
+      (task) =>
+        rendered !== null &&
+        rendered.contexts.length > 0 &&
+        !rendered.contexts.includes(task.context ?? DEFAULT_TASK_CONTEXT)
+    );
+    if (!rendered || rendered.grouped || rendered.taskIds.length === 0 || hasNewContext) {
+      await this.orchestrateContentRefresh();
+      return;
+    }
+
+    const isVisible = (task: Task) =>
+      (rendered.context === null ||
+        (task.context ?? DEFAULT_TASK_CONTEXT) === rendered.context) &&
+      (rendered.folder === null || task.workspaceFolder === rendered.folder);
+    const renderedIds = new Set(rendered.taskIds);
+    const removed = diff.removed.filter((id) => renderedIds.has(id));
+    const inserted: Task[] = [];
+    const replaced: Task[] = [];
+    const updated: Task[] = [];
+    for (const task of diff.added) {
+      if (isVisible(task)) {
+        (renderedIds.has(task.id) ? replaced : inserted).push(task);
+      }
+    }
+    for (const { task, fields } of diff.changed) {
+      if (!renderedIds.has(task.id)) {
+        if (isVisible(task)) {
+          inserted.push(task);
+        }
+      } else if (!isVisible(task)) {
+        removed.push(task.id);
+      } else if (fields.every((field) => CONTENT_FIELDS.includes(field))) {
+        updated.push(task);
+      } else {
+        replaced.push(task);
+      }
+    }
+
+    const removedIds = new Set(removed);
+    const insertedIds = new Set(inserted.map((task) => task.id));
+    const taskIds = diff.order.filter(
+      (id) => (renderedIds.has(id) && !removedIds.has(id)) || insertedIds.has(id)
+    );
+    if (taskIds.length === 0) {
+      await this.orchestrateContentRefresh();
+      return;
+    }
+
+    // Full refreshes requested while the patch is prepared run after it
+    this.patchInProgress = true;
+    try {
+      // New tasks go before the next task that is already rendered, so tasks
+      // inserted one after the other keep their order
+      const insertBefore = (id: string) =>
+        taskIds
+          .slice(taskIds.indexOf(id) + 1)
+          .find((nextId) => !insertedIds.has(nextId)) ?? null;
+      const added = await Promise.all(
+        inserted
+          .sort((a, b) => taskIds.indexOf(a.id) - taskIds.indexOf(b.id))
+          .map(async (task) => ({
+            id: task.id,
+            html: await this.htmlGenerator.generateTaskItemHTML(task),
+            before: insertBefore(task.id),
+          }))
+      );
+      const replacements = await Promise.all(
+        replaced.map(async (task) => ({
+          id: task.id,
+          html: await this.htmlGenerator.generateTaskItemHTML(task),
+        }))
+      );
+
+      rendered.taskIds = taskIds;
+      if (removedIds.has(this.viewState.getExpandedTask() ?? "")) {
+        this.viewState.setExpandedTask(null);
+      }
+      await this.view.webview.postMessage({
+        type: "patchTasks",
+        removed,
+        added,
+        replaced: replacements,
+        tasks: this.htmlGenerator.getTaskContentData([...inserted, ...replaced, ...updated]),
       });
+    } finally {
+      this.patchInProgress = false;
+      this.runPendingRefresh();
+    }
+  }
+
+  /**
+   * Run the full refresh that was held back while rendering
+   * @private orchestration method
+   */
+  private runPendingRefresh(): void {
+    if (!this.refreshPending) {
+      return;
     }
+    this.refreshPending = false;
+    this.orchestrateContentRefresh().catch(error => {
+      console.error("TaskWebviewController: Pending refresh orchestration failed:", error);
+    });
   }
 
   /**
@@ -201,6 +347,18 @@ export class TaskWebviewController implements WebviewController {
       return;
     }
 
+    if (message.type === 'selectContext') {
+      this.viewState.setContext(message.context || null);
+      await this.orchestrateContentRefresh();
+      return;
+    }
+
+    if (message.type === 'selectFolder') {
+      this.viewState.setFolder(message.folder || null);
+      await this.orchestrateContentRefresh();
+      return;
+    }
+
     if (this.messageHandler) {
       try {
         await this.messageHandler.handleMessage(message);
@@ -226,7 +384,11 @@ export class TaskWebviewController implements WebviewController {
    * @private orchestration method
    */
   private async orchestrateContentRefresh(): Promise<void> {
-    if (!this.view || this.refreshInProgress) {
+    if (!this.view) {
+      return;
+    }
+    if (this.refreshInProgress || this.patchInProgress) {
+      this.refreshPending = true;
       return;
     }
     
@@ -234,17 +396,50 @@ export class TaskWebviewController implements WebviewController {
     
     try {
       // Coordinate data retrieval
-      const tasks = await this.tasksDataService.getTasks();
+      const allTasks = await this.tasksDataService.getTasks();
       const expandedId = this.viewState.getExpandedTask();
 
+      // A remembered context that is gone from the file shows all contexts
+      const contexts = await this.tasksDataService.getTaskContexts();
+      const savedContext = this.viewState.getContext();
+      const selected =
+        savedContext && contexts.includes(savedContext) ? savedContext : null;
+      const contextTasks = selected
+        ? allTasks.filter((task) => (task.context ?? DEFAULT_TASK_CONTEXT) === selected)
+        : allTasks;
+
+      // Tasks only carry their folder in multi-root workspaces
+      const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
+      const folders =
+        workspaceFolders.length > 1 ? workspaceFolders.map((folder) => folder.name) : [];
+      const savedFolder = this.viewState.getFolder();
+      const selectedFolder =
+        savedFolder && folders.includes(savedFolder) ? savedFolder : null;
+      const tasks = selectedFolder
+        ? contextTasks.filter((task) => task.workspaceFolder === selectedFolder)
+        : contextTasks;
+
       // Generate authentication status banner
       const authStatusBanner = this.generateAuthStatusBanner();
 
       // Coordinate HTML generation with auth status
-      const html = await this.htmlGenerator.generateFullHTML(tasks, expandedId, authStatusBanner);
+      const html = await this.htmlGenerator.generateFullHTML(
+        tasks,
+        expandedId,
+        authStatusBanner,
+        { contexts, selected },
+        { folders, selected: selectedFolder }
+      );
 
       // Coordinate view update
       this.view.webview.html = html;
+      this.renderedList = {
+        taskIds: tasks.map((task) => task.id),
+        contexts,
+        context: selected,
+        folder: selectedFolder,
+        grouped: folders.length > 1 && selectedFolder === null,
+      };
       
       // Coordinate state restoration
       if (expandedId) {
@@ -255,6 +450,7 @@ export class TaskWebviewController implements WebviewController {
       this.displayErrorState("Failed to load tasks.");
     } finally {
       this.refreshInProgress = false;
+      this.runPendingRefresh();
     }
   }
 
@@ -318,6 +514,7 @@ export class TaskWebviewController implements WebviewController {
     `;
     
     this.view.webview.html = errorHtml;
+    this.renderedList = null;
   }
 
   /**
@@ -49,6 +49,20 @@ function restoreExpandedTask(taskId) {
   }
 }
 
+/**
+ * Context switcher; an empty value shows all contexts
+ */
+function selectContext(context) {
+  sendMessage('selectContext', { context: context || null });
+}
+
+/**
+ * Folder switcher in multi-root workspaces; an empty value shows all folders
+ */
+function selectFolder(folder) {
+  sendMessage('selectFolder', { folder: folder || null });
+}
+
 /**
  * Message sending functionality
  */
@@ -69,9 +83,60 @@ window.addEventListener('message', function(event) {
   const message = event.data;
   if (message.type === 'updateTaskData') {
     updateTaskContent(message.tasks);
+  } else if (message.type === 'patchTasks') {
+    applyTaskPatch(message);
   }
 });
 
+function findTaskElement(taskId) {
+  return document.querySelector('.task-item[data-task-id="' + CSS.escape(taskId) + '"]');
+}
+
+function createTaskElement(html) {
+  const template = document.createElement('template');
+  template.innerHTML = html.trim();
+  return template.content.firstElementChild;
+}
+
+/**
+ * Apply a task diff to the rendered list without rebuilding it, so scroll
+ * position, focus and the expanded task survive; text is filled in last
+ * by updateTaskContent
+ */
+function applyTaskPatch(patch) {
+  const taskList = document.querySelector('.task-list');
+  if (!taskList) return;
+
+  patch.removed.forEach(taskId => {
+    const taskElement = findTaskElement(taskId);
+    if (taskElement) taskElement.remove();
+    if (expandedTaskId === taskId) expandedTaskId = null;
+  });
+
+  patch.replaced.forEach(item => {
+    const taskElement = findTaskElement(item.id);
+    const replacement = createTaskElement(item.html);
+    if (!taskElement || !replacement) return;
+    if (taskElement.classList.contains('expanded')) {
+      replacement.classList.add('expanded');
+    }
+    taskElement.replaceWith(replacement);
+  });
+
+  patch.added.forEach(item => {
+    const taskElement = createTaskElement(item.html);
+    if (!taskElement) return;
+    const nextElement = item.before ? findTaskElement(item.before) : null;
+    if (nextElement) {
+      nextElement.before(taskElement);
+    } else {
+      taskList.appendChild(taskElement);
+    }
+  });
+
+  updateTaskContent(patch.tasks);
+}
+
 function updateTaskContent(tasks) {
   tasks.forEach(task => {
     const taskElement = document.querySelector('[data-task-id="' + task.id + '"]');
@@ -254,13 +254,23 @@ export interface TaskJSONRPCRequest {
  * Task JSON-RPC parameters
  */
 export interface TaskJSONRPCParams {
+  id?: string; // Alias of taskId used by TasksDataService
   taskId?: string;
   status?: TaskStatus;
+  newStatus?: TaskStatus; // Alias of status used by TasksDataService
   filters?: any; // Use any to avoid circular import
+  query?: string; // Free-text match for tasks/search
   updates?: Partial<Task>;
   testResults?: TestStatus;
+  context?: string; // Target context for tasks/create
+  format?: TaskExportFormat;
 }
 
+/**
+ * Output formats supported by tasks/export
+ */
+export type TaskExportFormat = "json" | "csv";
+
 /**
  * Task JSON-RPC response interface
  */
@@ -280,7 +290,9 @@ export interface TaskJSONRPCResult {
   success?: boolean;
   message?: string;
   count?: number;
-  testResults?: TestStatus;
+  testResults?: TestStatus | null;
+  format?: TaskExportFormat;
+  data?: string; // Serialized tasks for tasks/export
 }
 
 /**
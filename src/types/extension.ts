@@ -65,6 +65,7 @@ export enum ErrorCode {
   INVALID_REQUEST = "INVALID_REQUEST",
   TIMEOUT = "TIMEOUT",
   INTERNAL_ERROR = "INTERNAL_ERROR",
+  CANCELLED = "CANCELLED",
 }
 
 /**
@@ -117,7 +118,7 @@ export interface JSONRPCResponse {
   jsonrpc: "2.0";
   result?: any;
   error?: JSONRPCError;
-  id: string | number;
+  id: string | number | null;
 }
 
 export interface JSONRPCError {
@@ -126,12 +127,104 @@ export interface JSONRPCError {
   data?: any;
 }
 
+/**
+ * JSON-RPC 2.0 error codes, plus server-defined codes in the -32000 range
+ */
+export enum JSONRPCErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  TASK_NOT_FOUND = -32001,
+  TASK_SOURCE_UNAVAILABLE = -32002,
+  TASK_CONFLICT = -32003,
+  RESOURCE_NOT_FOUND = -32004,
+  SERVER_BUSY = -32005,
+  REQUEST_TIMEOUT = -32006,
+  REQUEST_CANCELLED = -32800, // Not sent to clients; the response is dropped
+}
+
 export interface JSONRPCNotification {
   jsonrpc: "2.0";
   method: string;
   params?: any;
 }
 
+// ============================================================================
+// MCP Lifecycle Types
+// ============================================================================
+
+/**
+ * Latest MCP protocol revision spoken by the server and clients
+ */
+export const MCP_PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * Protocol revisions accepted during initialize negotiation, newest first
+ */
+export const SUPPORTED_MCP_PROTOCOL_VERSIONS: readonly string[] = [
+  MCP_PROTOCOL_VERSION,
+  "2025-03-26",
+  "2024-11-05",
+];
+
+/**
+ * HTTP header carrying the session ID assigned on initialize
+ */
+export const MCP_SESSION_HEADER = "mcp-session-id";
+
+export interface MCPImplementationInfo {
+  name: string;
+  version: string;
+}
+
+/**
+ * MCP resource descriptor returned by resources/list
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP resource template returned by resources/templates/list
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  experimental?: Record<string, any>;
+}
+
+/**
+ * Params of the initialize request sent by the client
+ */
+export interface MCPInitializeParams {
+  protocolVersion: string;
+  capabilities: Record<string, any>;
+  clientInfo: MCPImplementationInfo;
+}
+
+/**
+ * Result of the initialize request returned by the server
+ */
+export interface MCPInitializeResult {
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+  serverInfo: MCPImplementationInfo;
+  instructions?: string;
+}
+
 /**
  * MCP Tool Call Request Format
  */
@@ -9,3 +9,6 @@ export * from "./extension";
 
 // Task-related types
 export * from "./tasks";
+
+// Sprint context types
+export * from "./sprint";
@@ -0,0 +1,44 @@
+/**
+ * Sprint context types
+ * Shared by the .aidm/sprint.json store, its MCP tools and HybridMCPClient
+ */
+
+export interface SprintInfo {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  teamMembers: string[];
+  currentStories: string[]; // Story IDs
+}
+
+export interface StoryContext {
+  id: string;
+  title: string;
+  description: string;
+  acceptanceCriteria: string[];
+  businessValue: string;
+  priority: string;
+  status: string;
+}
+
+export interface CodingPattern {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  examples: string[];
+  teamAdoption: number; // Share of the team following it, 0 to 1
+}
+
+/**
+ * Contents of .aidm/sprint.json; dates are ISO 8601 strings
+ */
+export interface SprintFile {
+  sprint: Omit<SprintInfo, "startDate" | "endDate"> & {
+    startDate: string;
+    endDate: string;
+  };
+  stories: StoryContext[];
+  teamPatterns: CodingPattern[];
+}
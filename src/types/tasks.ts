@@ -59,6 +59,11 @@ export interface Task {
   subtasks?: Subtask[]; // Updated: matches JSON "subtasks" field structure
   notes?: string;
   dueDate?: string; // ISO date string
+  context?: string; // tasks.json context (tag) holding the task, e.g. "master"
+  workspaceFolder?: string; // Name of the workspace folder the task comes from
+  repository?: string; // Repository of that folder (git remote or folder name)
+  source?: TaskSource; // Source the task was loaded from; changes go back there
+  sourceConflicts?: TaskSourceConflict[]; // Other sources holding the ID with different values
   statusDisplayName?: string; // From STATUS_DISPLAY_NAMES mapping
   implementation?: TaskImplementation;
   testResults?: TaskTestResults;
@@ -181,7 +186,10 @@ export interface TaskErrorResponse {
     | "test_results"
     | "file_validation"
     | "api_fetch"
-    | "stream_connection";
+    | "stream_connection"
+    | "task_create"
+    | "task_update"
+    | "task_delete";
   suggestedAction?:
     | "retry"
     | "manual_update"
@@ -211,6 +219,47 @@ export interface TaskUpdateRequest {
   notes?: string;
 }
 
+export interface TaskCreateRequest {
+  title: string;
+  description: string;
+  status?: TaskStatus;
+  complexity?: TaskComplexity;
+  priority?: TaskPriority;
+  dependencies?: string[];
+  requirements?: string[];
+  assignee?: string;
+  estimatedHours?: number;
+  tags?: string[];
+  notes?: string;
+  dueDate?: string;
+  context?: string; // tasks.json context to create the task in
+  workspaceFolder?: string; // Workspace folder to create the task in; defaults to the first
+}
+
+/**
+ * Where a task is stored: aidm = .aidm/.tasks, file = the tasks.json file,
+ * api = the Task API (mirrored in .aidm/.tasks)
+ */
+export type TaskSource = "aidm" | "file" | "api";
+
+/**
+ * A lower-precedence source holding a task with the same ID
+ */
+export interface TaskSourceConflict {
+  source: TaskSource;
+  fields: string[]; // Fields whose values differ from the task shown
+}
+
+export interface TaskChangeEvent {
+  task: Task;
+  source: TaskSource;
+}
+
+export interface TaskDeletedEvent {
+  taskId: string;
+  source: TaskSource;
+}
+
 export interface TaskDependencyGraph {
   taskId: string;
   dependencies: string[];
@@ -5,6 +5,8 @@
 import * as vscode from "vscode";
 import { ConnectionStatus, StatusBarManager } from "../types/extension";
 import { MCPClient } from "../client/mcpClient";
+import type { MCPServerStats } from "../server/SimpleMCPServer";
+import type { ServerHealth } from "../server/ProcessManager";
 
 export class StatusBarManagerImpl implements StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
@@ -12,6 +14,8 @@ export class StatusBarManagerImpl implements StatusBarManager {
   private currentStatus: ConnectionStatus = ConnectionStatus.Disconnected;
   private healthCheckInterval?: NodeJS.Timeout;
   private initialHealthCheckTimeout?: NodeJS.Timeout;
+  private serverStatsProvider?: () => MCPServerStats | null;
+  private serverHealth?: ServerHealth;
 
   constructor(mcpClient: MCPClient) {
     this.mcpClient = mcpClient;
@@ -72,13 +76,32 @@ export class StatusBarManagerImpl implements StatusBarManager {
         this.statusBarItem.tooltip = "Enterprise AI Context: Connection error";
         break;
     }
+
+    const healthMessage = this.getServerHealthMessage();
+    if (healthMessage) {
+      this.statusBarItem.tooltip += `\n${healthMessage}`;
+    }
+  }
+
+  /**
+   * Record restart details from the process supervisor
+   */
+  updateServerHealth(health: ServerHealth): void {
+    this.serverHealth = health;
+    this.updateConnectionStatus(this.currentStatus);
   }
 
   /**
    * Show health metrics and connection details
    */
   showHealthMetrics(): void {
-    const statusMessage = this.getStatusMessage();
+    const statusMessage = [
+      this.getStatusMessage(),
+      this.getServerHealthMessage(),
+      this.getMetricsMessage(),
+    ]
+      .filter((part) => part.length > 0)
+      .join(" ");
     const actions = this.getStatusActions();
 
     vscode.window
@@ -95,6 +118,13 @@ export class StatusBarManagerImpl implements StatusBarManager {
       });
   }
 
+  /**
+   * Supply request metrics from the locally running server
+   */
+  setServerStatsProvider(provider: () => MCPServerStats | null): void {
+    this.serverStatsProvider = provider;
+  }
+
   /**
    * Handle status bar click
    */
@@ -148,11 +178,10 @@ export class StatusBarManagerImpl implements StatusBarManager {
 
     // Get current configuration
     const config = vscode.workspace.getConfiguration();
-    const port = config.get<number>("aidmVscodeExtension.mcpServer.port", 3001);
     const timeout = config.get<number>("aidmVscodeExtension.mcpServer.timeout", 5000);
 
-    // Update client configuration
-    this.mcpClient.updateConfig(port, timeout);
+    // Keep the client's port: the server may have fallen back to a free one
+    this.mcpClient.updateConfig(this.mcpClient.getPort(), timeout);
 
     // Check connection
     await this.checkConnection();
@@ -176,6 +205,60 @@ export class StatusBarManagerImpl implements StatusBarManager {
     }
   }
 
+  /**
+   * Describe server restarts and the last failure, empty while there were none
+   */
+  private getServerHealthMessage(): string {
+    const health = this.serverHealth;
+    if (!health || (health.restartCount === 0 && !health.lastFailure)) {
+      return "";
+    }
+
+    const parts: string[] = [];
+    if (health.state === "failed") {
+      parts.push("The MCP server stopped restarting after repeated failures.");
+    } else if (health.state === "restarting") {
+      parts.push("The MCP server is restarting.");
+    }
+    if (health.restartCount > 0) {
+      parts.push(
+        `Restarted ${health.restartCount} time${
+          health.restartCount === 1 ? "" : "s"
+        }.`
+      );
+    }
+    if (health.lastFailure) {
+      parts.push(`Last failure: ${health.lastFailure}.`);
+    }
+    return parts.join(" ");
+  }
+
+  /**
+   * Summarize server request counters and the busiest methods' latencies
+   */
+  private getMetricsMessage(): string {
+    const stats = this.serverStatsProvider?.();
+    if (!stats || !stats.isRunning) {
+      return "";
+    }
+
+    const parts = [
+      `Requests: ${stats.activeRequests}/${stats.maxConcurrentRequests} active, ` +
+        `${stats.queuedRequests} queued, ${stats.totalRequestsProcessed} handled, ` +
+        `${stats.rejectedRequests} rejected, ${stats.timedOutRequests} timed out.`,
+    ];
+    const latencies = stats.methods
+      .slice(0, 3)
+      .map(
+        (method) =>
+          `${method.method} p50 ${method.p50}ms / p95 ${method.p95}ms / p99 ${method.p99}ms`
+      );
+    if (latencies.length > 0) {
+      parts.push(`Latency: ${latencies.join("; ")}.`);
+    }
+    return parts.join(" ");
+  }
+
   /**
    * Get available actions based on current status
    */
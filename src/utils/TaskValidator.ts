@@ -37,6 +37,19 @@ export interface FailingTestValidationResult {
   requiredFieldsPresent: boolean;
 }
 
+/**
+ * Thrown when a created or updated task breaks the Task data contract
+ */
+export class TaskValidationError extends Error {
+  constructor(
+    public readonly taskId: string,
+    public readonly errors: string[]
+  ) {
+    super(`Invalid task ${taskId}: ${errors.join("; ")}`);
+    this.name = "TaskValidationError";
+  }
+}
+
 export class TaskValidator {
   /**
    * Validates a single Task object against the enhanced interface
@@ -0,0 +1,366 @@
+/**
+ * TrafficRecorder - Records MCP and Task API exchanges as fixtures and
+ * replays them in place of the live endpoints
+ *
+ * Fixtures live in .aidm/recordings/<channel>.json with credentials, tokens
+ * and email addresses redacted, so they can be attached to bug reports and
+ * loaded by jest tests.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import axios, {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from "axios";
+
+export type TrafficMode = "off" | "record" | "replay";
+
+/** mcp: JSON-RPC traffic of MCPClient; taskApi: HTTP traffic of TaskApiClient */
+export type TrafficChannel = "mcp" | "taskApi";
+
+export const RECORDINGS_DIR = path.join(".aidm", "recordings");
+
+export interface RecordedExchange {
+  request: {
+    method: string;
+    path: string; // Path and query, without the origin
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface RecordingFile {
+  version: 1;
+  channel: TrafficChannel;
+  recordedAt: string;
+  exchanges: RecordedExchange[];
+}
+
+/**
+ * Thrown in replay mode for requests no fixture answers
+ */
+export class ReplayMissError extends Error {
+  constructor(channel: TrafficChannel, method: string, requestPath: string) {
+    super(`No ${channel} recording for ${method} ${requestPath}`);
+    this.name = "ReplayMissError";
+  }
+}
+
+const REDACTED = "[REDACTED]";
+const REDACTED_EMAIL = "user@example.com";
+const SENSITIVE_KEY =
+  /token|secret|password|authorization|api[-_]?key|cookie/i;
+const EMAIL = /[A-Za-z0-9._%+-]+(?:@|%40)[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const BEARER = /Bearer\s+[A-Za-z0-9._~+/=-]+/g;
+// The only response headers clients read; the rest is noise in fixtures
+const RECORDED_HEADERS = ["content-type", "mcp-session-id"];
+
+/**
+ * Replace credentials, tokens and email addresses anywhere in a value
+ */
+export function redact(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value
+      .replace(BEARER, `Bearer ${REDACTED}`)
+      .replace(EMAIL, REDACTED_EMAIL);
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redact(item);
+    }
+    return result;
+  }
+  return value;
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== "string" || data === "") {
+    return data === "" ? undefined : data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function toRequestPath(url: string): string {
+  const parsed = new URL(url);
+  return parsed.pathname + parsed.search;
+}
+
+export class TrafficRecorder {
+  private recordings: Map<TrafficChannel, RecordingFile> = new Map();
+  // Replay position per request key, so repeated requests get later answers
+  private replayCursors: Map<string, number> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    public readonly directory: string,
+    public readonly mode: TrafficMode
+  ) {}
+
+  static forWorkspace(
+    workspaceRoot: string,
+    mode: TrafficMode
+  ): TrafficRecorder {
+    return new TrafficRecorder(path.join(workspaceRoot, RECORDINGS_DIR), mode);
+  }
+
+  getRecordingPath(channel: TrafficChannel): string {
+    return path.join(this.directory, `${channel}.json`);
+  }
+
+  /**
+   * Store a redacted exchange; the first one of a session replaces the
+   * channel's previous recording
+   */
+  record(channel: TrafficChannel, exchange: RecordedExchange): Promise<void> {
+    let recording = this.recordings.get(channel);
+    if (!recording) {
+      recording = {
+        version: 1,
+        channel,
+        recordedAt: new Date().toISOString(),
+        exchanges: [],
+      };
+      this.recordings.set(channel, recording);
+    }
+    recording.exchanges.push(redact(exchange) as RecordedExchange);
+
+    const content = JSON.stringify(recording, null, 2) + "\n";
+    const filePath = this.getRecordingPath(channel);
+    this.writes = this.writes
+      .then(async () => {
+        await fs.promises.mkdir(this.directory, { recursive: true });
+        await fs.promises.writeFile(filePath, content);
+      })
+      .catch((error) => {
+        console.error(
+          `[TrafficRecorder] Failed to write ${filePath}:`,
+          error
+        );
+      });
+    return this.writes;
+  }
+
+  /**
+   * Recorded response for a request, matched on method, path and body
+   * JSON-RPC IDs are ignored for matching and rewritten in the response
+   * @throws ReplayMissError when no exchange matches
+   */
+  replay(
+    channel: TrafficChannel,
+    request: RecordedExchange["request"]
+  ): RecordedExchange["response"] {
+    const key = this.createKey(channel, request);
+    const matches = this.loadRecording(channel).exchanges.filter(
+      (exchange) => this.createKey(channel, exchange.request) === key
+    );
+    if (matches.length === 0) {
+      throw new ReplayMissError(channel, request.method, request.path);
+    }
+
+    // Past the last match, keep answering with it
+    const cursor = this.replayCursors.get(key) ?? 0;
+    this.replayCursors.set(key, cursor + 1);
+    const response = matches[Math.min(cursor, matches.length - 1)].response;
+
+    const id = (request.body as any)?.id;
+    if (
+      id !== undefined &&
+      response.body &&
+      typeof response.body === "object"
+    ) {
+      return { ...response, body: { ...(response.body as object), id } };
+    }
+    return response;
+  }
+
+  /**
+   * Axios adapter that records or replays around the default adapter
+   */
+  createAxiosAdapter(channel: TrafficChannel): AxiosAdapter {
+    const defaultAdapter = axios.getAdapter(axios.defaults.adapter);
+
+    return async (config: InternalAxiosRequestConfig) => {
+      const request = {
+        method: (config.method || "get").toUpperCase(),
+        path: toRequestPath(axios.getUri(config)),
+        body: parseBody(config.data),
+      };
+
+      if (this.mode === "replay") {
+        const recorded = this.replay(channel, request);
+        const response: AxiosResponse = {
+          data: recorded.body,
+          status: recorded.status,
+          statusText: recorded.statusText,
+          headers: recorded.headers,
+          config,
+        };
+        const validateStatus = config.validateStatus;
+        if (!validateStatus || validateStatus(response.status)) {
+          return response;
+        }
+        throw new AxiosError(
+          `Request failed with status code ${response.status}`,
+          response.status >= 500
+            ? AxiosError.ERR_BAD_RESPONSE
+            : AxiosError.ERR_BAD_REQUEST,
+          config,
+          null,
+          response
+        );
+      }
+
+      let response: AxiosResponse;
+      try {
+        response = await defaultAdapter(config);
+      } catch (error) {
+        if (
+          this.mode === "record" &&
+          axios.isAxiosError(error) &&
+          error.response
+        ) {
+          await this.recordAxiosResponse(channel, request, error.response);
+        }
+        throw error;
+      }
+      if (this.mode === "record") {
+        await this.recordAxiosResponse(channel, request, response);
+      }
+      return response;
+    };
+  }
+
+  /**
+   * fetch that records or replays around fetchImpl, the global fetch by default
+   */
+  wrapFetch(
+    channel: TrafficChannel,
+    fetchImpl?: typeof fetch
+  ): typeof fetch {
+    return async (input, init) => {
+      const url =
+        typeof input === "string"
+          ? input
+          : input instanceof URL
+            ? input.href
+            : input.url;
+      const request = {
+        method: (init?.method || "GET").toUpperCase(),
+        path: toRequestPath(url),
+        body: parseBody(init?.body ?? undefined),
+      };
+
+      if (this.mode === "replay") {
+        const recorded = this.replay(channel, request);
+        const body =
+          recorded.body === undefined
+            ? null
+            : typeof recorded.body === "string"
+              ? recorded.body
+              : JSON.stringify(recorded.body);
+        return new Response(body, {
+          status: recorded.status,
+          statusText: recorded.statusText,
+          headers: recorded.headers,
+        });
+      }
+
+      const response = await (fetchImpl ?? fetch)(input, init);
+      if (this.mode === "record") {
+        const text = await response.clone().text();
+        await this.record(channel, {
+          request,
+          response: {
+            status: response.status,
+            statusText: response.statusText,
+            headers: this.pickHeaders((name) => response.headers.get(name)),
+            body: parseBody(text),
+          },
+        });
+      }
+      return response;
+    };
+  }
+
+  private recordAxiosResponse(
+    channel: TrafficChannel,
+    request: RecordedExchange["request"],
+    response: AxiosResponse
+  ): Promise<void> {
+    return this.record(channel, {
+      request,
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        headers: this.pickHeaders((name) => response.headers?.[name]),
+        body: parseBody(response.data),
+      },
+    });
+  }
+
+  private pickHeaders(
+    get: (name: string) => unknown
+  ): Record<string, string> {
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = get(name);
+      if (typeof value === "string") {
+        headers[name] = value;
+      }
+    }
+    return headers;
+  }
+
+  private loadRecording(channel: TrafficChannel): RecordingFile {
+    let recording = this.recordings.get(channel);
+    if (!recording) {
+      const filePath = this.getRecordingPath(channel);
+      try {
+        recording = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      } catch (error) {
+        throw new Error(
+          `Cannot replay ${channel}: failed to read ${filePath}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      this.recordings.set(channel, recording!);
+    }
+    return recording!;
+  }
+
+  /**
+   * Requests are compared in redacted form, as they were stored
+   */
+  private createKey(
+    channel: TrafficChannel,
+    request: RecordedExchange["request"]
+  ): string {
+    let body = request.body;
+    if (channel === "mcp" && body && typeof body === "object") {
+      const { id: _id, ...rest } = body as Record<string, unknown>;
+      body = rest;
+    }
+    return JSON.stringify([
+      request.method,
+      redact(request.path),
+      redact(body),
+    ]);
+  }
+}
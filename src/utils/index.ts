@@ -6,8 +6,19 @@
  * - Logger, LogLevel: Structured logging with configurable levels
  * - ConfigLoader: Configuration loading and validation (class with static methods)
  * - TaskValidator: Task data validation and sanitization
+ * - TrafficRecorder: Record and replay of MCP and Task API traffic
  */
 export { ErrorHandler } from "./errorHandler";
 export { Logger, LogLevel, LoggerFactory, log } from "./logger";
 export { ConfigLoader } from "./configLoader";
-export { TaskValidator } from "./TaskValidator";
+export { TaskValidator, TaskValidationError } from "./TaskValidator";
+export {
+  TrafficRecorder,
+  TrafficMode,
+  TrafficChannel,
+  RecordedExchange,
+  RecordingFile,
+  ReplayMissError,
+  RECORDINGS_DIR,
+  redact,
+} from "./TrafficRecorder";
@@ -4,11 +4,15 @@ module.exports = {
   target: 'node', // VSCode extensions run in a Node.js-context
   mode: process.env.NODE_ENV === 'production' ? 'production' : 'none',
 
-  entry: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
+  entry: {
+    extension: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
+    'mcp-server': './src/server/standalone.ts', // standalone stdio MCP server, runs without VS Code
+    'mcp-server-host': './src/server/serverHostProcess.ts' // child process ProcessManager runs the MCP server in
+  },
   output: {
     // the bundle is stored in the 'out' folder to match package.json main field
     path: path.resolve(__dirname, 'out'),
-    filename: 'extension.js',
+    filename: '[name].js',
     libraryTarget: 'commonjs2',
     devtoolModuleFilenameTemplate: '../[resource-path]'
   },